@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { noteActivitySelect, parseActivityLimit } from "@/lib/activity";
+import { getBoardRole } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
+
+// Get the activity history of every note on a board, newest first
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const boardId = (await params).id;
+    const limit = parseActivityLimit(request.nextUrl.searchParams.get("limit"));
+    const cursor = request.nextUrl.searchParams.get("cursor");
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const board = await db.board.findUnique({
+      where: { id: boardId },
+      select: { id: true, organizationId: true, createdBy: true },
+    });
+
+    if (!board) {
+      return NextResponse.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    if (!(await getBoardRole(user, board))) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const activities = await db.noteActivity.findMany({
+      where: { boardId },
+      select: noteActivitySelect,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = activities.length > limit;
+    const page = hasMore ? activities.slice(0, limit) : activities;
+
+    return NextResponse.json({
+      activities: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error("Error fetching board activity:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { getBoardRole } from "@/lib/board-access";
+import { hasBoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+import { publishBoardEvent } from "@/lib/realtime";
+import { noteInclude } from "@/lib/note-access";
+import { mergeItemOrder } from "@/lib/checklist";
+
+// Set the notes of a Kanban column and their order. Notes listed from other columns move into
+// this one. Arranging cards is part of organizing the board, so every editor can do it, not
+// only the note's author.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; columnId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, columnId } = await params;
+    const { noteIds } = await request.json();
+
+    if (!Array.isArray(noteIds) || noteIds.some((id) => typeof id !== "string")) {
+      return NextResponse.json({ error: "noteIds must be an array of strings" }, { status: 400 });
+    }
+    if (new Set(noteIds).size !== noteIds.length) {
+      return NextResponse.json({ error: "Duplicate note IDs found" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const column = await db.boardColumn.findUnique({
+      where: { id: columnId },
+      include: { board: true },
+    });
+
+    if (!column || column.boardId !== boardId) {
+      return NextResponse.json({ error: "Column not found" }, { status: 404 });
+    }
+
+    const role = await getBoardRole(user, column.board);
+    if (!hasBoardRole(role, "EDITOR")) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const notes = await db.note.findMany({
+      where: {
+        boardId,
+        deletedAt: null,
+        OR: [{ id: { in: noteIds } }, { columnId }],
+      },
+      select: { id: true, columnId: true, columnOrder: true },
+    });
+
+    if (noteIds.some((id: string) => !notes.some((note) => note.id === id))) {
+      return NextResponse.json(
+        { error: "noteIds contains notes that do not belong to this board" },
+        { status: 400 }
+      );
+    }
+
+    // Notes of the column that weren't listed, for example because they weren't loaded yet,
+    // keep their relative order after the listed ones
+    const columnNoteIds = notes
+      .filter((note) => note.columnId === columnId)
+      .sort((a, b) => a.columnOrder - b.columnOrder)
+      .map((note) => note.id);
+    const orderedIds = mergeItemOrder(columnNoteIds, noteIds);
+
+    const changedIds = orderedIds.filter((id, index) => {
+      const note = notes.find((n) => n.id === id);
+      return note?.columnId !== columnId || note.columnOrder !== index;
+    });
+
+    // Positions aren't part of the note's content, so moves don't bump the note version and
+    // never conflict with someone editing the note
+    const updatedNotes = await db.$transaction(async (tx) => {
+      for (const id of changedIds) {
+        await tx.note.update({
+          where: { id },
+          data: { columnId, columnOrder: orderedIds.indexOf(id) },
+        });
+      }
+
+      return tx.note.findMany({
+        where: { id: { in: changedIds } },
+        include: noteInclude,
+      });
+    });
+
+    for (const note of updatedNotes) {
+      await publishBoardEvent(column.board.organizationId, { type: "note.updated", boardId, note });
+    }
+
+    return NextResponse.json({ notes: updatedNotes });
+  } catch (error) {
+    console.error("Error moving notes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import {
+  getLatestBoardEventId,
+  hasMissedBoardEvents,
+  subscribeToBoardEvents,
+} from "@/lib/realtime";
+import { isOrganizationWideBoard } from "@/lib/board-events";
+import { accessibleBoardsWhere, getBoardRole } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL = 25000;
+
+// Stream note and checklist events for a board (or the all-notes/archive/trash/my-tasks views) as Server-Sent Events
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    const boardId = (await params).id;
+
+    let organizationId: string;
+    // Guests and board-limited API tokens only receive organization-wide events for their boards
+    let visibleBoardIds: Set<string> | null = null;
+
+    if (isOrganizationWideBoard(boardId)) {
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const user = await getActiveMember(session);
+
+      if (!user) {
+        return NextResponse.json({ error: "No organization found" }, { status: 403 });
+      }
+
+      organizationId = user.organizationId;
+
+      if ((user.isGuest && !user.isAdmin) || user.apiToken?.boardIds.length) {
+        const boards = await db.board.findMany({
+          where: accessibleBoardsWhere(user),
+          select: { id: true },
+        });
+        visibleBoardIds = new Set(boards.map((b) => b.id));
+      }
+    } else {
+      const board = await db.board.findUnique({
+        where: { id: boardId },
+        select: { id: true, isPublic: true, organizationId: true, createdBy: true },
+      });
+
+      if (!board) {
+        return NextResponse.json({ error: "Board not found" }, { status: 404 });
+      }
+
+      if (!board.isPublic) {
+        if (!session?.user?.id) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const user = await getActiveMember(session);
+
+        if (!user) {
+          return NextResponse.json({ error: "No organization found" }, { status: 403 });
+        }
+
+        if (!(await getBoardRole(user, board))) {
+          return NextResponse.json({ error: "Access denied" }, { status: 403 });
+        }
+      }
+
+      organizationId = board.organizationId;
+    }
+
+    // Reconnecting clients resume after the last event they received. When some of the events
+    // they missed were already pruned, they get a reset event and reload the board instead.
+    const lastEventId = Number(request.headers.get("last-event-id"));
+    const resuming = Number.isInteger(lastEventId) && lastEventId > 0;
+    const reset = resuming && (await hasMissedBoardEvents(organizationId, lastEventId));
+    const afterId = resuming && !reset ? lastEventId : await getLatestBoardEventId(organizationId);
+
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup?.();
+          }
+        };
+
+        const unsubscribe = subscribeToBoardEvents(organizationId, afterId, (event) => {
+          const eventBoardIds = [event.boardId, event.fromBoardId].filter(Boolean) as string[];
+          if (visibleBoardIds && !eventBoardIds.some((id) => visibleBoardIds!.has(id))) {
+            return;
+          }
+          if (isOrganizationWideBoard(boardId) || eventBoardIds.includes(boardId)) {
+            send(`id: ${event.id}\ndata: ${event.data}\n\n`);
+          } else {
+            // Without data the client ignores the event, but still resumes after it
+            send(`id: ${event.id}\n\n`);
+          }
+        });
+        const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          cleanup = undefined;
+          try {
+            controller.close();
+          } catch {
+            // Stream already closed
+          }
+        };
+
+        request.signal.addEventListener("abort", () => cleanup?.());
+        send("retry: 3000\n\n");
+        if (reset) {
+          send(`id: ${afterId}\nevent: reset\ndata: {}\n\n`);
+        }
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error subscribing to board events:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
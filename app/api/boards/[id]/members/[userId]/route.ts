@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { getBoardRole } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
+
+// Remove a user's explicit membership; they fall back to their organization-wide access
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, userId } = await params;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const board = await db.board.findUnique({
+      where: { id: boardId },
+      select: { id: true, organizationId: true, createdBy: true },
+    });
+
+    if (!board) {
+      return NextResponse.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    if ((await getBoardRole(user, board)) !== "OWNER") {
+      return NextResponse.json(
+        { error: "Only board owners can manage board members" },
+        { status: 403 }
+      );
+    }
+
+    const { count } = await db.boardMember.deleteMany({ where: { boardId, userId } });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing board member:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { boardMemberSelect, getBoardRole } from "@/lib/board-access";
+import { isBoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+
+// List the explicit members of a board
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const boardId = (await params).id;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const board = await db.board.findUnique({
+      where: { id: boardId },
+      select: { id: true, organizationId: true, createdBy: true },
+    });
+
+    if (!board) {
+      return NextResponse.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    if (!(await getBoardRole(user, board))) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const members = await db.boardMember.findMany({
+      where: { boardId },
+      select: boardMemberSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ members });
+  } catch (error) {
+    console.error("Error fetching board members:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Add an organization member to a board, or change the role they already have
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const boardId = (await params).id;
+    const { userId, role } = await request.json();
+
+    if (!userId || typeof userId !== "string") {
+      return NextResponse.json({ error: "User ID is required" }, { status: 400 });
+    }
+
+    if (!isBoardRole(role)) {
+      return NextResponse.json({ error: "Invalid board role" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const board = await db.board.findUnique({
+      where: { id: boardId },
+      select: { id: true, organizationId: true, createdBy: true },
+    });
+
+    if (!board) {
+      return NextResponse.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    if ((await getBoardRole(user, board)) !== "OWNER") {
+      return NextResponse.json(
+        { error: "Only board owners can manage board members" },
+        { status: 403 }
+      );
+    }
+
+    const member = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId: board.organizationId, userId } },
+      select: { id: true },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not in your organization" }, { status: 400 });
+    }
+
+    const membership = await db.boardMember.upsert({
+      where: { boardId_userId: { boardId, userId } },
+      create: { boardId, userId, role },
+      update: { role },
+      select: boardMemberSelect,
+    });
+
+    return NextResponse.json({ member: membership });
+  } catch (error) {
+    console.error("Error adding board member:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
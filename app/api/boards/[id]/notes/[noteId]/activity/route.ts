@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { noteActivitySelect, parseActivityLimit } from "@/lib/activity";
+import { getBoardRole } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
+
+// Get the activity history of a note, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, noteId } = await params;
+    const limit = parseActivityLimit(request.nextUrl.searchParams.get("limit"));
+    const cursor = request.nextUrl.searchParams.get("cursor");
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const note = await db.note.findUnique({
+      where: { id: noteId },
+      select: {
+        boardId: true,
+        board: { select: { id: true, organizationId: true, createdBy: true } },
+      },
+    });
+
+    if (!note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    if (note.boardId !== boardId || !(await getBoardRole(user, note.board))) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const activities = await db.noteActivity.findMany({
+      where: { noteId },
+      select: noteActivitySelect,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = activities.length > limit;
+    const page = hasMore ? activities.slice(0, limit) : activities;
+
+    return NextResponse.json({
+      activities: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error("Error fetching note activity:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,362 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import {
+  sendMentionNotifications,
+  sendTodoNotification,
+  shouldSendNotification,
+} from "@/lib/slack-outbox";
+import { publishBoardEvent } from "@/lib/realtime";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import { formatETag } from "@/lib/concurrency";
+import { getEditableNote, noteInclude } from "@/lib/note-access";
+import {
+  getCompletionChanges,
+  getDescendantIds,
+  moveItemId,
+  normalizeChecklistTree,
+  removeChecklistItem,
+  setChecklistItemChecked,
+} from "@/lib/checklist";
+import { buildChecklistActivities, recordNoteActivity } from "@/lib/activity";
+import { areOrganizationMembers } from "@/lib/organization";
+import { parseTaskDetails } from "@/lib/tasks";
+import { sanitizeChecklistContent } from "@/lib/markdown";
+import { getAddedMentionIds, getChecklistMentions } from "@/lib/mentions";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
+
+// Update a single checklist item
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string; itemId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, noteId, itemId } = await params;
+    const body = await request.json();
+    const { content: rawContent, checked, order } = body;
+
+    if (rawContent !== undefined && typeof rawContent !== "string") {
+      return NextResponse.json({ error: "content must be a string" }, { status: 400 });
+    }
+    if (checked !== undefined && typeof checked !== "boolean") {
+      return NextResponse.json({ error: "checked must be a boolean" }, { status: 400 });
+    }
+    if (order !== undefined && (!Number.isInteger(order) || order < 0)) {
+      return NextResponse.json({ error: "order must be a non-negative integer" }, { status: 400 });
+    }
+    const parsed = parseTaskDetails(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { assigneeId, dueDate } = parsed.details;
+    const content = rawContent === undefined ? undefined : sanitizeChecklistContent(rawContent);
+
+    const access = await getEditableNote(session, boardId, noteId);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { user, note } = access;
+
+    const previous = note.checklistItems.find((i) => i.id === itemId);
+    if (!previous) {
+      return NextResponse.json({ error: "Checklist item not found" }, { status: 404 });
+    }
+
+    if (
+      assigneeId &&
+      assigneeId !== previous.assigneeId &&
+      !(await areOrganizationMembers(user.organization.id, [assigneeId]))
+    ) {
+      return NextResponse.json(
+        { error: "Checklist items can only be assigned to organization members" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      content !== undefined &&
+      !(await areOrganizationMembers(
+        user.organization.id,
+        getAddedMentionIds(content, previous.content)
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "Only organization members can be mentioned" },
+        { status: 400 }
+      );
+    }
+
+    const orderedIds =
+      order !== undefined && order !== previous.order
+        ? moveItemId(
+            note.checklistItems.map((i) => i.id),
+            itemId,
+            order
+          )
+        : null;
+    if (orderedIds) {
+      const reordered = orderedIds.map((id) => note.checklistItems.find((i) => i.id === id)!);
+      if (
+        normalizeChecklistTree(reordered).some(
+          (i, index) => i.parentId !== reordered[index].parentId
+        )
+      ) {
+        return NextResponse.json(
+          { error: "order must keep sub-tasks right after their parent" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Checking an item checks its sub-tasks and can complete or reopen its parents
+    const cascaded =
+      checked === undefined
+        ? []
+        : getCompletionChanges(
+            note.checklistItems,
+            setChecklistItemChecked(note.checklistItems, itemId, checked)
+          ).filter((i) => i.id !== itemId);
+
+    const { item, cascadedItems, updatedNote } = await db.$transaction(async (tx) => {
+      if (orderedIds) {
+        for (const [index, id] of orderedIds.entries()) {
+          if (note.checklistItems.find((i) => i.id === id)?.order !== index) {
+            await tx.checklistItem.update({ where: { id }, data: { order: index } });
+          }
+        }
+      }
+
+      const item = await tx.checklistItem.update({
+        where: { id: itemId },
+        data: {
+          ...(content !== undefined && { content }),
+          ...(checked !== undefined && { checked }),
+          ...(assigneeId !== undefined && { assigneeId }),
+          ...(dueDate !== undefined && { dueDate }),
+        },
+      });
+
+      const cascadedItems = [];
+      for (const change of cascaded) {
+        const updated = await tx.checklistItem.update({
+          where: { id: change.id },
+          data: { checked: change.checked },
+        });
+        cascadedItems.push({
+          ...updated,
+          previous: note.checklistItems.find((i) => i.id === change.id)!,
+        });
+      }
+
+      await recordNoteActivity(
+        tx,
+        note,
+        user.id,
+        buildChecklistActivities({
+          created: [],
+          updated: [
+            {
+              ...item,
+              previous: {
+                content: previous.content,
+                checked: previous.checked,
+                order: previous.order,
+              },
+            },
+            ...cascadedItems,
+          ],
+          deleted: [],
+        })
+      );
+      await createNotifications(
+        tx,
+        { organizationId: note.board.organizationId, noteId, actorId: user.id },
+        buildChecklistNotifications({
+          noteAuthorId: note.createdBy,
+          actorId: user.id,
+          created: [],
+          updated: [
+            {
+              ...item,
+              previous: {
+                content: previous.content,
+                checked: previous.checked,
+                assigneeId: previous.assigneeId,
+              },
+            },
+            ...cascadedItems,
+          ],
+          deleted: [],
+        })
+      );
+
+      const updatedNote = await tx.note.update({
+        where: { id: noteId },
+        data: { version: { increment: 1 } },
+        include: noteInclude,
+      });
+
+      return { item, cascadedItems, updatedNote };
+    });
+
+    const organizationId = note.board.organizationId;
+    for (const changed of [{ ...item, previous }, ...cascadedItems]) {
+      const { previous: before, ...changedItem } = changed;
+      await publishBoardEvent(organizationId, {
+        type: "checklist.updated",
+        boardId,
+        noteId,
+        item: changedItem,
+      });
+      if (!before.checked && changedItem.checked) {
+        await queueWebhookEvent(organizationId, "checklist.completed", {
+          boardId,
+          noteId,
+          item: changedItem,
+        });
+      }
+    }
+    await publishBoardEvent(organizationId, { type: "note.updated", boardId, note: updatedNote });
+
+    if (
+      user.organization?.slackWebhookUrl &&
+      !previous.checked &&
+      item.checked &&
+      (await shouldSendNotification(
+        session.user.id,
+        boardId,
+        note.board.name,
+        note.board.sendSlackUpdates
+      ))
+    ) {
+      await sendTodoNotification(
+        organizationId,
+        item.content,
+        note.board.name,
+        user.name || user.email || "Unknown User",
+        "completed"
+      );
+    }
+    if (user.organization?.slackWebhookUrl) {
+      await sendMentionNotifications(
+        organizationId,
+        getChecklistMentions({ created: [], updated: [{ ...item, previous }] }),
+        session.user.id,
+        note.board.name,
+        note.board.sendSlackUpdates,
+        user.name || user.email || "Unknown User"
+      );
+    }
+
+    return NextResponse.json(
+      { item, note: updatedNote },
+      { headers: { ETag: formatETag(updatedNote.version) } }
+    );
+  } catch (error) {
+    console.error("Error updating checklist item:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Delete a single checklist item
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string; itemId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, noteId, itemId } = await params;
+
+    const access = await getEditableNote(session, boardId, noteId);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { user, note } = access;
+
+    const item = note.checklistItems.find((i) => i.id === itemId);
+    if (!item) {
+      return NextResponse.json({ error: "Checklist item not found" }, { status: 404 });
+    }
+
+    // Sub-tasks go with their parent, and parents left with only checked sub-tasks are done
+    const deletedIds = [itemId, ...getDescendantIds(note.checklistItems, itemId)];
+    const deleted = note.checklistItems.filter((i) => deletedIds.includes(i.id));
+    const remaining = removeChecklistItem(note.checklistItems, itemId);
+    const completed = getCompletionChanges(note.checklistItems, remaining);
+
+    const updatedNote = await db.$transaction(async (tx) => {
+      await tx.checklistItem.deleteMany({ where: { id: { in: deletedIds } } });
+      const updated = [];
+      for (const change of completed) {
+        await tx.checklistItem.update({
+          where: { id: change.id },
+          data: { checked: change.checked },
+        });
+        updated.push({
+          ...change,
+          previous: note.checklistItems.find((i) => i.id === change.id)!,
+        });
+      }
+
+      await recordNoteActivity(
+        tx,
+        note,
+        user.id,
+        buildChecklistActivities({ created: [], updated, deleted })
+      );
+      await createNotifications(
+        tx,
+        { organizationId: note.board.organizationId, noteId, actorId: user.id },
+        buildChecklistNotifications({
+          noteAuthorId: note.createdBy,
+          actorId: user.id,
+          created: [],
+          updated,
+          deleted,
+        })
+      );
+
+      // Keep the remaining items contiguously ordered
+      for (const [index, i] of remaining.entries()) {
+        if (i.order !== index) {
+          await tx.checklistItem.update({ where: { id: i.id }, data: { order: index } });
+        }
+      }
+
+      return tx.note.update({
+        where: { id: noteId },
+        data: { version: { increment: 1 } },
+        include: noteInclude,
+      });
+    });
+
+    const organizationId = note.board.organizationId;
+    for (const id of deletedIds) {
+      await publishBoardEvent(organizationId, {
+        type: "checklist.deleted",
+        boardId,
+        noteId,
+        itemId: id,
+      });
+    }
+    await publishBoardEvent(organizationId, { type: "note.updated", boardId, note: updatedNote });
+
+    return NextResponse.json(
+      { success: true, note: updatedNote },
+      { headers: { ETag: formatETag(updatedNote.version) } }
+    );
+  } catch (error) {
+    console.error("Error deleting checklist item:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { publishBoardEvent } from "@/lib/realtime";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import { formatETag } from "@/lib/concurrency";
+import { getEditableNote, noteInclude } from "@/lib/note-access";
+import { mergeItemOrder, normalizeChecklistTree, syncParentCompletion } from "@/lib/checklist";
+import { buildChecklistActivities, recordNoteActivity } from "@/lib/activity";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
+
+// Reorder a note's checklist items. `parentIds` moves items under another parent, which is how
+// items are indented, outdented and dragged between sub-task lists.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, noteId } = await params;
+    const { itemIds, parentIds = {} } = await request.json();
+
+    if (!Array.isArray(itemIds) || itemIds.some((id) => typeof id !== "string")) {
+      return NextResponse.json({ error: "itemIds must be an array of strings" }, { status: 400 });
+    }
+    if (new Set(itemIds).size !== itemIds.length) {
+      return NextResponse.json({ error: "Duplicate checklist item IDs found" }, { status: 400 });
+    }
+    if (
+      typeof parentIds !== "object" ||
+      parentIds === null ||
+      Array.isArray(parentIds) ||
+      Object.values(parentIds).some((id) => id !== null && typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "parentIds must map item IDs to a parent ID or null" },
+        { status: 400 }
+      );
+    }
+
+    const access = await getEditableNote(session, boardId, noteId);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { user, note } = access;
+
+    const existingIds = note.checklistItems.map((i) => i.id);
+    if (
+      [...itemIds, ...Object.keys(parentIds)].some((id: string) => !existingIds.includes(id)) ||
+      Object.values(parentIds).some((id) => id !== null && !existingIds.includes(id as string))
+    ) {
+      return NextResponse.json(
+        { error: "itemIds contains items that do not belong to this note" },
+        { status: 400 }
+      );
+    }
+
+    // Sub-tasks that no longer fit under their parent move up, and parents are completed
+    // together with their sub-tasks
+    const items = syncParentCompletion(
+      normalizeChecklistTree(
+        mergeItemOrder(existingIds, itemIds).map((id) => {
+          const item = note.checklistItems.find((i) => i.id === id)!;
+          return id in parentIds ? { ...item, parentId: parentIds[id] as string | null } : item;
+        })
+      )
+    ).map((item, order) => ({ ...item, order }));
+
+    const changed = items.flatMap((item) => {
+      const previous = note.checklistItems.find((i) => i.id === item.id)!;
+      return previous.order !== item.order ||
+        previous.parentId !== item.parentId ||
+        previous.checked !== item.checked
+        ? [{ ...item, previous }]
+        : [];
+    });
+
+    const updatedNote = await db.$transaction(async (tx) => {
+      for (const item of changed) {
+        await tx.checklistItem.update({
+          where: { id: item.id },
+          data: { order: item.order, parentId: item.parentId, checked: item.checked },
+        });
+      }
+
+      await recordNoteActivity(
+        tx,
+        note,
+        user.id,
+        buildChecklistActivities({ created: [], updated: changed, deleted: [] })
+      );
+      await createNotifications(
+        tx,
+        { organizationId: note.board.organizationId, noteId, actorId: user.id },
+        buildChecklistNotifications({
+          noteAuthorId: note.createdBy,
+          actorId: user.id,
+          created: [],
+          updated: changed,
+          deleted: [],
+        })
+      );
+
+      return tx.note.update({
+        where: { id: noteId },
+        data: { version: { increment: 1 } },
+        include: noteInclude,
+      });
+    });
+
+    const organizationId = note.board.organizationId;
+    for (const { previous, ...item } of changed) {
+      await publishBoardEvent(organizationId, { type: "checklist.updated", boardId, noteId, item });
+      if (!previous.checked && item.checked) {
+        await queueWebhookEvent(organizationId, "checklist.completed", { boardId, noteId, item });
+      }
+    }
+    await publishBoardEvent(organizationId, { type: "note.updated", boardId, note: updatedNote });
+
+    return NextResponse.json(
+      { checklistItems: updatedNote.checklistItems, note: updatedNote },
+      { headers: { ETag: formatETag(updatedNote.version) } }
+    );
+  } catch (error) {
+    console.error("Error reordering checklist items:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
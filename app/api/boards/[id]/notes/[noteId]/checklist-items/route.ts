@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { hasValidContent } from "@/lib/slack";
+import {
+  sendMentionNotifications,
+  sendTodoNotification,
+  shouldSendNotification,
+} from "@/lib/slack-outbox";
+import { publishBoardEvent } from "@/lib/realtime";
+import { formatETag } from "@/lib/concurrency";
+import { getEditableNote, noteInclude } from "@/lib/note-access";
+import { buildChecklistActivities, recordNoteActivity } from "@/lib/activity";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import {
+  getCompletionChanges,
+  getDescendantIds,
+  normalizeChecklistTree,
+  syncParentCompletion,
+} from "@/lib/checklist";
+import { areOrganizationMembers } from "@/lib/organization";
+import { parseTaskDetails } from "@/lib/tasks";
+import { sanitizeChecklistContent } from "@/lib/markdown";
+import { extractMentionIds, getChecklistMentions } from "@/lib/mentions";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
+
+// Add a checklist item to a note
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, noteId } = await params;
+    const body = await request.json();
+    const { content: rawContent, checked, order, parentId } = body;
+
+    if (typeof rawContent !== "string") {
+      return NextResponse.json({ error: "content must be a string" }, { status: 400 });
+    }
+    if (checked !== undefined && typeof checked !== "boolean") {
+      return NextResponse.json({ error: "checked must be a boolean" }, { status: 400 });
+    }
+    if (order !== undefined && (!Number.isInteger(order) || order < 0)) {
+      return NextResponse.json({ error: "order must be a non-negative integer" }, { status: 400 });
+    }
+    if (parentId !== undefined && parentId !== null && typeof parentId !== "string") {
+      return NextResponse.json({ error: "parentId must be a string or null" }, { status: 400 });
+    }
+    const parsed = parseTaskDetails(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { assigneeId, dueDate } = parsed.details;
+    const content = sanitizeChecklistContent(rawContent);
+
+    const access = await getEditableNote(session, boardId, noteId);
+    if ("error" in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const { user, note } = access;
+
+    if (assigneeId && !(await areOrganizationMembers(user.organization.id, [assigneeId]))) {
+      return NextResponse.json(
+        { error: "Checklist items can only be assigned to organization members" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await areOrganizationMembers(user.organization.id, extractMentionIds(content)))) {
+      return NextResponse.json(
+        { error: "Only organization members can be mentioned" },
+        { status: 400 }
+      );
+    }
+
+    const parent = parentId ? note.checklistItems.find((i) => i.id === parentId) : undefined;
+    if (parentId && !parent) {
+      return NextResponse.json({ error: "Parent checklist item not found" }, { status: 400 });
+    }
+
+    // Sub-tasks go after their parent's existing sub-tasks unless an order is given
+    const defaultPosition = parent
+      ? note.checklistItems.indexOf(parent) +
+        1 +
+        getDescendantIds(note.checklistItems, parent.id).length
+      : note.checklistItems.length;
+    const position = Math.min(order ?? defaultPosition, note.checklistItems.length);
+
+    const newItem = { id: "", parentId: parent?.id ?? null, checked: checked ?? false };
+    const withNewItem = [
+      ...note.checklistItems.slice(0, position),
+      newItem,
+      ...note.checklistItems.slice(position),
+    ];
+    if (
+      normalizeChecklistTree(withNewItem).some(
+        (item, index) => item.parentId !== withNewItem[index].parentId
+      )
+    ) {
+      return NextResponse.json(
+        { error: "order must keep sub-tasks right after their parent" },
+        { status: 400 }
+      );
+    }
+    // Adding an open sub-task reopens its parents
+    const completionChanges = getCompletionChanges(
+      withNewItem,
+      syncParentCompletion(withNewItem)
+    ).filter((i) => i !== newItem);
+
+    const { item, completed, updatedNote } = await db.$transaction(async (tx) => {
+      await tx.checklistItem.updateMany({
+        where: { noteId, order: { gte: position } },
+        data: { order: { increment: 1 } },
+      });
+
+      const item = await tx.checklistItem.create({
+        data: {
+          content,
+          checked: checked ?? false,
+          order: position,
+          assigneeId,
+          dueDate,
+          parentId: parent?.id,
+          noteId,
+        },
+      });
+
+      const completed = [];
+      for (const change of completionChanges) {
+        const previous = note.checklistItems.find((i) => i.id === change.id)!;
+        const updated = await tx.checklistItem.update({
+          where: { id: change.id },
+          data: { checked: change.checked },
+        });
+        completed.push({ ...updated, previous });
+      }
+
+      await recordNoteActivity(
+        tx,
+        note,
+        user.id,
+        buildChecklistActivities({ created: [item], updated: completed, deleted: [] })
+      );
+      await createNotifications(
+        tx,
+        { organizationId: note.board.organizationId, noteId, actorId: user.id },
+        buildChecklistNotifications({
+          noteAuthorId: note.createdBy,
+          actorId: user.id,
+          created: [item],
+          updated: completed,
+          deleted: [],
+        })
+      );
+
+      const updatedNote = await tx.note.update({
+        where: { id: noteId },
+        data: { version: { increment: 1 } },
+        include: noteInclude,
+      });
+
+      return { item, completed, updatedNote };
+    });
+
+    const organizationId = note.board.organizationId;
+    await publishBoardEvent(organizationId, { type: "checklist.created", boardId, noteId, item });
+    for (const { previous, ...parentItem } of completed) {
+      await publishBoardEvent(organizationId, {
+        type: "checklist.updated",
+        boardId,
+        noteId,
+        item: parentItem,
+      });
+      if (!previous.checked && parentItem.checked) {
+        await queueWebhookEvent(organizationId, "checklist.completed", {
+          boardId,
+          noteId,
+          item: parentItem,
+        });
+      }
+    }
+    await publishBoardEvent(organizationId, { type: "note.updated", boardId, note: updatedNote });
+
+    if (
+      user.organization?.slackWebhookUrl &&
+      hasValidContent(item.content) &&
+      (await shouldSendNotification(
+        session.user.id,
+        boardId,
+        note.board.name,
+        note.board.sendSlackUpdates
+      ))
+    ) {
+      await sendTodoNotification(
+        organizationId,
+        item.content,
+        note.board.name,
+        user.name || user.email || "Unknown User",
+        "added"
+      );
+    }
+    if (user.organization?.slackWebhookUrl) {
+      await sendMentionNotifications(
+        organizationId,
+        getChecklistMentions({ created: [item], updated: [] }),
+        session.user.id,
+        note.board.name,
+        note.board.sendSlackUpdates,
+        user.name || user.email || "Unknown User"
+      );
+    }
+
+    return NextResponse.json(
+      { item, note: updatedNote },
+      { status: 201, headers: { ETag: formatETag(updatedNote.version) } }
+    );
+  } catch (error) {
+    console.error("Error creating checklist item:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { getBoardRole } from "@/lib/board-access";
+import { hasBoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+import { publishBoardEvent } from "@/lib/realtime";
+import { noteInclude } from "@/lib/note-access";
+import { getPositionBetween, spreadPositions } from "@/lib/note-order";
+
+// Move a note on the board, right after `afterNoteId` or to the top when it is null. Like
+// arranging Kanban cards, every editor can reorder the board.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: boardId, noteId } = await params;
+    const { afterNoteId } = await request.json();
+
+    if (afterNoteId !== null && typeof afterNoteId !== "string") {
+      return NextResponse.json({ error: "afterNoteId must be a note id or null" }, { status: 400 });
+    }
+    if (afterNoteId === noteId) {
+      return NextResponse.json({ error: "A note can't be moved after itself" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const note = await db.note.findUnique({
+      where: { id: noteId },
+      include: { board: true },
+    });
+
+    if (!note || note.deletedAt) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    if (note.board.organizationId !== user.organizationId || note.boardId !== boardId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (!hasBoardRole(await getBoardRole(user, note.board), "EDITOR")) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const boardNotesWhere = { boardId, deletedAt: null, archivedAt: null, id: { not: noteId } };
+
+    const after = afterNoteId
+      ? await db.note.findFirst({ where: { ...boardNotesWhere, id: afterNoteId } })
+      : null;
+    if (afterNoteId && !after) {
+      return NextResponse.json(
+        { error: "afterNoteId must be a note on this board" },
+        { status: 400 }
+      );
+    }
+
+    const next = await db.note.findFirst({
+      where: { ...boardNotesWhere, ...(after && { position: { gt: after.position } }) },
+      orderBy: { position: "asc" },
+    });
+
+    const position = getPositionBetween(after?.position ?? null, next?.position ?? null);
+
+    const changedIds = await db.$transaction(async (tx) => {
+      if (position !== null) {
+        await tx.note.update({ where: { id: noteId }, data: { position } });
+        return [noteId];
+      }
+
+      // The neighbours are too close to fit another note in between, so spread the whole
+      // board out again with the note in its new place
+      const boardNotes = await tx.note.findMany({
+        where: boardNotesWhere,
+        orderBy: [{ position: "asc" }, { createdAt: "desc" }],
+        select: { id: true, position: true },
+      });
+      const afterIndex = boardNotes.findIndex((n) => n.id === afterNoteId);
+      boardNotes.splice(afterIndex + 1, 0, { id: noteId, position: note.position });
+
+      const positions = spreadPositions(boardNotes.length);
+      const changed = boardNotes.filter((n, index) => n.position !== positions[index]);
+      for (const n of changed) {
+        await tx.note.update({
+          where: { id: n.id },
+          data: { position: positions[boardNotes.indexOf(n)] },
+        });
+      }
+      return changed.map((n) => n.id);
+    });
+
+    // Positions aren't part of the note's content, so moves don't bump the note version
+    const updatedNotes = await db.note.findMany({
+      where: { id: { in: changedIds } },
+      include: noteInclude,
+    });
+
+    for (const updatedNote of updatedNotes) {
+      await publishBoardEvent(note.board.organizationId, {
+        type: "note.updated",
+        boardId,
+        note: updatedNote,
+      });
+    }
+
+    return NextResponse.json({ notes: updatedNotes });
+  } catch (error) {
+    console.error("Error moving note:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
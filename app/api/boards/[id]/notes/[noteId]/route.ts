@@ -1,12 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { hasValidContent } from "@/lib/slack";
 import {
   updateSlackMessage,
+  sendMentionNotifications,
   sendTodoNotification,
-  hasValidContent,
   shouldSendNotification,
-} from "@/lib/slack";
+} from "@/lib/slack-outbox";
+import { publishBoardEvent } from "@/lib/realtime";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import { formatETag, parseIfMatch } from "@/lib/concurrency";
+import { noteInclude } from "@/lib/note-access";
+import { getBoardRole } from "@/lib/board-access";
+import { canEditNote } from "@/lib/board-roles";
+import { areOrganizationLabels, areOrganizationMembers, getActiveMember } from "@/lib/organization";
+import { parseLabelIds } from "@/lib/labels";
+import { parseTaskDetails, type TaskDetails } from "@/lib/tasks";
+import { sanitizeChecklistContent } from "@/lib/markdown";
+import { normalizeChecklistTree, syncParentCompletion } from "@/lib/checklist";
+import { getAddedMentionIds, getChecklistMentions } from "@/lib/mentions";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
+import { getNoteSummary, parseNoteText } from "@/lib/note-text";
+import {
+  buildChecklistActivities,
+  buildNoteTextActivities,
+  recordNoteActivity,
+  type ChecklistChanges,
+} from "@/lib/activity";
 
 // Update a note
 export async function PUT(
@@ -14,32 +36,44 @@ export async function PUT(
   { params }: { params: Promise<{ id: string; noteId: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { color, archivedAt, checklistItems } = await request.json();
+    const body = await request.json();
+    const { color, archivedAt, checklistItems } = body;
     const { id: boardId, noteId } = await params;
 
+    const parsedText = parseNoteText(body);
+    if ("error" in parsedText) {
+      return NextResponse.json({ error: parsedText.error }, { status: 400 });
+    }
+    const noteText = parsedText.text;
+
+    const parsedLabels = parseLabelIds(body.labelIds);
+    if ("error" in parsedLabels) {
+      return NextResponse.json({ error: parsedLabels.error }, { status: 400 });
+    }
+    const { labelIds } = parsedLabels;
+
+    const expectedVersion = parseIfMatch(request.headers.get("if-match"));
+    if (expectedVersion === undefined) {
+      return NextResponse.json({ error: "Invalid If-Match header" }, { status: 400 });
+    }
+
     // Verify user has access to this board (same organization)
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: {
-        organization: {
-          select: {
-            id: true,
-            name: true,
-            slackWebhookUrl: true,
-          },
-        },
-      },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 403 });
     }
 
+    const organization = await db.organization.findUnique({
+      where: { id: user.organizationId },
+      select: { slackWebhookUrl: true },
+    });
+
     const note = await db.note.findUnique({
       where: { id: noteId },
       include: {
@@ -57,15 +91,31 @@ export async function PUT(
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
-    if (note.createdBy !== session.user.id && !user.isAdmin) {
+    const role = await getBoardRole(user, note.board);
+    if (!canEditNote(role, user.id, note.createdBy)) {
       return NextResponse.json(
-        { error: "Only the note author or admin can edit this note" },
+        { error: "Only the note author or board owner can edit this note" },
         { status: 403 }
       );
     }
 
+    if (labelIds && !(await areOrganizationLabels(user.organizationId, labelIds))) {
+      return NextResponse.json(
+        { error: "Notes can only be labeled with the organization's labels" },
+        { status: 400 }
+      );
+    }
+
     let sanitizedChecklistItems:
-      | Array<{ id: string; content: string; checked: boolean; order: number }>
+      | Array<
+          {
+            id: string;
+            content: string;
+            checked: boolean;
+            order: number;
+            parentId: string | null;
+          } & TaskDetails
+        >
       | undefined;
 
     if (checklistItems !== undefined) {
@@ -88,6 +138,13 @@ export async function PUT(
             { status: 400 }
           );
         }
+        if (
+          item.parentId !== undefined &&
+          item.parentId !== null &&
+          typeof item.parentId !== "string"
+        ) {
+          return NextResponse.json({ error: "parentId must be a string or null" }, { status: 400 });
+        }
       }
 
       const ids = checklistItems.map((i: { id: string }) => i.id);
@@ -96,26 +153,72 @@ export async function PUT(
         return NextResponse.json({ error: "Duplicate checklist item IDs found" }, { status: 400 });
       }
 
-      sanitizedChecklistItems = [...checklistItems]
-        .sort((a, b) => a.order - b.order)
-        .map((item, i) => ({ ...item, order: i }));
+      const items = [];
+      for (const item of checklistItems) {
+        const parsed = parseTaskDetails(item);
+        if ("error" in parsed) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+        const { id, content, checked, order, parentId } = item;
+        items.push({
+          id,
+          content: sanitizeChecklistContent(content),
+          checked,
+          order,
+          // Clients that don't know about sub-tasks leave items where they are
+          parentId:
+            parentId !== undefined
+              ? parentId
+              : (note.checklistItems.find((i) => i.id === id)?.parentId ?? null),
+          ...parsed.details,
+        });
+      }
+
+      // Only check assignees that change, items may still point at someone who left meanwhile
+      const newAssigneeIds = items.flatMap((item) => {
+        const previous = note.checklistItems.find((i) => i.id === item.id);
+        return item.assigneeId && item.assigneeId !== previous?.assigneeId ? [item.assigneeId] : [];
+      });
+      if (!(await areOrganizationMembers(user.organizationId, newAssigneeIds))) {
+        return NextResponse.json(
+          { error: "Checklist items can only be assigned to organization members" },
+          { status: 400 }
+        );
+      }
+
+      // Likewise only new mentions are checked
+      const newMentionIds = items.flatMap((item) =>
+        getAddedMentionIds(item.content, note.checklistItems.find((i) => i.id === item.id)?.content)
+      );
+      if (!(await areOrganizationMembers(user.organizationId, newMentionIds))) {
+        return NextResponse.json(
+          { error: "Only organization members can be mentioned" },
+          { status: 400 }
+        );
+      }
+
+      // Sub-tasks that no longer fit under their parent move up, and parents are completed
+      // together with their sub-tasks
+      sanitizedChecklistItems = syncParentCompletion(
+        normalizeChecklistTree(
+          items.sort((a, b) => a.order - b.order).map((item, i) => ({ ...item, order: i }))
+        )
+      );
     }
 
-    let checklistChanges:
-      | {
-          created: Array<{ id: string; content: string; checked: boolean; order: number }>;
-          updated: Array<{
-            id: string;
-            content: string;
-            checked: boolean;
-            order: number;
-            previous: { content: string; checked: boolean; order: number };
-          }>;
-          deleted: Array<{ id: string; content: string; checked: boolean; order: number }>;
-        }
-      | undefined;
+    let checklistChanges: ChecklistChanges | undefined;
+    const textActivities = buildNoteTextActivities(note, noteText);
 
     const updatedNote = await db.$transaction(async (tx) => {
+      // Claim the next version first so concurrent writers based on the same version conflict
+      const { count } = await tx.note.updateMany({
+        where: { id: noteId, ...(expectedVersion !== null && { version: expectedVersion }) },
+        data: { version: { increment: 1 } },
+      });
+      if (count === 0) {
+        return null;
+      }
+
       if (sanitizedChecklistItems !== undefined) {
         const existing = await tx.checklistItem.findMany({
           where: { noteId },
@@ -130,7 +233,12 @@ export async function PUT(
           const prev = existingMap.get(i.id);
           return (
             prev &&
-            (prev.content !== i.content || prev.checked !== i.checked || prev.order !== i.order)
+            (prev.content !== i.content ||
+              prev.checked !== i.checked ||
+              prev.order !== i.order ||
+              prev.parentId !== i.parentId ||
+              (i.assigneeId !== undefined && prev.assigneeId !== i.assigneeId) ||
+              (i.dueDate !== undefined && prev.dueDate?.getTime() !== i.dueDate?.getTime()))
           );
         });
         const toDelete = existing.filter((i) => !incomingMap.has(i.id));
@@ -145,6 +253,9 @@ export async function PUT(
               content: i.content,
               checked: i.checked,
               order: i.order,
+              assigneeId: i.assigneeId,
+              dueDate: i.dueDate,
+              parentId: i.parentId,
               noteId,
             })),
           });
@@ -152,7 +263,14 @@ export async function PUT(
         for (const i of toUpdate) {
           await tx.checklistItem.update({
             where: { id: i.id },
-            data: { content: i.content, checked: i.checked, order: i.order },
+            data: {
+              content: i.content,
+              checked: i.checked,
+              order: i.order,
+              parentId: i.parentId,
+              ...(i.assigneeId !== undefined && { assigneeId: i.assigneeId }),
+              ...(i.dueDate !== undefined && { dueDate: i.dueDate }),
+            },
           });
         }
 
@@ -164,63 +282,153 @@ export async function PUT(
               content: existingMap.get(i.id)!.content,
               checked: existingMap.get(i.id)!.checked,
               order: existingMap.get(i.id)!.order,
+              parentId: existingMap.get(i.id)!.parentId,
             },
           })),
           deleted: toDelete,
         };
+        await recordNoteActivity(tx, note, user.id, buildChecklistActivities(checklistChanges));
+        await createNotifications(
+          tx,
+          { organizationId: note.board.organizationId, noteId, actorId: user.id },
+          buildChecklistNotifications({
+            noteAuthorId: note.createdBy,
+            actorId: user.id,
+            created: toCreate,
+            updated: toUpdate.map((i) => {
+              const prev = existingMap.get(i.id)!;
+              return {
+                ...i,
+                assigneeId: i.assigneeId !== undefined ? i.assigneeId : prev.assigneeId,
+                previous: {
+                  content: prev.content,
+                  checked: prev.checked,
+                  assigneeId: prev.assigneeId,
+                },
+              };
+            }),
+            deleted: toDelete,
+            noteTextEdited: textActivities.length > 0,
+          })
+        );
+      } else if (textActivities.length > 0) {
+        await createNotifications(
+          tx,
+          { organizationId: note.board.organizationId, noteId, actorId: user.id },
+          buildChecklistNotifications({
+            noteAuthorId: note.createdBy,
+            actorId: user.id,
+            created: [],
+            updated: [],
+            deleted: [],
+            noteTextEdited: true,
+          })
+        );
+      }
+      await recordNoteActivity(tx, note, user.id, textActivities);
+
+      if (archivedAt !== undefined && (archivedAt !== null) !== (note.archivedAt !== null)) {
+        await recordNoteActivity(tx, note, user.id, [
+          { action: archivedAt !== null ? "ARCHIVED" : "RESTORED" },
+        ]);
       }
 
       return tx.note.update({
         where: { id: noteId },
         data: {
           ...(color !== undefined && { color }),
+          ...noteText,
+          ...(labelIds !== undefined && { labels: { set: labelIds.map((id) => ({ id })) } }),
           ...(archivedAt !== undefined && { archivedAt }),
         },
-        include: {
-          user: { select: { id: true, name: true, email: true, image: true } },
-          board: { select: { name: true, sendSlackUpdates: true } },
-          checklistItems: { orderBy: { order: "asc" } },
-        },
+        include: noteInclude,
+      });
+    });
+
+    if (!updatedNote) {
+      const currentNote = await db.note.findUnique({
+        where: { id: noteId },
+        include: noteInclude,
+      });
+      return NextResponse.json(
+        { error: "Note was modified by someone else", note: currentNote },
+        {
+          status: 409,
+          headers: currentNote ? { ETag: formatETag(currentNote.version) } : undefined,
+        }
+      );
+    }
+
+    const organizationId = note.board.organizationId;
+    const wasArchived = note.archivedAt !== null;
+    const isArchived = updatedNote.archivedAt !== null;
+
+    for (const item of checklistChanges?.created ?? []) {
+      await publishBoardEvent(organizationId, {
+        type: "checklist.created",
+        boardId,
+        noteId,
+        item: updatedNote.checklistItems.find((i) => i.id === item.id) ?? item,
+      });
+    }
+    for (const item of checklistChanges?.updated ?? []) {
+      const current = updatedNote.checklistItems.find((i) => i.id === item.id) ?? item;
+      await publishBoardEvent(organizationId, {
+        type: "checklist.updated",
+        boardId,
+        noteId,
+        item: current,
+      });
+      if (!item.previous.checked && item.checked) {
+        await queueWebhookEvent(organizationId, "checklist.completed", {
+          boardId,
+          noteId,
+          item: current,
+        });
+      }
+    }
+    for (const item of checklistChanges?.deleted ?? []) {
+      await publishBoardEvent(organizationId, {
+        type: "checklist.deleted",
+        boardId,
+        noteId,
+        itemId: item.id,
       });
+    }
+    await publishBoardEvent(organizationId, {
+      type:
+        wasArchived === isArchived
+          ? "note.updated"
+          : isArchived
+            ? "note.archived"
+            : "note.unarchived",
+      boardId,
+      note: updatedNote,
     });
 
-    if (archivedAt !== undefined && user.organization?.slackWebhookUrl && note.slackMessageId) {
+    if (archivedAt !== undefined && organization?.slackWebhookUrl && note.slackMessageId) {
       const userName = note.user?.name || note.user?.email || "Unknown User";
       const boardName = note.board.name;
       const isArchived = archivedAt !== null;
-      // Get content from first checklist item for Slack message
-      const noteContent =
-        note.checklistItems && note.checklistItems.length > 0 ? note.checklistItems[0].content : "";
-      await updateSlackMessage(
-        user.organization.slackWebhookUrl,
-        noteContent,
-        isArchived,
-        boardName,
-        userName
-      );
+      const noteContent = getNoteSummary(note) ?? "";
+      await updateSlackMessage(organizationId, noteContent, isArchived, boardName, userName);
     }
 
-    if (user.organization?.slackWebhookUrl && checklistChanges) {
+    if (organization?.slackWebhookUrl && checklistChanges) {
       const boardName = updatedNote.board.name;
-      const userName = user.name || user.email || "Unknown User";
+      const userName = session.user.name || session.user.email || "Unknown User";
 
       for (const item of checklistChanges.created) {
         if (
           hasValidContent(item.content) &&
-          shouldSendNotification(
+          (await shouldSendNotification(
             session.user.id,
             boardId,
             boardName,
             updatedNote.board.sendSlackUpdates
-          )
+          ))
         ) {
-          await sendTodoNotification(
-            user.organization.slackWebhookUrl,
-            item.content,
-            boardName,
-            userName,
-            "added"
-          );
+          await sendTodoNotification(organizationId, item.content, boardName, userName, "added");
         }
       }
 
@@ -228,25 +436,31 @@ export async function PUT(
         if (
           !u.previous.checked &&
           u.checked &&
-          shouldSendNotification(
+          (await shouldSendNotification(
             session.user.id,
             boardId,
             boardName,
             updatedNote.board.sendSlackUpdates
-          )
+          ))
         ) {
-          await sendTodoNotification(
-            user.organization.slackWebhookUrl,
-            u.content,
-            boardName,
-            userName,
-            "completed"
-          );
+          await sendTodoNotification(organizationId, u.content, boardName, userName, "completed");
         }
       }
+
+      await sendMentionNotifications(
+        organizationId,
+        getChecklistMentions(checklistChanges),
+        session.user.id,
+        boardName,
+        updatedNote.board.sendSlackUpdates,
+        userName
+      );
     }
 
-    return NextResponse.json({ note: updatedNote });
+    return NextResponse.json(
+      { note: updatedNote },
+      { headers: { ETag: formatETag(updatedNote.version) } }
+    );
   } catch (error) {
     console.error("Error updating note:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -259,7 +473,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; noteId: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -267,12 +481,9 @@ export async function DELETE(
     const { id: boardId, noteId } = await params;
 
     // Verify user has access to this board (same organization)
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 403 });
     }
 
@@ -295,22 +506,28 @@ export async function DELETE(
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
-    // Check if user is the author of the note or an admin
-    if (note.createdBy !== session.user.id && !user.isAdmin) {
+    // Check if user is the author of the note or an owner of the board
+    const role = await getBoardRole(user, note.board);
+    if (!canEditNote(role, user.id, note.createdBy)) {
       return NextResponse.json(
-        { error: "Only the note author or admin can delete this note" },
+        { error: "Only the note author or board owner can delete this note" },
         { status: 403 }
       );
     }
 
     // Soft delete: set deletedAt timestamp instead of actually deleting
-    await db.note.update({
-      where: { id: noteId },
-      data: {
-        deletedAt: new Date(),
-      },
+    await db.$transaction(async (tx) => {
+      await tx.note.update({
+        where: { id: noteId },
+        data: {
+          deletedAt: new Date(),
+        },
+      });
+      await recordNoteActivity(tx, note, user.id, [{ action: "DELETED" }]);
     });
 
+    await publishBoardEvent(note.board.organizationId, { type: "note.deleted", boardId, noteId });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting note:", error);
@@ -0,0 +1,297 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { getBoardRole } from "@/lib/board-access";
+import { canEditNote, hasBoardRole, type BoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+import { publishBoardEvent } from "@/lib/realtime";
+import { isOrganizationWideBoard } from "@/lib/board-events";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import { noteInclude } from "@/lib/note-access";
+import { moveNoteToBoard, transferNoteInclude } from "@/lib/note-transfer";
+import { BULK_ACTION_TRANSACTION_OPTIONS, parseBulkNoteAction } from "@/lib/bulk-actions";
+import { buildChecklistActivities, recordNoteActivity } from "@/lib/activity";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
+import { formatBulkActionForSlack } from "@/lib/slack";
+import { enqueueSlackMessage, shouldSendNotification } from "@/lib/slack-outbox";
+
+// Apply one action to many notes of this board: archive, unarchive, delete, move to another
+// board, change their color or check all their items. From the all-notes, archive and my-tasks
+// views the notes can be on any board of the organization. Every note is changed in one
+// transaction, so either all of them change or none do, and Slack gets a single message
+// about the whole batch instead of one per note.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const boardId = (await params).id;
+    const parsed = parseBulkNoteAction(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { noteIds, action } = parsed;
+
+    if (action.type === "move" && action.targetBoardId === boardId) {
+      return NextResponse.json({ error: "Notes are already on this board" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { id: user.organizationId },
+      select: { slackWebhookUrl: true },
+    });
+
+    const organizationWide = isOrganizationWideBoard(boardId);
+    if (!organizationWide) {
+      const board = await db.board.findUnique({ where: { id: boardId } });
+      if (!board) {
+        return NextResponse.json({ error: "Board not found" }, { status: 404 });
+      }
+      if (!(await getBoardRole(user, board))) {
+        return NextResponse.json({ error: "Access denied" }, { status: 403 });
+      }
+    }
+
+    const targetBoard =
+      action.type === "move"
+        ? await db.board.findUnique({ where: { id: action.targetBoardId } })
+        : null;
+    if (action.type === "move") {
+      if (!targetBoard || targetBoard.organizationId !== user.organizationId) {
+        return NextResponse.json({ error: "Target board not found" }, { status: 404 });
+      }
+      if (!hasBoardRole(await getBoardRole(user, targetBoard), "EDITOR")) {
+        return NextResponse.json(
+          { error: "Only board editors can add notes to the target board" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const notes = await db.note.findMany({
+      where: {
+        id: { in: noteIds },
+        deletedAt: null,
+        ...(organizationWide ? { board: { organizationId: user.organizationId } } : { boardId }),
+      },
+      include: transferNoteInclude,
+    });
+
+    if (notes.length !== noteIds.length) {
+      return NextResponse.json(
+        { error: "noteIds contains notes that do not belong to this board" },
+        { status: 400 }
+      );
+    }
+
+    const boards = new Map(notes.map((note) => [note.boardId, note.board]));
+    const roles = new Map<string, BoardRole | null>();
+    for (const board of boards.values()) {
+      roles.set(board.id, await getBoardRole(user, board));
+    }
+
+    if (notes.some((note) => !roles.get(note.boardId))) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (notes.some((note) => !canEditNote(roles.get(note.boardId)!, user.id, note.createdBy))) {
+      return NextResponse.json(
+        { error: "Only the note author or board owner can change these notes" },
+        { status: 403 }
+      );
+    }
+
+    // Notes the action wouldn't change, like notes that are already archived, are left alone
+    const uncheckedItems = (note: (typeof notes)[number]) =>
+      note.checklistItems.filter((item) => !item.checked);
+    const changedNotes = notes.filter((note) => {
+      switch (action.type) {
+        case "archive":
+          return note.archivedAt === null;
+        case "unarchive":
+          return note.archivedAt !== null;
+        case "color":
+          return note.color !== action.color;
+        case "checkAll":
+          return uncheckedItems(note).length > 0;
+        case "move":
+          return note.boardId !== action.targetBoardId;
+        default:
+          return true;
+      }
+    });
+
+    const now = new Date();
+    const updatedNotes = await db.$transaction(async (tx) => {
+      const results = [];
+      for (const note of changedNotes) {
+        switch (action.type) {
+          case "delete":
+            await tx.note.update({ where: { id: note.id }, data: { deletedAt: now } });
+            await recordNoteActivity(tx, note, user.id, [{ action: "DELETED" }]);
+            continue;
+          case "move":
+            results.push(await moveNoteToBoard(tx, note, targetBoard!, user.id));
+            continue;
+          case "archive":
+          case "unarchive":
+            await recordNoteActivity(tx, note, user.id, [
+              { action: action.type === "archive" ? "ARCHIVED" : "RESTORED" },
+            ]);
+            break;
+          case "checkAll": {
+            const items = uncheckedItems(note);
+            await tx.checklistItem.updateMany({
+              where: { id: { in: items.map((item) => item.id) } },
+              data: { checked: true },
+            });
+            const updated = items.map((item) => ({
+              ...item,
+              checked: true,
+              previous: {
+                content: item.content,
+                checked: false,
+                order: item.order,
+                assigneeId: item.assigneeId,
+              },
+            }));
+            await recordNoteActivity(
+              tx,
+              note,
+              user.id,
+              buildChecklistActivities({ created: [], updated, deleted: [] })
+            );
+            await createNotifications(
+              tx,
+              { organizationId: user.organizationId, noteId: note.id, actorId: user.id },
+              buildChecklistNotifications({
+                noteAuthorId: note.createdBy,
+                actorId: user.id,
+                created: [],
+                updated,
+                deleted: [],
+              })
+            );
+            break;
+          }
+        }
+
+        results.push(
+          await tx.note.update({
+            where: { id: note.id },
+            data: {
+              version: { increment: 1 },
+              ...(action.type === "archive" && { archivedAt: now }),
+              ...(action.type === "unarchive" && { archivedAt: null }),
+              ...(action.type === "color" && { color: action.color }),
+            },
+            include: noteInclude,
+          })
+        );
+      }
+      return results;
+    }, BULK_ACTION_TRANSACTION_OPTIONS);
+
+    const organizationId = user.organizationId;
+    const previousNotes = new Map(changedNotes.map((note) => [note.id, note]));
+
+    if (action.type === "delete") {
+      for (const note of changedNotes) {
+        await publishBoardEvent(organizationId, {
+          type: "note.deleted",
+          boardId: note.boardId,
+          noteId: note.id,
+        });
+      }
+    }
+
+    for (const note of updatedNotes) {
+      const previous = previousNotes.get(note.id)!;
+
+      if (action.type === "move") {
+        await publishBoardEvent(organizationId, {
+          type: "note.moved",
+          boardId: targetBoard!.id,
+          fromBoardId: previous.boardId,
+          note,
+        });
+        continue;
+      }
+
+      if (action.type === "checkAll") {
+        for (const item of uncheckedItems(previous)) {
+          const current = note.checklistItems.find((i) => i.id === item.id) ?? item;
+          await publishBoardEvent(organizationId, {
+            type: "checklist.updated",
+            boardId: note.boardId,
+            noteId: note.id,
+            item: current,
+          });
+          await queueWebhookEvent(organizationId, "checklist.completed", {
+            boardId: note.boardId,
+            noteId: note.id,
+            item: current,
+          });
+        }
+      }
+
+      await publishBoardEvent(organizationId, {
+        type:
+          action.type === "archive"
+            ? "note.archived"
+            : action.type === "unarchive"
+              ? "note.unarchived"
+              : "note.updated",
+        boardId: note.boardId,
+        note,
+      });
+    }
+
+    // One message for the boards whose Slack updates are on and not throttled for this user
+    const slackBoards: (typeof notes)[number]["board"][] = [];
+    if (organization?.slackWebhookUrl) {
+      for (const board of boards.values()) {
+        if (
+          changedNotes.some((note) => note.boardId === board.id) &&
+          (await shouldSendNotification(user.id, board.id, board.name, board.sendSlackUpdates))
+        ) {
+          slackBoards.push(board);
+        }
+      }
+    }
+    if (slackBoards.length > 0) {
+      const slackNotes = changedNotes.filter((note) =>
+        slackBoards.some((board) => board.id === note.boardId)
+      );
+      await enqueueSlackMessage(
+        organizationId,
+        formatBulkActionForSlack(
+          action,
+          {
+            notes: slackNotes.length,
+            items: slackNotes.reduce((count, note) => count + uncheckedItems(note).length, 0),
+          },
+          slackBoards.map((board) => board.name),
+          session.user.name || session.user.email || "Unknown User",
+          targetBoard?.name
+        )
+      );
+    }
+
+    return NextResponse.json({
+      notes: updatedNotes,
+      ...(action.type === "delete" && { deletedNoteIds: changedNotes.map((note) => note.id) }),
+    });
+  } catch (error) {
+    console.error("Error applying bulk note action:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
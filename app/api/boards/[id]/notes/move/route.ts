@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { getBoardRole } from "@/lib/board-access";
+import { canEditNote, hasBoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+import { publishBoardEvent } from "@/lib/realtime";
+import { copyNoteToBoard, moveNoteToBoard, transferNoteInclude } from "@/lib/note-transfer";
+
+// Move notes of this board to another board of the organization, or copy them with `copy`.
+// Moving takes the notes off this board, so it needs the same rights as editing them, while
+// any member who can see a note may copy it. Copies to the same board duplicate the notes.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const boardId = (await params).id;
+    const { noteIds, targetBoardId, copy = false } = await request.json();
+
+    if (
+      !Array.isArray(noteIds) ||
+      noteIds.length === 0 ||
+      noteIds.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "noteIds must be a non-empty array of strings" },
+        { status: 400 }
+      );
+    }
+    if (new Set(noteIds).size !== noteIds.length) {
+      return NextResponse.json({ error: "Duplicate note IDs found" }, { status: 400 });
+    }
+    if (typeof targetBoardId !== "string") {
+      return NextResponse.json({ error: "targetBoardId is required" }, { status: 400 });
+    }
+    if (typeof copy !== "boolean") {
+      return NextResponse.json({ error: "copy must be a boolean" }, { status: 400 });
+    }
+    if (!copy && targetBoardId === boardId) {
+      return NextResponse.json({ error: "Notes are already on this board" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const [board, targetBoard] = await Promise.all([
+      db.board.findUnique({ where: { id: boardId } }),
+      db.board.findUnique({ where: { id: targetBoardId } }),
+    ]);
+
+    if (!board) {
+      return NextResponse.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    const role = await getBoardRole(user, board);
+    if (!role) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (!targetBoard || targetBoard.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: "Target board not found" }, { status: 404 });
+    }
+
+    if (!hasBoardRole(await getBoardRole(user, targetBoard), "EDITOR")) {
+      return NextResponse.json(
+        { error: "Only board editors can add notes to the target board" },
+        { status: 403 }
+      );
+    }
+
+    const notes = await db.note.findMany({
+      where: { id: { in: noteIds }, boardId, deletedAt: null },
+      include: transferNoteInclude,
+    });
+
+    if (notes.length !== noteIds.length) {
+      return NextResponse.json(
+        { error: "noteIds contains notes that do not belong to this board" },
+        { status: 400 }
+      );
+    }
+
+    if (!copy && notes.some((note) => !canEditNote(role, user.id, note.createdBy))) {
+      return NextResponse.json(
+        { error: "Only the note author or board owner can move this note" },
+        { status: 403 }
+      );
+    }
+
+    // Keep the notes' order on the board; each new note goes above the previous one
+    const orderedNotes = noteIds.map((id: string) => notes.find((note) => note.id === id)!);
+
+    const transferred = await db.$transaction(async (tx) => {
+      const results = [];
+      for (const note of [...orderedNotes].reverse()) {
+        results.push(
+          copy
+            ? await copyNoteToBoard(tx, note, targetBoard.id, user.id)
+            : await moveNoteToBoard(tx, note, targetBoard, user.id)
+        );
+      }
+      return results.reverse();
+    });
+
+    for (const note of transferred) {
+      await publishBoardEvent(
+        board.organizationId,
+        copy
+          ? { type: "note.created", boardId: targetBoard.id, note }
+          : { type: "note.moved", boardId: targetBoard.id, fromBoardId: boardId, note }
+      );
+    }
+
+    return NextResponse.json({ notes: transferred }, { status: copy ? 201 : 200 });
+  } catch (error) {
+    console.error("Error moving notes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
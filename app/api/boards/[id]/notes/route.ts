@@ -1,51 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { hasValidContent } from "@/lib/slack";
+import { sanitizeChecklistContent } from "@/lib/markdown";
+import { parseNoteText } from "@/lib/note-text";
 import {
-  sendSlackMessage,
-  formatNoteForSlack,
-  hasValidContent,
+  sendMentionNotifications,
+  sendNoteNotification,
   shouldSendNotification,
-} from "@/lib/slack";
+} from "@/lib/slack-outbox";
 import { NOTE_COLORS } from "@/lib/constants";
+import { publishBoardEvent } from "@/lib/realtime";
+import { recordNoteActivity } from "@/lib/activity";
+import { getBoardRole } from "@/lib/board-access";
+import { hasBoardRole } from "@/lib/board-roles";
+import { areOrganizationLabels, areOrganizationMembers, getActiveMember } from "@/lib/organization";
+import { cursorOrderBy, cursorWhere, parsePageParams, toPage } from "@/lib/pagination";
+import { noteLabelsInclude, parseLabelIds } from "@/lib/labels";
+import { getNewNotePosition } from "@/lib/note-order";
+import { extractMentionIds, getChecklistMentions } from "@/lib/mentions";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
 
-// Get all notes for a board
+// Get a page of notes for a board in the order the board shows them
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     const boardId = (await params).id;
 
+    const page = parsePageParams(request.nextUrl.searchParams, "position");
+    if ("error" in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 });
+    }
+
     const board = await db.board.findUnique({
       where: { id: boardId },
       select: {
         id: true,
         isPublic: true,
         organizationId: true,
-        notes: {
-          where: {
-            deletedAt: null, // Only include non-deleted notes
-            archivedAt: null,
-          },
-          select: {
-            id: true,
-            color: true,
-            boardId: true,
-            createdBy: true,
-            createdAt: true,
-            updatedAt: true,
-            archivedAt: true,
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                image: true,
-              },
-            },
-            checklistItems: { orderBy: { order: "asc" } },
-          },
-          orderBy: { createdAt: "desc" },
-        },
+        createdBy: true,
       },
     });
 
@@ -53,30 +47,61 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Board not found" }, { status: 404 });
     }
 
-    if (board.isPublic) {
-      return NextResponse.json({ notes: board.notes });
-    }
+    if (!board.isPublic) {
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      const user = await getActiveMember(session);
+
+      if (!user) {
+        return NextResponse.json({ error: "No organization found" }, { status: 403 });
+      }
+
+      if (!(await getBoardRole(user, board))) {
+        return NextResponse.json({ error: "Access denied" }, { status: 403 });
+      }
     }
 
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
+    const notes = await db.note.findMany({
+      where: {
+        boardId,
+        deletedAt: null, // Only include non-deleted notes
+        archivedAt: null,
+        ...cursorWhere("position", page.cursor, "asc"),
+      },
       select: {
-        organizationId: true,
+        id: true,
+        color: true,
+        title: true,
+        body: true,
+        version: true,
+        boardId: true,
+        columnId: true,
+        columnOrder: true,
+        position: true,
+        createdBy: true,
+        createdAt: true,
+        updatedAt: true,
+        archivedAt: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+        checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
       },
+      orderBy: cursorOrderBy("position", "asc"),
+      take: page.limit + 1,
     });
 
-    if (!user?.organizationId) {
-      return NextResponse.json({ error: "No organization found" }, { status: 403 });
-    }
-
-    if (board.organizationId !== user.organizationId) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 });
-    }
+    const { items, nextCursor } = toPage(notes, page.limit, (note) => note.position);
 
-    return NextResponse.json({ notes: board.notes });
+    return NextResponse.json({ notes: items, nextCursor });
   } catch (error) {
     console.error("Error fetching notes:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -86,39 +111,49 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 // Create a new note
 export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { color, checklistItems } = await request.json();
+    const body = await request.json();
+    const { color, checklistItems, columnId } = body;
     const boardId = (await params).id;
 
+    if (columnId !== undefined && typeof columnId !== "string") {
+      return NextResponse.json({ error: "columnId must be a string" }, { status: 400 });
+    }
+
+    const parsedText = parseNoteText(body);
+    if ("error" in parsedText) {
+      return NextResponse.json({ error: parsedText.error }, { status: 400 });
+    }
+
+    const parsedLabels = parseLabelIds(body.labelIds);
+    if ("error" in parsedLabels) {
+      return NextResponse.json({ error: parsedLabels.error }, { status: 400 });
+    }
+    const { labelIds } = parsedLabels;
+
     // Verify user has access to this board (same organization)
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        organizationId: true,
-        organization: {
-          select: {
-            slackWebhookUrl: true,
-          },
-        },
-        name: true,
-        email: true,
-      },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 403 });
     }
 
+    const organization = await db.organization.findUnique({
+      where: { id: user.organizationId },
+      select: { slackWebhookUrl: true },
+    });
+
     const board = await db.board.findUnique({
       where: { id: boardId },
       select: {
         id: true,
         name: true,
         organizationId: true,
+        createdBy: true,
         sendSlackUpdates: true,
       },
     });
@@ -131,6 +166,34 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
+    if (!hasBoardRole(await getBoardRole(user, board), "EDITOR")) {
+      return NextResponse.json(
+        { error: "Only board editors can create notes on this board" },
+        { status: 403 }
+      );
+    }
+
+    if (labelIds && !(await areOrganizationLabels(user.organizationId, labelIds))) {
+      return NextResponse.json(
+        { error: "Notes can only be labeled with the organization's labels" },
+        { status: 400 }
+      );
+    }
+
+    // Notes added to a Kanban column go to its end
+    let columnOrder: number | undefined;
+    if (columnId) {
+      const column = await db.boardColumn.findUnique({ where: { id: columnId } });
+      if (!column || column.boardId !== boardId) {
+        return NextResponse.json({ error: "Column not found" }, { status: 400 });
+      }
+      const last = await db.note.aggregate({
+        where: { columnId },
+        _max: { columnOrder: true },
+      });
+      columnOrder = (last._max.columnOrder ?? -1) + 1;
+    }
+
     const randomColor = color || NOTE_COLORS[Math.floor(Math.random() * NOTE_COLORS.length)];
 
     // Process checklist items
@@ -142,17 +205,31 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     if (checklistItems && Array.isArray(checklistItems)) {
       checklistItems.forEach((item, index) => {
         initialChecklistItems.push({
-          content: item.content || "",
+          content: typeof item.content === "string" ? sanitizeChecklistContent(item.content) : "",
           checked: item.checked || false,
           order: item.order !== undefined ? item.order : index,
         });
       });
     }
 
+    const mentionedIds = initialChecklistItems.flatMap((item) => extractMentionIds(item.content));
+    if (!(await areOrganizationMembers(user.organizationId, mentionedIds))) {
+      return NextResponse.json(
+        { error: "Only organization members can be mentioned" },
+        { status: 400 }
+      );
+    }
+
+    const position = await getNewNotePosition(db, boardId);
+
     const note = await db.note.create({
       data: {
         color: randomColor,
+        ...parsedText.text,
+        ...(labelIds && { labels: { connect: labelIds.map((id) => ({ id })) } }),
         boardId,
+        position,
+        ...(columnId && { columnId, columnOrder }),
         createdBy: session.user.id,
         checklistItems:
           initialChecklistItems.length > 0
@@ -171,34 +248,60 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
           },
         },
         checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
       },
     });
 
-    // Send Slack notification if note has checklist items with content
+    await recordNoteActivity(db, note, session.user.id, [{ action: "CREATED" }]);
+    await createNotifications(
+      db,
+      { organizationId: board.organizationId, noteId: note.id, actorId: session.user.id },
+      buildChecklistNotifications({
+        noteAuthorId: session.user.id,
+        actorId: session.user.id,
+        created: note.checklistItems,
+        updated: [],
+        deleted: [],
+      })
+    );
+
+    await publishBoardEvent(board.organizationId, {
+      type: "note.created",
+      boardId,
+      note: { ...note, board: { id: board.id, name: board.name } },
+    });
+
+    // Send Slack notification if note has a title, text or checklist items with content
     const noteWithItems = note as typeof note & { checklistItems?: Array<{ content: string }> };
     const hasContent =
-      noteWithItems.checklistItems &&
-      noteWithItems.checklistItems.length > 0 &&
-      noteWithItems.checklistItems.some((item) => hasValidContent(item.content));
+      hasValidContent(note.title) ||
+      hasValidContent(note.body) ||
+      (noteWithItems.checklistItems &&
+        noteWithItems.checklistItems.length > 0 &&
+        noteWithItems.checklistItems.some((item) => hasValidContent(item.content)));
 
     if (
-      user.organization?.slackWebhookUrl &&
+      organization?.slackWebhookUrl &&
       hasContent &&
-      shouldSendNotification(session.user.id, boardId, board.name, board.sendSlackUpdates)
+      (await shouldSendNotification(session.user.id, boardId, board.name, board.sendSlackUpdates))
     ) {
-      const slackMessage = formatNoteForSlack(noteWithItems, board.name, user.name || user.email);
-      const messageId = await sendSlackMessage(user.organization.slackWebhookUrl, {
-        text: slackMessage,
-        username: "Gumboard",
-        icon_emoji: ":clipboard:",
-      });
+      await sendNoteNotification(
+        board.organizationId,
+        noteWithItems,
+        board.name,
+        session.user.name || session.user.email || "Unknown User"
+      );
+    }
 
-      if (messageId) {
-        await db.note.update({
-          where: { id: note.id },
-          data: { slackMessageId: messageId },
-        });
-      }
+    if (organization?.slackWebhookUrl) {
+      await sendMentionNotifications(
+        board.organizationId,
+        getChecklistMentions({ created: note.checklistItems, updated: [] }),
+        session.user.id,
+        board.name,
+        board.sendSlackUpdates,
+        session.user.name || session.user.email || "Unknown User"
+      );
     }
 
     return NextResponse.json({ note }, { status: 201 });
@@ -1,10 +1,12 @@
-import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
 import { NextRequest, NextResponse } from "next/server";
+import { getBoardRole } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
 
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
 
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -23,25 +25,18 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Board not found" }, { status: 404 });
     }
 
-    // Check if user is member of the organization and get admin status
-    const currentUser = await db.user.findFirst({
-      where: {
-        id: session.user.id,
-        organizationId: board.organizationId,
-      },
-      select: {
-        id: true,
-        isAdmin: true,
-      },
-    });
+    // Check if the board belongs to the active organization and get the user's board role
+    const currentUser = await getActiveMember(session);
+
+    const role = currentUser ? await getBoardRole(currentUser, board) : null;
 
-    if (!currentUser) {
+    if (!role) {
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
-    if (board.createdBy !== session.user.id && !currentUser.isAdmin) {
+    if (role !== "OWNER") {
       return NextResponse.json(
-        { error: "Only the board creator or admin can modify board settings" },
+        { error: "Only board owners can modify board settings" },
         { status: 403 }
       );
     }
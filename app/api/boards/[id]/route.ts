@@ -1,48 +1,44 @@
-import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
 import { NextRequest, NextResponse } from "next/server";
+import { getBoardRole } from "@/lib/board-access";
+import { hasBoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import {
+  DEFAULT_KANBAN_COLUMNS,
+  isBoardLayout,
+  parseBoardColumns,
+  type BoardLayout,
+  type ColumnInput,
+} from "@/lib/kanban";
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     const boardId = (await params).id;
 
     const board = await db.board.findUnique({
       where: { id: boardId },
-      include: { organization: true },
+      include: { organization: true, columns: { orderBy: { order: "asc" } } },
     });
 
     if (!board) {
       return NextResponse.json({ error: "Board not found" }, { status: 404 });
     }
 
-    if (board.isPublic) {
-      const { organization, ...boardData } = board;
-      return NextResponse.json({
-        board: {
-          ...boardData,
-          organization: {
-            id: organization.id,
-            name: organization.name,
-          },
-        },
-      });
-    }
-
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const user = await getActiveMember(session);
+    const role = user ? await getBoardRole(user, board) : null;
 
-    // Check if user is member of the organization
-    const userInOrg = await db.user.findFirst({
-      where: {
-        id: session.user.id,
-        organizationId: board.organizationId,
-      },
-    });
+    if (!board.isPublic) {
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
 
-    if (!userInOrg) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+      // Check if user can see the board (organization member with a board role)
+      if (!role) {
+        return NextResponse.json({ error: "Access denied" }, { status: 403 });
+      }
     }
 
     // Return board data without sensitive organization member details
@@ -51,6 +47,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     return NextResponse.json({
       board: {
         ...boardData,
+        role,
         organization: {
           id: organization.id,
           name: organization.name,
@@ -65,50 +62,67 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
 
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const boardId = (await params).id;
-    const { name, description, isPublic, sendSlackUpdates } = await request.json();
+    const body = await request.json();
+    const { name, description, isPublic, isTemplate, sendSlackUpdates, layout } = body;
+
+    if (isTemplate !== undefined && typeof isTemplate !== "boolean") {
+      return NextResponse.json({ error: "isTemplate must be a boolean" }, { status: 400 });
+    }
+
+    if (layout !== undefined && !isBoardLayout(layout)) {
+      return NextResponse.json({ error: "layout must be MASONRY or KANBAN" }, { status: 400 });
+    }
+
+    const parsedColumns = parseBoardColumns(body.columns);
+    if ("error" in parsedColumns) {
+      return NextResponse.json({ error: parsedColumns.error }, { status: 400 });
+    }
+    const { columns } = parsedColumns;
 
     // Check if board exists and user has access
     const board = await db.board.findUnique({
       where: { id: boardId },
-      include: { organization: true },
+      include: { organization: true, columns: true },
     });
 
     if (!board) {
       return NextResponse.json({ error: "Board not found" }, { status: 404 });
     }
 
-    // Check if user is member of the organization and get admin status
-    const currentUser = await db.user.findFirst({
-      where: {
-        id: session.user.id,
-        organizationId: board.organizationId,
-      },
-      select: {
-        id: true,
-        isAdmin: true,
-      },
-    });
+    // Check if the board belongs to the active organization and get the user's board role
+    const currentUser = await getActiveMember(session);
 
-    if (!currentUser) {
+    const role = currentUser ? await getBoardRole(currentUser, board) : null;
+
+    if (!hasBoardRole(role, "EDITOR")) {
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
-    // For name/description/isPublic updates, check if user can edit this board (board creator or admin)
+    // For name/description/isPublic/isTemplate/layout updates, check if user owns this board
     if (
-      (name !== undefined || description !== undefined || isPublic !== undefined) &&
-      board.createdBy !== session.user.id &&
-      !currentUser.isAdmin
+      (name !== undefined ||
+        description !== undefined ||
+        isPublic !== undefined ||
+        isTemplate !== undefined ||
+        layout !== undefined ||
+        columns !== undefined) &&
+      role !== "OWNER"
     ) {
+      return NextResponse.json({ error: "Only board owners can edit this board" }, { status: 403 });
+    }
+
+    const existingColumnIds = board.columns.map((column) => column.id);
+    if (columns?.some((column) => column.id && !existingColumnIds.includes(column.id))) {
       return NextResponse.json(
-        { error: "Only the board creator or admin can edit this board" },
-        { status: 403 }
+        { error: "columns contains columns that do not belong to this board" },
+        { status: 400 }
       );
     }
 
@@ -116,38 +130,77 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       name?: string;
       description?: string;
       isPublic?: boolean;
+      isTemplate?: boolean;
       sendSlackUpdates?: boolean;
+      layout?: BoardLayout;
     } = {};
     if (name !== undefined) updateData.name = name?.trim() || board.name;
     if (description !== undefined)
       updateData.description = description?.trim() || board.description;
     if (isPublic !== undefined) updateData.isPublic = isPublic;
+    if (isTemplate !== undefined) updateData.isTemplate = isTemplate;
     if (sendSlackUpdates !== undefined) updateData.sendSlackUpdates = sendSlackUpdates;
+    if (layout !== undefined) updateData.layout = layout;
 
-    const updatedBoard = await db.board.update({
-      where: { id: boardId },
-      data: updateData,
-      include: {
-        _count: {
-          select: {
-            notes: {
-              where: {
-                deletedAt: null,
-                archivedAt: null,
+    // Boards switching to Kanban for the first time get a default set of columns
+    const columnUpdates =
+      columns ??
+      (layout === "KANBAN" && board.columns.length === 0
+        ? DEFAULT_KANBAN_COLUMNS.map((columnName): ColumnInput => ({ name: columnName }))
+        : undefined);
+
+    const updatedBoard = await db.$transaction(async (tx) => {
+      if (columnUpdates) {
+        // Notes in removed columns move to the first column
+        await tx.boardColumn.deleteMany({
+          where: {
+            boardId,
+            id: { notIn: columnUpdates.flatMap((column) => (column.id ? [column.id] : [])) },
+          },
+        });
+        for (const [order, column] of columnUpdates.entries()) {
+          if (column.id) {
+            await tx.boardColumn.update({
+              where: { id: column.id },
+              data: { name: column.name, order },
+            });
+          } else {
+            await tx.boardColumn.create({ data: { boardId, name: column.name, order } });
+          }
+        }
+      }
+
+      return tx.board.update({
+        where: { id: boardId },
+        data: updateData,
+        include: {
+          _count: {
+            select: {
+              notes: {
+                where: {
+                  deletedAt: null,
+                  archivedAt: null,
+                },
               },
             },
           },
-        },
-        organization: {
-          select: {
-            id: true,
-            name: true,
+          organization: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
+          columns: { orderBy: { order: "asc" } },
         },
-      },
+      });
     });
 
-    return NextResponse.json({ board: updatedBoard });
+    await queueWebhookEvent(updatedBoard.organizationId, "board.updated", {
+      boardId,
+      board: updatedBoard,
+    });
+
+    return NextResponse.json({ board: { ...updatedBoard, role } });
   } catch (error) {
     console.error("Error updating board:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -158,7 +211,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
 
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -176,26 +229,19 @@ export async function DELETE(
       return NextResponse.json({ error: "Board not found" }, { status: 404 });
     }
 
-    // Check if user is member of the organization and get admin status
-    const currentUser = await db.user.findFirst({
-      where: {
-        id: session.user.id,
-        organizationId: board.organizationId,
-      },
-      select: {
-        id: true,
-        isAdmin: true,
-      },
-    });
+    // Check if the board belongs to the active organization and get the user's board role
+    const currentUser = await getActiveMember(session);
+
+    const role = currentUser ? await getBoardRole(currentUser, board) : null;
 
-    if (!currentUser) {
+    if (!role) {
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
-    // Check if user can delete this board (board creator or admin)
-    if (board.createdBy !== session.user.id && !currentUser.isAdmin) {
+    // Check if user can delete this board (board owner)
+    if (role !== "OWNER") {
       return NextResponse.json(
-        { error: "Only the board creator or admin can delete this board" },
+        { error: "Only board owners can delete this board" },
         { status: 403 }
       );
     }
@@ -205,6 +251,11 @@ export async function DELETE(
       where: { id: boardId },
     });
 
+    await queueWebhookEvent(board.organizationId, "board.deleted", {
+      boardId,
+      board: { id: board.id, name: board.name, description: board.description },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting board:", error);
@@ -1,35 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
 import { NOTE_COLORS } from "@/lib/constants";
-
-// Get all notes from all boards in the organization
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { publishBoardEvent } from "@/lib/realtime";
+import { recordNoteActivity } from "@/lib/activity";
+import { sanitizeChecklistContent } from "@/lib/markdown";
+import { parseNoteText } from "@/lib/note-text";
+import { accessibleBoardsWhere, getBoardRole } from "@/lib/board-access";
+import { hasBoardRole } from "@/lib/board-roles";
+import { areOrganizationLabels, areOrganizationMembers, getActiveMember } from "@/lib/organization";
+import { cursorOrderBy, cursorWhere, parsePageParams, toPage } from "@/lib/pagination";
+import { noteLabelsInclude, parseLabelIds } from "@/lib/labels";
+import { getNewNotePosition } from "@/lib/note-order";
+import { extractMentionIds, getChecklistMentions } from "@/lib/mentions";
+import { buildChecklistNotifications } from "@/lib/notification-events";
+import { createNotifications } from "@/lib/notifications";
+import { sendMentionNotifications } from "@/lib/slack-outbox";
+
+// Get a page of notes from all boards in the organization, newest first
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user with organization
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
-    });
+    const page = parsePageParams(request.nextUrl.searchParams);
+    if ("error" in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 });
+    }
 
-    if (!user?.organizationId) {
+    const user = await getActiveMember(session);
+
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 403 });
     }
 
-    // Get all notes from all boards in the organization
+    // Get a page of notes from all boards in the organization, newest first
     const notes = await db.note.findMany({
       where: {
         deletedAt: null, // Only include non-deleted notes
         archivedAt: null,
-        board: {
-          organizationId: user.organizationId,
-        },
+        board: accessibleBoardsWhere(user),
+        ...cursorWhere("createdAt", page.cursor),
       },
       include: {
         user: {
@@ -47,13 +60,15 @@ export async function GET(request: NextRequest) {
           },
         },
         checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
       },
-      orderBy: {
-        createdAt: "desc",
-      },
+      orderBy: cursorOrderBy("createdAt"),
+      take: page.limit + 1,
     });
 
-    return NextResponse.json({ notes });
+    const { items, nextCursor } = toPage(notes, page.limit, (note) => note.createdAt);
+
+    return NextResponse.json({ notes: items, nextCursor });
   } catch (error) {
     console.error("Error fetching global notes:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -63,24 +78,33 @@ export async function GET(request: NextRequest) {
 // Create a new note (for global view, we need to specify which board)
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { color, boardId, checklistItems } = await request.json();
+    const body = await request.json();
+    const { color, boardId, checklistItems } = body;
 
     if (!boardId) {
       return NextResponse.json({ error: "Board ID is required" }, { status: 400 });
     }
 
+    const parsedText = parseNoteText(body);
+    if ("error" in parsedText) {
+      return NextResponse.json({ error: parsedText.error }, { status: 400 });
+    }
+
+    const parsedLabels = parseLabelIds(body.labelIds);
+    if ("error" in parsedLabels) {
+      return NextResponse.json({ error: parsedLabels.error }, { status: 400 });
+    }
+    const { labelIds } = parsedLabels;
+
     // Verify user has access to the specified board (same organization)
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 403 });
     }
 
@@ -96,6 +120,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
 
+    if (!hasBoardRole(await getBoardRole(user, board), "EDITOR")) {
+      return NextResponse.json(
+        { error: "Only board editors can create notes on this board" },
+        { status: 403 }
+      );
+    }
+
+    if (labelIds && !(await areOrganizationLabels(user.organizationId, labelIds))) {
+      return NextResponse.json(
+        { error: "Notes can only be labeled with the organization's labels" },
+        { status: 400 }
+      );
+    }
+
     const randomColor = color || NOTE_COLORS[Math.floor(Math.random() * NOTE_COLORS.length)];
 
     // Process checklist items
@@ -107,17 +145,30 @@ export async function POST(request: NextRequest) {
     if (checklistItems && Array.isArray(checklistItems)) {
       checklistItems.forEach((item, index) => {
         initialChecklistItems.push({
-          content: item.content || "",
+          content: typeof item.content === "string" ? sanitizeChecklistContent(item.content) : "",
           checked: item.checked || false,
           order: item.order !== undefined ? item.order : index,
         });
       });
     }
 
+    const mentionedIds = initialChecklistItems.flatMap((item) => extractMentionIds(item.content));
+    if (!(await areOrganizationMembers(user.organizationId, mentionedIds))) {
+      return NextResponse.json(
+        { error: "Only organization members can be mentioned" },
+        { status: 400 }
+      );
+    }
+
+    const position = await getNewNotePosition(db, boardId);
+
     const note = await db.note.create({
       data: {
         color: randomColor,
+        ...parsedText.text,
+        ...(labelIds && { labels: { connect: labelIds.map((id) => ({ id })) } }),
         boardId,
+        position,
         createdBy: session.user.id,
         checklistItems:
           initialChecklistItems.length > 0
@@ -142,9 +193,40 @@ export async function POST(request: NextRequest) {
           },
         },
         checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
       },
     });
 
+    await recordNoteActivity(db, note, session.user.id, [{ action: "CREATED" }]);
+    await createNotifications(
+      db,
+      { organizationId: board.organizationId, noteId: note.id, actorId: session.user.id },
+      buildChecklistNotifications({
+        noteAuthorId: session.user.id,
+        actorId: session.user.id,
+        created: note.checklistItems,
+        updated: [],
+        deleted: [],
+      })
+    );
+
+    await publishBoardEvent(board.organizationId, { type: "note.created", boardId, note });
+
+    const organization = await db.organization.findUnique({
+      where: { id: board.organizationId },
+      select: { slackWebhookUrl: true },
+    });
+    if (organization?.slackWebhookUrl) {
+      await sendMentionNotifications(
+        board.organizationId,
+        getChecklistMentions({ created: note.checklistItems, updated: [] }),
+        session.user.id,
+        board.name,
+        board.sendSlackUpdates,
+        session.user.name || session.user.email || "Unknown User"
+      );
+    }
+
     return NextResponse.json({ note }, { status: 201 });
   } catch (error) {
     console.error("Error creating note:", error);
@@ -1,22 +1,27 @@
-import { NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { accessibleBoardsWhere } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
+import { cursorOrderBy, cursorWhere, parsePageParams, toPage } from "@/lib/pagination";
+import { noteLabelsInclude } from "@/lib/labels";
 
-export async function GET() {
+// Get a page of archived notes, most recently archived first
+export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        organizationId: true,
-      },
-    });
+    const page = parsePageParams(request.nextUrl.searchParams);
+    if ("error" in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 403 });
     }
 
@@ -24,19 +29,22 @@ export async function GET() {
       where: {
         deletedAt: null,
         archivedAt: { not: null },
-        board: {
-          organizationId: user.organizationId,
-        },
+        board: accessibleBoardsWhere(user),
+        ...cursorWhere("archivedAt", page.cursor),
       },
       select: {
         id: true,
         color: true,
+        title: true,
+        body: true,
+        version: true,
         boardId: true,
         createdBy: true,
         createdAt: true,
         updatedAt: true,
         archivedAt: true,
         checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
         user: {
           select: {
             id: true,
@@ -52,12 +60,13 @@ export async function GET() {
           },
         },
       },
-      orderBy: {
-        updatedAt: "desc", // Most recently archived first
-      },
+      orderBy: cursorOrderBy("archivedAt"),
+      take: page.limit + 1,
     });
 
-    return NextResponse.json({ notes });
+    const { items, nextCursor } = toPage(notes, page.limit, (note) => note.archivedAt);
+
+    return NextResponse.json({ notes: items, nextCursor });
   } catch (error) {
     console.error("Error fetching archived notes:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
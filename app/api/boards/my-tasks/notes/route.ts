@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { accessibleBoardsWhere } from "@/lib/board-access";
+import { getActiveMember } from "@/lib/organization";
+import { cursorOrderBy, cursorWhere, parsePageParams, toPage } from "@/lib/pagination";
+import { noteLabelsInclude } from "@/lib/labels";
+
+// Get a page of notes with open checklist items assigned to the current user, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const page = parsePageParams(request.nextUrl.searchParams);
+    if ("error" in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const notes = await db.note.findMany({
+      where: {
+        deletedAt: null,
+        archivedAt: null,
+        board: accessibleBoardsWhere(user),
+        checklistItems: { some: { assigneeId: user.id, checked: false } },
+        ...cursorWhere("createdAt", page.cursor),
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+        board: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
+      },
+      orderBy: cursorOrderBy("createdAt"),
+      take: page.limit + 1,
+    });
+
+    const { items, nextCursor } = toPage(notes, page.limit, (note) => note.createdAt);
+
+    return NextResponse.json({ notes: items, nextCursor });
+  } catch (error) {
+    console.error("Error fetching assigned notes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
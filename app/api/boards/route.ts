@@ -1,37 +1,40 @@
-import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
 import { NextRequest, NextResponse } from "next/server";
+import { accessibleBoardsWhere, boardMembershipSelect, getBoardRole } from "@/lib/board-access";
+import { resolveBoardRole } from "@/lib/board-roles";
+import { applyTokenScope, tokenCanWrite } from "@/lib/api-tokens";
+import { getActiveMember } from "@/lib/organization";
+import { queueWebhookEvent } from "@/lib/webhooks";
+import { BOARD_COPY_TRANSACTION_OPTIONS, copyBoardContent } from "@/lib/board-copy";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
 
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        organizationId: true,
-      },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
-    // Get all boards for the organization
+    // Get all boards of the active organization the user can see
     const boards = await db.board.findMany({
-      where: { organizationId: user.organizationId },
+      where: accessibleBoardsWhere(user),
       select: {
         id: true,
         name: true,
         description: true,
         isPublic: true,
+        isTemplate: true,
         createdBy: true,
         createdAt: true,
         updatedAt: true,
+        members: boardMembershipSelect(user.id),
         _count: {
           select: {
             notes: {
@@ -46,7 +49,16 @@ export async function GET() {
       orderBy: { createdAt: "desc" },
     });
 
-    return NextResponse.json({ boards });
+    return NextResponse.json({
+      boards: boards.map(({ members, ...board }) => ({
+        ...board,
+        role: applyTokenScope(
+          resolveBoardRole(user, board, members[0]?.role),
+          board.id,
+          user.apiToken
+        ),
+      })),
+    });
   } catch (error) {
     console.error("Error fetching boards:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -55,13 +67,13 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getRequestSession(request);
 
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { name, description, isPublic } = await request.json();
+    const { name, description, isPublic, sourceBoardId, resetChecked } = await request.json();
 
     if (!name || typeof name !== "string" || name.trim().length === 0) {
       return NextResponse.json(
@@ -70,51 +82,90 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (sourceBoardId !== undefined && typeof sourceBoardId !== "string") {
+      return NextResponse.json({ error: "sourceBoardId must be a string" }, { status: 400 });
+    }
+    if (resetChecked !== undefined && typeof resetChecked !== "boolean") {
+      return NextResponse.json({ error: "resetChecked must be a boolean" }, { status: 400 });
+    }
+
     const trimmedName = name.trim();
 
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        organizationId: true,
-      },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
-    // Create new board
-    const board = await db.board.create({
-      data: {
-        name: trimmedName,
-        description,
-        isPublic: Boolean(isPublic || false),
-        organizationId: user.organizationId,
-        createdBy: session.user.id,
-      },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        isPublic: true,
-        createdBy: true,
-        createdAt: true,
-        updatedAt: true,
-        organizationId: true,
-        _count: {
-          select: {
-            notes: {
-              where: {
-                deletedAt: null,
-                archivedAt: null,
+    if (user.isGuest) {
+      return NextResponse.json({ error: "Guests cannot create boards" }, { status: 403 });
+    }
+
+    // Tokens limited to specific boards cannot add new ones
+    if (user.apiToken && (!tokenCanWrite(user.apiToken) || user.apiToken.boardIds.length > 0)) {
+      return NextResponse.json({ error: "This API token cannot create boards" }, { status: 403 });
+    }
+
+    // Boards can start as a copy of a template or of any other board the user can see
+    const sourceBoard = sourceBoardId
+      ? await db.board.findUnique({ where: { id: sourceBoardId } })
+      : null;
+    if (sourceBoardId && (!sourceBoard || !(await getBoardRole(user, sourceBoard)))) {
+      return NextResponse.json({ error: "Source board not found" }, { status: 404 });
+    }
+
+    // Create new board, owned by its creator
+    const board = await db.$transaction(async (tx) => {
+      const created = await tx.board.create({
+        data: {
+          name: trimmedName,
+          description: description ?? sourceBoard?.description,
+          isPublic: Boolean(isPublic || false),
+          ...(sourceBoard && {
+            layout: sourceBoard.layout,
+            sendSlackUpdates: sourceBoard.sendSlackUpdates,
+          }),
+          organizationId: user.organizationId,
+          createdBy: user.id,
+          members: {
+            create: { userId: user.id, role: "OWNER" },
+          },
+        },
+      });
+
+      if (sourceBoard) {
+        await copyBoardContent(tx, sourceBoard.id, created.id, user.id, { resetChecked });
+      }
+
+      return tx.board.findUniqueOrThrow({
+        where: { id: created.id },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          isPublic: true,
+          isTemplate: true,
+          createdBy: true,
+          createdAt: true,
+          updatedAt: true,
+          organizationId: true,
+          _count: {
+            select: {
+              notes: {
+                where: {
+                  deletedAt: null,
+                  archivedAt: null,
+                },
               },
             },
           },
         },
-      },
-    });
+      });
+    }, BOARD_COPY_TRANSACTION_OPTIONS);
+
+    await queueWebhookEvent(user.organizationId, "board.created", { boardId: board.id, board });
 
-    return NextResponse.json({ board }, { status: 201 });
+    return NextResponse.json({ board: { ...board, role: "OWNER" } }, { status: 201 });
   } catch (error) {
     console.error("Error creating board:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { noteInclude } from "@/lib/note-access";
+import { recordNoteActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { getBoardRole } from "@/lib/board-access";
+import { canEditNote } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+
+// Restore a soft-deleted note from the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ noteId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { noteId } = await params;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const note = await db.note.findUnique({
+      where: { id: noteId },
+      include: { board: true },
+    });
+
+    if (!note || !note.deletedAt) {
+      return NextResponse.json({ error: "Note not found in trash" }, { status: 404 });
+    }
+
+    if (note.board.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const role = await getBoardRole(user, note.board);
+    if (!canEditNote(role, user.id, note.createdBy)) {
+      return NextResponse.json(
+        { error: "Only the note author or board owner can restore this note" },
+        { status: 403 }
+      );
+    }
+
+    const restoredNote = await db.$transaction(async (tx) => {
+      await recordNoteActivity(tx, note, user.id, [
+        { action: "RESTORED", metadata: { from: "trash" } },
+      ]);
+
+      return tx.note.update({
+        where: { id: noteId },
+        data: { deletedAt: null, version: { increment: 1 } },
+        include: noteInclude,
+      });
+    });
+
+    await publishBoardEvent(note.board.organizationId, {
+      type: "note.restored",
+      boardId: note.boardId,
+      note: restoredNote,
+    });
+
+    return NextResponse.json({ note: restoredNote });
+  } catch (error) {
+    console.error("Error restoring note:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { publishBoardEvent } from "@/lib/realtime";
+import { getBoardRole } from "@/lib/board-access";
+import { hasBoardRole } from "@/lib/board-roles";
+import { getActiveMember } from "@/lib/organization";
+
+// Permanently delete a note from the trash (admins only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ noteId: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { noteId } = await params;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can permanently delete notes" },
+        { status: 403 }
+      );
+    }
+
+    const note = await db.note.findUnique({
+      where: { id: noteId },
+      include: { board: true },
+    });
+
+    if (!note || !note.deletedAt) {
+      return NextResponse.json({ error: "Note not found in trash" }, { status: 404 });
+    }
+
+    // Admins own every board of the organization, unless their API token is limited to other
+    // boards or can only read
+    if (!hasBoardRole(await getBoardRole(user, note.board), "OWNER")) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    await db.note.delete({ where: { id: noteId } });
+
+    await publishBoardEvent(note.board.organizationId, {
+      type: "note.purged",
+      boardId: note.boardId,
+      noteId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error purging note:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
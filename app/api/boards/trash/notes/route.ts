@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRequestSession } from "@/lib/api-auth";
+import { accessibleBoardsWhere } from "@/lib/board-access";
+import { getTrashRetentionCutoff } from "@/lib/trash";
+import { getActiveMember } from "@/lib/organization";
+import { noteLabelsInclude } from "@/lib/labels";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const notes = await db.note.findMany({
+      where: {
+        deletedAt: { not: null, gte: getTrashRetentionCutoff() },
+        board: accessibleBoardsWhere(user),
+      },
+      select: {
+        id: true,
+        color: true,
+        title: true,
+        body: true,
+        version: true,
+        boardId: true,
+        createdBy: true,
+        createdAt: true,
+        updatedAt: true,
+        archivedAt: true,
+        deletedAt: true,
+        checklistItems: { orderBy: { order: "asc" } },
+        labels: noteLabelsInclude,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+        board: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        deletedAt: "desc", // Most recently deleted first
+      },
+    });
+
+    return NextResponse.json({ notes });
+  } catch (error) {
+    console.error("Error fetching deleted notes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
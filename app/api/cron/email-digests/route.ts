@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { sendDueDigests } from "@/lib/digest-emails";
+import { getBaseUrl } from "@/lib/utils";
+
+// Email daily and weekly activity digests to users whose digest is due
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { processed, sent } = await sendDueDigests(getBaseUrl(request));
+
+    return NextResponse.json({ processed, sent });
+  } catch (error) {
+    console.error("Error sending email digests:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
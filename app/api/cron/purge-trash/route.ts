@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { pruneBoardEvents } from "@/lib/realtime";
+import { purgeExpiredNotes } from "@/lib/trash";
+
+// Hard-delete notes whose trash retention period has expired and drop old board events
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const purged = await purgeExpiredNotes();
+    const prunedEvents = await pruneBoardEvents();
+
+    return NextResponse.json({ purged, prunedEvents });
+  } catch (error) {
+    console.error("Error purging expired notes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
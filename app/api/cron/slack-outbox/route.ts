@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { processDueSlackMessages, pruneSlackOutbox } from "@/lib/slack-outbox";
+
+// Retry failed Slack messages whose backoff has elapsed and drop old sent messages
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const processed = await processDueSlackMessages();
+    const pruned = await pruneSlackOutbox();
+
+    return NextResponse.json({ processed, pruned });
+  } catch (error) {
+    console.error("Error processing Slack outbox:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { sendTaskReminders } from "@/lib/task-reminders";
+
+// Notify assignees about checklist items that are due soon or just became overdue
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { dueSoon, overdue } = await sendTaskReminders();
+
+    return NextResponse.json({ dueSoon, overdue });
+  } catch (error) {
+    console.error("Error sending task reminders:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { processDueWebhookDeliveries } from "@/lib/webhooks";
+
+// Retry failed webhook deliveries whose backoff has elapsed
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const processed = await processDueWebhookDeliveries();
+
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error("Error processing webhook deliveries:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+
+// Unsubscribe link in digest emails, works without signing in. Opening the link only shows a
+// confirmation page, so mail scanners that follow links don't unsubscribe anyone.
+export async function GET(request: NextRequest) {
+  const url = new URL("/unsubscribe", request.url);
+  const token = request.nextUrl.searchParams.get("token");
+  if (token) {
+    url.searchParams.set("token", token);
+  }
+  return NextResponse.redirect(url);
+}
+
+// Unsubscribe from the confirmation page, or in one click from mail clients that support
+// List-Unsubscribe-Post (RFC 8058)
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    const { count } = token
+      ? await db.user.updateMany({
+          where: { digestUnsubscribeToken: token },
+          data: { digestFrequency: "NEVER" },
+        })
+      : { count: 0 };
+
+    const form = await request.formData().catch(() => null);
+    if (form?.get("List-Unsubscribe") === "One-Click") {
+      if (count === 0) {
+        return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    const url = new URL("/unsubscribe", request.url);
+    if (count === 0) {
+      url.searchParams.set("error", "invalid");
+    } else {
+      url.searchParams.set("status", "unsubscribed");
+    }
+    // 303 so the browser loads the result page with GET
+    return NextResponse.redirect(url, 303);
+  } catch (error) {
+    console.error("Error unsubscribing from digests:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { notificationInclude } from "@/lib/notifications";
+
+// Mark a notification as read or unread
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { read } = await request.json();
+
+    if (typeof read !== "boolean") {
+      return NextResponse.json({ error: "read must be a boolean" }, { status: 400 });
+    }
+
+    const notification = await db.notification.findUnique({
+      where: { id },
+      select: { userId: true, readAt: true },
+    });
+
+    if (!notification || notification.userId !== session.user.id) {
+      return NextResponse.json({ error: "Notification not found" }, { status: 404 });
+    }
+
+    const updated = await db.notification.update({
+      where: { id },
+      data: { readAt: read ? (notification.readAt ?? new Date()) : null },
+      include: notificationInclude,
+    });
+
+    return NextResponse.json({ notification: updated });
+  } catch (error) {
+    console.error("Error updating notification:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+
+// Mark all of the current user's notifications in the active organization as read
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const { count } = await db.notification.updateMany({
+      where: { userId: user.id, organizationId: user.organizationId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ updated: count });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { notificationInclude } from "@/lib/notifications";
+import { cursorOrderBy, cursorWhere, parsePageParams, toPage } from "@/lib/pagination";
+
+// Get a page of the current user's notifications in the active organization, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const page = parsePageParams(request.nextUrl.searchParams);
+    if ("error" in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const where = { userId: user.id, organizationId: user.organizationId };
+    const [notifications, unreadCount] = await Promise.all([
+      db.notification.findMany({
+        where: { ...where, ...cursorWhere("createdAt", page.cursor) },
+        include: notificationInclude,
+        orderBy: cursorOrderBy("createdAt"),
+        take: page.limit + 1,
+      }),
+      db.notification.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    const { items, nextCursor } = toPage(
+      notifications,
+      page.limit,
+      (notification) => notification.createdAt
+    );
+
+    return NextResponse.json({ notifications: items, unreadCount, nextCursor });
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { env } from "@/lib/env";
 import { NextRequest, NextResponse } from "next/server";
 import { Resend } from "resend";
 import { getBaseUrl } from "@/lib/utils";
+import { getActiveMember } from "@/lib/organization";
 
 const resend = new Resend(env.AUTH_RESEND_KEY);
 
@@ -23,20 +24,12 @@ export async function POST(request: NextRequest) {
 
     const cleanEmail = email.trim().toLowerCase();
 
-    // Get user with organization
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        isAdmin: true,
-        organizationId: true,
-        organization: true,
-      },
-    });
+    const user = await getActiveMember(session);
+    const organization = user
+      ? await db.organization.findUnique({ where: { id: user.organizationId } })
+      : null;
 
-    if (!user?.organizationId || !user.organization) {
+    if (!user || !organization) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
@@ -46,11 +39,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if user is already in the organization
-    const existingUser = await db.user.findUnique({
-      where: { email: cleanEmail },
+    const existingMember = await db.organizationMember.findFirst({
+      where: { organizationId: user.organizationId, user: { email: cleanEmail } },
     });
 
-    if (existingUser && existingUser.organizationId === user.organizationId) {
+    if (existingMember) {
       return NextResponse.json(
         { error: "User is already a member of this organization" },
         { status: 400 }
@@ -96,10 +89,10 @@ export async function POST(request: NextRequest) {
       await resend.emails.send({
         from: env.EMAIL_FROM,
         to: cleanEmail,
-        subject: `${session.user.name} invited you to join ${user.organization.name}`,
+        subject: `${session.user.name} invited you to join ${organization.name}`,
         html: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h2>You're invited to join ${user.organization.name}!</h2>
+            <h2>You're invited to join ${organization.name}!</h2>
             <p>${session.user.name} (${session.user.email}) has invited you to join their organization on Gumboard.</p>
             <p>Click the link below to accept the invitation:</p>
             <a href="${getBaseUrl(request)}/invite/accept?token=${invite.id}" 
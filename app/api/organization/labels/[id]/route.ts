@@ -0,0 +1,104 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { labelSelect, parseLabelInput } from "@/lib/labels";
+import { NextRequest, NextResponse } from "next/server";
+
+// Rename or recolor a label, notes show the change right away
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const labelId = (await params).id;
+    const parsed = parseLabelInput(await request.json(), { partial: true });
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { name, color } = parsed.label;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage labels" }, { status: 403 });
+    }
+
+    const label = await db.label.findUnique({ where: { id: labelId } });
+
+    if (!label || label.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: "Label not found" }, { status: 404 });
+    }
+
+    if (name !== undefined && name !== label.name) {
+      const existing = await db.label.findUnique({
+        where: { organizationId_name: { organizationId: user.organizationId, name } },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: "A label with this name already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updatedLabel = await db.label.update({
+      where: { id: labelId },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(color !== undefined && { color }),
+      },
+      select: labelSelect,
+    });
+
+    return NextResponse.json({ label: updatedLabel });
+  } catch (error) {
+    console.error("Error updating label:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Delete a label, removing it from every note
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const labelId = (await params).id;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage labels" }, { status: 403 });
+    }
+
+    const { count } = await db.label.deleteMany({
+      where: { id: labelId, organizationId: user.organizationId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Label not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting label:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { labelSelect, parseLabelInput } from "@/lib/labels";
+import { NextRequest, NextResponse } from "next/server";
+
+// Get the labels of the organization, every member can attach them to notes
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const labels = await db.label.findMany({
+      where: { organizationId: user.organizationId },
+      select: labelSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ labels });
+  } catch (error) {
+    console.error("Error fetching labels:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Create a label
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = parseLabelInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { name, color } = parsed.label;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage labels" }, { status: 403 });
+    }
+
+    const existing = await db.label.findUnique({
+      where: { organizationId_name: { organizationId: user.organizationId, name } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: "A label with this name already exists" }, { status: 409 });
+    }
+
+    const label = await db.label.create({
+      data: { organizationId: user.organizationId, name, color },
+      select: labelSelect,
+    });
+
+    return NextResponse.json({ label }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating label:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
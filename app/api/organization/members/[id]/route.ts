@@ -1,8 +1,15 @@
 import { auth } from "@/auth";
 import { db } from "@/lib/db";
 import { NextRequest, NextResponse } from "next/server";
-
-// Update member (toggle admin role)
+import {
+  getActiveMember,
+  isOrganizationRole,
+  organizationMemberSelect,
+  toMemberList,
+  type OrganizationRole,
+} from "@/lib/organization";
+
+// Update member role (admin, member or guest)
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth();
@@ -11,45 +18,51 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { isAdmin } = await request.json();
+    const { role, isAdmin, isGuest } = await request.json();
     const memberId = (await params).id;
 
-    // Get current user with organization
-    const currentUser = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
-    });
+    const currentUser = await getActiveMember(session);
 
-    if (!currentUser?.organizationId || !currentUser.organization) {
+    if (!currentUser) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
-    // Only admins or the first user (organization creator) can change admin roles
+    // Only admins can change member roles
     if (!currentUser.isAdmin) {
       return NextResponse.json({ error: "Only admins can change member roles" }, { status: 403 });
     }
 
-    // Get the member to update
-    const member = await db.user.findUnique({
-      where: { id: memberId },
-    });
+    // The admin and guest toggles are shorthands for switching between a role and MEMBER
+    let nextRole: OrganizationRole | null = isOrganizationRole(role) ? role : null;
+    if (!nextRole && typeof isAdmin === "boolean") {
+      nextRole = isAdmin ? "ADMIN" : "MEMBER";
+    }
+    if (!nextRole && typeof isGuest === "boolean") {
+      nextRole = isGuest ? "GUEST" : "MEMBER";
+    }
 
-    if (!member) {
-      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    if (!nextRole) {
+      return NextResponse.json({ error: "A valid role is required" }, { status: 400 });
     }
 
-    // Check if member belongs to the same organization
-    if (member.organizationId !== currentUser.organizationId) {
-      return NextResponse.json({ error: "Member not in your organization" }, { status: 403 });
+    // Get the member to update within the active organization
+    const member = await db.organizationMember.findUnique({
+      where: {
+        organizationId_userId: { organizationId: currentUser.organizationId, userId: memberId },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not in your organization" }, { status: 404 });
     }
 
-    // Update the member's admin status
-    const updatedMember = await db.user.update({
-      where: { id: memberId },
-      data: { isAdmin: typeof isAdmin === "boolean" ? isAdmin : false },
+    const updatedMember = await db.organizationMember.update({
+      where: { id: member.id },
+      data: { role: nextRole },
+      select: organizationMemberSelect,
     });
 
-    return NextResponse.json({ member: updatedMember });
+    return NextResponse.json({ member: toMemberList([updatedMember])[0] });
   } catch (error) {
     console.error("Error updating member:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -70,18 +83,9 @@ export async function DELETE(
 
     const memberId = (await params).id;
 
-    // Get current user with organization
-    const currentUser = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        isAdmin: true,
-        organizationId: true,
-        organization: true,
-      },
-    });
+    const currentUser = await getActiveMember(session);
 
-    if (!currentUser?.organizationId || !currentUser.organization) {
+    if (!currentUser) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
@@ -90,34 +94,37 @@ export async function DELETE(
       return NextResponse.json({ error: "Only admins can remove members" }, { status: 403 });
     }
 
-    // Get the member to remove
-    const member = await db.user.findUnique({
-      where: { id: memberId },
-    });
-
-    if (!member) {
-      return NextResponse.json({ error: "Member not found" }, { status: 404 });
-    }
-
-    // Check if member belongs to the same organization
-    if (member.organizationId !== currentUser.organizationId) {
-      return NextResponse.json({ error: "Member not in your organization" }, { status: 403 });
-    }
-
     // Can't remove yourself
-    if (member.id === currentUser.id) {
+    if (memberId === currentUser.id) {
       return NextResponse.json({ error: "Cannot remove yourself" }, { status: 400 });
     }
 
-    // Remove member from organization
-    await db.user.update({
-      where: { id: memberId },
-      data: {
-        organizationId: null,
-        isAdmin: false, // Reset admin status when leaving organization
+    // Get the member to remove within the active organization
+    const member = await db.organizationMember.findUnique({
+      where: {
+        organizationId_userId: { organizationId: currentUser.organizationId, userId: memberId },
       },
     });
 
+    if (!member) {
+      return NextResponse.json({ error: "Member not in your organization" }, { status: 404 });
+    }
+
+    // Remove member from organization along with their board memberships and task assignments
+    await db.$transaction([
+      db.boardMember.deleteMany({
+        where: { userId: memberId, board: { organizationId: currentUser.organizationId } },
+      }),
+      db.checklistItem.updateMany({
+        where: {
+          assigneeId: memberId,
+          note: { board: { organizationId: currentUser.organizationId } },
+        },
+        data: { assigneeId: null },
+      }),
+      db.organizationMember.delete({ where: { id: member.id } }),
+    ]);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error removing member:", error);
@@ -1,6 +1,7 @@
 import { auth } from "@/auth";
 import { db } from "@/lib/db";
 import { NextRequest, NextResponse } from "next/server";
+import { getActiveMember, organizationMemberSelect, toMemberList } from "@/lib/organization";
 
 export async function PUT(request: NextRequest) {
   try {
@@ -16,25 +17,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "Organization name is required" }, { status: 400 });
     }
 
-    // Get user with organization
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        isAdmin: true,
-        organizationId: true,
-        organization: true,
-      },
-    });
+    const member = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!member) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
     // Only admins can update organization name
-    if (!user.isAdmin) {
+    if (!member.isAdmin) {
       return NextResponse.json(
         { error: "Only admins can update organization settings" },
         { status: 403 }
@@ -42,46 +32,28 @@ export async function PUT(request: NextRequest) {
     }
 
     // Update organization name and Slack webhook URL
-    await db.organization.update({
-      where: { id: user.organizationId },
+    const organization = await db.organization.update({
+      where: { id: member.organizationId },
       data: {
         name: name.trim(),
         ...(slackWebhookUrl !== undefined && { slackWebhookUrl: slackWebhookUrl?.trim() || null }),
       },
-    });
-
-    // Return updated user data
-    const updatedUser = await db.user.findUnique({
-      where: { id: session.user.id },
       include: {
-        organization: {
-          include: {
-            members: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                isAdmin: true,
-              },
-            },
-          },
-        },
+        members: { select: organizationMemberSelect, orderBy: { createdAt: "asc" } },
       },
     });
 
     return NextResponse.json({
-      id: updatedUser!.id,
-      name: updatedUser!.name,
-      email: updatedUser!.email,
-      isAdmin: updatedUser!.isAdmin,
-      organization: updatedUser!.organization
-        ? {
-            id: updatedUser!.organization.id,
-            name: updatedUser!.organization.name,
-            slackWebhookUrl: updatedUser!.organization.slackWebhookUrl,
-            members: updatedUser!.organization.members,
-          }
-        : null,
+      id: member.id,
+      name: session.user.name,
+      email: session.user.email,
+      isAdmin: member.isAdmin,
+      organization: {
+        id: organization.id,
+        name: organization.name,
+        slackWebhookUrl: organization.slackWebhookUrl,
+        members: toMemberList(organization.members),
+      },
     });
   } catch (error) {
     console.error("Error updating organization:", error);
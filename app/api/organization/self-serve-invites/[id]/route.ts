@@ -1,5 +1,6 @@
 import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function DELETE(
@@ -15,13 +16,9 @@ export async function DELETE(
 
     const inviteId = (await params).id;
 
-    // Get user with organization
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
@@ -1,5 +1,6 @@
 import { auth } from "@/auth";
 import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
 import { NextRequest, NextResponse } from "next/server";
 import { nanoid } from "nanoid";
 
@@ -17,13 +18,9 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user with organization
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
@@ -66,20 +63,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invite name is required" }, { status: 400 });
     }
 
-    // Get user with organization
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        isAdmin: true,
-        organizationId: true,
-        organization: true,
-      },
-    });
+    const user = await getActiveMember(session);
 
-    if (!user?.organizationId || !user.organization) {
+    if (!user) {
       return NextResponse.json({ error: "No organization found" }, { status: 404 });
     }
 
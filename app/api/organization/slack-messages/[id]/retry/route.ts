@@ -0,0 +1,66 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { retrySlackMessage } from "@/lib/slack-outbox";
+import { NextRequest, NextResponse } from "next/server";
+
+// Send a failed Slack message again
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const messageId = (await params).id;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage Slack deliveries" },
+        { status: 403 }
+      );
+    }
+
+    const message = await db.slackOutboxMessage.findFirst({
+      where: { id: messageId, organizationId: user.organizationId },
+      select: { status: true },
+    });
+
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    if (message.status !== "FAILED") {
+      return NextResponse.json({ error: "Only failed messages can be retried" }, { status: 400 });
+    }
+
+    await retrySlackMessage(messageId);
+
+    const updatedMessage = await db.slackOutboxMessage.findUnique({
+      where: { id: messageId },
+      select: {
+        id: true,
+        text: true,
+        status: true,
+        attempts: true,
+        responseStatus: true,
+        error: true,
+        nextAttemptAt: true,
+        lastAttemptAt: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({ message: updatedMessage });
+  } catch (error) {
+    console.error("Error retrying Slack message:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { NextRequest, NextResponse } from "next/server";
+
+// Dismiss an undelivered Slack message
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const messageId = (await params).id;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage Slack deliveries" },
+        { status: 403 }
+      );
+    }
+
+    const { count } = await db.slackOutboxMessage.deleteMany({
+      where: { id: messageId, organizationId: user.organizationId, status: { not: "SENT" } },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting Slack message:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { NextResponse } from "next/server";
+
+const FAILED_MESSAGE_LIMIT = 50;
+
+// Get Slack messages that could not be delivered or are waiting for a retry
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can view Slack deliveries" }, { status: 403 });
+    }
+
+    const messages = await db.slackOutboxMessage.findMany({
+      where: {
+        organizationId: user.organizationId,
+        OR: [{ status: "FAILED" }, { status: "PENDING", attempts: { gt: 0 } }],
+      },
+      select: {
+        id: true,
+        text: true,
+        status: true,
+        attempts: true,
+        responseStatus: true,
+        error: true,
+        nextAttemptAt: true,
+        lastAttemptAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: FAILED_MESSAGE_LIMIT,
+    });
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Error fetching Slack messages:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
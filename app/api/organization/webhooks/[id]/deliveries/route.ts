@@ -0,0 +1,60 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { NextRequest, NextResponse } from "next/server";
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// Get the most recent deliveries of a webhook
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const webhookId = (await params).id;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage webhooks" }, { status: 403 });
+    }
+
+    const webhook = await db.webhook.findFirst({
+      where: { id: webhookId, organizationId: user.organizationId },
+      select: { id: true },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const deliveries = await db.webhookDelivery.findMany({
+      where: { webhookId },
+      select: {
+        id: true,
+        event: true,
+        status: true,
+        attempts: true,
+        responseStatus: true,
+        error: true,
+        nextAttemptAt: true,
+        lastAttemptAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { isValidWebhookUrl, isWebhookEvent } from "@/lib/webhook-events";
+import { resolvesToPublicAddress } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// Update a webhook's URL, event filter or active state
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const webhookId = (await params).id;
+    const { url, events, isActive } = await request.json();
+
+    if (url !== undefined && !isValidWebhookUrl(url)) {
+      return NextResponse.json({ error: "A valid https URL is required" }, { status: 400 });
+    }
+
+    if (url !== undefined && !(await resolvesToPublicAddress(url))) {
+      return NextResponse.json(
+        { error: "Webhook URL must resolve to a public address" },
+        { status: 400 }
+      );
+    }
+
+    if (events !== undefined && (!Array.isArray(events) || !events.every(isWebhookEvent))) {
+      return NextResponse.json({ error: "Invalid webhook events" }, { status: 400 });
+    }
+
+    if (isActive !== undefined && typeof isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage webhooks" }, { status: 403 });
+    }
+
+    const webhook = await db.webhook.findUnique({ where: { id: webhookId } });
+
+    if (!webhook || webhook.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const updatedWebhook = await db.webhook.update({
+      where: { id: webhookId },
+      data: {
+        ...(url !== undefined && { url: url.trim() }),
+        ...(events !== undefined && { events: Array.from(new Set<string>(events)) }),
+        ...(isActive !== undefined && { isActive }),
+      },
+      select: {
+        id: true,
+        url: true,
+        events: true,
+        isActive: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return NextResponse.json({ webhook: updatedWebhook });
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Delete a webhook together with its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const webhookId = (await params).id;
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage webhooks" }, { status: 403 });
+    }
+
+    const { count } = await db.webhook.deleteMany({
+      where: { id: webhookId, organizationId: user.organizationId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
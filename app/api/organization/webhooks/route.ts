@@ -0,0 +1,108 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getActiveMember } from "@/lib/organization";
+import { isValidWebhookUrl, isWebhookEvent } from "@/lib/webhook-events";
+import { resolvesToPublicAddress } from "@/lib/webhooks";
+import { generateWebhookSecret } from "@/lib/webhook-signature";
+import { NextRequest, NextResponse } from "next/server";
+
+// The signing secret is only returned once, when the webhook is created
+const webhookSelect = {
+  id: true,
+  url: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  deliveries: {
+    select: { status: true, responseStatus: true, createdAt: true },
+    orderBy: { createdAt: "desc" as const },
+    take: 1,
+  },
+};
+
+// Get all webhooks of the organization
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage webhooks" }, { status: 403 });
+    }
+
+    const webhooks = await db.webhook.findMany({
+      where: { organizationId: user.organizationId },
+      select: webhookSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Register a new webhook
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { url, events = [] } = await request.json();
+
+    if (!isValidWebhookUrl(url)) {
+      return NextResponse.json({ error: "A valid https URL is required" }, { status: 400 });
+    }
+
+    if (!(await resolvesToPublicAddress(url))) {
+      return NextResponse.json(
+        { error: "Webhook URL must resolve to a public address" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(events) || !events.every(isWebhookEvent)) {
+      return NextResponse.json({ error: "Invalid webhook events" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!user.isAdmin) {
+      return NextResponse.json({ error: "Only admins can manage webhooks" }, { status: 403 });
+    }
+
+    const secret = generateWebhookSecret();
+    const webhook = await db.webhook.create({
+      data: {
+        organizationId: user.organizationId,
+        url: url.trim(),
+        secret,
+        events: Array.from(new Set(events)),
+      },
+      select: webhookSelect,
+    });
+
+    return NextResponse.json({ webhook, secret }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestSession } from "@/lib/api-auth";
+import { getActiveMember } from "@/lib/organization";
+import { searchNotes } from "@/lib/note-search";
+import { parseSearchFilters } from "@/lib/search";
+
+// Full-text search over the notes of every board the user can see
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = parseSearchFilters(request.nextUrl.searchParams);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const results = await searchNotes(user, parsed.filters);
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error("Error searching notes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+import { setActiveOrganization } from "@/lib/organization";
+
+// Switch the organization the current session is working in
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { organizationId } = await request.json();
+
+    if (!organizationId || typeof organizationId !== "string") {
+      return NextResponse.json({ error: "Organization ID is required" }, { status: 400 });
+    }
+
+    const membership = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId: session.user.id } },
+      select: { role: true, organization: { select: { id: true, name: true } } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "Not a member of this organization" }, { status: 403 });
+    }
+
+    await setActiveOrganization(organizationId);
+
+    return NextResponse.json({
+      organization: { ...membership.organization, role: membership.role },
+    });
+  } catch (error) {
+    console.error("Error switching organization:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+
+// Revoke one of the current user's API tokens
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tokenId = (await params).id;
+
+    const { count } = await db.apiToken.deleteMany({
+      where: { id: tokenId, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "API token not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking API token:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
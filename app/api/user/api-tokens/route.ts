@@ -0,0 +1,124 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveMember } from "@/lib/organization";
+import { accessibleBoardsWhere } from "@/lib/board-access";
+import {
+  apiTokenSelect,
+  generateApiToken,
+  getApiTokenPrefix,
+  hashApiToken,
+  isApiTokenScope,
+} from "@/lib/api-tokens";
+
+// List the current user's API tokens for the active organization
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const apiTokens = await db.apiToken.findMany({
+      where: { userId: user.id, organizationId: user.organizationId },
+      select: apiTokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ apiTokens });
+  } catch (error) {
+    console.error("Error fetching API tokens:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Create an API token; the plain token is only returned in this response
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name, scopes, boardIds, expiresAt } = await request.json();
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Token name is required" }, { status: 400 });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      return NextResponse.json(
+        { error: "scopes must be a non-empty list of READ or WRITE" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      boardIds !== undefined &&
+      (!Array.isArray(boardIds) || !boardIds.every((id) => typeof id === "string"))
+    ) {
+      return NextResponse.json({ error: "boardIds must be a list of board IDs" }, { status: 400 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const selectedBoardIds: string[] = Array.from(new Set(boardIds ?? []));
+    if (selectedBoardIds.length > 0) {
+      const boardCount = await db.board.count({
+        where: { AND: [accessibleBoardsWhere(user), { id: { in: selectedBoardIds } }] },
+      });
+
+      if (boardCount !== selectedBoardIds.length) {
+        return NextResponse.json({ error: "Board not found" }, { status: 404 });
+      }
+    }
+
+    // Parse expiration date if provided, tokens stay valid until the end of that day
+    let expirationDate = null;
+    if (expiresAt) {
+      expirationDate = new Date(expiresAt);
+      expirationDate.setHours(23, 59, 59, 999);
+
+      if (isNaN(expirationDate.getTime()) || expirationDate <= new Date()) {
+        return NextResponse.json(
+          { error: "Expiration date must be in the future" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const token = generateApiToken();
+
+    const apiToken = await db.apiToken.create({
+      data: {
+        name: name.trim(),
+        tokenHash: hashApiToken(token),
+        tokenPrefix: getApiTokenPrefix(token),
+        userId: user.id,
+        organizationId: user.organizationId,
+        // Writing through the API always includes reading
+        scopes: scopes.includes("WRITE") ? ["READ", "WRITE"] : ["READ"],
+        boardIds: selectedBoardIds,
+        expiresAt: expirationDate,
+      },
+      select: apiTokenSelect,
+    });
+
+    return NextResponse.json({ apiToken, token }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating API token:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+import { isDigestFrequency } from "@/lib/digest";
+
+// Get the current user's email digest preference
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: session.user.id },
+      select: { digestFrequency: true, lastDigestSentAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      frequency: user.digestFrequency,
+      lastSentAt: user.lastDigestSentAt,
+    });
+  } catch (error) {
+    console.error("Error fetching digest preference:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Change how often the current user receives email digests
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { frequency } = await request.json();
+
+    if (!isDigestFrequency(frequency)) {
+      return NextResponse.json(
+        { error: "frequency must be NEVER, DAILY or WEEKLY" },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.update({
+      where: { id: session.user.id },
+      data: { digestFrequency: frequency },
+      select: { digestFrequency: true, lastDigestSentAt: true },
+    });
+
+    return NextResponse.json({
+      frequency: user.digestFrequency,
+      lastSentAt: user.lastDigestSentAt,
+    });
+  } catch (error) {
+    console.error("Error updating digest preference:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
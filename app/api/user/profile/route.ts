@@ -1,6 +1,7 @@
 import { auth } from "@/auth";
 import { db } from "@/lib/db";
 import { NextRequest, NextResponse } from "next/server";
+import { getActiveMember, organizationMemberSelect, toMemberList } from "@/lib/organization";
 
 export async function PUT(request: NextRequest) {
   try {
@@ -20,30 +21,27 @@ export async function PUT(request: NextRequest) {
     const updatedUser = await db.user.update({
       where: { id: session.user.id },
       data: { name: name.trim() },
-      include: {
-        organization: {
+    });
+
+    const member = await getActiveMember(session);
+    const organization = member
+      ? await db.organization.findUnique({
+          where: { id: member.organizationId },
           include: {
-            members: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
+            members: { select: organizationMemberSelect, orderBy: { createdAt: "asc" } },
           },
-        },
-      },
-    });
+        })
+      : null;
 
     return NextResponse.json({
       id: updatedUser.id,
       name: updatedUser.name,
       email: updatedUser.email,
-      organization: updatedUser.organization
+      organization: organization
         ? {
-            id: updatedUser.organization.id,
-            name: updatedUser.organization.name,
-            members: updatedUser.organization.members,
+            id: organization.id,
+            name: organization.name,
+            members: toMemberList(organization.members),
           }
         : null,
     });
@@ -1,6 +1,8 @@
 import { auth } from "@/auth";
 import { db } from "@/lib/db";
 import { NextResponse } from "next/server";
+import { getActiveMember, organizationMemberSelect, toMemberList } from "@/lib/organization";
+import { labelSelect } from "@/lib/labels";
 
 export async function GET() {
   try {
@@ -10,22 +12,13 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user with organization and members
+    // Get user with their organizations, and the members of the active one
     const user = await db.user.findUnique({
       where: { id: session.user.id },
       include: {
-        organization: {
-          include: {
-            members: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-                email: true,
-                isAdmin: true,
-              },
-            },
-          },
+        memberships: {
+          select: { role: true, organization: { select: { id: true, name: true } } },
+          orderBy: { createdAt: "asc" },
         },
       },
     });
@@ -34,20 +27,38 @@ export async function GET() {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    const member = await getActiveMember(session);
+    const organization = member
+      ? await db.organization.findUnique({
+          where: { id: member.organizationId },
+          include: {
+            members: { select: organizationMemberSelect, orderBy: { createdAt: "asc" } },
+            labels: { select: labelSelect, orderBy: { name: "asc" } },
+          },
+        })
+      : null;
+
     return NextResponse.json({
       id: user.id,
       name: user.name,
       email: user.email,
       image: user.image,
-      isAdmin: user.isAdmin,
-      organization: user.organization
+      isAdmin: member?.isAdmin ?? false,
+      isGuest: member?.isGuest ?? false,
+      organization: organization
         ? {
-            id: user.organization.id,
-            name: user.organization.name,
-            slackWebhookUrl: user.organization.slackWebhookUrl,
-            members: user.organization.members,
+            id: organization.id,
+            name: organization.name,
+            slackWebhookUrl: organization.slackWebhookUrl,
+            members: toMemberList(organization.members),
+            labels: organization.labels,
           }
         : null,
+      organizations: user.memberships.map(({ role, organization }) => ({
+        id: organization.id,
+        name: organization.name,
+        role,
+      })),
     });
   } catch (error) {
     console.error("Error fetching user:", error);
@@ -0,0 +1,69 @@
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { NextRequest, NextResponse } from "next/server";
+import { isSlackUserId } from "@/lib/slack";
+import { getActiveMember } from "@/lib/organization";
+
+// Get the current user's Slack member ID in the active organization
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const member = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId: user.organizationId, userId: user.id } },
+      select: { slackUserId: true },
+    });
+
+    return NextResponse.json({ slackUserId: member?.slackUserId ?? null });
+  } catch (error) {
+    console.error("Error fetching Slack member ID:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Set the Slack member ID used to ping the current user when they are mentioned
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slackUserId } = await request.json();
+
+    if (slackUserId !== null && !isSlackUserId(slackUserId)) {
+      return NextResponse.json(
+        { error: "slackUserId must be a Slack member ID like U024BE7LH, or null" },
+        { status: 400 }
+      );
+    }
+
+    const user = await getActiveMember(session);
+
+    if (!user) {
+      return NextResponse.json({ error: "No organization found" }, { status: 403 });
+    }
+
+    const member = await db.organizationMember.update({
+      where: { organizationId_userId: { organizationId: user.organizationId, userId: user.id } },
+      data: { slackUserId },
+      select: { slackUserId: true },
+    });
+
+    return NextResponse.json({ slackUserId: member.slackUserId });
+  } catch (error) {
+    console.error("Error updating Slack member ID:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
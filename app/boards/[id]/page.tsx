@@ -11,6 +11,7 @@ import Link from "next/link";
 import { BetaBadge } from "@/components/ui/beta-badge";
 import { FilterPopover } from "@/components/ui/filter-popover";
 import { Note as NoteCard } from "@/components/note";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
 import {
   AlertDialog,
@@ -26,6 +27,7 @@ import {
 import type { Note, Board, User } from "@/components/note";
 import { useTheme } from "next-themes";
 import { ProfileDropdown } from "@/components/profile-dropdown";
+import { NotificationBell } from "@/components/notification-bell";
 import { toast } from "sonner";
 import { useUser } from "@/app/contexts/UserContext";
 import {
@@ -34,8 +36,28 @@ import {
   calculateGridLayout,
   calculateMobileLayout,
   filterAndSortNotes,
+  cn,
 } from "@/lib/utils";
 import { BoardPageSkeleton } from "@/components/board-skeleton";
+import { applyBoardEvent, isOrganizationWideBoard, type BoardEvent } from "@/lib/board-events";
+import { canEditNote, hasBoardRole } from "@/lib/board-roles";
+import { filterNotesByTasks } from "@/lib/tasks";
+import { filterNotesByLabels } from "@/lib/labels";
+import { BoardMembers } from "@/components/board-members";
+import { KanbanBoard } from "@/components/kanban-board";
+import { NoteGrid } from "@/components/note-grid";
+import { KanbanColumnsEditor } from "@/components/kanban-columns-editor";
+import { DEFAULT_KANBAN_COLUMNS, type BoardLayout, type ColumnInput } from "@/lib/kanban";
+import { getPositionBetween, sortNotesByPosition } from "@/lib/note-order";
+import type { BulkNoteAction } from "@/lib/bulk-actions";
+import { NOTE_COLORS } from "@/lib/constants";
+
+const EVENT_STREAM_RETRY_DELAY = 5000;
+
+// Columns as they are edited in the board settings
+function getColumnInputs(board: Board | null | undefined): ColumnInput[] {
+  return board?.columns?.map(({ id, name }) => ({ id, name })) ?? [];
+}
 
 export default function BoardPage({ params }: { params: Promise<{ id: string }> }) {
   const [board, setBoard] = useState<Board | null>(null);
@@ -61,6 +83,17 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     endDate: null,
   });
   const [selectedAuthor, setSelectedAuthor] = useState<string | null>(null);
+  const [selectedAssignee, setSelectedAssignee] = useState<string | null>(null);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
+  const [searchResults, setSearchResults] = useState<{
+    notes: Note[];
+    nextOffset: number | null;
+  } | null>(null);
+  const [loadingMoreResults, setLoadingMoreResults] = useState(false);
+  // Notes are loaded a page at a time, newest first
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMoreNotes, setLoadingMoreNotes] = useState(false);
   const [addingChecklistItem, setAddingChecklistItem] = useState<string | null>(null);
   // Per-item edit and animations are handled inside Note component now
   const [errorDialog, setErrorDialog] = useState<{
@@ -74,10 +107,21 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     name: "",
     description: "",
     isPublic: false,
+    isTemplate: false,
     sendSlackUpdates: true,
+    layout: "MASONRY" as BoardLayout,
+    columns: [] as ColumnInput[],
   });
   const [copiedPublicUrl, setCopiedPublicUrl] = useState(false);
+  const [purgeNoteId, setPurgeNoteId] = useState<string | null>(null);
   const [deleteConfirmDialog, setDeleteConfirmDialog] = useState(false);
+  const [duplicateDialog, setDuplicateDialog] = useState({
+    open: false,
+    name: "",
+    resetChecked: false,
+  });
+  // Notes picked for a bulk action, null while the board isn't in selection mode
+  const [selectedNoteIds, setSelectedNoteIds] = useState<string[] | null>(null);
   const boardRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -93,13 +137,19 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     (
       newSearchTerm?: string,
       newDateRange?: { startDate: Date | null; endDate: Date | null },
-      newAuthor?: string | null
+      newAuthor?: string | null,
+      newAssignee?: string | null,
+      newOverdueOnly?: boolean,
+      newLabels?: string[]
     ) => {
       const params = new URLSearchParams();
 
       const currentSearchTerm = newSearchTerm !== undefined ? newSearchTerm : searchTerm;
       const currentDateRange = newDateRange !== undefined ? newDateRange : dateRange;
       const currentAuthor = newAuthor !== undefined ? newAuthor : selectedAuthor;
+      const currentAssignee = newAssignee !== undefined ? newAssignee : selectedAssignee;
+      const currentOverdueOnly = newOverdueOnly !== undefined ? newOverdueOnly : overdueOnly;
+      const currentLabels = newLabels !== undefined ? newLabels : selectedLabels;
 
       if (currentSearchTerm) {
         params.set("search", currentSearchTerm);
@@ -117,11 +167,23 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
         params.set("author", currentAuthor);
       }
 
+      if (currentAssignee) {
+        params.set("assignee", currentAssignee);
+      }
+
+      if (currentOverdueOnly) {
+        params.set("overdue", "true");
+      }
+
+      if (currentLabels.length > 0) {
+        params.set("labels", currentLabels.join(","));
+      }
+
       const queryString = params.toString();
       const newURL = queryString ? `?${queryString}` : window.location.pathname;
       router.replace(newURL, { scroll: false });
     },
-    [searchTerm, dateRange, selectedAuthor, router]
+    [searchTerm, dateRange, selectedAuthor, selectedAssignee, overdueOnly, selectedLabels, router]
   );
 
   // Initialize filters from URL parameters
@@ -130,6 +192,9 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     const urlStartDate = searchParams.get("startDate");
     const urlEndDate = searchParams.get("endDate");
     const urlAuthor = searchParams.get("author");
+    const urlAssignee = searchParams.get("assignee");
+    const urlOverdue = searchParams.get("overdue");
+    const urlLabels = searchParams.get("labels");
 
     setSearchTerm(urlSearchTerm);
 
@@ -153,6 +218,9 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
 
     setDateRange({ startDate, endDate });
     setSelectedAuthor(urlAuthor);
+    setSelectedAssignee(urlAssignee);
+    setOverdueOnly(urlOverdue === "true");
+    setSelectedLabels(urlLabels ? urlLabels.split(",").filter(Boolean) : []);
   };
 
   useEffect(() => {
@@ -170,12 +238,56 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
   }, []);
 
   useEffect(() => {
+    setSelectedNoteIds(null);
     if (boardId) {
       fetchBoardData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [boardId]);
 
+  // Keep notes in sync with changes made by other viewers
+  useEffect(() => {
+    if (!boardId) return;
+
+    let eventSource: EventSource;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      eventSource = new EventSource(`/api/boards/${boardId}/events`);
+      eventSource.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data) as BoardEvent;
+          const noteId = "note" in event ? event.note.id : event.noteId;
+          // Notes deleted locally stay hidden while the delete can still be undone
+          if (pendingDeleteTimeoutsRef.current[noteId]) return;
+          setNotes((prev) => applyBoardEvent(prev, event, boardId));
+        } catch (error) {
+          console.error("Error applying board event:", error);
+        }
+      };
+      // Sent when events missed while disconnected can no longer be replayed
+      eventSource.addEventListener("reset", () => fetchBoardData());
+      eventSource.onerror = () => {
+        // The browser reconnects dropped streams itself and resumes after the last event it
+        // received, but gives up when the server fails to open one. Open a new stream then and
+        // reload the board to catch up.
+        if (eventSource.readyState === EventSource.CLOSED) {
+          reconnectTimeout = setTimeout(() => {
+            connect();
+            fetchBoardData();
+          }, EVENT_STREAM_RETRY_DELAY);
+        }
+      };
+    };
+    connect();
+
+    return () => {
+      clearTimeout(reconnectTimeout);
+      eventSource.close();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [boardId]);
+
   // Close dropdowns when clicking outside and handle escape key
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -254,14 +366,189 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     return () => clearTimeout(timer);
   }, [searchTerm, updateURL]);
 
+  // Deleted notes are only searched in the browser, everything else uses the search API
+  const isServerSearch = !!boardId && boardId !== "trash" && debouncedSearchTerm.trim() !== "";
+
+  const fetchSearchResults = useCallback(
+    async (offset: number): Promise<{ notes: Note[]; nextOffset: number | null }> => {
+      const params = new URLSearchParams({ q: debouncedSearchTerm.trim(), offset: String(offset) });
+      if (boardId && !isOrganizationWideBoard(boardId)) {
+        params.set("boardId", boardId);
+      }
+      if (boardId === "archive") {
+        params.set("archived", "true");
+      }
+      if (selectedAuthor) {
+        params.set("authorId", selectedAuthor);
+      }
+      selectedLabels.forEach((labelId) => params.append("labelId", labelId));
+      if (dateRange.startDate) {
+        const { startDate } = dateRange;
+        params.set(
+          "startDate",
+          new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate()).toISOString()
+        );
+      }
+      if (dateRange.endDate) {
+        const { endDate } = dateRange;
+        params.set(
+          "endDate",
+          new Date(
+            endDate.getFullYear(),
+            endDate.getMonth(),
+            endDate.getDate(),
+            23,
+            59,
+            59,
+            999
+          ).toISOString()
+        );
+      }
+
+      const response = await fetch(`/api/search?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to search notes");
+      }
+      return response.json();
+    },
+    [boardId, debouncedSearchTerm, selectedAuthor, selectedLabels, dateRange]
+  );
+
+  useEffect(() => {
+    if (!isServerSearch) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchSearchResults(0)
+      .then((results) => {
+        if (cancelled) return;
+        setSearchResults(results);
+        addLoadedNotes(results.notes);
+      })
+      .catch((error) => console.error("Error searching notes:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isServerSearch, fetchSearchResults]);
+
+  // Results and later pages can include notes that are already loaded
+  const addLoadedNotes = (loaded: Note[]) => {
+    setNotes((prev) => {
+      const known = new Set(prev.map((note) => note.id));
+      const added = loaded
+        .filter((note) => !known.has(note.id))
+        .map((note) => ({ ...note, searchHighlight: undefined }));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  };
+
+  const handleLoadMoreNotes = async () => {
+    if (!boardId || !nextCursor) return;
+
+    setLoadingMoreNotes(true);
+    try {
+      const response = await fetch(
+        `/api/boards/${boardId}/notes?cursor=${encodeURIComponent(nextCursor)}`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to load notes");
+      }
+      const data: { notes: Note[]; nextCursor: string | null } = await response.json();
+      addLoadedNotes(data.notes);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Error loading more notes:", error);
+    } finally {
+      setLoadingMoreNotes(false);
+    }
+  };
+
+  const handleLoadMoreResults = async () => {
+    if (searchResults?.nextOffset == null) return;
+
+    setLoadingMoreResults(true);
+    try {
+      const results = await fetchSearchResults(searchResults.nextOffset);
+      setSearchResults((prev) =>
+        prev ? { notes: [...prev.notes, ...results.notes], nextOffset: results.nextOffset } : prev
+      );
+      addLoadedNotes(results.notes);
+    } catch (error) {
+      console.error("Error searching notes:", error);
+    } finally {
+      setLoadingMoreResults(false);
+    }
+  };
+
   // Get unique authors for dropdown
   const uniqueAuthors = useMemo(() => getUniqueAuthors(notes), [notes]);
 
-  // Get filtered and sorted notes for display
-  const filteredNotes = useMemo(
-    () => filterAndSortNotes(notes, debouncedSearchTerm, dateRange, selectedAuthor, user),
-    [notes, debouncedSearchTerm, dateRange, selectedAuthor, user]
+  const members = useMemo(() => user?.organization?.members ?? [], [user]);
+  const assignees = useMemo(
+    () =>
+      members.map((member) => ({
+        id: member.id,
+        name: member.name || member.email,
+        email: member.email,
+        image: member.image,
+      })),
+    [members]
   );
+
+  // Get filtered and sorted notes for display. Search results keep their ranking but show the
+  // live copy of each note, so edits and board events are reflected while searching.
+  const filteredNotes = useMemo(() => {
+    const taskFilters = {
+      // My tasks only ever shows the current user's items
+      assigneeId: boardId === "my-tasks" ? user?.id : selectedAssignee,
+      overdueOnly,
+    };
+
+    if (!searchResults) {
+      const sortedNotes = filterAndSortNotes(
+        notes,
+        boardId === "trash" ? debouncedSearchTerm : "",
+        dateRange,
+        selectedAuthor,
+        user
+      );
+      // Boards keep the order their notes were arranged in, pseudo-boards mix several boards
+      return filterNotesByTasks(
+        filterNotesByLabels(
+          boardId && !isOrganizationWideBoard(boardId)
+            ? sortNotesByPosition(sortedNotes)
+            : sortedNotes,
+          selectedLabels
+        ),
+        taskFilters
+      );
+    }
+
+    return filterNotesByTasks(
+      filterNotesByLabels(
+        searchResults.notes.flatMap((result) => {
+          const live = notes.find((note) => note.id === result.id);
+          return live ? [{ ...live, searchHighlight: result.searchHighlight }] : [];
+        }),
+        selectedLabels
+      ),
+      taskFilters
+    );
+  }, [
+    notes,
+    searchResults,
+    boardId,
+    debouncedSearchTerm,
+    dateRange,
+    selectedAuthor,
+    selectedAssignee,
+    overdueOnly,
+    selectedLabels,
+    user,
+  ]);
   const layoutNotes = useMemo(
     () =>
       isMobile
@@ -311,6 +598,28 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
           name: "Archive",
           description: "Archived notes from all boards",
         });
+      } else if (boardId === "my-tasks") {
+        [allBoardsResponse, notesResponse] = await Promise.all([
+          fetch("/api/boards"),
+          fetch(`/api/boards/my-tasks/notes`),
+        ]);
+
+        setBoard({
+          id: "my-tasks",
+          name: "My tasks",
+          description: "Notes with checklist items assigned to you",
+        });
+      } else if (boardId === "trash") {
+        [allBoardsResponse, notesResponse] = await Promise.all([
+          fetch("/api/boards"),
+          fetch(`/api/boards/trash/notes`),
+        ]);
+
+        setBoard({
+          id: "trash",
+          name: "Trash",
+          description: "Deleted notes from all boards",
+        });
       } else {
         [allBoardsResponse, boardResponse, notesResponse] = await Promise.all([
           fetch("/api/boards"),
@@ -331,13 +640,17 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
           name: board.name,
           description: board.description || "",
           isPublic: (board as { isPublic?: boolean })?.isPublic ?? false,
+          isTemplate: board?.isTemplate ?? false,
           sendSlackUpdates: (board as { sendSlackUpdates?: boolean })?.sendSlackUpdates ?? true,
+          layout: board.layout ?? "MASONRY",
+          columns: getColumnInputs(board),
         });
       }
 
       if (notesResponse && notesResponse.ok) {
-        const { notes } = await notesResponse.json();
+        const { notes, nextCursor } = await notesResponse.json();
         setNotes(notes);
+        setNextCursor(nextCursor ?? null);
       }
 
       if (boardId && boardId !== "all-notes") {
@@ -364,7 +677,86 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     setNotes((prev) => prev.map((n) => (n.id === updatedNote.id ? updatedNote : n)));
   };
 
-  const handleAddNote = async (targetBoardId?: string) => {
+  // Pseudo-boards mix notes from several boards, so look the role up per note
+  const getBoardRoleFor = (noteBoardId: string) =>
+    boardId && isOrganizationWideBoard(boardId)
+      ? (allBoards.find((b) => b.id === noteBoardId)?.role ?? null)
+      : (board?.role ?? null);
+
+  const editableBoards = allBoards.filter((b) => hasBoardRole(b.role, "EDITOR"));
+  const canAddNotes =
+    boardId === "all-notes"
+      ? editableBoards.length > 0
+      : boardId !== "archive" && boardId !== "trash" && hasBoardRole(board?.role, "EDITOR");
+
+  const isKanbanBoard =
+    !!board &&
+    !!boardId &&
+    !isOrganizationWideBoard(boardId) &&
+    board.layout === "KANBAN" &&
+    (board.columns?.length ?? 0) > 0;
+
+  // Boards a note can be moved or copied to, every board the user can add notes to but its own
+  const getMoveTargets = (noteBoardId: string) =>
+    editableBoards.filter((b) => b.id !== noteBoardId).map((b) => ({ id: b.id, name: b.name }));
+
+  const canMoveNote = (note: Note) =>
+    canEditNote(getBoardRoleFor(note.boardId), user?.id, note.user.id);
+
+  const toggleNoteSelection = (noteId: string) => {
+    setSelectedNoteIds((prev) =>
+      prev?.includes(noteId) ? prev.filter((id) => id !== noteId) : [...(prev ?? []), noteId]
+    );
+  };
+
+  const renderNote = (note: Note, style: React.CSSProperties) => (
+    <NoteCard
+      key={note.id}
+      note={note}
+      currentUser={user as User}
+      onUpdate={handleUpdateNoteFromComponent}
+      onDelete={handleDeleteNote}
+      onArchive={boardId !== "archive" && boardId !== "trash" ? handleArchiveNote : undefined}
+      onUnarchive={boardId === "archive" ? handleUnarchiveNote : undefined}
+      onCopy={handleCopyNote}
+      onMove={
+        boardId !== "trash" ? (n, target, copy) => handleMoveNotes([n], target, copy) : undefined
+      }
+      moveTargets={getMoveTargets(note.boardId)}
+      onRestore={boardId === "trash" ? handleRestoreNote : undefined}
+      onPurge={boardId === "trash" ? (noteId) => setPurgeNoteId(noteId) : undefined}
+      boardRole={getBoardRoleFor(note.boardId)}
+      showBoardName={!!boardId && isOrganizationWideBoard(boardId)}
+      members={members}
+      availableLabels={user?.organization?.labels}
+      className={cn(
+        "shadow-md shadow-black/10",
+        selectedNoteIds?.includes(note.id) && "ring-2 ring-sky-500"
+      )}
+      style={style}
+    />
+  );
+
+  const renderNoteCard = (note: Note, style: React.CSSProperties) => {
+    const card = renderNote(note, style);
+    if (!selectedNoteIds || !canMoveNote(note)) {
+      return card;
+    }
+
+    return (
+      <div key={note.id} className="relative w-full h-full">
+        {card}
+        <Checkbox
+          aria-label={`Select Note ${note.id}`}
+          checked={selectedNoteIds.includes(note.id)}
+          onCheckedChange={() => toggleNoteSelection(note.id)}
+          className="absolute top-2 left-2 z-20 bg-white dark:bg-zinc-900"
+        />
+      </div>
+    );
+  };
+
+  const handleAddNote = async (targetBoardId?: string, columnId?: string) => {
     // For all notes view, ensure a board is selected
     if (boardId === "all-notes" && !targetBoardId) {
       setErrorDialog({
@@ -389,13 +781,14 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
           body: JSON.stringify({
             checklistItems: [],
             ...(isAllNotesView && { boardId: targetBoardId }),
+            ...(columnId && { columnId }),
           }),
         }
       );
 
       if (response.ok) {
         const { note } = await response.json();
-        setNotes((prev) => [...prev, note]);
+        setNotes((prev) => [...prev.filter((n) => n.id !== note.id), note]);
         setAddingChecklistItem(note.id);
         if (searchTerm.trim() || dateRange.startDate || dateRange.endDate || selectedAuthor) {
           setSearchTerm("");
@@ -410,6 +803,203 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     }
   };
 
+  const handleReorderNote = async (
+    noteId: string,
+    afterNoteId: string | null,
+    noteIds: string[]
+  ) => {
+    const previousNotes = notes;
+    // Place the note between its new neighbours right away, the server has the final say
+    const afterNote = notes.find((n) => n.id === afterNoteId);
+    const nextNote = notes.find((n) => n.id === noteIds[noteIds.indexOf(noteId) + 1]);
+    const position = getPositionBetween(afterNote?.position ?? null, nextNote?.position ?? null);
+    if (position !== null) {
+      setNotes((prev) => prev.map((n) => (n.id === noteId ? { ...n, position } : n)));
+    }
+
+    try {
+      const response = await fetch(`/api/boards/${boardId}/notes/${noteId}/position`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ afterNoteId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to move note");
+      }
+
+      const { notes: movedNotes }: { notes: Note[] } = await response.json();
+      setNotes((prev) =>
+        prev.map((n) => {
+          const moved = movedNotes.find((m) => m.id === n.id);
+          return moved ? { ...n, position: moved.position } : n;
+        })
+      );
+    } catch (error) {
+      console.error("Error moving note:", error);
+      setNotes(previousNotes);
+      setErrorDialog({
+        open: true,
+        title: "Failed to move note",
+        description: error instanceof Error ? error.message : "Failed to move note",
+      });
+    }
+  };
+
+  const handleMoveNoteToColumn = async (noteId: string, columnId: string, noteIds: string[]) => {
+    const previousNotes = notes;
+    setNotes((prev) =>
+      prev.map((n) =>
+        noteIds.includes(n.id) ? { ...n, columnId, columnOrder: noteIds.indexOf(n.id) } : n
+      )
+    );
+
+    try {
+      const response = await fetch(`/api/boards/${boardId}/columns/${columnId}/notes`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ noteIds }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to move note");
+      }
+    } catch (error) {
+      console.error("Error moving note:", error);
+      setNotes(previousNotes);
+      setErrorDialog({
+        open: true,
+        title: "Failed to move note",
+        description: error instanceof Error ? error.message : "Failed to move note",
+      });
+    }
+  };
+
+  // Move notes to another board, or copy them there. Pseudo-boards mix notes from several
+  // boards, so the notes are sent per board they are on.
+  const handleMoveNotes = async (notesToMove: Note[], targetBoardId: string, copy: boolean) => {
+    const notesByBoard = new Map<string, string[]>();
+    for (const note of notesToMove) {
+      notesByBoard.set(note.boardId, [...(notesByBoard.get(note.boardId) ?? []), note.id]);
+    }
+
+    try {
+      for (const [sourceBoardId, noteIds] of notesByBoard) {
+        const response = await fetch(`/api/boards/${sourceBoardId}/notes/move`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ noteIds, targetBoardId, copy }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null);
+          throw new Error(errorData?.error || `Failed to ${copy ? "copy" : "move"} notes`);
+        }
+
+        const { notes: movedNotes }: { notes: Note[] } = await response.json();
+        setNotes((prev) =>
+          movedNotes.reduce(
+            (current, note) =>
+              applyBoardEvent(
+                current,
+                copy
+                  ? { type: "note.created", boardId: targetBoardId, note }
+                  : {
+                      type: "note.moved",
+                      boardId: targetBoardId,
+                      fromBoardId: sourceBoardId,
+                      note,
+                    },
+                boardId!
+              ),
+            prev
+          )
+        );
+      }
+
+      const targetName = allBoards.find((b) => b.id === targetBoardId)?.name ?? "board";
+      const count = notesToMove.length;
+      toast.success(
+        `${copy ? "Copied" : "Moved"} ${count === 1 ? "note" : `${count} notes`} to ${targetName}`
+      );
+    } catch (error) {
+      console.error("Error moving notes:", error);
+      setErrorDialog({
+        open: true,
+        title: `Failed to ${copy ? "copy" : "move"} notes`,
+        description: error instanceof Error ? error.message : "Failed to move notes",
+      });
+    }
+  };
+
+  // Apply an action to every selected note. Like moves, notes are sent per board they are on.
+  const handleBulkAction = async (action: BulkNoteAction) => {
+    const selected = notes.filter(
+      (n) =>
+        selectedNoteIds?.includes(n.id) &&
+        // In the all-notes view some of the notes may already be on the target board
+        !(action.type === "move" && n.boardId === action.targetBoardId)
+    );
+    const sourceBoardIds = new Map(selected.map((note) => [note.id, note.boardId]));
+    setSelectedNoteIds(null);
+
+    try {
+      // The organization-wide views send notes from every board in one request
+      const { type, ...options } = action;
+      const response = await fetch(`/api/boards/${boardId}/notes/bulk`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ noteIds: [...sourceBoardIds.keys()], action: type, ...options }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to update notes");
+      }
+
+      const {
+        notes: updatedNotes,
+        deletedNoteIds = [],
+      }: { notes: Note[]; deletedNoteIds?: string[] } = await response.json();
+      setNotes((prev) => {
+        let current = prev.filter((n) => !deletedNoteIds.includes(n.id));
+        for (const note of updatedNotes) {
+          current = applyBoardEvent(
+            current,
+            action.type === "move"
+              ? {
+                  type: "note.moved",
+                  boardId: action.targetBoardId,
+                  fromBoardId: sourceBoardIds.get(note.id)!,
+                  note,
+                }
+              : {
+                  type:
+                    action.type === "archive"
+                      ? "note.archived"
+                      : action.type === "unarchive"
+                        ? "note.unarchived"
+                        : "note.updated",
+                  boardId: note.boardId,
+                  note,
+                },
+            boardId!
+          );
+        }
+        return current;
+      });
+    } catch (error) {
+      console.error("Error updating notes:", error);
+      setErrorDialog({
+        open: true,
+        title: "Failed to update notes",
+        description: error instanceof Error ? error.message : "Failed to update notes",
+      });
+    }
+  };
+
   const handleCopyNote = async (originalNote: Note) => {
     try {
       const targetBoardId = boardId === "all-notes" ? originalNote.boardId : boardId;
@@ -431,7 +1021,11 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
           },
           body: JSON.stringify({
             color: originalNote.color,
+            title: originalNote.title ?? null,
+            body: originalNote.body ?? null,
             checklistItems,
+            labelIds: originalNote.labels?.map((label) => label.id) ?? [],
+            ...(!isAllNotesView && originalNote.columnId && { columnId: originalNote.columnId }),
             ...(isAllNotesView && { boardId: targetBoardId }),
           }),
         }
@@ -439,7 +1033,7 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
 
       if (response.ok) {
         const { note } = await response.json();
-        setNotes((prev) => [...prev, note]);
+        setNotes((prev) => [...prev.filter((n) => n.id !== note.id), note]);
       }
     } catch (error) {
       console.error("Error copying note:", error);
@@ -555,6 +1149,59 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     }
   };
 
+  const handleRestoreNote = async (noteId: string) => {
+    try {
+      const currentNote = notes.find((n) => n.id === noteId);
+      if (!currentNote) return;
+
+      setNotes((prev) => prev.filter((n) => n.id !== noteId));
+
+      const response = await fetch(`/api/boards/trash/notes/${noteId}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        setNotes((prev) => [...prev, currentNote]);
+        const errorData = await response.json().catch(() => null);
+        setErrorDialog({
+          open: true,
+          title: "Restore Failed",
+          description: errorData?.error || "Failed to restore note. Please try again.",
+        });
+        return;
+      }
+
+      toast("Note restored");
+    } catch (error) {
+      console.error("Error restoring note:", error);
+    }
+  };
+
+  const handlePurgeNote = async (noteId: string) => {
+    try {
+      const currentNote = notes.find((n) => n.id === noteId);
+      if (!currentNote) return;
+
+      setNotes((prev) => prev.filter((n) => n.id !== noteId));
+
+      const response = await fetch(`/api/boards/trash/notes/${noteId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        setNotes((prev) => [...prev, currentNote]);
+        const errorData = await response.json().catch(() => null);
+        setErrorDialog({
+          open: true,
+          title: "Failed to delete note",
+          description: errorData?.error || "Failed to permanently delete note",
+        });
+      }
+    } catch (error) {
+      console.error("Error purging note:", error);
+    }
+  };
+
   const handleAddBoard = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newBoardName.trim()) return;
@@ -601,13 +1248,18 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     name?: string;
     description?: string;
     isPublic?: boolean;
+    isTemplate?: boolean;
     sendSlackUpdates: boolean;
+    layout?: BoardLayout;
+    columns?: ColumnInput[];
   }) => {
     try {
+      const { columns, ...rest } = settings;
       const response = await fetch(`/api/boards/${boardId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(settings),
+        // Columns only matter for Kanban boards
+        body: JSON.stringify(settings.layout === "KANBAN" && columns?.length ? settings : rest),
       });
 
       if (response.ok) {
@@ -620,15 +1272,56 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
           name: board.name,
           description: board.description || "",
           isPublic: (board as { isPublic?: boolean })?.isPublic ?? false,
+          isTemplate: board?.isTemplate ?? false,
           sendSlackUpdates: (board as { sendSlackUpdates?: boolean })?.sendSlackUpdates ?? true,
+          layout: board.layout ?? "MASONRY",
+          columns: getColumnInputs(board),
         });
         setBoardSettingsDialog(false);
+      } else {
+        const errorData = await response.json().catch(() => null);
+        setErrorDialog({
+          open: true,
+          title: "Failed to update board",
+          description: errorData?.error || "Failed to update board settings",
+        });
       }
     } catch (error) {
       console.error("Error updating board settings:", error);
     }
   };
 
+  const handleDuplicateBoard = async () => {
+    try {
+      const response = await fetch("/api/boards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: duplicateDialog.name.trim(),
+          sourceBoardId: boardId,
+          resetChecked: duplicateDialog.resetChecked,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to duplicate board");
+      }
+
+      const { board: newBoard } = await response.json();
+      setAllBoards((prev) => [newBoard, ...prev]);
+      setDuplicateDialog((prev) => ({ ...prev, open: false }));
+      router.push(`/boards/${newBoard.id}`);
+    } catch (error) {
+      console.error("Error duplicating board:", error);
+      setErrorDialog({
+        open: true,
+        title: "Failed to duplicate board",
+        description: error instanceof Error ? error.message : "Failed to duplicate board",
+      });
+    }
+  };
+
   const handleCopyPublicUrl = async () => {
     const publicUrl = `${window.location.origin}/public/boards/${boardId}`;
     try {
@@ -671,7 +1364,7 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
     return <BoardPageSkeleton />;
   }
 
-  if (!board && boardId !== "all-notes" && boardId !== "archive") {
+  if (!board && !(boardId && isOrganizationWideBoard(boardId))) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -708,9 +1401,13 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                   <div className="text-sm font-semibold text-foreground dark:text-zinc-100 truncate">
                     {boardId === "all-notes"
                       ? "All notes"
-                      : boardId === "archive"
-                        ? "Archive"
-                        : board?.name}
+                      : boardId === "my-tasks"
+                        ? "My tasks"
+                        : boardId === "archive"
+                          ? "Archive"
+                          : boardId === "trash"
+                            ? "Trash"
+                            : board?.name}
                   </div>
                 </div>
                 {showBoardDropdown ? (
@@ -760,6 +1457,19 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                       <div>All notes</div>
                     </Link>
 
+                    {/* My Tasks Option */}
+                    <Link
+                      href="/boards/my-tasks"
+                      className={`rounded-lg font-medium block px-3 py-1.5 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 ${
+                        boardId === "my-tasks"
+                          ? "bg-zinc-100 dark:bg-zinc-800 dark:text-white font-semibold"
+                          : "text-foreground dark:text-white"
+                      }`}
+                      onClick={() => setShowBoardDropdown(false)}
+                    >
+                      <div>My tasks</div>
+                    </Link>
+
                     {/* Archive Option */}
                     <Link
                       href="/boards/archive"
@@ -772,6 +1482,19 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                     >
                       <div>All archived</div>
                     </Link>
+
+                    {/* Trash Option */}
+                    <Link
+                      href="/boards/trash"
+                      className={`rounded-lg block font-medium px-3 py-1.5 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 ${
+                        boardId === "trash"
+                          ? "bg-zinc-100 dark:bg-zinc-800 dark:text-white font-semibold"
+                          : "text-foreground dark:text-white"
+                      }`}
+                      onClick={() => setShowBoardDropdown(false)}
+                    >
+                      <div>Trash</div>
+                    </Link>
                     <div className="border-t border-zinc-100 dark:border-zinc-800 my-1"></div>
                     <Button
                       variant="outline"
@@ -807,10 +1530,49 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                     setSelectedAuthor(authorId);
                     updateURL(undefined, undefined, authorId);
                   }}
+                  selectedAssignee={boardId === "my-tasks" ? null : selectedAssignee}
+                  assignees={assignees}
+                  onAssigneeChange={
+                    boardId === "my-tasks"
+                      ? undefined
+                      : (assigneeId) => {
+                          setSelectedAssignee(assigneeId);
+                          updateURL(undefined, undefined, undefined, assigneeId);
+                        }
+                  }
+                  overdueOnly={overdueOnly}
+                  onOverdueChange={(value) => {
+                    setOverdueOnly(value);
+                    updateURL(undefined, undefined, undefined, undefined, value);
+                  }}
+                  labels={user?.organization?.labels}
+                  selectedLabels={selectedLabels}
+                  onLabelsChange={(labelIds) => {
+                    setSelectedLabels(labelIds);
+                    updateURL(undefined, undefined, undefined, undefined, undefined, labelIds);
+                  }}
                   className="h-9"
                 />
               </div>
-              {boardId !== "all-notes" && boardId !== "archive" && (
+              {boardId && !isOrganizationWideBoard(boardId) && board && !user?.isGuest && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setDuplicateDialog({
+                      open: true,
+                      name: `Copy of ${board.name}`,
+                      resetChecked: false,
+                    })
+                  }
+                  aria-label="Duplicate board"
+                  title="Duplicate board"
+                  className="flex items-center size-9"
+                >
+                  <Copy className="size-4" />
+                </Button>
+              )}
+              {boardId && !isOrganizationWideBoard(boardId) && board?.role === "OWNER" && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -819,8 +1581,11 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                       name: board?.name || "",
                       description: board?.description || "",
                       isPublic: (board as { isPublic?: boolean })?.isPublic ?? false,
+                      isTemplate: board?.isTemplate ?? false,
                       sendSlackUpdates:
                         (board as { sendSlackUpdates?: boolean })?.sendSlackUpdates ?? true,
+                      layout: board?.layout ?? "MASONRY",
+                      columns: getColumnInputs(board),
                     });
                     setBoardSettingsDialog(true);
                   }}
@@ -865,21 +1630,33 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
               )}
             </div>
 
+            {boardId !== "trash" && editableBoards.length > 0 && (
+              <Button
+                variant={selectedNoteIds ? "secondary" : "outline"}
+                onClick={() => setSelectedNoteIds(selectedNoteIds ? null : [])}
+              >
+                {selectedNoteIds ? "Done" : "Select"}
+              </Button>
+            )}
+
             <Button
               onClick={() => {
-                if (boardId === "all-notes" && allBoards.length > 0) {
-                  handleAddNote(allBoards[0].id);
+                if (boardId === "all-notes" && editableBoards.length > 0) {
+                  handleAddNote(editableBoards[0].id);
                 } else {
-                  handleAddNote();
+                  handleAddNote(undefined, isKanbanBoard ? board.columns?.[0]?.id : undefined);
                 }
               }}
-              disabled={boardId === "archive"}
+              disabled={!canAddNotes}
             >
               <span>Add note</span>
             </Button>
 
-            {/* User Dropdown */}
-            <ProfileDropdown user={user} />
+            {/* Notifications and User Dropdown */}
+            <div className="flex items-center gap-1">
+              <NotificationBell />
+              <ProfileDropdown user={user} />
+            </div>
           </div>
         </div>
       </div>
@@ -889,41 +1666,75 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
         ref={boardRef}
         className="relative w-full"
         style={{
-          height: boardHeight,
+          height: isKanbanBoard ? undefined : boardHeight,
           minHeight: "calc(100vh - 64px)", // Account for header height
         }}
       >
         {/* Notes */}
-        <div className="relative w-full h-full">
-          {layoutNotes.map((note) => (
-            <NoteCard
-              key={note.id}
-              note={note as Note}
-              currentUser={user as User}
-              onUpdate={handleUpdateNoteFromComponent}
-              onDelete={handleDeleteNote}
-              onArchive={boardId !== "archive" ? handleArchiveNote : undefined}
-              onUnarchive={boardId === "archive" ? handleUnarchiveNote : undefined}
-              onCopy={handleCopyNote}
-              showBoardName={boardId === "all-notes" || boardId === "archive"}
-              className="shadow-md shadow-black/10"
-              style={{
-                position: "absolute",
-                left: note.x,
-                top: note.y,
-                width: note.width,
-                height: note.height,
+        {isKanbanBoard ? (
+          <KanbanBoard
+            notes={filteredNotes}
+            columns={board.columns!}
+            canMoveNotes={hasBoardRole(board.role, "EDITOR")}
+            onMoveNote={handleMoveNoteToColumn}
+            onAddNote={canAddNotes ? (columnId) => handleAddNote(undefined, columnId) : undefined}
+            renderNote={(note) =>
+              renderNoteCard(note, {
                 padding: `${getResponsiveConfig().notePadding}px`,
                 backgroundColor: resolvedTheme === "dark" ? "#18181B" : note.color,
-              }}
-            />
-          ))}
-        </div>
+              })
+            }
+          />
+        ) : (
+          <NoteGrid
+            notes={layoutNotes}
+            canReorder={
+              !!boardId &&
+              !isOrganizationWideBoard(boardId) &&
+              !searchResults &&
+              hasBoardRole(board?.role, "EDITOR")
+            }
+            onReorder={handleReorderNote}
+            renderNote={(note, style) =>
+              renderNoteCard(note, {
+                ...style,
+                padding: `${getResponsiveConfig().notePadding}px`,
+                backgroundColor: resolvedTheme === "dark" ? "#18181B" : note.color,
+              })
+            }
+          />
+        )}
+
+        {searchResults
+          ? searchResults.nextOffset != null && (
+              <div className="absolute bottom-6 left-0 right-0 flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={handleLoadMoreResults}
+                  disabled={loadingMoreResults}
+                >
+                  {loadingMoreResults ? "Loading..." : "Load more results"}
+                </Button>
+              </div>
+            )
+          : nextCursor && (
+              <div className="absolute bottom-6 left-0 right-0 flex justify-center">
+                <Button variant="outline" onClick={handleLoadMoreNotes} disabled={loadingMoreNotes}>
+                  {loadingMoreNotes ? "Loading..." : "Load more notes"}
+                </Button>
+              </div>
+            )}
 
         {/* Empty State */}
         {filteredNotes.length === 0 &&
           notes.length > 0 &&
-          (searchTerm || dateRange.startDate || dateRange.endDate || selectedAuthor) && (
+          (searchTerm ||
+            dateRange.startDate ||
+            dateRange.endDate ||
+            selectedAuthor ||
+            selectedAssignee ||
+            overdueOnly ||
+            selectedLabels.length > 0) && (
             <div className="absolute inset-0 flex flex-col items-center justify-center px-4 text-center text-gray-500 dark:text-gray-400">
               <Search className="w-12 h-12 mb-4 text-gray-400 dark:text-gray-500" />
               <div className="text-xl mb-2">No notes found</div>
@@ -935,6 +1746,24 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                     Author: {uniqueAuthors.find((a) => a.id === selectedAuthor)?.name || "Unknown"}
                   </div>
                 )}
+                {selectedAssignee && (
+                  <div>
+                    Assignee: {assignees.find((a) => a.id === selectedAssignee)?.name || "Unknown"}
+                  </div>
+                )}
+                {overdueOnly && <div>Only overdue tasks</div>}
+                {selectedLabels.length > 0 && (
+                  <div>
+                    Labels:{" "}
+                    {selectedLabels
+                      .map(
+                        (labelId) =>
+                          user?.organization?.labels?.find((label) => label.id === labelId)?.name ||
+                          "Unknown"
+                      )
+                      .join(", ")}
+                  </div>
+                )}
                 {(dateRange.startDate || dateRange.endDate) && (
                   <div>
                     Date range:{" "}
@@ -949,7 +1778,10 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
                   setDebouncedSearchTerm("");
                   setDateRange({ startDate: null, endDate: null });
                   setSelectedAuthor(null);
-                  updateURL("", { startDate: null, endDate: null }, null);
+                  setSelectedAssignee(null);
+                  setOverdueOnly(false);
+                  setSelectedLabels([]);
+                  updateURL("", { startDate: null, endDate: null }, null, null, false, []);
                 }}
                 variant="outline"
                 className="flex items-center space-x-2 cursor-pointer"
@@ -960,6 +1792,85 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
           )}
       </div>
 
+      {/* Selection Bar */}
+      {selectedNoteIds && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 rounded-lg border border-gray-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 px-4 py-2 shadow-lg">
+          <span className="text-sm text-muted-foreground">
+            {selectedNoteIds.length === 0 ? "Select notes" : `${selectedNoteIds.length} selected`}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedNoteIds.length === 0}
+            onClick={() =>
+              handleBulkAction({ type: boardId === "archive" ? "unarchive" : "archive" })
+            }
+          >
+            {boardId === "archive" ? "Unarchive" : "Archive"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedNoteIds.length === 0}
+            onClick={() => handleBulkAction({ type: "checkAll" })}
+          >
+            Check all items
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline" disabled={selectedNoteIds.length === 0}>
+                Color
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-2 flex gap-1" align="center">
+              {NOTE_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={`Color ${color}`}
+                  onClick={() => handleBulkAction({ type: "color", color })}
+                  className="w-6 h-6 rounded-full border border-gray-300 dark:border-zinc-700"
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </PopoverContent>
+          </Popover>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline" disabled={selectedNoteIds.length === 0}>
+                Move to board…
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 p-1 max-h-72 overflow-y-auto" align="center">
+              {editableBoards
+                .filter((b) => b.id !== boardId)
+                .map((b) => (
+                  <button
+                    key={b.id}
+                    type="button"
+                    onClick={() => handleBulkAction({ type: "move", targetBoardId: b.id })}
+                    className="w-full text-left text-sm px-2 py-1.5 rounded truncate hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                  >
+                    {b.name}
+                  </button>
+                ))}
+            </PopoverContent>
+          </Popover>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedNoteIds.length === 0}
+            onClick={() => handleBulkAction({ type: "delete" })}
+            className="text-red-600 dark:text-red-400"
+          >
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelectedNoteIds(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
       {showAddBoard && (
         <div
           className="fixed inset-0 flex items-center justify-center z-50 p-4 bg-black/40 dark:bg-black/70 backdrop-blur-sm add-board-modal"
@@ -1053,6 +1964,95 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={!!purgeNoteId} onOpenChange={(open) => !open && setPurgeNoteId(null)}>
+        <AlertDialogContent className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-foreground dark:text-zinc-100">
+              Delete note forever
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-muted-foreground dark:text-zinc-400">
+              This note will be permanently deleted. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-gray-400 text-foreground dark:text-zinc-100 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (purgeNoteId) {
+                  handlePurgeNote(purgeNoteId);
+                }
+                setPurgeNoteId(null);
+              }}
+              className="bg-red-600 hover:bg-red-700 text-white dark:bg-red-600 dark:hover:bg-red-700"
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={duplicateDialog.open}
+        onOpenChange={(open) => setDuplicateDialog((prev) => ({ ...prev, open }))}
+      >
+        <AlertDialogContent className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-foreground dark:text-zinc-100">
+              Duplicate board
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-muted-foreground dark:text-zinc-400">
+              Copy the columns, notes and open items of &quot;{board?.name}&quot; to a new board.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="py-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-foreground dark:text-zinc-200 mb-1">
+                Board name
+              </label>
+              <Input
+                type="text"
+                value={duplicateDialog.name}
+                onChange={(e) => setDuplicateDialog((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Enter board name"
+                className="bg-white dark:bg-zinc-900 text-foreground dark:text-zinc-100 border border-gray-200 dark:border-zinc-700"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="resetChecked"
+                checked={duplicateDialog.resetChecked}
+                onCheckedChange={(checked) =>
+                  setDuplicateDialog((prev) => ({ ...prev, resetChecked: checked as boolean }))
+                }
+                className="border-slate-500 bg-white/50 dark:bg-zinc-800 dark:text-zinc-300 dark:border-zinc-600 mt-1"
+              />
+              <label
+                htmlFor="resetChecked"
+                className="text-sm font-medium leading-none text-foreground dark:text-zinc-100"
+              >
+                Uncheck completed items
+              </label>
+            </div>
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-gray-400 text-foreground dark:text-zinc-100 dark:border-zinc-700 hover:bg-zinc-100 hover:text-foreground hover:border-gray-200 dark:hover:bg-zinc-800">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDuplicateBoard}
+              disabled={!duplicateDialog.name.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white dark:bg-blue-500 dark:hover:bg-blue-600 dark:text-white"
+            >
+              Duplicate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={boardSettingsDialog} onOpenChange={setBoardSettingsDialog}>
         <AlertDialogContent className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 p-4 lg:p-6">
           <AlertDialogHeader>
@@ -1166,6 +2166,81 @@ export default function BoardPage({ params }: { params: Promise<{ id: string }>
             <p className="text-xs text-muted-foreground dark:text-zinc-400 mt-1 ml-6">
               When enabled, note updates will be sent to your organization&apos;s Slack channel
             </p>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="isTemplate"
+                checked={boardSettings.isTemplate}
+                onCheckedChange={(checked) =>
+                  setBoardSettings((prev) => ({ ...prev, isTemplate: checked as boolean }))
+                }
+                className="border-slate-500 bg-white/50 dark:bg-zinc-800 dark:text-zinc-300 dark:border-zinc-600 mt-1"
+              />
+              <label
+                htmlFor="isTemplate"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 text-foreground dark:text-zinc-100"
+              >
+                Use as template
+              </label>
+            </div>
+            <p className="text-xs text-muted-foreground dark:text-zinc-400 mt-1 ml-6">
+              Members can start new boards from this board&apos;s columns, notes and items
+            </p>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-foreground dark:text-zinc-200">
+                Layout
+              </label>
+              <div className="flex gap-2">
+                {(
+                  [
+                    ["MASONRY", "Grid"],
+                    ["KANBAN", "Kanban"],
+                  ] as const
+                ).map(([layout, label]) => (
+                  <Button
+                    key={layout}
+                    type="button"
+                    size="sm"
+                    variant={boardSettings.layout === layout ? "default" : "outline"}
+                    aria-pressed={boardSettings.layout === layout}
+                    onClick={() =>
+                      setBoardSettings((prev) => ({
+                        ...prev,
+                        layout,
+                        // Boards start out with a Todo / Doing / Done workflow
+                        columns:
+                          layout === "KANBAN" && prev.columns.length === 0
+                            ? DEFAULT_KANBAN_COLUMNS.map((name) => ({ name }))
+                            : prev.columns,
+                      }))
+                    }
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {boardSettings.layout === "KANBAN" && (
+                <KanbanColumnsEditor
+                  columns={boardSettings.columns}
+                  onChange={(columns) => setBoardSettings((prev) => ({ ...prev, columns }))}
+                />
+              )}
+            </div>
+
+            {boardSettingsDialog && boardId && user?.organization && (
+              <BoardMembers
+                boardId={boardId}
+                members={user.organization.members}
+                onError={(message) =>
+                  setErrorDialog({
+                    open: true,
+                    title: "Failed to update board member",
+                    description: message,
+                  })
+                }
+              />
+            )}
           </div>
 
           <AlertDialogFooter className="flex !flex-row justify-between">
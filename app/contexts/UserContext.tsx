@@ -8,12 +8,20 @@ import React, {
   ReactNode,
   useCallback,
 } from "react";
+import type { Label } from "@/lib/labels";
 
 export type Organization = {
   id: string;
   name: string;
   slackWebhookUrl?: string | null;
   members: User[];
+  labels?: Label[];
+};
+
+export type OrganizationSummary = {
+  id: string;
+  name: string;
+  role: "ADMIN" | "MEMBER" | "GUEST";
 };
 
 export type User = {
@@ -22,7 +30,9 @@ export type User = {
   email: string;
   image?: string | null;
   isAdmin?: boolean;
+  isGuest?: boolean;
   organization: Organization | null;
+  organizations?: OrganizationSummary[];
 };
 
 interface UserContextType {
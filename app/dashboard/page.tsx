@@ -11,7 +11,7 @@ import { BetaBadge } from "@/components/ui/beta-badge";
 import { Input } from "@/components/ui/input";
 import Link from "next/link";
 import { useState, useEffect, useCallback } from "react";
-import { Plus, Grid3x3, Archive } from "lucide-react";
+import { Plus, Grid3x3, Archive, ListTodo } from "lucide-react";
 import { useRouter } from "next/navigation";
 import {
   AlertDialog,
@@ -40,6 +40,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { ProfileDropdown } from "@/components/profile-dropdown";
+import { NotificationBell } from "@/components/notification-bell";
 import { Skeleton } from "@/components/ui/skeleton";
 
 // Dashboard-specific extended types
@@ -57,6 +58,8 @@ const formSchema = z.object({
     .min(1, "Board name is required")
     .refine((value) => value.trim().length > 0, "Board name cannot be empty"),
   description: z.string().optional(),
+  // Template board the new board starts as a copy of
+  templateId: z.string().optional(),
 });
 
 export default function Dashboard() {
@@ -78,6 +81,7 @@ export default function Dashboard() {
     defaultValues: {
       name: "",
       description: "",
+      templateId: "",
     },
   });
 
@@ -125,7 +129,7 @@ export default function Dashboard() {
   }, [fetchUserAndBoards]);
 
   const handleAddBoard = async (values: z.infer<typeof formSchema>) => {
-    const { name, description } = values;
+    const { name, description, templateId } = values;
     const trimmedName = name.trim();
     try {
       const response = await fetch("/api/boards", {
@@ -136,6 +140,8 @@ export default function Dashboard() {
         body: JSON.stringify({
           name: trimmedName,
           description,
+          // Boards made from a template start with every item unchecked
+          ...(templateId && { sourceBoardId: templateId, resetChecked: true }),
         }),
       });
 
@@ -169,6 +175,8 @@ export default function Dashboard() {
     }
   };
 
+  const templates = boards.filter((board) => board.isTemplate);
+
   if (loading) {
     return <DashboardSkeleton />;
   }
@@ -188,7 +196,7 @@ export default function Dashboard() {
           <div className="flex items-center space-x-2 sm:space-x-4">
             <Button
               onClick={() => {
-                form.reset({ name: "", description: "" });
+                form.reset({ name: "", description: "", templateId: "" });
                 setIsAddBoardDialogOpen(true);
               }}
               className="flex items-center space-x-1 sm:space-x-2 bg-blue-600 hover:bg-blue-700 text-white shadow-lg hover:shadow-xl transition-all duration-200 border-0 font-medium px-3 sm:px-4 py-2 dark:bg-blue-500 dark:hover:bg-blue-600"
@@ -199,6 +207,7 @@ export default function Dashboard() {
               </div>
             </Button>
 
+            <NotificationBell />
             <ProfileDropdown user={user} />
           </div>
         </div>
@@ -251,6 +260,31 @@ export default function Dashboard() {
                     </FormItem>
                   )}
                 />
+                {templates.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="templateId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Template (Optional)</FormLabel>
+                        <FormControl>
+                          <select
+                            className="h-9 w-full rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 text-sm text-muted-foreground dark:text-zinc-200 px-3"
+                            {...field}
+                          >
+                            <option value="">Empty board</option>
+                            {templates.map((template) => (
+                              <option key={template.id} value={template.id}>
+                                {template.name}
+                              </option>
+                            ))}
+                          </select>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
                 <DialogFooter>
                   <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">
                     Create board
@@ -290,6 +324,25 @@ export default function Dashboard() {
                 </Card>
               </Link>
 
+              {/* My Tasks Board */}
+              <Link href="/boards/my-tasks">
+                <Card className="group h-full min-h-34 hover:shadow-lg transition-shadow cursor-pointer bg-gray-50 dark:bg-zinc-900 border-gray-200 dark:border-zinc-800 dark:hover:bg-zinc-900/75">
+                  <CardHeader>
+                    <div className="flex items-center space-x-2">
+                      <ListTodo className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                      <CardTitle className="text-lg text-gray-900 dark:text-gray-200">
+                        My Tasks
+                      </CardTitle>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-gray-700 dark:text-gray-300 truncate">
+                      View checklist items assigned to you
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+
               {/* Archive Board */}
               <Link href="/boards/archive">
                 <Card className="group h-full min-h-34 hover:shadow-lg transition-shadow cursor-pointer bg-gray-50 dark:bg-zinc-900 border-gray-200 dark:border-zinc-800 dark:hover:bg-zinc-900/75">
@@ -321,9 +374,16 @@ export default function Dashboard() {
                         >
                           {board.name}
                         </CardTitle>
-                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 mt-0.5">
-                          {board._count.notes} {board._count.notes === 1 ? "note" : "notes"}
-                        </span>
+                        <div className="flex items-center gap-1 mt-0.5">
+                          {board.isTemplate && (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                              Template
+                            </span>
+                          )}
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                            {board._count.notes} {board._count.notes === 1 ? "note" : "notes"}
+                          </span>
+                        </div>
                       </div>
                     </CardHeader>
                     {board.description && (
@@ -353,7 +413,7 @@ export default function Dashboard() {
             <Button
               onClick={() => {
                 setIsAddBoardDialogOpen(true);
-                form.reset({ name: "", description: "" });
+                form.reset({ name: "", description: "", templateId: "" });
               }}
               className="dark:bg-blue-500 dark:hover:bg-blue-600"
             >
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/db";
+import { setActiveOrganization } from "@/lib/organization";
 
 async function acceptInvite(token: string) {
   "use server";
@@ -30,11 +31,15 @@ async function acceptInvite(token: string) {
     throw new Error("This invitation has already been processed");
   }
 
-  // Update user to join the organization
-  await db.user.update({
-    where: { id: session.user.id },
-    data: { organizationId: invite.organizationId },
+  // Join the organization and switch to it
+  await db.organizationMember.upsert({
+    where: {
+      organizationId_userId: { organizationId: invite.organizationId, userId: session.user.id! },
+    },
+    update: {},
+    create: { organizationId: invite.organizationId, userId: session.user.id! },
   });
+  await setActiveOrganization(invite.organizationId);
 
   // Mark invite as accepted
   await db.organizationInvite.update({
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/db";
+import { setActiveOrganization } from "@/lib/organization";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import Link from "next/link";
@@ -39,27 +40,22 @@ async function joinOrganization(token: string) {
     throw new Error("This invitation link has reached its usage limit");
   }
 
-  // Check if user is already in an organization
-  const user = await db.user.findUnique({
-    where: { id: session.user.id },
-    include: { organization: true },
+  // Check if user is already in this organization
+  const membership = await db.organizationMember.findUnique({
+    where: {
+      organizationId_userId: { organizationId: invite.organizationId, userId: session.user.id },
+    },
   });
 
-  if (user?.organizationId === invite.organizationId) {
+  if (membership) {
     throw new Error("You are already a member of this organization");
   }
 
-  if (user?.organizationId) {
-    throw new Error(
-      "You are already a member of another organization. Please leave your current organization first."
-    );
-  }
-
-  // Join the organization
-  await db.user.update({
-    where: { id: session.user.id },
-    data: { organizationId: invite.organizationId },
+  // Join the organization and switch to it
+  await db.organizationMember.create({
+    data: { organizationId: invite.organizationId, userId: session.user.id },
   });
+  await setActiveOrganization(invite.organizationId);
 
   // Increment usage count
   await db.organizationSelfServeInvite.update({
@@ -104,27 +100,22 @@ async function autoCreateAccountAndJoin(token: string, formData: FormData) {
       where: { email },
     });
 
-    // If user doesn't exist, create one with verified email and auto-join organization
+    // If user doesn't exist, create one with verified email
     if (!user) {
       user = await db.user.create({
         data: {
           email,
           emailVerified: new Date(), // Auto-verify since they clicked the invite link
-          organizationId: invite.organizationId, // Auto-join the organization
         },
       });
-    } else if (!user.organizationId) {
-      // If user exists but isn't in an organization, add them to this one
-      user = await db.user.update({
-        where: { id: user.id },
-        data: { organizationId: invite.organizationId },
-      });
-    } else if (user.organizationId === invite.organizationId) {
-      // User is already in this organization, just continue
-    } else {
-      throw new Error("You are already a member of another organization");
     }
 
+    const membership = await db.organizationMember.findUnique({
+      where: {
+        organizationId_userId: { organizationId: invite.organizationId, userId: user.id },
+      },
+    });
+
     // Verify email if not already verified
     if (!user.emailVerified) {
       await db.user.update({
@@ -133,8 +124,11 @@ async function autoCreateAccountAndJoin(token: string, formData: FormData) {
       });
     }
 
-    // Increment usage count only if this is a new join
-    if (user.organizationId === invite.organizationId) {
+    // Join the organization, counting the invite usage only if this is a new join
+    if (!membership) {
+      await db.organizationMember.create({
+        data: { organizationId: invite.organizationId, userId: user.id },
+      });
       await db.organizationSelfServeInvite.update({
         where: { token: token },
         data: { usageCount: { increment: 1 } },
@@ -150,6 +144,7 @@ async function autoCreateAccountAndJoin(token: string, formData: FormData) {
         sessionToken,
         userId: user.id,
         expires,
+        activeOrganizationId: invite.organizationId,
       },
     });
 
@@ -318,25 +313,18 @@ export default async function JoinPage({ params }: JoinPageProps) {
     );
   }
 
-  // Check if user is already in an organization
-  const user = await db.user.findUnique({
-    where: { id: session.user.id },
-    include: { organization: true },
+  // Users already in this organization just switch to it
+  const membership = await db.organizationMember.findUnique({
+    where: {
+      organizationId_userId: { organizationId: invite.organizationId, userId: session.user.id! },
+    },
   });
 
-  if (user?.organizationId === invite.organizationId) {
+  if (membership) {
+    await setActiveOrganization(invite.organizationId);
     redirect("/dashboard");
   }
 
-  if (user?.organizationId) {
-    return (
-      <ErrorCard
-        title="Already in Organization"
-        description={`You are already a member of ${user.organization?.name}. You can only be a member of one organization at a time.`}
-      />
-    );
-  }
-
   const usageInfo = invite.usageLimit
     ? `${invite.usageCount}/${invite.usageLimit} used`
     : `${invite.usageCount} members joined`;
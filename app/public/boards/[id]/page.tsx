@@ -12,6 +12,7 @@ import type { Note, Board } from "@/components/note";
 import { Note as NoteCard } from "@/components/note";
 import { ProfileDropdown } from "@/components/profile-dropdown";
 import { useUser } from "@/app/contexts/UserContext";
+import { sortNotesByPosition } from "@/lib/note-order";
 import {
   getResponsiveConfig,
   getUniqueAuthors,
@@ -95,11 +96,18 @@ export default function PublicBoardPage({ params }: { params: Promise<{ id: stri
         }
       }
 
-      const notesResponse = await fetch(`/api/boards/${boardId}/notes`);
-      if (notesResponse.ok) {
-        const { notes } = await notesResponse.json();
-        setNotes(notes);
-      }
+      // Public boards are read-only snapshots, so load every page up front
+      const loadedNotes: Note[] = [];
+      let cursor: string | null = null;
+      do {
+        const query: string = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+        const notesResponse = await fetch(`/api/boards/${boardId}/notes${query}`);
+        if (!notesResponse.ok) break;
+        const page: { notes: Note[]; nextCursor: string | null } = await notesResponse.json();
+        loadedNotes.push(...page.notes);
+        cursor = page.nextCursor;
+      } while (cursor);
+      setNotes(loadedNotes);
     } catch (error) {
       console.error("Error fetching board data:", error);
       // Set board to null to trigger the not-found UI
@@ -112,7 +120,8 @@ export default function PublicBoardPage({ params }: { params: Promise<{ id: stri
   const uniqueAuthors = useMemo(() => getUniqueAuthors(notes), [notes]);
 
   const filteredNotes = useMemo(
-    () => filterAndSortNotes(notes, searchTerm, dateRange, selectedAuthor, null),
+    () =>
+      sortNotesByPosition(filterAndSortNotes(notes, searchTerm, dateRange, selectedAuthor, null)),
     [notes, searchTerm, dateRange, selectedAuthor]
   );
 
@@ -0,0 +1,363 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Calendar, Clock, Copy, KeyRound, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useUser } from "@/app/contexts/UserContext";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ("READ" | "WRITE")[];
+  boardIds: string[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+interface BoardOption {
+  id: string;
+  name: string;
+}
+
+export default function ApiTokensSettingsPage() {
+  const { user, loading } = useUser();
+  const router = useRouter();
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [boards, setBoards] = useState<BoardOption[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [revokeToken, setRevokeToken] = useState<ApiToken | null>(null);
+  const [newToken, setNewToken] = useState({
+    name: "",
+    canWrite: false,
+    boardIds: [] as string[],
+    expiresAt: "",
+  });
+
+  const fetchApiTokens = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/api-tokens");
+      if (response.ok) {
+        const data = await response.json();
+        setApiTokens(data.apiTokens || []);
+      }
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+    }
+  }, []);
+
+  const fetchBoards = useCallback(async () => {
+    try {
+      const response = await fetch("/api/boards");
+      if (response.ok) {
+        const data = await response.json();
+        setBoards(data.boards || []);
+      }
+    } catch (error) {
+      console.error("Error fetching boards:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/signin");
+    }
+  }, [user, loading, router]);
+
+  useEffect(() => {
+    if (user?.organization) {
+      fetchApiTokens();
+      fetchBoards();
+    }
+  }, [user?.organization, fetchApiTokens, fetchBoards]);
+
+  const toggleBoard = (boardId: string) => {
+    setNewToken((prev) => ({
+      ...prev,
+      boardIds: prev.boardIds.includes(boardId)
+        ? prev.boardIds.filter((id) => id !== boardId)
+        : [...prev.boardIds, boardId],
+    }));
+  };
+
+  const handleCreateToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newToken.name.trim()) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch("/api/user/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: newToken.name,
+          scopes: newToken.canWrite ? ["READ", "WRITE"] : ["READ"],
+          boardIds: newToken.boardIds,
+          ...(newToken.expiresAt && { expiresAt: newToken.expiresAt }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API token");
+      }
+
+      setCreatedToken(data.token);
+      setNewToken({ name: "", canWrite: false, boardIds: [], expiresAt: "" });
+      fetchApiTokens();
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create API token");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevokeToken = async (tokenId: string) => {
+    try {
+      const response = await fetch(`/api/user/api-tokens/${tokenId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to revoke API token");
+      }
+      setApiTokens((prev) => prev.filter((token) => token.id !== tokenId));
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke API token");
+    } finally {
+      setRevokeToken(null);
+    }
+  };
+
+  const copyCreatedToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast.success("Token copied to clipboard");
+    } catch (error) {
+      console.error("Failed to copy token:", error);
+    }
+  };
+
+  const boardNames = (boardIds: string[]) =>
+    boardIds.map((id) => boards.find((board) => board.id === id)?.name ?? "Unknown board");
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8 bg-white dark:bg-black min-h-screen">
+        <Loader size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="p-6 bg-white dark:bg-black border border-gray-200 dark:border-zinc-800">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground dark:text-zinc-100 mb-2">
+            API Tokens
+          </h2>
+          <p className="text-muted-foreground dark:text-zinc-400">
+            Personal tokens for scripting against the boards, notes and checklist API of{" "}
+            {user?.organization?.name || "your organization"}. Send them as{" "}
+            <code className="text-sm">Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+        </div>
+
+        {createdToken && (
+          <div className="p-4 bg-green-50 dark:bg-zinc-800 rounded-lg border border-green-200 dark:border-zinc-700 space-y-2">
+            <p className="text-sm font-medium text-green-800 dark:text-green-300">
+              Copy your new token now. You won&apos;t be able to see it again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 text-sm bg-white dark:bg-zinc-900 rounded border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200 break-all">
+                {createdToken}
+              </code>
+              <Button
+                onClick={copyCreatedToken}
+                variant="outline"
+                size="sm"
+                className="text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:text-blue-400 dark:hover:text-blue-300 dark:hover:bg-zinc-800"
+                title="Copy token"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={handleCreateToken}
+          className="space-y-4 p-4 bg-zinc-50 dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="tokenName" className="text-zinc-800 dark:text-zinc-200 mb-2">
+                Token Name
+              </Label>
+              <Input
+                id="tokenName"
+                type="text"
+                value={newToken.name}
+                onChange={(e) => setNewToken((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Sync script"
+                required
+                className="bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 dark:border-zinc-700"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tokenExpiresAt" className="text-zinc-800 dark:text-zinc-200 mb-2">
+                Expires (Optional)
+              </Label>
+              <Input
+                id="tokenExpiresAt"
+                type="date"
+                value={newToken.expiresAt}
+                onChange={(e) => setNewToken((prev) => ({ ...prev, expiresAt: e.target.value }))}
+                className="bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 dark:border-zinc-700"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-zinc-800 dark:text-zinc-200">
+            <input
+              type="checkbox"
+              checked={newToken.canWrite}
+              onChange={(e) => setNewToken((prev) => ({ ...prev, canWrite: e.target.checked }))}
+            />
+            Allow write access (create, edit and delete notes)
+          </label>
+          {boards.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-zinc-800 dark:text-zinc-200">
+                Boards{" "}
+                <span className="text-muted-foreground dark:text-zinc-400">
+                  (leave empty for all boards)
+                </span>
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-40 overflow-y-auto">
+                {boards.map((board) => (
+                  <label
+                    key={board.id}
+                    className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={newToken.boardIds.includes(board.id)}
+                      onChange={() => toggleBoard(board.id)}
+                    />
+                    <span className="truncate">{board.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={creating || !newToken.name.trim()}
+            className="disabled:bg-gray-400 disabled:cursor-not-allowed bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 text-white dark:text-zinc-100"
+          >
+            <KeyRound className="w-4 h-4 mr-2" />
+            {creating ? "Creating..." : "Create Token"}
+          </Button>
+        </form>
+
+        {apiTokens.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-zinc-900 dark:text-zinc-100">Active Tokens</h4>
+            {apiTokens.map((token) => (
+              <div
+                key={token.id}
+                className="p-4 bg-blue-50 dark:bg-zinc-800 rounded-lg border border-blue-200 dark:border-zinc-700"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h5 className="font-medium text-zinc-900 dark:text-zinc-100 truncate">
+                        {token.name}
+                      </h5>
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        {token.scopes.includes("WRITE") ? "Read & write" : "Read only"}
+                      </span>
+                    </div>
+                    <code className="text-sm text-zinc-700 dark:text-zinc-300">
+                      {token.tokenPrefix}…
+                    </code>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-zinc-600 dark:text-zinc-400">
+                      <span className="flex items-center">
+                        <Clock className="w-4 h-4 mr-1" />
+                        {token.lastUsedAt
+                          ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                          : "Never used"}
+                      </span>
+                      {token.expiresAt && (
+                        <span className="flex items-center">
+                          <Calendar className="w-4 h-4 mr-1" />
+                          Expires {new Date(token.expiresAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      {token.boardIds.length > 0
+                        ? `Boards: ${boardNames(token.boardIds).join(", ")}`
+                        : "All boards"}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => setRevokeToken(token)}
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:text-red-400 dark:hover:text-red-300 dark:hover:bg-red-900"
+                    title="Revoke token"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!revokeToken} onOpenChange={(open) => !open && setRevokeToken(null)}>
+        <AlertDialogContent className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-foreground dark:text-zinc-100">
+              Revoke API token
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-muted-foreground dark:text-zinc-400">
+              Scripts using &quot;{revokeToken?.name}&quot; will stop working immediately. This
+              action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeToken && handleRevokeToken(revokeToken.id)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Revoke Token
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
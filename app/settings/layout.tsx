@@ -1,10 +1,11 @@
 "use client";
 
 import { usePathname } from "next/navigation";
-import { User as UserIcon, Building2, ArrowLeft } from "lucide-react";
+import { User as UserIcon, Building2, ArrowLeft, KeyRound } from "lucide-react";
 import Link from "next/link";
 import { BetaBadge } from "@/components/ui/beta-badge";
 import { ProfileDropdown } from "@/components/profile-dropdown";
+import { NotificationBell } from "@/components/notification-bell";
 import { useUser } from "@/app/contexts/UserContext";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -18,6 +19,7 @@ export default function SettingsLayout({ children }: { children: React.ReactNode
 
   const isProfileActive = pathname === "/settings";
   const isOrganizationActive = pathname === "/settings/organization";
+  const isApiTokensActive = pathname === "/settings/api-tokens";
 
   return (
     <div className="min-h-screen bg-background dark:bg-zinc-900">
@@ -30,7 +32,10 @@ export default function SettingsLayout({ children }: { children: React.ReactNode
               </h1>
             </Link>
           </div>
-          <ProfileDropdown user={user} />
+          <div className="flex items-center gap-1">
+            <NotificationBell />
+            <ProfileDropdown user={user} />
+          </div>
         </div>
       </nav>
 
@@ -73,6 +78,17 @@ export default function SettingsLayout({ children }: { children: React.ReactNode
                 <Building2 className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" />
                 <span className="text-sm sm:text-base whitespace-nowrap">Organization</span>
               </Link>
+              <Link
+                href="/settings/api-tokens"
+                className={`flex-shrink-0 lg:w-full flex items-center px-3 sm:px-4 py-2 sm:py-3 text-left rounded-lg transition-colors ${
+                  isApiTokensActive
+                    ? "bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-900"
+                    : "text-foreground dark:text-zinc-100 hover:bg-accent dark:hover:bg-zinc-800"
+                }`}
+              >
+                <KeyRound className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" />
+                <span className="text-sm sm:text-base whitespace-nowrap">API Tokens</span>
+              </Link>
             </nav>
           </div>
           <div className="flex-1">{children}</div>
@@ -107,6 +123,7 @@ const SettingsSkeleton = () => {
             <nav className="flex flex-row lg:flex-col space-x-2 lg:space-x-0 lg:space-y-4 overflow-x-auto lg:overflow-x-visible pb-2 lg:pb-0">
               <Skeleton className="h-12 w-64" />
               <Skeleton className="h-12 w-64" />
+              <Skeleton className="h-12 w-64" />
             </nav>
           </div>
           <div className="flex-1 w-full h-102 border-1 border-dashed border-gray-300 dark:border-zinc-700 rounded-sm p-4 space-y-4">
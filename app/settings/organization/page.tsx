@@ -15,6 +15,7 @@ import {
   Calendar,
   Users,
   ExternalLink,
+  UserLock,
 } from "lucide-react";
 import { Loader } from "@/components/ui/loader";
 import {
@@ -32,6 +33,9 @@ import { useUser } from "@/app/contexts/UserContext";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useRouter } from "next/navigation";
 import { SLACK_WEBHOOK_REGEX } from "@/lib/constants";
+import { OrganizationWebhooks } from "@/components/organization-webhooks";
+import { OrganizationLabels } from "@/components/organization-labels";
+import { SlackDeliveryLog } from "@/components/slack-delivery-log";
 
 interface OrganizationInvite {
   id: string;
@@ -306,6 +310,38 @@ export default function OrganizationSettingsPage() {
     }
   };
 
+  const handleToggleGuest = async (memberId: string, currentGuestStatus: boolean) => {
+    try {
+      const response = await fetch(`/api/organization/members/${memberId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          isGuest: !currentGuestStatus,
+        }),
+      });
+
+      if (response.ok) {
+        await refreshUser();
+      } else {
+        const errorData = await response.json();
+        setErrorDialog({
+          open: true,
+          title: "Failed to update guest status",
+          description: errorData.error || "Failed to update guest status",
+        });
+      }
+    } catch (error) {
+      console.error("Error toggling guest status:", error);
+      setErrorDialog({
+        open: true,
+        title: "Failed to update guest status",
+        description: "Failed to update guest status",
+      });
+    }
+  };
+
   const handleCreateSelfServeInvite = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newSelfServeInvite.name.trim()) return;
@@ -528,6 +564,74 @@ export default function OrganizationSettingsPage() {
               {saving ? "Saving..." : "Save changes"}
             </Button>
           </div>
+
+          {user?.isAdmin && (
+            <div className="pt-4 border-t border-zinc-200 dark:border-zinc-800">
+              <SlackDeliveryLog
+                onError={(message) =>
+                  setErrorDialog({
+                    open: true,
+                    title: "Slack delivery error",
+                    description: message,
+                    variant: "error",
+                  })
+                }
+              />
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Labels */}
+      <Card className="p-4 lg:p-6 bg-white dark:bg-black border border-gray-200 dark:border-zinc-800">
+        <div className="space-y-3 lg:space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-2">Labels</h3>
+            <p className="text-zinc-600 dark:text-zinc-400">
+              Tag notes across all boards and filter by them. Every member can attach labels to the
+              notes they can edit.
+            </p>
+          </div>
+
+          <OrganizationLabels
+            isAdmin={!!user?.isAdmin}
+            onChange={refreshUser}
+            onError={(message) =>
+              setErrorDialog({
+                open: true,
+                title: "Label error",
+                description: message,
+                variant: "error",
+              })
+            }
+          />
+        </div>
+      </Card>
+
+      {/* Webhooks */}
+      <Card className="p-4 lg:p-6 bg-white dark:bg-black border border-gray-200 dark:border-zinc-800">
+        <div className="space-y-3 lg:space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
+              Webhooks
+            </h3>
+            <p className="text-zinc-600 dark:text-zinc-400">
+              Send signed HTTP requests to your own services when boards, notes and todos change.
+              Failed deliveries are retried with exponential backoff.
+            </p>
+          </div>
+
+          <OrganizationWebhooks
+            isAdmin={!!user?.isAdmin}
+            onError={(message) =>
+              setErrorDialog({
+                open: true,
+                title: "Webhook error",
+                description: message,
+                variant: "error",
+              })
+            }
+          />
         </div>
       </Card>
 
@@ -575,6 +679,12 @@ export default function OrganizationSettingsPage() {
                           Admin
                         </span>
                       )}
+                      {member.isGuest && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                          <UserLock className="w-3 h-3 mr-1" />
+                          Guest
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-zinc-600 dark:text-zinc-400">{member.email}</p>
                   </div>
@@ -600,6 +710,22 @@ export default function OrganizationSettingsPage() {
                       )}
                     </Button>
                   )}
+                  {/* Guests only see the boards they have been added to */}
+                  {user?.isAdmin && member.id !== user.id && !member.isAdmin && (
+                    <Button
+                      onClick={() => handleToggleGuest(member.id, !!member.isGuest)}
+                      variant="outline"
+                      size="sm"
+                      className={`${
+                        member.isGuest
+                          ? "text-amber-600 hover:text-amber-700 hover:bg-amber-50 dark:text-amber-400 dark:hover:text-amber-300 dark:hover:bg-amber-900"
+                          : "text-zinc-500 dark:text-zinc-400 hover:text-amber-600 hover:bg-amber-50 dark:hover:text-amber-300 dark:hover:bg-amber-900"
+                      }`}
+                      title={member.isGuest ? "Give access to all boards" : "Make guest"}
+                    >
+                      <UserLock className="w-4 h-4" />
+                    </Button>
+                  )}
                   {user?.isAdmin && member.id !== user.id && (
                     <Button
                       onClick={() => handleRemoveMember(member.id, member.name || member.email)}
@@ -21,12 +21,19 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useUser } from "@/app/contexts/UserContext";
 import { useRouter } from "next/navigation";
+import { DIGEST_FREQUENCIES, DIGEST_FREQUENCY_LABELS, type DigestFrequency } from "@/lib/digest";
+import { isSlackUserId } from "@/lib/slack";
 
 export default function ProfileSettingsPage() {
   const { user, loading, refreshUser } = useUser();
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [profileName, setProfileName] = useState("");
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency | null>(null);
+  const [savingDigest, setSavingDigest] = useState(false);
+  const [slackUserId, setSlackUserId] = useState<string | null>(null);
+  const [slackUserIdInput, setSlackUserIdInput] = useState("");
+  const [savingSlackUserId, setSavingSlackUserId] = useState(false);
   const router = useRouter();
 
   useEffect(() => {
@@ -41,6 +48,96 @@ export default function ProfileSettingsPage() {
     }
   }, [user, loading, router]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchDigestFrequency = async () => {
+      try {
+        const response = await fetch("/api/user/digest");
+        if (response.ok) {
+          const data: { frequency: DigestFrequency } = await response.json();
+          setDigestFrequency(data.frequency);
+        }
+      } catch (error) {
+        console.error("Error fetching digest preference:", error);
+      }
+    };
+
+    fetchDigestFrequency();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user?.organization) return;
+
+    const fetchSlackUserId = async () => {
+      try {
+        const response = await fetch("/api/user/slack");
+        if (response.ok) {
+          const data: { slackUserId: string | null } = await response.json();
+          setSlackUserId(data.slackUserId);
+          setSlackUserIdInput(data.slackUserId ?? "");
+        }
+      } catch (error) {
+        console.error("Error fetching Slack member ID:", error);
+      }
+    };
+
+    fetchSlackUserId();
+  }, [user?.organization]);
+
+  const normalizedSlackUserId = slackUserIdInput.trim().toUpperCase();
+  const slackUserIdValid = normalizedSlackUserId === "" || isSlackUserId(normalizedSlackUserId);
+
+  const handleSaveSlackUserId = async () => {
+    setSavingSlackUserId(true);
+    try {
+      const response = await fetch("/api/user/slack", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ slackUserId: normalizedSlackUserId || null }),
+      });
+
+      if (response.ok) {
+        const data: { slackUserId: string | null } = await response.json();
+        setSlackUserId(data.slackUserId);
+        setSlackUserIdInput(data.slackUserId ?? "");
+      } else {
+        console.error("Error updating Slack member ID:", await response.text());
+      }
+    } catch (error) {
+      console.error("Error updating Slack member ID:", error);
+    } finally {
+      setSavingSlackUserId(false);
+    }
+  };
+
+  const handleDigestFrequencyChange = async (frequency: DigestFrequency) => {
+    const previous = digestFrequency;
+    setDigestFrequency(frequency);
+    setSavingDigest(true);
+    try {
+      const response = await fetch("/api/user/digest", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ frequency }),
+      });
+
+      if (!response.ok) {
+        setDigestFrequency(previous);
+        console.error("Error updating digest preference:", await response.text());
+      }
+    } catch (error) {
+      setDigestFrequency(previous);
+      console.error("Error updating digest preference:", error);
+    } finally {
+      setSavingDigest(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     setDeleting(true);
     try {
@@ -146,6 +243,76 @@ export default function ProfileSettingsPage() {
             {saving ? "Saving..." : "Save Changes"}
           </Button>
         </div>
+        <div className="pt-6 border-t border-gray-200 dark:border-zinc-800 space-y-2">
+          <div>
+            <h3 className="text-lg font-semibold text-foreground dark:text-zinc-100">
+              Email digest
+            </h3>
+            <p className="text-sm text-muted-foreground dark:text-zinc-400">
+              A summary of new notes, completed items and items assigned to you across your
+              organizations&apos; boards.
+            </p>
+          </div>
+          <Label htmlFor="digestFrequency" className="text-foreground dark:text-zinc-200">
+            Send me a digest
+          </Label>
+          <select
+            id="digestFrequency"
+            value={digestFrequency ?? ""}
+            onChange={(e) => handleDigestFrequencyChange(e.target.value as DigestFrequency)}
+            disabled={digestFrequency === null || savingDigest}
+            className="h-9 w-full sm:w-48 rounded-md border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-foreground dark:text-zinc-100 px-2"
+          >
+            {digestFrequency === null && <option value="">Loading...</option>}
+            {DIGEST_FREQUENCIES.map((frequency) => (
+              <option key={frequency} value={frequency}>
+                {DIGEST_FREQUENCY_LABELS[frequency]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {user?.organization && (
+          <div className="pt-6 border-t border-gray-200 dark:border-zinc-800 space-y-2">
+            <div>
+              <h3 className="text-lg font-semibold text-foreground dark:text-zinc-100">
+                Slack mentions
+              </h3>
+              <p className="text-sm text-muted-foreground dark:text-zinc-400">
+                Add your Slack member ID to get pinged in {user.organization.name}&apos;s Slack
+                channel when someone mentions you. You can copy it from your Slack profile.
+              </p>
+            </div>
+            <Label htmlFor="slackUserId" className="text-foreground dark:text-zinc-200">
+              Slack member ID
+            </Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                id="slackUserId"
+                type="text"
+                value={slackUserIdInput}
+                onChange={(e) => setSlackUserIdInput(e.target.value)}
+                placeholder="U024BE7LH"
+                className="sm:w-48 bg-white dark:bg-zinc-900 text-foreground dark:text-zinc-100"
+              />
+              <Button
+                onClick={handleSaveSlackUserId}
+                disabled={
+                  savingSlackUserId ||
+                  !slackUserIdValid ||
+                  (normalizedSlackUserId || null) === slackUserId
+                }
+                className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-white dark:text-zinc-100"
+              >
+                {savingSlackUserId ? "Saving..." : "Save"}
+              </Button>
+            </div>
+            {!slackUserIdValid && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Slack member IDs start with U or W, like U024BE7LH.
+              </p>
+            )}
+          </div>
+        )}
         <div className="pt-6 border-t border-gray-200 dark:border-zinc-800">
           <div className="rounded-lg border border-red-200 dark:border-red-900/50 bg-red-50/60 dark:bg-red-950/30 p-4">
             <div className="flex items-start gap-3">
@@ -7,6 +7,7 @@ import OrganizationSetupForm from "./form";
 import { env } from "@/lib/env";
 import { headers } from "next/headers";
 import { getBaseUrl } from "@/lib/utils";
+import { setActiveOrganization } from "@/lib/organization";
 
 const resend = new Resend(env.AUTH_RESEND_KEY);
 
@@ -29,13 +30,14 @@ async function createOrganization(orgName: string, teamEmails: string[]) {
     },
   });
 
-  await db.user.update({
-    where: { id: session.user.id },
+  await db.organizationMember.create({
     data: {
       organizationId: organization.id,
-      isAdmin: true,
+      userId: session.user.id,
+      role: "ADMIN",
     },
   });
+  await setActiveOrganization(organization.id);
 
   if (teamEmails.length > 0) {
     for (const email of teamEmails) {
@@ -76,7 +78,11 @@ async function createOrganization(orgName: string, teamEmails: string[]) {
   return { success: true, organization };
 }
 
-export default async function OrganizationSetup() {
+export default async function OrganizationSetup({
+  searchParams,
+}: {
+  searchParams: Promise<{ new?: string }>;
+}) {
   const session = await auth();
 
   if (!session?.user) {
@@ -87,12 +93,13 @@ export default async function OrganizationSetup() {
     redirect("/setup/profile");
   }
 
-  const user = await db.user.findUnique({
-    where: { id: session.user.id },
-    include: { organization: true },
+  // Members of an organization only get here when creating another one from the switcher
+  const isAdditional = (await searchParams).new === "1";
+  const membership = await db.organizationMember.findFirst({
+    where: { userId: session.user.id },
   });
 
-  if (user?.organization) {
+  if (membership && !isAdditional) {
     redirect("/dashboard");
   }
 
@@ -25,12 +25,11 @@ async function updateUserName(formData: FormData) {
   });
 
   // Check if user has organization, redirect accordingly
-  const user = await db.user.findUnique({
-    where: { id: session.user.id },
-    include: { organization: true },
+  const membership = await db.organizationMember.findFirst({
+    where: { userId: session.user.id },
   });
 
-  if (!user?.organization) {
+  if (!membership) {
     redirect("/setup/organization");
   } else {
     redirect("/dashboard");
@@ -46,12 +45,11 @@ export default async function ProfileSetup() {
 
   // If user already has a name, check organization setup
   if (session.user.name) {
-    const user = await db.user.findUnique({
-      where: { id: session.user.id },
-      include: { organization: true },
+    const membership = await db.organizationMember.findFirst({
+      where: { userId: session.user.id },
     });
 
-    if (!user?.organization) {
+    if (!membership) {
       redirect("/setup/organization");
     } else {
       redirect("/dashboard");
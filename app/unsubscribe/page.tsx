@@ -0,0 +1,70 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MailX } from "lucide-react";
+import Link from "next/link";
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{
+    token?: string;
+    status?: string;
+    error?: string;
+  }>;
+}
+
+// Opened from the unsubscribe link in digest emails. Mail scanners follow links, so the link only
+// asks for confirmation and the form unsubscribes.
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token, status, error } = await searchParams;
+  const unsubscribed = status === "unsubscribed";
+  const invalid = Boolean(error) || (!token && !unsubscribed);
+  const confirming = !invalid && !unsubscribed;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-zinc-950 dark:to-zinc-900 p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-zinc-900 dark:border-zinc-800">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-12 h-12 bg-zinc-100 dark:bg-zinc-800 rounded-full flex items-center justify-center mb-4">
+            <MailX className="w-6 h-6 text-zinc-600 dark:text-zinc-300" />
+          </div>
+          <CardTitle className="text-2xl text-zinc-900 dark:text-zinc-100">
+            {invalid
+              ? "Invalid unsubscribe link"
+              : confirming
+                ? "Unsubscribe from digests?"
+                : "You're unsubscribed"}
+          </CardTitle>
+          <CardDescription className="text-zinc-600 dark:text-zinc-300">
+            {invalid
+              ? "This link is invalid or no longer belongs to an account."
+              : confirming
+                ? "You will stop receiving Gumboard email digests."
+                : "You won't receive Gumboard email digests anymore."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {confirming ? (
+            <form
+              method="post"
+              action={`/api/digest/unsubscribe?token=${encodeURIComponent(token!)}`}
+            >
+              <Button type="submit" className="w-full">
+                Unsubscribe
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-center text-muted-foreground dark:text-zinc-400">
+              You can turn digests back on at any time in your profile settings.
+            </p>
+          )}
+          <Button
+            asChild
+            variant="outline"
+            className="w-full dark:bg-zinc-900 dark:text-zinc-100 dark:border-zinc-700"
+          >
+            <Link href="/settings">Go to settings</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
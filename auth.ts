@@ -5,6 +5,20 @@ import GoogleProvider from "next-auth/providers/google";
 import GitHubProvider from "next-auth/providers/github";
 import { db as prisma } from "@/lib/db";
 import { env } from "@/lib/env";
+import type { ApiTokenAccess } from "@/lib/api-tokens";
+
+declare module "next-auth" {
+  interface Session {
+    activeOrganizationId?: string | null;
+    apiToken?: ApiTokenAccess;
+  }
+}
+
+declare module "@auth/core/adapters" {
+  interface AdapterSession {
+    activeOrganizationId?: string | null;
+  }
+}
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
   adapter: PrismaAdapter(prisma),
@@ -40,5 +54,13 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       else if (new URL(url).origin === baseUrl) return url;
       return `${baseUrl}/dashboard`;
     },
+    async session({ session, user }) {
+      // Expose the active organization, but not the session token or the full user row
+      return {
+        user: { id: user.id, name: user.name, email: user.email, image: user.image },
+        expires: session.expires,
+        activeOrganizationId: session.activeOrganizationId ?? null,
+      };
+    },
   },
 });
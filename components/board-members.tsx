@@ -0,0 +1,132 @@
+"use client";
+
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { BOARD_ROLES, BOARD_ROLE_LABELS, isBoardRole, type BoardRole } from "@/lib/board-roles";
+import type { User } from "@/app/contexts/UserContext";
+
+interface BoardMember {
+  id: string;
+  role: BoardRole;
+  userId: string;
+}
+
+interface BoardMembersProps {
+  boardId: string;
+  members: User[];
+  onError?: (message: string) => void;
+}
+
+// Per-board role overrides for organization members, shown in the board settings dialog
+export function BoardMembers({ boardId, members, onError }: BoardMembersProps) {
+  const [roles, setRoles] = useState<Record<string, BoardRole>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        const response = await fetch(`/api/boards/${boardId}/members`);
+        if (response.ok) {
+          const data: { members: BoardMember[] } = await response.json();
+          setRoles(Object.fromEntries(data.members.map((m) => [m.userId, m.role])));
+        }
+      } catch (error) {
+        console.error("Error fetching board members:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMembers();
+  }, [boardId]);
+
+  const handleRoleChange = async (userId: string, value: string) => {
+    const previous = roles[userId];
+    const role = isBoardRole(value) ? value : null;
+
+    setRoles((prev) => {
+      const next = { ...prev };
+      if (role) {
+        next[userId] = role;
+      } else {
+        delete next[userId];
+      }
+      return next;
+    });
+
+    try {
+      const response = role
+        ? await fetch(`/api/boards/${boardId}/members`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ userId, role }),
+          })
+        : await fetch(`/api/boards/${boardId}/members/${userId}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to update board member");
+      }
+    } catch (error) {
+      console.error("Error updating board member:", error);
+      setRoles((prev) => {
+        const next = { ...prev };
+        if (previous) {
+          next[userId] = previous;
+        } else {
+          delete next[userId];
+        }
+        return next;
+      });
+      onError?.(error instanceof Error ? error.message : "Failed to update board member");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground dark:text-zinc-200">Members</p>
+      <p className="text-xs text-muted-foreground dark:text-zinc-400">
+        Members without a board role are editors, guests have no access.
+      </p>
+      {loading ? (
+        <p className="text-xs text-muted-foreground dark:text-zinc-400">Loading...</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center justify-between gap-2 py-1">
+              <div className="flex items-center gap-2 min-w-0">
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={member.image || ""} alt={member.name || member.email} />
+                  <AvatarFallback className="text-xs">
+                    {(member.name || member.email).charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm text-foreground dark:text-zinc-100 truncate">
+                  {member.name || member.email}
+                </span>
+              </div>
+              {member.isAdmin ? (
+                <span className="text-xs text-muted-foreground dark:text-zinc-400 px-2">Admin</span>
+              ) : (
+                <select
+                  aria-label={`Board role for ${member.name || member.email}`}
+                  value={roles[member.id] ?? ""}
+                  onChange={(e) => handleRoleChange(member.id, e.target.value)}
+                  className="h-8 rounded-md border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-foreground dark:text-zinc-100 px-2"
+                >
+                  <option value="">{member.isGuest ? "No access" : "Default"}</option>
+                  {[...BOARD_ROLES].reverse().map((role) => (
+                    <option key={role} value={role}>
+                      {BOARD_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
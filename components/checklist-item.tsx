@@ -3,14 +3,76 @@
 import * as React from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverAnchor, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
-import { Trash2 } from "lucide-react";
+import { isOverdue, toDateInputValue, toDueDate } from "@/lib/tasks";
+import {
+  FORMER_MEMBER_LABEL,
+  filterMentionCandidates,
+  findMentionQuery,
+  fromEditableText,
+  getMentionLabel,
+  insertMention,
+  toEditableText,
+} from "@/lib/mentions";
+import { hasInlineFormatting, parseInlineMarkdown, type InlineNode } from "@/lib/markdown";
+import { CalendarClock, Trash2 } from "lucide-react";
 
 export interface ChecklistItem {
   id: string;
   content: string;
   checked: boolean;
   order: number;
+  parentId?: string | null;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+}
+
+export interface ChecklistItemMember {
+  id: string;
+  name: string | null;
+  email: string;
+  image?: string | null;
+}
+
+export type ChecklistItemDetails = Partial<Pick<ChecklistItem, "assigneeId" | "dueDate">>;
+
+// A single change sent to the checklist item routes, so edits don't resend the whole list
+export type ChecklistItemChange =
+  | { type: "create"; content: string }
+  | {
+      type: "update";
+      itemId: string;
+      data: Partial<Pick<ChecklistItem, "content" | "checked">> & ChecklistItemDetails;
+    }
+  | { type: "delete"; itemId: string }
+  | { type: "reorder"; itemIds: string[]; parentIds: Record<string, string | null> };
+
+export function saveChecklistItemChange(
+  note: { id: string; boardId: string },
+  change: ChecklistItemChange
+): Promise<Response> {
+  const url = `/api/boards/${note.boardId}/notes/${note.id}/checklist-items`;
+  const send = (path: string, method: string, body?: object) =>
+    fetch(`${url}${path}`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  switch (change.type) {
+    case "create":
+      return send("", "POST", { content: change.content });
+    case "update":
+      return send(`/${change.itemId}`, "PATCH", change.data);
+    case "delete":
+      return send(`/${change.itemId}`, "DELETE");
+    case "reorder":
+      return send("/reorder", "PUT", { itemIds: change.itemIds, parentIds: change.parentIds });
+  }
 }
 
 interface ChecklistItemProps {
@@ -18,6 +80,8 @@ interface ChecklistItemProps {
   onToggle?: (itemId: string) => void;
   onEdit?: (itemId: string, content: string) => void;
   onDelete?: (itemId: string) => void;
+  // Tab makes the item a sub-task of the one above, Shift+Tab moves it back up a level
+  onIndent?: (itemId: string, direction: "in" | "out") => void;
   isEditing?: boolean;
   editContent?: string;
   onEditContentChange?: (content: string) => void;
@@ -28,6 +92,56 @@ interface ChecklistItemProps {
   className?: string;
   isNewItem?: boolean;
   onCreateItem?: (content: string) => void;
+  // Organization members the item can be assigned to and who can be mentioned
+  members?: ChecklistItemMember[];
+  onUpdateDetails?: (itemId: string, details: ChecklistItemDetails) => void;
+}
+
+function renderInlineNodes(nodes: InlineNode[], members: ChecklistItemMember[]): React.ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case "strong":
+        return <strong key={index}>{renderInlineNodes(node.children, members)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInlineNodes(node.children, members)}</em>;
+      case "code":
+        return (
+          <code
+            key={index}
+            className="rounded bg-black/5 dark:bg-white/10 px-1 font-mono text-[0.85em]"
+          >
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            // Follow the link instead of starting to edit the item
+            onClick={(e) => e.stopPropagation()}
+            className="text-blue-600 dark:text-blue-400 underline underline-offset-2 break-all"
+          >
+            {renderInlineNodes(node.children, members)}
+          </a>
+        );
+      case "mention": {
+        const member = members.find((m) => m.id === node.userId);
+        return (
+          <span
+            key={index}
+            className="rounded bg-sky-100 dark:bg-sky-900/40 px-1 font-medium text-sky-700 dark:text-sky-300"
+          >
+            @{member ? getMentionLabel(member) : FORMER_MEMBER_LABEL}
+          </span>
+        );
+      }
+    }
+  });
 }
 
 export function ChecklistItem({
@@ -35,6 +149,7 @@ export function ChecklistItem({
   onToggle,
   onEdit,
   onDelete,
+  onIndent,
   isEditing,
   editContent,
   onEditContentChange,
@@ -45,10 +160,29 @@ export function ChecklistItem({
   className,
   isNewItem = false,
   onCreateItem,
+  members = [],
+  onUpdateDetails,
 }: ChecklistItemProps) {
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
   const previousContentRef = React.useRef<string>("");
   const deletingRef = React.useRef<boolean>(false);
+  const focusOnEditRef = React.useRef<boolean>(false);
+  const [detailsOpen, setDetailsOpen] = React.useState(false);
+  const [mentionQuery, setMentionQuery] = React.useState<{ start: number; query: string } | null>(
+    null
+  );
+  const [activeSuggestion, setActiveSuggestion] = React.useState(0);
+
+  const assignee = item.assigneeId ? members.find((m) => m.id === item.assigneeId) : undefined;
+  const assigneeName = assignee ? assignee.name || assignee.email : null;
+  const canEditDetails = !readonly && !isNewItem && !!onUpdateDetails;
+  const overdue = isOverdue(item);
+
+  const editableText = toEditableText(editContent ?? item.content, members);
+  const suggestions = mentionQuery ? filterMentionCandidates(members, mentionQuery.query) : [];
+  const contentNodes = React.useMemo(() => parseInlineMarkdown(item.content), [item.content]);
+  // Formatted content is shown until the item is clicked, plain items keep using the textarea
+  const showFormatted = !isEditing && hasInlineFormatting(contentNodes);
 
   const adjustTextareaHeight = (textarea: HTMLTextAreaElement) => {
     textarea.style.height = "auto";
@@ -67,7 +201,72 @@ export function ChecklistItem({
       adjustTextareaHeight(textareaRef.current);
     }
   }, [item.content, isEditing]);
+
+  // Clicking formatted content starts editing, move the focus to the textarea it swaps to
+  React.useEffect(() => {
+    const textarea = textareaRef.current;
+    if (isEditing && focusOnEditRef.current && textarea) {
+      focusOnEditRef.current = false;
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }, [isEditing]);
+
+  const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+    const query = findMentionQuery(textarea.value, textarea.selectionStart);
+    setMentionQuery(query);
+    if (query?.query !== mentionQuery?.query) {
+      setActiveSuggestion(0);
+    }
+  };
+
+  const handleSelectMention = (member: ChecklistItemMember) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mentionQuery) {
+      return;
+    }
+
+    const { text, caret } = insertMention(
+      textarea.value,
+      mentionQuery.start,
+      textarea.selectionStart,
+      member
+    );
+    onEditContentChange?.(fromEditableText(text, members));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+      adjustTextareaHeight(textarea);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveSuggestion((activeSuggestion + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+        e.preventDefault();
+        handleSelectMention(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === "Tab" && !isNewItem && onIndent) {
+      e.preventDefault();
+      onIndent(item.id, e.shiftKey ? "out" : "in");
+      return;
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       if (isNewItem && editContent?.trim() && onCreateItem) {
@@ -91,6 +290,7 @@ export function ChecklistItem({
   };
 
   const handleBlur = () => {
+    setMentionQuery(null);
     if (deletingRef.current) {
       deletingRef.current = false;
       return;
@@ -120,42 +320,217 @@ export function ChecklistItem({
         disabled={readonly}
       />
 
-      <textarea
-        ref={textareaRef}
-        value={editContent ?? item.content}
-        onChange={(e) => onEditContentChange?.(e.target.value)}
-        disabled={readonly}
-        className={cn(
-          "flex-1 border-none bg-transparent px-1 py-1 text-sm text-zinc-900 dark:text-zinc-100 resize-none overflow-hidden outline-none",
-          item.checked && "text-slate-500 dark:text-zinc-500 line-through"
+      <div className="flex-1 min-w-0">
+        {showFormatted ? (
+          <div
+            onClick={() => {
+              if (!readonly) {
+                focusOnEditRef.current = true;
+                onStartEdit?.(item.id);
+              }
+            }}
+            className={cn(
+              "px-1 py-1 text-sm text-zinc-900 dark:text-zinc-100 whitespace-pre-wrap break-words",
+              item.checked && "text-slate-500 dark:text-zinc-500 line-through",
+              !readonly && "cursor-text"
+            )}
+          >
+            {renderInlineNodes(contentNodes, members)}
+          </div>
+        ) : (
+          <Popover
+            open={suggestions.length > 0}
+            onOpenChange={(open) => !open && setMentionQuery(null)}
+          >
+            <PopoverAnchor asChild>
+              <textarea
+                ref={textareaRef}
+                value={editableText}
+                onChange={(e) => {
+                  onEditContentChange?.(fromEditableText(e.target.value, members));
+                  updateMentionQuery(e.target);
+                }}
+                onSelect={(e) => updateMentionQuery(e.target as HTMLTextAreaElement)}
+                disabled={readonly}
+                className={cn(
+                  "block w-full border-none bg-transparent px-1 py-1 text-sm text-zinc-900 dark:text-zinc-100 resize-none overflow-hidden outline-none",
+                  item.checked && "text-slate-500 dark:text-zinc-500 line-through"
+                )}
+                onBlur={handleBlur}
+                onKeyDown={handleKeyDown}
+                onFocus={(e) => {
+                  if (isEditing) {
+                    const originalScrollIntoView = e.target.scrollIntoView;
+                    e.target.scrollIntoView = () => {};
+                    setTimeout(() => {
+                      e.target.scrollIntoView = originalScrollIntoView;
+                    }, 100);
+                  }
+
+                  if (!isEditing && !readonly) {
+                    onStartEdit?.(item.id);
+                  }
+                }}
+                rows={1}
+                style={{ height: "auto" }}
+                onInput={(e) => {
+                  const target = e.target as HTMLTextAreaElement;
+                  const currentContent = target.value;
+
+                  if (currentContent !== previousContentRef.current) {
+                    adjustTextareaHeight(target);
+                    previousContentRef.current = currentContent;
+                  }
+                }}
+              />
+            </PopoverAnchor>
+            <PopoverContent
+              align="start"
+              className="w-56 p-1"
+              onOpenAutoFocus={(e) => e.preventDefault()}
+              onCloseAutoFocus={(e) => e.preventDefault()}
+            >
+              <div role="listbox" aria-label="Mention a member">
+                {suggestions.map((member, index) => {
+                  const label = getMentionLabel(member);
+                  return (
+                    <button
+                      key={member.id}
+                      type="button"
+                      role="option"
+                      aria-selected={index === activeSuggestion}
+                      // Keep the focus in the textarea so it doesn't save and stop editing
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        handleSelectMention(member);
+                      }}
+                      onMouseEnter={() => setActiveSuggestion(index)}
+                      className={cn(
+                        "flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm text-foreground dark:text-zinc-100",
+                        index === activeSuggestion && "bg-zinc-100 dark:bg-zinc-800"
+                      )}
+                    >
+                      <Avatar className="h-5 w-5">
+                        <AvatarImage src={member.image || ""} alt={label} />
+                        <AvatarFallback className="text-[10px]">
+                          {label.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="truncate">{label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </PopoverContent>
+          </Popover>
         )}
-        onBlur={handleBlur}
-        onKeyDown={handleKeyDown}
-        onFocus={(e) => {
-          if (isEditing) {
-            const originalScrollIntoView = e.target.scrollIntoView;
-            e.target.scrollIntoView = () => {};
-            setTimeout(() => {
-              e.target.scrollIntoView = originalScrollIntoView;
-            }, 100);
-          }
-
-          if (!isEditing && !readonly) {
-            onStartEdit?.(item.id);
-          }
-        }}
-        rows={1}
-        style={{ height: "auto" }}
-        onInput={(e) => {
-          const target = e.target as HTMLTextAreaElement;
-          const currentContent = target.value;
-
-          if (currentContent !== previousContentRef.current) {
-            adjustTextareaHeight(target);
-            previousContentRef.current = currentContent;
-          }
-        }}
-      />
+
+        {(item.assigneeId || item.dueDate) && (
+          <div className="flex flex-wrap items-center gap-1 px-1 pb-1">
+            {item.assigneeId && (
+              <button
+                type="button"
+                onClick={() => canEditDetails && setDetailsOpen(true)}
+                disabled={!canEditDetails}
+                className="flex items-center gap-1 rounded-full bg-black/5 dark:bg-white/10 pl-0.5 pr-2 py-0.5 text-xs text-zinc-700 dark:text-zinc-300"
+                title={assigneeName ? `Assigned to ${assigneeName}` : "Assigned"}
+              >
+                <Avatar className="h-4 w-4">
+                  <AvatarImage src={assignee?.image || ""} alt={assigneeName || ""} />
+                  <AvatarFallback className="text-[10px]">
+                    {(assigneeName || "?").charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate max-w-24">
+                  {assigneeName ? assigneeName.split(" ")[0] : "Former member"}
+                </span>
+              </button>
+            )}
+            {item.dueDate && (
+              <button
+                type="button"
+                onClick={() => canEditDetails && setDetailsOpen(true)}
+                disabled={!canEditDetails}
+                className={cn(
+                  "flex items-center gap-1 rounded-full px-2 py-0.5 text-xs",
+                  overdue
+                    ? "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300"
+                    : "bg-black/5 text-zinc-700 dark:bg-white/10 dark:text-zinc-300"
+                )}
+                title={overdue ? "Overdue" : "Due date"}
+              >
+                <CalendarClock className="h-3 w-3" />
+                {new Date(item.dueDate).toLocaleDateString(undefined, {
+                  month: "short",
+                  day: "numeric",
+                })}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {canEditDetails && (
+        <Popover open={detailsOpen} onOpenChange={setDetailsOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-50 md:opacity-0 md:group-hover/item:opacity-50 md:hover:opacity-100 data-[state=open]:opacity-100 text-zinc-500 hover:text-sky-600 dark:text-zinc-400 dark:hover:text-sky-500"
+            >
+              <CalendarClock className="h-3 w-3" />
+              <span className="sr-only">Assign or set due date</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor={`assignee-${item.id}`} className="text-xs text-muted-foreground">
+                Assignee
+              </Label>
+              <select
+                id={`assignee-${item.id}`}
+                value={item.assigneeId ?? ""}
+                onChange={(e) => onUpdateDetails(item.id, { assigneeId: e.target.value || null })}
+                className="h-8 w-full rounded-md border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-foreground dark:text-zinc-100 px-2"
+              >
+                <option value="">Unassigned</option>
+                {item.assigneeId && !assignee && (
+                  <option value={item.assigneeId}>Former member</option>
+                )}
+                {members.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name || member.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`due-date-${item.id}`} className="text-xs text-muted-foreground">
+                Due date
+              </Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  id={`due-date-${item.id}`}
+                  type="date"
+                  value={toDateInputValue(item.dueDate)}
+                  onChange={(e) => onUpdateDetails(item.id, { dueDate: toDueDate(e.target.value) })}
+                  className="h-8 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 dark:border-zinc-700"
+                />
+                {item.dueDate && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onUpdateDetails(item.id, { dueDate: null })}
+                    className="h-8 text-xs"
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
 
       {showDeleteButton && !readonly && (
         <Button
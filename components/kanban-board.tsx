@@ -0,0 +1,200 @@
+"use client";
+
+import * as React from "react";
+import { useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  closestCorners,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Plus } from "lucide-react";
+import { useTheme } from "next-themes";
+import { Button } from "@/components/ui/button";
+import { NoteDragHandle } from "@/components/note-drag-handle";
+import { cn } from "@/lib/utils";
+import { groupNotesByColumn, moveNoteToColumn, type BoardColumn } from "@/lib/kanban";
+import { getNoteSummary } from "@/lib/note-text";
+import type { Note } from "@/components/note";
+
+interface KanbanBoardProps {
+  notes: Note[];
+  columns: BoardColumn[];
+  renderNote: (note: Note) => React.ReactNode;
+  // Whether the user can drag notes between columns
+  canMoveNotes?: boolean;
+  // Called with the column's note ids in their new order after a note is dropped
+  onMoveNote?: (noteId: string, columnId: string, noteIds: string[]) => void;
+  onAddNote?: (columnId: string) => void;
+}
+
+function KanbanCard({
+  note,
+  columnId,
+  disabled,
+  children,
+}: {
+  note: Note;
+  columnId: string;
+  disabled: boolean;
+  children: React.ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: note.id,
+    data: { columnId },
+    disabled,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform), transition }}
+      className={cn("relative", isDragging && "opacity-40")}
+    >
+      {!disabled && <NoteDragHandle noteId={note.id} {...attributes} {...listeners} />}
+      {children}
+    </div>
+  );
+}
+
+function KanbanColumn({
+  column,
+  notes,
+  onAddNote,
+  children,
+}: {
+  column: BoardColumn;
+  notes: Note[];
+  onAddNote?: (columnId: string) => void;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: column.id, data: { columnId: column.id } });
+
+  return (
+    <div
+      className="flex flex-col flex-shrink-0 w-72 sm:w-80 rounded-lg bg-zinc-100/80 dark:bg-zinc-900/80 border border-zinc-200 dark:border-zinc-800"
+      data-testid="kanban-column"
+    >
+      <div className="flex items-center justify-between px-3 py-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <h2 className="font-semibold text-sm text-foreground dark:text-zinc-100 truncate">
+            {column.name}
+          </h2>
+          <span className="text-xs text-muted-foreground">{notes.length}</span>
+        </div>
+        {onAddNote && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            aria-label={`Add note to ${column.name}`}
+            onClick={() => onAddNote(column.id)}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <SortableContext items={notes.map((note) => note.id)} strategy={verticalListSortingStrategy}>
+        <div
+          ref={setNodeRef}
+          className={cn(
+            "flex flex-col gap-3 px-2 pb-3 min-h-24 flex-1 rounded-b-lg",
+            isOver && "bg-sky-100/60 dark:bg-sky-900/20"
+          )}
+        >
+          {children}
+        </div>
+      </SortableContext>
+    </div>
+  );
+}
+
+// Board notes shown in named columns, notes can be dragged within and between columns
+export function KanbanBoard({
+  notes,
+  columns,
+  renderNote,
+  canMoveNotes = false,
+  onMoveNote,
+  onAddNote,
+}: KanbanBoardProps) {
+  const [activeNote, setActiveNote] = useState<Note | null>(null);
+  const { resolvedTheme } = useTheme();
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    })
+  );
+
+  const groups = groupNotesByColumn(notes, columns);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveNote(notes.find((note) => note.id === event.active.id) ?? null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveNote(null);
+
+    const columnId = over?.data.current?.columnId as string | undefined;
+    if (!over || !columnId || active.id === over.id) {
+      return;
+    }
+
+    const columnNoteIds = Object.fromEntries(
+      groups.map((group) => [group.column.id, group.notes.map((note) => note.id)])
+    );
+    // Dropping on a note takes its place, dropping on the column itself adds to the end
+    const targetIds = columnNoteIds[columnId] ?? [];
+    const overIndex = targetIds.indexOf(String(over.id));
+    const index = overIndex === -1 ? targetIds.length : overIndex;
+
+    const noteId = String(active.id);
+    const next = moveNoteToColumn(columnNoteIds, noteId, columnId, index);
+    if (next[columnId].join() !== targetIds.join()) {
+      onMoveNote?.(noteId, columnId, next[columnId]);
+    }
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveNote(null)}
+    >
+      <div className="flex gap-4 items-start overflow-x-auto p-4 sm:p-6 min-h-[calc(100vh-64px)]">
+        {groups.map(({ column, notes: columnNotes }) => (
+          <KanbanColumn key={column.id} column={column} notes={columnNotes} onAddNote={onAddNote}>
+            {columnNotes.map((note) => (
+              <KanbanCard key={note.id} note={note} columnId={column.id} disabled={!canMoveNotes}>
+                {renderNote(note)}
+              </KanbanCard>
+            ))}
+          </KanbanColumn>
+        ))}
+      </div>
+      <DragOverlay>
+        {activeNote && (
+          <div
+            className="w-72 sm:w-80 rounded-lg p-4 shadow-lg border border-gray-200 dark:border-gray-600 text-sm text-foreground dark:text-zinc-100 truncate"
+            style={{ backgroundColor: resolvedTheme === "dark" ? "#18181B" : activeNote.color }}
+          >
+            {getNoteSummary(activeNote) || "Untitled note"}
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import * as React from "react";
+import { ChevronDown, ChevronUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MAX_BOARD_COLUMNS, MAX_COLUMN_NAME_LENGTH, type ColumnInput } from "@/lib/kanban";
+
+interface KanbanColumnsEditorProps {
+  columns: ColumnInput[];
+  onChange: (columns: ColumnInput[]) => void;
+}
+
+// Edit the names and order of a Kanban board's columns. Notes of removed columns move to the
+// first column when the settings are saved.
+export function KanbanColumnsEditor({ columns, onChange }: KanbanColumnsEditorProps) {
+  const updateColumn = (index: number, name: string) =>
+    onChange(columns.map((column, i) => (i === index ? { ...column, name } : column)));
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...columns];
+    const [column] = next.splice(index, 1);
+    next.splice(index + offset, 0, column);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {columns.map((column, index) => (
+        <div key={column.id ?? `new-${index}`} className="flex items-center gap-1">
+          <Input
+            type="text"
+            value={column.name}
+            onChange={(e) => updateColumn(index, e.target.value)}
+            maxLength={MAX_COLUMN_NAME_LENGTH}
+            placeholder="Column name"
+            aria-label={`Column ${index + 1} name`}
+            className="bg-white dark:bg-zinc-900 text-foreground dark:text-zinc-100 border border-gray-200 dark:border-zinc-700"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            aria-label="Move column up"
+            disabled={index === 0}
+            onClick={() => moveColumn(index, -1)}
+          >
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            aria-label="Move column down"
+            disabled={index === columns.length - 1}
+            onClick={() => moveColumn(index, 1)}
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="size-8 text-red-500 hover:text-red-700"
+            aria-label="Remove column"
+            disabled={columns.length === 1}
+            onClick={() => onChange(columns.filter((_, i) => i !== index))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={columns.length >= MAX_BOARD_COLUMNS}
+        onClick={() => onChange([...columns, { name: "" }])}
+        className="flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" />
+        Add column
+      </Button>
+    </div>
+  );
+}
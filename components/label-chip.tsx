@@ -0,0 +1,23 @@
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { getLabelTextColor, type Label } from "@/lib/labels";
+
+interface LabelChipProps extends React.HTMLAttributes<HTMLSpanElement> {
+  label: Label;
+}
+
+export function LabelChip({ label, className, style, ...props }: LabelChipProps) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center max-w-32 px-1.5 py-0.5 rounded text-[11px] font-medium leading-none truncate",
+        className
+      )}
+      style={{ backgroundColor: label.color, color: getLabelTextColor(label.color), ...style }}
+      title={label.name}
+      {...props}
+    >
+      {label.name}
+    </span>
+  );
+}
@@ -0,0 +1,25 @@
+import * as React from "react";
+import { GripHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Grip on top of a note that starts dragging it. Only the handle starts a drag so the note's
+// own inputs and checklist keep working.
+export function NoteDragHandle({
+  noteId,
+  className,
+  ...props
+}: React.ButtonHTMLAttributes<HTMLButtonElement> & { noteId: string }) {
+  return (
+    <button
+      type="button"
+      aria-label={`Move Note ${noteId}`}
+      className={cn(
+        "absolute left-1/2 -translate-x-1/2 top-0 z-10 px-2 text-muted-foreground cursor-grab active:cursor-grabbing touch-none",
+        className
+      )}
+      {...props}
+    >
+      <GripHorizontal className="w-4 h-4" />
+    </button>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import * as React from "react";
+import { useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { useTheme } from "next-themes";
+import { NoteDragHandle } from "@/components/note-drag-handle";
+import { cn } from "@/lib/utils";
+import { getNoteMove } from "@/lib/note-order";
+import { getNoteSummary } from "@/lib/note-text";
+import type { Note } from "@/components/note";
+
+type PositionedNote = Note & { x: number; y: number; width: number; height: number };
+
+interface NoteGridProps {
+  // Notes in board order with their place in the masonry layout
+  notes: PositionedNote[];
+  renderNote: (note: Note, style: React.CSSProperties) => React.ReactNode;
+  // Whether the user can drag notes to reorder the board
+  canReorder?: boolean;
+  // Called with the note the dropped note now follows, null when it moved to the top
+  onReorder?: (noteId: string, afterNoteId: string | null, noteIds: string[]) => void;
+}
+
+function GridNote({
+  note,
+  disabled,
+  children,
+}: {
+  note: PositionedNote;
+  disabled: boolean;
+  children: React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef: setDragRef,
+    isDragging,
+  } = useDraggable({ id: note.id, disabled });
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: note.id, disabled });
+
+  return (
+    <div
+      ref={(node) => {
+        setDragRef(node);
+        setDropRef(node);
+      }}
+      className={cn(
+        "absolute rounded-lg",
+        isDragging && "opacity-40",
+        isOver && !isDragging && "ring-2 ring-sky-500 ring-offset-2 dark:ring-offset-zinc-950"
+      )}
+      style={{ left: note.x, top: note.y, width: note.width, height: note.height }}
+    >
+      {!disabled && <NoteDragHandle noteId={note.id} {...attributes} {...listeners} />}
+      {children}
+    </div>
+  );
+}
+
+// Masonry grid of a board's notes. Dropping a note on another one moves it to that note's place.
+export function NoteGrid({ notes, renderNote, canReorder = false, onReorder }: NoteGridProps) {
+  const [activeNote, setActiveNote] = useState<Note | null>(null);
+  const { resolvedTheme } = useTheme();
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    })
+  );
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveNote(notes.find((note) => note.id === event.active.id) ?? null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveNote(null);
+    if (!over) {
+      return;
+    }
+
+    const move = getNoteMove(
+      notes.map((note) => note.id),
+      String(active.id),
+      String(over.id)
+    );
+    if (move) {
+      onReorder?.(String(active.id), move.afterNoteId, move.noteIds);
+    }
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveNote(null)}
+    >
+      <div className="relative w-full h-full">
+        {notes.map((note) => (
+          <GridNote key={note.id} note={note} disabled={!canReorder}>
+            {renderNote(note, { width: "100%", height: "100%" })}
+          </GridNote>
+        ))}
+      </div>
+      <DragOverlay>
+        {activeNote && (
+          <div
+            className="w-64 rounded-lg p-4 shadow-lg border border-gray-200 dark:border-gray-600 text-sm text-foreground dark:text-zinc-100 truncate"
+            style={{ backgroundColor: resolvedTheme === "dark" ? "#18181B" : activeNote.color }}
+          >
+            {getNoteSummary(activeNote) || "Untitled note"}
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+}
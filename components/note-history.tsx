@@ -0,0 +1,105 @@
+"use client";
+
+import * as React from "react";
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { describeNoteActivity, type NoteActivity } from "@/lib/activity";
+import type { MentionMember } from "@/lib/mentions";
+
+interface NoteHistoryProps {
+  boardId: string;
+  noteId: string;
+  // Organization members, to show mentions by name
+  members?: MentionMember[];
+}
+
+export function NoteHistory({ boardId, noteId, members }: NoteHistoryProps) {
+  const [activities, setActivities] = useState<NoteActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivities = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/boards/${boardId}/notes/${noteId}/activity`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      setActivities(data.activities || []);
+    } catch (err) {
+      console.error("Error fetching note history:", err);
+      setError("Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open) {
+          fetchActivities();
+        }
+      }}
+    >
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              aria-label={`Note history ${noteId}`}
+              onClick={(e) => e.stopPropagation()}
+              className="p-1 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 rounded"
+              variant="ghost"
+              size="icon"
+            >
+              <History className="w-3 h-3" />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>History</p>
+        </TooltipContent>
+      </Tooltip>
+      <PopoverContent className="w-72 bg-white dark:bg-zinc-900 rounded-lg shadow-lg border border-zinc-100 dark:border-zinc-800 p-2">
+        <p className="px-2 py-1 text-sm font-semibold text-foreground dark:text-zinc-100">
+          History
+        </p>
+        <div className="border-t border-zinc-100 dark:border-zinc-800 my-1"></div>
+        <div className="max-h-64 overflow-y-auto">
+          {loading && (
+            <p className="px-2 py-1 text-xs text-muted-foreground dark:text-zinc-400">Loading...</p>
+          )}
+          {!loading && error && (
+            <p className="px-2 py-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+          {!loading && !error && activities.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground dark:text-zinc-400">
+              No activity yet
+            </p>
+          )}
+          {!loading &&
+            !error &&
+            activities.map((activity) => (
+              <div key={activity.id} className="px-2 py-1.5 text-xs" data-testid="note-activity">
+                <p className="text-foreground dark:text-zinc-100 break-words">
+                  <span className="font-medium">
+                    {activity.user?.name || activity.user?.email || "Deleted user"}
+                  </span>{" "}
+                  {describeNoteActivity(activity, members)}
+                </p>
+                <p className="text-muted-foreground dark:text-zinc-400">
+                  {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+            ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
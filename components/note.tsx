@@ -9,12 +9,49 @@ import { Button } from "@/components/ui/button";
 import {
   ChecklistItem as ChecklistItemComponent,
   ChecklistItem,
+  saveChecklistItemChange,
+  type ChecklistItemChange,
+  type ChecklistItemDetails,
+  type ChecklistItemMember,
 } from "@/components/checklist-item";
+import { NoteHistory } from "@/components/note-history";
 import { DraggableRoot, DraggableContainer, DraggableItem } from "@/components/ui/draggable";
 import { cn } from "@/lib/utils";
-import { Trash2, Archive, ArchiveRestore, Copy } from "lucide-react";
+import {
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  Check,
+  Copy,
+  FolderInput,
+  RotateCcw,
+  Tag,
+  Type,
+} from "lucide-react";
 import { useTheme } from "next-themes";
 import { Tooltip, TooltipContent, TooltipTrigger } from "./ui/tooltip";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { LabelChip } from "./label-chip";
+import type { Label } from "@/lib/labels";
+import type { BoardColumn, BoardLayout } from "@/lib/kanban";
+import { toast } from "sonner";
+import { formatETag } from "@/lib/concurrency";
+import { canEditNote, type BoardRole } from "@/lib/board-roles";
+import { hasSearchMatch, splitSearchHighlight } from "@/lib/search";
+import { replaceMentions } from "@/lib/mentions";
+import { MAX_NOTE_BODY_LENGTH, MAX_NOTE_TITLE_LENGTH } from "@/lib/note-text";
+import {
+  getItemDepths,
+  hasUncheckedAfterChecked,
+  indentChecklistItem,
+  moveChecklistItem,
+  outdentChecklistItem,
+  removeChecklistItem,
+  setChecklistItemChecked,
+} from "@/lib/checklist";
+
+// Left padding for sub-tasks at each depth
+const SUBTASK_INDENT = ["", "pl-6", "pl-12"];
 
 // Core domain types
 export interface User {
@@ -29,15 +66,25 @@ export interface Board {
   id: string;
   name: string;
   description: string | null;
+  role?: BoardRole | null;
+  layout?: BoardLayout;
+  columns?: BoardColumn[];
+  // Offered as a starting point when creating boards
+  isTemplate?: boolean;
 }
 
 export interface Note {
   id: string;
   color: string;
+  title?: string | null;
+  body?: string | null;
   archivedAt?: string | null;
+  deletedAt?: string | null;
   createdAt: string;
   updatedAt: string;
+  version?: number;
   checklistItems?: ChecklistItem[];
+  labels?: Label[];
   user: {
     id: string;
     name: string | null;
@@ -49,6 +96,13 @@ export interface Note {
     name: string;
   };
   boardId: string;
+  // Kanban column and position within it
+  columnId?: string | null;
+  columnOrder?: number;
+  // Place in the board's manual order, lowest first
+  position?: number;
+  // Snippet of the matching note content when the note is a search result
+  searchHighlight?: string | null;
   // Optional positioning properties for board layout
   x?: number;
   y?: number;
@@ -65,8 +119,20 @@ interface NoteProps {
   onArchive?: (noteId: string) => void;
   onUnarchive?: (noteId: string) => void;
   onCopy?: (note: Note) => void;
+  // Move the note to another board, or copy it there with `copy`
+  onMove?: (note: Note, boardId: string, copy: boolean) => void;
+  // Boards the note can be moved or copied to
+  moveTargets?: Array<{ id: string; name: string }>;
+  onRestore?: (noteId: string) => void;
+  onPurge?: (noteId: string) => void;
+  // Current user's role on the note's board; when omitted only the author or an admin can edit
+  boardRole?: BoardRole | null;
   readonly?: boolean;
   showBoardName?: boolean;
+  // Organization members checklist items can be assigned to
+  members?: ChecklistItemMember[];
+  // Organization labels that can be attached to the note
+  availableLabels?: Label[];
   className?: string;
   style?: React.CSSProperties;
 }
@@ -79,8 +145,15 @@ export function Note({
   onArchive,
   onUnarchive,
   onCopy,
+  onMove,
+  moveTargets = [],
+  onRestore,
+  onPurge,
+  boardRole,
   readonly = false,
   showBoardName = false,
+  members,
+  availableLabels = [],
   className,
   syncDB = true,
   style,
@@ -90,49 +163,158 @@ export function Note({
   const [editingItem, setEditingItem] = useState<string | null>(null);
   const [editingItemContent, setEditingItemContent] = useState("");
   const [newItemContent, setNewItemContent] = useState("");
+  const [title, setTitle] = useState(note.title ?? "");
+  const [body, setBody] = useState(note.body ?? "");
+  // Whether the title and body fields are open, also when both are still empty
+  const [editingText, setEditingText] = useState(false);
+  const titleRef = React.useRef<HTMLInputElement>(null);
+
+  const canManageNote =
+    boardRole !== undefined
+      ? canEditNote(boardRole, currentUser?.id, note.user.id)
+      : currentUser?.id === note.user.id || currentUser?.isAdmin;
+  // Notes in the trash can only be restored or purged, not edited
+  const canEdit = !readonly && !note.deletedAt && canManageNote;
+  const itemDepths = getItemDepths(note.checklistItems ?? []);
+
+  // Follow changes made elsewhere unless the user is typing
+  React.useEffect(() => {
+    if (!editingText) {
+      setTitle(note.title ?? "");
+      setBody(note.body ?? "");
+    }
+  }, [note.title, note.body, editingText]);
+
+  // Persist a change to the note itself with its version as precondition. On a conflict the
+  // change is retried once on top of the server's copy before falling back to it.
+  const syncNote = async (changes: {
+    title?: string | null;
+    body?: string | null;
+    labelIds?: string[];
+  }) => {
+    const submit = (base: Note) =>
+      fetch(`/api/boards/${note.boardId}/notes/${note.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...(base.version !== undefined && { "If-Match": formatETag(base.version) }),
+        },
+        body: JSON.stringify(changes),
+      });
+
+    let response = await submit(note);
+
+    if (response.status === 409) {
+      const { note: serverNote } = await response.json();
+      if (!serverNote) {
+        onUpdate?.(note);
+        return;
+      }
+
+      onUpdate?.(serverNote);
+      response = await submit(serverNote);
+
+      if (response.status === 409) {
+        const { note: latestNote } = await response.json();
+        onUpdate?.(latestNote ?? serverNote);
+        toast("This note was changed by someone else", {
+          description: "Your latest change was not saved. Please try again.",
+        });
+        return;
+      }
+    }
+
+    if (response.ok) {
+      const { note: updatedNote } = await response.json();
+      onUpdate?.(updatedNote);
+    } else {
+      onUpdate?.(note);
+    }
+  };
+
+  // Checklist changes go to the checklist item routes one at a time. The server applies them
+  // to its latest copy, so they don't conflict with changes made elsewhere meanwhile.
+  const syncChecklistItem = async (change: ChecklistItemChange) => {
+    const response = await saveChecklistItemChange(note, change);
+    if (response.ok) {
+      const { note: updatedNote } = await response.json();
+      onUpdate?.(updatedNote);
+    } else {
+      onUpdate?.(note);
+    }
+  };
+
+  // Send a new order, along with the items that moved to another parent
+  const syncChecklistOrder = (items: ChecklistItem[]) => {
+    const previousParentIds = new Map(
+      (note.checklistItems ?? []).map((item) => [item.id, item.parentId ?? null])
+    );
+    return syncChecklistItem({
+      type: "reorder",
+      itemIds: items.map((item) => item.id),
+      parentIds: Object.fromEntries(
+        items
+          .filter((item) => (item.parentId ?? null) !== previousParentIds.get(item.id))
+          .map((item) => [item.id, item.parentId ?? null])
+      ),
+    });
+  };
 
-  const canEdit = !readonly && (currentUser?.id === note.user.id || currentUser?.isAdmin);
+  const handleSaveNoteText = async (field: "title" | "body", value: string) => {
+    try {
+      const text = field === "title" ? value.replace(/\s+/g, " ").trim() : value.trimEnd();
+      const next = text.trim() ? text : null;
+      if (next === (note[field] ?? null)) return;
+
+      onUpdate?.({ ...note, [field]: next });
+
+      if (syncDB) {
+        await syncNote({ [field]: next });
+      }
+    } catch (error) {
+      console.error("Error updating note text:", error);
+    }
+  };
+
+  const handleToggleLabel = async (label: Label) => {
+    try {
+      const current = note.labels ?? [];
+      const labels = current.some((l) => l.id === label.id)
+        ? current.filter((l) => l.id !== label.id)
+        : [...current, label].sort((a, b) => a.name.localeCompare(b.name));
+
+      onUpdate?.({ ...note, labels });
+
+      if (syncDB) {
+        await syncNote({ labelIds: labels.map((l) => l.id) });
+      }
+    } catch (error) {
+      console.error("Error updating note labels:", error);
+    }
+  };
 
   const handleToggleChecklistItem = async (itemId: string) => {
     try {
       if (!note.checklistItems) return;
 
-      const updatedItems = note.checklistItems.map((item) =>
-        item.id === itemId ? { ...item, checked: !item.checked } : item
-      );
-
-      const sortedItems = updatedItems.sort((a, b) => a.order - b.order);
+      const currentItem = note.checklistItems.find((item) => item.id === itemId);
+      if (!currentItem) return;
 
+      const checked = !currentItem.checked;
       const optimisticNote = {
         ...note,
-        checklistItems: sortedItems,
+        checklistItems: setChecklistItemChecked(note.checklistItems, itemId, checked).sort(
+          (a, b) => a.order - b.order
+        ),
       };
 
       onUpdate?.(optimisticNote);
 
       if (syncDB) {
-        fetch(`/api/boards/${note.boardId}/notes/${note.id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            checklistItems: sortedItems,
-          }),
-        })
-          .then(async (response) => {
-            if (!response.ok) {
-              console.error("Server error, reverting optimistic update");
-              onUpdate?.(note);
-            } else {
-              const { note: updatedNote } = await response.json();
-              onUpdate?.(updatedNote);
-            }
-          })
-          .catch((error) => {
-            console.error("Error toggling checklist item:", error);
-            onUpdate?.(note);
-          });
+        syncChecklistItem({ type: "update", itemId, data: { checked } }).catch((error) => {
+          console.error("Error toggling checklist item:", error);
+          onUpdate?.(note);
+        });
       }
     } catch (error) {
       console.error("Error toggling checklist item:", error);
@@ -142,32 +324,16 @@ export function Note({
   const handleDeleteChecklistItem = async (itemId: string) => {
     try {
       if (!note.checklistItems) return;
-      const updatedItems = note.checklistItems.filter((item) => item.id !== itemId);
 
       const optimisticNote = {
         ...note,
-        checklistItems: updatedItems,
+        checklistItems: removeChecklistItem(note.checklistItems, itemId),
       };
 
       onUpdate?.(optimisticNote);
 
       if (syncDB) {
-        const response = await fetch(`/api/boards/${note.boardId}/notes/${note.id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            checklistItems: updatedItems,
-          }),
-        });
-
-        if (response.ok) {
-          const { note: updatedNote } = await response.json();
-          onUpdate?.(updatedNote);
-        } else {
-          onUpdate?.(note);
-        }
+        await syncChecklistItem({ type: "delete", itemId });
       }
     } catch (error) {
       console.error("Error deleting checklist item:", error);
@@ -178,126 +344,111 @@ export function Note({
     try {
       if (!note.checklistItems) return;
 
-      const updatedItems = note.checklistItems.map((item) =>
-        item.id === itemId ? { ...item, content } : item
-      );
-
       const optimisticNote = {
         ...note,
-        checklistItems: updatedItems,
+        checklistItems: note.checklistItems.map((item) =>
+          item.id === itemId ? { ...item, content } : item
+        ),
       };
 
       onUpdate?.(optimisticNote);
 
       if (syncDB) {
-        const response = await fetch(`/api/boards/${note.boardId}/notes/${note.id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            checklistItems: updatedItems,
-          }),
-        });
-
-        if (response.ok) {
-          const { note: updatedNote } = await response.json();
-          onUpdate?.(updatedNote);
-        } else {
-          onUpdate?.(note);
-        }
+        await syncChecklistItem({ type: "update", itemId, data: { content } });
       }
     } catch (error) {
       console.error("Error editing checklist item:", error);
     }
   };
 
-  const handleReorderChecklistItems = async (noteId: string, newItems: ChecklistItem[]) => {
+  const handleIndentChecklistItem = async (itemId: string, direction: "in" | "out") => {
     try {
       if (!note.checklistItems) return;
-      const allItemsChecked = newItems.every((item) => item.checked);
-      // Disallow unchecked items to be after checked items
-      const firstCheckedIndex = newItems.findIndex((element) => element.checked);
-      const lastUncheckedIndex = newItems.map((element) => element.checked).lastIndexOf(false);
-      if (
-        firstCheckedIndex !== -1 &&
-        lastUncheckedIndex !== -1 &&
-        lastUncheckedIndex > firstCheckedIndex
-      ) {
-        return;
+
+      const newItems =
+        direction === "in"
+          ? indentChecklistItem(note.checklistItems, itemId)
+          : outdentChecklistItem(note.checklistItems, itemId);
+      if (newItems === note.checklistItems) return;
+
+      onUpdate?.({ ...note, checklistItems: newItems });
+
+      if (syncDB) {
+        await syncChecklistOrder(newItems);
       }
+    } catch (error) {
+      console.error("Error indenting checklist item:", error);
+    }
+  };
 
-      const updatedItems = newItems.map((item, index) => ({ ...item, order: index }));
+  const handleUpdateChecklistItemDetails = async (
+    itemId: string,
+    details: ChecklistItemDetails
+  ) => {
+    try {
+      if (!note.checklistItems) return;
 
       const optimisticNote = {
         ...note,
-        checklistItems: updatedItems,
+        checklistItems: note.checklistItems.map((item) =>
+          item.id === itemId ? { ...item, ...details } : item
+        ),
       };
 
       onUpdate?.(optimisticNote);
 
       if (syncDB) {
-        const response = await fetch(`/api/boards/${note.boardId}/notes/${noteId}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            checklistItems: updatedItems,
-            archivedAt: allItemsChecked ? new Date().toISOString() : null,
-          }),
-        });
-
-        if (response.ok) {
-          const { note: updatedNote } = await response.json();
-          onUpdate?.(updatedNote);
-        } else {
-          onUpdate?.(note);
-        }
+        await syncChecklistItem({ type: "update", itemId, data: details });
       }
     } catch (error) {
-      console.error("Failed to reorder checklist item:", error);
+      console.error("Error updating checklist item details:", error);
     }
   };
 
-  const handleAddChecklistItem = async (content: string) => {
+  const handleReorderChecklistItems = async (newItems: ChecklistItem[]) => {
     try {
-      const newItem = {
-        id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        content,
-        checked: false,
-        order: note.checklistItems?.length ?? 0,
-      };
-
-      const allItemsChecked = [...(note.checklistItems || []), newItem].every(
-        (item) => item.checked
-      );
+      if (!note.checklistItems) return;
+      // Disallow unchecked items to be after checked items
+      if (hasUncheckedAfterChecked(newItems)) {
+        return;
+      }
 
       const optimisticNote = {
         ...note,
-        checklistItems: [...(note.checklistItems || []), newItem],
-        archivedAt: allItemsChecked ? new Date().toISOString() : null,
+        checklistItems: newItems.map((item, index) => ({ ...item, order: index })),
       };
 
       onUpdate?.(optimisticNote);
 
+      // Items added by someone else since the drag started keep their place at the end
       if (syncDB) {
-        const response = await fetch(`/api/boards/${note.boardId}/notes/${note.id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
+        await syncChecklistOrder(newItems);
+      }
+    } catch (error) {
+      console.error("Failed to reorder checklist item:", error);
+    }
+  };
+
+  const handleAddChecklistItem = async (content: string) => {
+    try {
+      const items = note.checklistItems ?? [];
+      const optimisticNote = {
+        ...note,
+        checklistItems: [
+          ...items,
+          {
+            id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            content,
+            checked: false,
+            order: items.length,
           },
-          body: JSON.stringify({
-            checklistItems: [...(note.checklistItems || []), newItem],
-          }),
-        });
+        ],
+      };
 
-        if (response.ok) {
-          const { note: updatedNote } = await response.json();
-          onUpdate?.(updatedNote);
-        } else {
-          onUpdate?.(note);
-        }
+      onUpdate?.(optimisticNote);
+
+      if (syncDB) {
+        await syncChecklistItem({ type: "create", content });
       }
     } catch (error) {
       console.error("Error adding checklist item:", error);
@@ -376,8 +527,76 @@ export function Note({
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {!readonly && currentUser && (
+            <div className="flex md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+              <NoteHistory boardId={note.boardId} noteId={note.id} members={members} />
+            </div>
+          )}
           {canEdit && (
             <div className="flex space-x-1 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+              {!note.title && !note.body && !editingText && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      aria-label={`Add Title To Note ${note.id}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingText(true);
+                        requestAnimationFrame(() => titleRef.current?.focus());
+                      }}
+                      className="p-1 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 rounded"
+                      variant="ghost"
+                      size="icon"
+                    >
+                      <Type className="w-3 h-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Add title and text</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              <Popover>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <PopoverTrigger asChild>
+                      <Button
+                        aria-label={`Label Note ${note.id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="p-1 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 rounded"
+                        variant="ghost"
+                        size="icon"
+                      >
+                        <Tag className="w-3 h-3" />
+                      </Button>
+                    </PopoverTrigger>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Labels</p>
+                  </TooltipContent>
+                </Tooltip>
+                <PopoverContent className="w-56 p-1" align="end">
+                  {availableLabels.length === 0 ? (
+                    <p className="p-2 text-xs text-muted-foreground">
+                      No labels yet. Admins can add them in organization settings.
+                    </p>
+                  ) : (
+                    availableLabels.map((label) => (
+                      <button
+                        key={label.id}
+                        type="button"
+                        onClick={() => handleToggleLabel(label)}
+                        className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                      >
+                        <LabelChip label={label} />
+                        {note.labels?.some((l) => l.id === label.id) && (
+                          <Check className="w-3 h-3 text-muted-foreground" />
+                        )}
+                      </button>
+                    ))
+                  )}
+                </PopoverContent>
+              </Popover>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -397,6 +616,56 @@ export function Note({
                   <p>Copy note</p>
                 </TooltipContent>
               </Tooltip>
+              {onMove && moveTargets.length > 0 && (
+                <Popover>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <PopoverTrigger asChild>
+                        <Button
+                          aria-label={`Move Note ${note.id} To Board`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="p-1 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 rounded"
+                          variant="ghost"
+                          size="icon"
+                        >
+                          <FolderInput className="w-3 h-3" />
+                        </Button>
+                      </PopoverTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Move to board…</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <PopoverContent className="w-64 p-1 max-h-72 overflow-y-auto" align="end">
+                    {moveTargets.map((target) => (
+                      <div
+                        key={target.id}
+                        className="flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                      >
+                        <span className="text-sm truncate">{target.name}</span>
+                        <div className="flex shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => onMove(note, target.id, false)}
+                          >
+                            Move
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => onMove(note, target.id, true)}
+                          >
+                            Copy
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -464,17 +733,153 @@ export function Note({
               </Tooltip>
             </div>
           )}
+          {!readonly && canManageNote && onRestore && (
+            <div className="flex items-center">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRestore(note.id);
+                    }}
+                    className="p-1 text-gray-600 dark:text-gray-400 hover:text-green-600 dark:hover:text-green-400 rounded"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Restore Note ${note.id}`}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Restore note</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+          )}
+          {!readonly && currentUser?.isAdmin && onPurge && (
+            <div className="flex items-center">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onPurge(note.id);
+                    }}
+                    className="p-1 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete Note Forever ${note.id}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Delete forever</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+          )}
         </div>
       </div>
 
+      {canEdit && (editingText || note.title || note.body) && (
+        <div
+          className="flex flex-col gap-1 mb-2 flex-shrink-0"
+          onFocus={() => setEditingText(true)}
+          onBlur={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget)) {
+              setEditingText(false);
+            }
+          }}
+        >
+          {(editingText || note.title) && (
+            <input
+              ref={titleRef}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={() => handleSaveNoteText("title", title)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+              maxLength={MAX_NOTE_TITLE_LENGTH}
+              placeholder="Title"
+              aria-label="Note title"
+              className="bg-transparent border-none outline-none p-0 text-base font-semibold text-gray-900 dark:text-zinc-100 placeholder:text-gray-400 dark:placeholder:text-zinc-500"
+            />
+          )}
+          {(editingText || note.body) && (
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              onBlur={() => handleSaveNoteText("body", body)}
+              rows={Math.max(1, body.split("\n").length)}
+              maxLength={MAX_NOTE_BODY_LENGTH}
+              placeholder="Add text"
+              aria-label="Note text"
+              className="bg-transparent border-none outline-none p-0 resize-none text-sm text-gray-700 dark:text-zinc-200 placeholder:text-gray-400 dark:placeholder:text-zinc-500"
+            />
+          )}
+        </div>
+      )}
+
+      {!canEdit && (note.title || note.body) && (
+        <div className="flex flex-col gap-1 mb-2 flex-shrink-0">
+          {note.title && (
+            <h3 className="text-base font-semibold text-gray-900 dark:text-zinc-100 break-words">
+              {note.title}
+            </h3>
+          )}
+          {note.body && (
+            <p className="text-sm text-gray-700 dark:text-zinc-200 whitespace-pre-wrap break-words">
+              {note.body}
+            </p>
+          )}
+        </div>
+      )}
+
+      {note.labels && note.labels.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2 flex-shrink-0" data-testid="note-labels">
+          {note.labels.map((label) => (
+            <LabelChip key={label.id} label={label} />
+          ))}
+        </div>
+      )}
+
+      {hasSearchMatch(note.searchHighlight) && (
+        <p
+          className="text-xs text-gray-600 dark:text-zinc-400 mb-2 line-clamp-2 flex-shrink-0"
+          data-testid="note-search-highlight"
+        >
+          {splitSearchHighlight(replaceMentions(note.searchHighlight!, members ?? [])).map(
+            (segment, index) =>
+              segment.match ? (
+                <mark
+                  key={index}
+                  className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm px-0.5"
+                >
+                  {segment.text}
+                </mark>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              )
+          )}
+        </p>
+      )}
+
       <div className="flex flex-col">
         <div className="overflow-y-auto space-y-1">
           {/* Checklist Items */}
           <DraggableRoot
             items={note.checklistItems ?? []}
+            moveItems={(items, activeId, overId) =>
+              moveChecklistItem(items, String(activeId), String(overId))
+            }
             onItemsChange={(newItems) => {
               if (canEdit) {
-                handleReorderChecklistItems(note.id, newItems);
+                handleReorderChecklistItems(newItems);
               }
             }}
           >
@@ -486,13 +891,17 @@ export function Note({
                     onToggle={handleToggleChecklistItem}
                     onEdit={handleEditItem}
                     onDelete={handleDeleteItem}
+                    onIndent={canEdit ? handleIndentChecklistItem : undefined}
                     isEditing={editingItem === item.id}
                     editContent={editingItem === item.id ? editingItemContent : undefined}
                     onEditContentChange={setEditingItemContent}
                     onStartEdit={handleStartEditItem}
                     onStopEdit={handleStopEditItem}
-                    readonly={readonly}
+                    readonly={readonly || Boolean(note.deletedAt)}
                     showDeleteButton={canEdit}
+                    members={members}
+                    onUpdateDetails={canEdit ? handleUpdateChecklistItemDetails : undefined}
+                    className={SUBTASK_INDENT[itemDepths.get(item.id) ?? 0]}
                   />
                 </DraggableItem>
               ))}
@@ -523,6 +932,7 @@ export function Note({
                 onCreateItem={handleCreateNewItem}
                 readonly={false}
                 showDeleteButton={false}
+                members={members}
                 className="gap-3"
               />
             )}
@@ -0,0 +1,237 @@
+"use client";
+
+import * as React from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { describeNotification, type Notification } from "@/lib/notification-events";
+import { useUser } from "@/app/contexts/UserContext";
+
+const POLL_INTERVAL = 60 * 1000;
+
+// Inbox of changes other people made to the user's notes and items, shown in the page header
+export function NotificationBell() {
+  const router = useRouter();
+  const { user } = useUser();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchNotifications = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ limit: "20" });
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+    const response = await fetch(`/api/notifications?${params}`);
+    if (!response.ok) {
+      throw new Error("Failed to load notifications");
+    }
+    const data: { notifications: Notification[]; unreadCount: number; nextCursor: string | null } =
+      await response.json();
+    setUnreadCount(data.unreadCount);
+    setNotifications((prev) => (cursor ? [...prev, ...data.notifications] : data.notifications));
+    setNextCursor(data.nextCursor);
+  }, []);
+
+  // Keep the unread badge current while the page is open
+  useEffect(() => {
+    const refresh = () =>
+      fetchNotifications().catch((error) => console.error("Error fetching notifications:", error));
+
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setLoading(true);
+    try {
+      await fetchNotifications();
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoading(true);
+    try {
+      await fetchNotifications(nextCursor);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setRead = async (notification: Notification, read: boolean) => {
+    if (!!notification.readAt === read) return;
+
+    const readAt = read ? new Date().toISOString() : null;
+    setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, readAt } : n)));
+    setUnreadCount((count) => Math.max(0, count + (read ? -1 : 1)));
+
+    try {
+      const response = await fetch(`/api/notifications/${notification.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ read }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update notification");
+      }
+    } catch (error) {
+      console.error("Error updating notification:", error);
+      setNotifications((prev) => prev.map((n) => (n.id === notification.id ? notification : n)));
+      setUnreadCount((count) => Math.max(0, count + (read ? 1 : -1)));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    const previous = { notifications, unreadCount };
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => ({ ...n, readAt: n.readAt ?? readAt })));
+    setUnreadCount(0);
+
+    try {
+      const response = await fetch("/api/notifications/read-all", { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to mark notifications as read");
+      }
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      setNotifications(previous.notifications);
+      setUnreadCount(previous.unreadCount);
+    }
+  };
+
+  const handleOpenNotification = (notification: Notification) => {
+    setRead(notification, true);
+    setOpen(false);
+    if (notification.note) {
+      router.push(`/boards/${notification.note.boardId}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+          className="relative size-9 rounded-full text-muted-foreground dark:text-zinc-400"
+        >
+          <Bell className="size-4" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] font-semibold leading-4 text-white"
+              data-testid="notification-unread-count"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-80 bg-white dark:bg-zinc-900 rounded-lg shadow-lg border border-zinc-100 dark:border-zinc-800 p-2"
+      >
+        <div className="flex items-center justify-between px-2 py-1">
+          <p className="text-sm font-semibold text-foreground dark:text-zinc-100">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleMarkAllRead}
+            disabled={unreadCount === 0}
+            className="h-7 text-xs"
+          >
+            Mark all as read
+          </Button>
+        </div>
+        <div className="border-t border-zinc-100 dark:border-zinc-800 my-1"></div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground dark:text-zinc-400">
+              {loading ? "Loading..." : "You're all caught up"}
+            </p>
+          )}
+          {notifications.map((notification) => (
+            <div
+              key={notification.id}
+              className={cn(
+                "flex items-start gap-2 rounded-md px-2 py-2 hover:bg-zinc-100 dark:hover:bg-zinc-800",
+                !notification.readAt && "bg-sky-50 dark:bg-sky-950/40"
+              )}
+              data-testid="notification"
+            >
+              <Avatar className="h-6 w-6 mt-0.5">
+                <AvatarImage src={notification.actor?.image || ""} />
+                <AvatarFallback className="text-xs">
+                  {notification.actor ? (
+                    (notification.actor.name || notification.actor.email).charAt(0).toUpperCase()
+                  ) : (
+                    <Bell className="w-3 h-3" />
+                  )}
+                </AvatarFallback>
+              </Avatar>
+              <button
+                type="button"
+                onClick={() => handleOpenNotification(notification)}
+                className="min-w-0 flex-1 text-left text-xs"
+              >
+                <p className="text-foreground dark:text-zinc-100 break-words">
+                  {describeNotification(notification, user?.organization?.members)}
+                </p>
+                <p className="text-muted-foreground dark:text-zinc-400">
+                  {notification.note?.board.name && `${notification.note.board.name} · `}
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => setRead(notification, !notification.readAt)}
+                aria-label={notification.readAt ? "Mark as unread" : "Mark as read"}
+                title={notification.readAt ? "Mark as unread" : "Mark as read"}
+                className="mt-1.5 p-0.5"
+              >
+                <span
+                  className={cn(
+                    "block h-2 w-2 rounded-full",
+                    notification.readAt
+                      ? "border border-zinc-300 dark:border-zinc-600"
+                      : "bg-sky-600 dark:bg-sky-400"
+                  )}
+                />
+              </button>
+            </div>
+          ))}
+          {nextCursor && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleLoadMore}
+              disabled={loading}
+              className="w-full text-xs"
+            >
+              {loading ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
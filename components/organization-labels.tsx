@@ -0,0 +1,231 @@
+"use client";
+
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label as FormLabel } from "@/components/ui/label";
+import { LabelChip } from "@/components/label-chip";
+import { cn } from "@/lib/utils";
+import { LABEL_COLORS, MAX_LABEL_NAME_LENGTH, type Label } from "@/lib/labels";
+
+interface OrganizationLabelsProps {
+  isAdmin: boolean;
+  onError?: (message: string) => void;
+  // Called after labels change so notes and filters pick them up
+  onChange?: () => void;
+}
+
+function ColorPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {LABEL_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          aria-label={`Use color ${color}`}
+          aria-pressed={value === color}
+          className={cn(
+            "w-5 h-5 rounded-full border-2",
+            value === color ? "border-zinc-900 dark:border-zinc-100" : "border-transparent"
+          )}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Organization-wide note labels, shown in organization settings
+export function OrganizationLabels({ isAdmin, onError, onChange }: OrganizationLabelsProps) {
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<string>(LABEL_COLORS[0]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    const fetchLabels = async () => {
+      try {
+        const response = await fetch("/api/organization/labels");
+        if (response.ok) {
+          const data: { labels: Label[] } = await response.json();
+          setLabels(data.labels);
+        }
+      } catch (error) {
+        console.error("Error fetching labels:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLabels();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch("/api/organization/labels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), color }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to create label");
+      }
+
+      const data: { label: Label } = await response.json();
+      setLabels((prev) => [...prev, data.label].sort((a, b) => a.name.localeCompare(b.name)));
+      setName("");
+      onChange?.();
+    } catch (error) {
+      console.error("Error creating label:", error);
+      onError?.(error instanceof Error ? error.message : "Failed to create label");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleUpdate = async (label: Label, changes: Partial<Pick<Label, "name" | "color">>) => {
+    setLabels((prev) => prev.map((l) => (l.id === label.id ? { ...l, ...changes } : l)));
+
+    try {
+      const response = await fetch(`/api/organization/labels/${label.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to update label");
+      }
+
+      const data: { label: Label } = await response.json();
+      setLabels((prev) => prev.map((l) => (l.id === label.id ? data.label : l)));
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating label:", error);
+      setLabels((prev) => prev.map((l) => (l.id === label.id ? label : l)));
+      onError?.(error instanceof Error ? error.message : "Failed to update label");
+    }
+  };
+
+  const handleDelete = async (labelId: string) => {
+    try {
+      const response = await fetch(`/api/organization/labels/${labelId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to delete label");
+      }
+
+      setLabels((prev) => prev.filter((l) => l.id !== labelId));
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      onError?.(error instanceof Error ? error.message : "Failed to delete label");
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-zinc-600 dark:text-zinc-400">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {isAdmin ? (
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div>
+            <FormLabel htmlFor="labelName" className="text-zinc-800 dark:text-zinc-200">
+              Name
+            </FormLabel>
+            <Input
+              id="labelName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_LABEL_NAME_LENGTH}
+              placeholder="e.g. Bug, Design, Q3"
+              className="mt-1 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100"
+            />
+          </div>
+          <ColorPicker value={color} onChange={setColor} />
+          <Button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="disabled:bg-gray-400 disabled:cursor-not-allowed bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 text-white dark:text-zinc-100"
+          >
+            {creating ? "Adding..." : "Add label"}
+          </Button>
+        </form>
+      ) : (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">Only admins can manage labels.</p>
+      )}
+
+      {labels.length === 0 ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">No labels yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {labels.map((label) =>
+            isAdmin ? (
+              <div
+                key={label.id}
+                className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800"
+              >
+                <Input
+                  key={label.name}
+                  defaultValue={label.name}
+                  maxLength={MAX_LABEL_NAME_LENGTH}
+                  aria-label={`Name of label ${label.name}`}
+                  onBlur={(e) => {
+                    const newName = e.target.value.trim();
+                    if (!newName) {
+                      e.target.value = label.name;
+                    } else if (newName !== label.name) {
+                      handleUpdate(label, { name: newName });
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  className="sm:max-w-48 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+                />
+                <ColorPicker
+                  value={label.color}
+                  onChange={(newColor) => handleUpdate(label, { color: newColor })}
+                />
+                <div className="flex items-center gap-2 sm:ml-auto">
+                  <LabelChip label={label} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(label.id)}
+                    title="Delete label"
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <LabelChip key={label.id} label={label} className="mr-1" />
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
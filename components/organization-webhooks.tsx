@@ -0,0 +1,392 @@
+"use client";
+
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Copy, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@/lib/webhook-events";
+
+type WebhookDeliveryStatus = "PENDING" | "SUCCEEDED" | "FAILED";
+
+interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  deliveries?: {
+    status: WebhookDeliveryStatus;
+    responseStatus: number | null;
+    createdAt: string;
+  }[];
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+}
+
+interface OrganizationWebhooksProps {
+  isAdmin: boolean;
+  onError?: (message: string) => void;
+}
+
+const STATUS_CLASSES: Record<WebhookDeliveryStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+  SUCCEEDED: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  FAILED: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+function DeliveryStatus({ status }: { status: WebhookDeliveryStatus }) {
+  return (
+    <span className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_CLASSES[status]}`}>
+      {status.toLowerCase()}
+    </span>
+  );
+}
+
+// Outgoing organization webhooks with their delivery log, shown in organization settings
+export function OrganizationWebhooks({ isAdmin, onError }: OrganizationWebhooksProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchWebhooks = async () => {
+      try {
+        const response = await fetch("/api/organization/webhooks");
+        if (response.ok) {
+          const data: { webhooks: Webhook[] } = await response.json();
+          setWebhooks(data.webhooks);
+        }
+      } catch (error) {
+        console.error("Error fetching webhooks:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWebhooks();
+  }, [isAdmin]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch("/api/organization/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: url.trim(), events }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to create webhook");
+      }
+
+      const data: { webhook: Webhook; secret: string } = await response.json();
+      setWebhooks((prev) => [data.webhook, ...prev]);
+      setCreatedSecret(data.secret);
+      setUrl("");
+      setEvents([]);
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      onError?.(error instanceof Error ? error.message : "Failed to create webhook");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook, isActive: boolean) => {
+    setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? { ...w, isActive } : w)));
+
+    try {
+      const response = await fetch(`/api/organization/webhooks/${webhook.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to update webhook");
+      }
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      setWebhooks((prev) =>
+        prev.map((w) => (w.id === webhook.id ? { ...w, isActive: webhook.isActive } : w))
+      );
+      onError?.(error instanceof Error ? error.message : "Failed to update webhook");
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    try {
+      const response = await fetch(`/api/organization/webhooks/${webhookId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to delete webhook");
+      }
+
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhookId));
+      if (expandedId === webhookId) setExpandedId(null);
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      onError?.(error instanceof Error ? error.message : "Failed to delete webhook");
+    }
+  };
+
+  const handleToggleDeliveries = async (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(webhookId);
+    setDeliveries([]);
+    setLoadingDeliveries(true);
+    try {
+      const response = await fetch(`/api/organization/webhooks/${webhookId}/deliveries`);
+      if (response.ok) {
+        const data: { deliveries: WebhookDelivery[] } = await response.json();
+        setDeliveries(data.deliveries);
+      }
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    try {
+      await navigator.clipboard.writeText(createdSecret);
+    } catch (error) {
+      console.error("Failed to copy webhook secret:", error);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">Only admins can manage webhooks.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div>
+          <Label htmlFor="webhookUrl" className="text-zinc-800 dark:text-zinc-200">
+            Payload URL
+          </Label>
+          <Input
+            id="webhookUrl"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhooks/gumboard"
+            className="mt-1 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100"
+          />
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm text-zinc-800 dark:text-zinc-200">
+            Events{" "}
+            <span className="text-muted-foreground dark:text-zinc-400">
+              (leave empty for all events)
+            </span>
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-1">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label
+                key={event}
+                className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                />
+                <span className="font-mono text-xs">{event}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button
+          type="submit"
+          disabled={creating || !url.trim()}
+          className="disabled:bg-gray-400 disabled:cursor-not-allowed bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 text-white dark:text-zinc-100"
+        >
+          {creating ? "Adding..." : "Add webhook"}
+        </Button>
+      </form>
+
+      {createdSecret && (
+        <div className="p-3 rounded-lg border border-green-200 dark:border-green-900 bg-green-50 dark:bg-green-950/40 space-y-2">
+          <p className="text-sm text-green-800 dark:text-green-300">
+            Copy the signing secret now. You won&apos;t be able to see it again. Payloads are signed
+            with HMAC-SHA256 over <code>{"{timestamp}.{body}"}</code> and sent in the{" "}
+            <code>X-Gumboard-Signature</code> header.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs break-all bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 p-2 rounded">
+              {createdSecret}
+            </code>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={copySecret}
+              title="Copy secret"
+              className="text-zinc-600 dark:text-zinc-400"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setCreatedSecret(null)}
+            className="dark:bg-zinc-900 dark:text-zinc-100 dark:border-zinc-700"
+          >
+            Done
+          </Button>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">Loading...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">No webhooks configured yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {webhooks.map((webhook) => (
+            <div
+              key={webhook.id}
+              className="rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800"
+            >
+              <div className="flex items-center justify-between gap-2 p-3">
+                <button
+                  type="button"
+                  onClick={() => handleToggleDeliveries(webhook.id)}
+                  className="flex items-center gap-2 min-w-0 text-left"
+                  title="Show delivery log"
+                >
+                  {expandedId === webhook.id ? (
+                    <ChevronDown className="w-4 h-4 shrink-0 text-zinc-500" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 shrink-0 text-zinc-500" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate">
+                      {webhook.url}
+                    </p>
+                    <p className="text-xs text-zinc-600 dark:text-zinc-400 truncate">
+                      {webhook.events.length === 0 ? "All events" : webhook.events.join(", ")}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center gap-2 shrink-0">
+                  {webhook.deliveries?.[0] && (
+                    <DeliveryStatus status={webhook.deliveries[0].status} />
+                  )}
+                  <Switch
+                    checked={webhook.isActive}
+                    onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                    aria-label={webhook.isActive ? "Disable webhook" : "Enable webhook"}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(webhook.id)}
+                    title="Delete webhook"
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {expandedId === webhook.id && (
+                <div className="border-t border-zinc-200 dark:border-zinc-700 p-3">
+                  {loadingDeliveries ? (
+                    <p className="text-xs text-zinc-600 dark:text-zinc-400">Loading...</p>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-xs text-zinc-600 dark:text-zinc-400">No deliveries yet.</p>
+                  ) : (
+                    <div className="max-h-64 overflow-y-auto space-y-1">
+                      {deliveries.map((delivery) => (
+                        <div
+                          key={delivery.id}
+                          className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-zinc-700 dark:text-zinc-300"
+                        >
+                          <DeliveryStatus status={delivery.status} />
+                          <span className="font-mono">{delivery.event}</span>
+                          <span>
+                            {delivery.responseStatus
+                              ? `HTTP ${delivery.responseStatus}`
+                              : "No response"}
+                          </span>
+                          <span>
+                            {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                          </span>
+                          <span className="text-zinc-500 dark:text-zinc-400">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                          </span>
+                          {delivery.status === "PENDING" && delivery.nextAttemptAt && (
+                            <span className="text-zinc-500 dark:text-zinc-400">
+                              Next retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                            </span>
+                          )}
+                          {delivery.error && (
+                            <span className="w-full text-red-600 dark:text-red-400 truncate">
+                              {delivery.error}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
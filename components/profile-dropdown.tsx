@@ -1,8 +1,10 @@
 import { signOut } from "next-auth/react";
 import Link from "next/link";
+import { Check, Plus } from "lucide-react";
 
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useUser } from "@/app/contexts/UserContext";
 import { User } from "./note";
 
 type Props = {
@@ -10,9 +12,35 @@ type Props = {
 };
 
 export function ProfileDropdown({ user }: Props) {
+  const { user: currentUser } = useUser();
+  const organizations = currentUser?.organizations ?? [];
+  const activeOrganizationId = currentUser?.organization?.id;
+
   const handleSignOut = async () => {
     await signOut();
   };
+
+  const handleSwitchOrganization = async (organizationId: string) => {
+    if (organizationId === activeOrganizationId) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/user/active-organization", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId }),
+      });
+
+      if (response.ok) {
+        // Boards and notes all belong to the previous organization, so start fresh
+        window.location.href = "/dashboard";
+      }
+    } catch (error) {
+      console.error("Error switching organization:", error);
+    }
+  };
+
   return (
     <Popover>
       <PopoverTrigger asChild>
@@ -41,6 +69,36 @@ export function ProfileDropdown({ user }: Props) {
           <p className="text-xs text-muted-foreground dark:text-zinc-400">{user?.email}</p>
         </div>
         <div className="border-t border-zinc-100 dark:border-zinc-800 my-1"></div>
+        {organizations.length > 0 && (
+          <>
+            <p className="px-3 pt-1 pb-0.5 text-xs text-muted-foreground dark:text-zinc-400">
+              Organizations
+            </p>
+            <div className="flex flex-col gap-1">
+              {organizations.map((organization) => (
+                <button
+                  key={organization.id}
+                  type="button"
+                  onClick={() => handleSwitchOrganization(organization.id)}
+                  className="rounded-lg flex items-center justify-between gap-2 font-medium px-3 py-1.5 text-sm text-left hover:bg-zinc-100 dark:hover:bg-zinc-800 text-foreground dark:text-zinc-100"
+                >
+                  <span className="truncate">{organization.name}</span>
+                  {organization.id === activeOrganizationId && (
+                    <Check className="w-4 h-4 shrink-0 text-blue-500" />
+                  )}
+                </button>
+              ))}
+              <Link
+                href="/setup/organization?new=1"
+                className="rounded-lg flex items-center gap-2 font-medium px-3 py-1.5 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 text-muted-foreground dark:text-zinc-400"
+              >
+                <Plus className="w-4 h-4" />
+                Create organization
+              </Link>
+            </div>
+            <div className="border-t border-zinc-100 dark:border-zinc-800 my-1"></div>
+          </>
+        )}
         <div className="flex flex-col gap-1">
           <Link
             href={"/settings"}
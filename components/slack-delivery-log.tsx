@@ -0,0 +1,153 @@
+"use client";
+
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SlackOutboxMessage {
+  id: string;
+  text: string;
+  status: "PENDING" | "SENT" | "FAILED";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+interface SlackDeliveryLogProps {
+  onError?: (message: string) => void;
+}
+
+// Slack messages that failed or are waiting for a retry, shown to admins in organization settings
+export function SlackDeliveryLog({ onError }: SlackDeliveryLogProps) {
+  const [messages, setMessages] = useState<SlackOutboxMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      try {
+        const response = await fetch("/api/organization/slack-messages");
+        if (response.ok) {
+          const data: { messages: SlackOutboxMessage[] } = await response.json();
+          setMessages(data.messages);
+        }
+      } catch (error) {
+        console.error("Error fetching Slack messages:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMessages();
+  }, []);
+
+  const handleRetry = async (messageId: string) => {
+    setRetryingId(messageId);
+    try {
+      const response = await fetch(`/api/organization/slack-messages/${messageId}/retry`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to retry Slack message");
+      }
+
+      const data: { message: SlackOutboxMessage | null } = await response.json();
+      setMessages((prev) =>
+        data.message && data.message.status !== "SENT"
+          ? prev.map((m) => (m.id === messageId ? data.message! : m))
+          : prev.filter((m) => m.id !== messageId)
+      );
+    } catch (error) {
+      console.error("Error retrying Slack message:", error);
+      onError?.(error instanceof Error ? error.message : "Failed to retry Slack message");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleDismiss = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/organization/slack-messages/${messageId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to dismiss Slack message");
+      }
+
+      setMessages((prev) => prev.filter((m) => m.id !== messageId));
+    } catch (error) {
+      console.error("Error dismissing Slack message:", error);
+      onError?.(error instanceof Error ? error.message : "Failed to dismiss Slack message");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-zinc-800 dark:text-zinc-200">Failed deliveries</p>
+      {loading ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">Loading...</p>
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          All Slack notifications were delivered.
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className="flex items-start justify-between gap-2 p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm text-zinc-900 dark:text-zinc-100 truncate">{message.text}</p>
+                <p className="text-xs text-zinc-600 dark:text-zinc-400">
+                  {message.status === "FAILED"
+                    ? "Gave up"
+                    : message.nextAttemptAt
+                      ? `Retrying at ${new Date(message.nextAttemptAt).toLocaleTimeString()}`
+                      : "Retrying"}{" "}
+                  after {message.attempts} attempt{message.attempts === 1 ? "" : "s"} ·{" "}
+                  {new Date(message.createdAt).toLocaleString()}
+                </p>
+                {message.error && (
+                  <p className="text-xs text-red-600 dark:text-red-400 truncate">{message.error}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {message.status === "FAILED" && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRetry(message.id)}
+                    disabled={retryingId === message.id}
+                    title="Retry"
+                    className="text-zinc-600 dark:text-zinc-400"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDismiss(message.id)}
+                  title="Dismiss"
+                  className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -31,12 +31,15 @@ export interface DraggableItem {
 export interface DraggableRootProps<T extends DraggableItem> {
   items: T[];
   onItemsChange: (items: T[]) => void;
+  // How a drop rearranges the items, moving the dragged item to the target's index by default
+  moveItems?: (items: T[], activeId: UniqueIdentifier, overId: UniqueIdentifier) => T[];
   children: React.ReactNode;
 }
 
 export function DraggableRoot<T extends DraggableItem>({
   items,
   onItemsChange,
+  moveItems,
   children,
 }: DraggableRootProps<T>) {
   const [activeId, setActiveId] = React.useState<UniqueIdentifier | null>(null);
@@ -62,7 +65,12 @@ export function DraggableRoot<T extends DraggableItem>({
       const newIndex = items.findIndex((item) => item.id === over.id);
 
       if (oldIndex !== -1 && newIndex !== -1) {
-        onItemsChange(arrayMove(items, oldIndex, newIndex));
+        const newItems = moveItems
+          ? moveItems(items, active.id, over.id)
+          : arrayMove(items, oldIndex, newIndex);
+        if (newItems !== items) {
+          onItemsChange(newItems);
+        }
       }
     }
   };
@@ -2,12 +2,15 @@
 
 import * as React from "react";
 import { useState } from "react";
-import { ListFilter, User } from "lucide-react";
+import { ListFilter, User, UserCheck } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
+import { LabelChip } from "@/components/label-chip";
+import type { Label as NoteLabel } from "@/lib/labels";
 import { DateRangePicker } from "./date-range-picker";
 import { Avatar, AvatarFallback, AvatarImage } from "./avatar";
 
@@ -20,6 +23,18 @@ interface FilterPopoverProps {
   authors: Array<{ id: string; name: string; email: string; image?: string | null }>;
   onAuthorChange?: (authorId: string | null) => void;
 
+  // Checklist item filters, only shown when their change handlers are passed
+  selectedAssignee?: string | null;
+  assignees?: Array<{ id: string; name: string; email: string; image?: string | null }>;
+  onAssigneeChange?: (assigneeId: string | null) => void;
+  overdueOnly?: boolean;
+  onOverdueChange?: (overdueOnly: boolean) => void;
+
+  // Label filter, only shown when its change handler is passed
+  labels?: NoteLabel[];
+  selectedLabels?: string[];
+  onLabelsChange?: (labelIds: string[]) => void;
+
   className?: string;
   disabled?: boolean;
 }
@@ -31,6 +46,14 @@ function FilterPopover({
   selectedAuthor,
   authors,
   onAuthorChange,
+  selectedAssignee,
+  assignees = [],
+  onAssigneeChange,
+  overdueOnly = false,
+  onOverdueChange,
+  labels = [],
+  selectedLabels = [],
+  onLabelsChange,
   className,
   disabled = false,
 }: FilterPopoverProps) {
@@ -38,6 +61,9 @@ function FilterPopover({
     let count = 0;
     if (startDate || endDate) count++;
     if (selectedAuthor) count++;
+    if (selectedAssignee) count++;
+    if (overdueOnly) count++;
+    if (selectedLabels.length > 0) count++;
     return count;
   };
 
@@ -135,6 +161,111 @@ function FilterPopover({
                 </div>
               </ScrollArea>
             </div>
+
+            {onAssigneeChange && (
+              <div className="space-y-2">
+                <Label className="block text-xs font-medium text-muted-foreground dark:text-zinc-100">
+                  Assignee
+                </Label>
+                <ScrollArea className="h-auto rounded-md dark:text-zinc-100">
+                  <div className="space-y-1 p-1">
+                    <Button
+                      data-slot="all-assignees-button"
+                      variant="ghost"
+                      onClick={() => onAssigneeChange(null)}
+                      className={cn(
+                        "w-full justify-start text-left flex items-center space-x-3 hover:bg-zinc-100 dark:hover:bg-zinc-800",
+                        !selectedAssignee &&
+                          "bg-blue-50  hover:bg-blue-50 text-sky-600 dark:text-zinc-200 dark:bg-zinc-800"
+                      )}
+                    >
+                      <Avatar className="w-6 h-6">
+                        <AvatarFallback>
+                          <div className="w-6 h-6 text-primary-foreground rounded-full flex items-center justify-center flex-shrink-0">
+                            <UserCheck className="w-4 h-4" />
+                          </div>
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="font-medium">Anyone</span>
+                    </Button>
+                    {assignees.map((assignee) => (
+                      <Button
+                        key={assignee.id}
+                        variant="ghost"
+                        onClick={() => onAssigneeChange(assignee.id)}
+                        className={cn(
+                          "w-full justify-start text-left flex items-center space-x-3 hover:bg-zinc-100 dark:hover:bg-zinc-800",
+                          selectedAssignee === assignee.id &&
+                            "bg-blue-50 dark:bg-zinc-800 hover:bg-blue-50 text-blue-600 dark:text-zinc-200"
+                        )}
+                      >
+                        <Avatar className="w-6 h-6">
+                          <AvatarImage src={assignee.image || ""} />
+                          <AvatarFallback>
+                            <div className="w-6 h-6 bg-sky-600 text-primary-foreground rounded-full flex items-center justify-center flex-shrink-0">
+                              <span className="text-xs font-medium text-white">
+                                {assignee.name.charAt(0).toUpperCase()}
+                              </span>
+                            </div>
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0 flex-1">
+                          <div className="font-medium truncate">{assignee.name}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {assignee.email}
+                          </div>
+                        </div>
+                      </Button>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+
+            {onLabelsChange && labels.length > 0 && (
+              <div className="space-y-2">
+                <Label className="block text-xs font-medium text-muted-foreground dark:text-zinc-100">
+                  Labels
+                </Label>
+                <div className="flex flex-wrap gap-1 p-1">
+                  {labels.map((label) => {
+                    const selected = selectedLabels.includes(label.id);
+                    return (
+                      <button
+                        key={label.id}
+                        type="button"
+                        aria-pressed={selected}
+                        onClick={() =>
+                          onLabelsChange(
+                            selected
+                              ? selectedLabels.filter((id) => id !== label.id)
+                              : [...selectedLabels, label.id]
+                          )
+                        }
+                        className={cn(
+                          "rounded-full ring-offset-1 dark:ring-offset-zinc-900",
+                          selected ? "ring-2 ring-sky-500" : "opacity-60 hover:opacity-100"
+                        )}
+                      >
+                        <LabelChip label={label} />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {onOverdueChange && (
+              <div className="flex items-center justify-between">
+                <Label
+                  htmlFor="overdue-only"
+                  className="text-xs font-medium text-muted-foreground dark:text-zinc-100"
+                >
+                  Only overdue tasks
+                </Label>
+                <Switch id="overdue-only" checked={overdueOnly} onCheckedChange={onOverdueChange} />
+              </div>
+            )}
           </div>
         </PopoverContent>
       </Popover>
@@ -0,0 +1,137 @@
+import {
+  buildChecklistActivities,
+  buildNoteTextActivities,
+  describeNoteActivity,
+} from "../activity";
+
+const item = (id: string, content: string, checked = false, order = 0) => ({
+  id,
+  content,
+  checked,
+  order,
+});
+
+describe("buildChecklistActivities", () => {
+  it("should record created and deleted items", () => {
+    expect(
+      buildChecklistActivities({
+        created: [item("a", "Buy milk")],
+        updated: [],
+        deleted: [item("b", "Old task")],
+      })
+    ).toEqual([
+      { action: "CREATED", checklistItemId: "a", metadata: { content: "Buy milk" } },
+      { action: "DELETED", checklistItemId: "b", metadata: { content: "Old task" } },
+    ]);
+  });
+
+  it("should record content edits and check state changes", () => {
+    expect(
+      buildChecklistActivities({
+        created: [],
+        updated: [
+          {
+            ...item("a", "Buy oat milk", true),
+            previous: { content: "Buy milk", checked: false, order: 0 },
+          },
+        ],
+        deleted: [],
+      })
+    ).toEqual([
+      {
+        action: "EDITED",
+        checklistItemId: "a",
+        metadata: { from: "Buy milk", to: "Buy oat milk" },
+      },
+      { action: "CHECKED", checklistItemId: "a", metadata: { content: "Buy oat milk" } },
+    ]);
+  });
+
+  it("should collapse order changes into a single reorder entry", () => {
+    expect(
+      buildChecklistActivities({
+        created: [],
+        updated: [
+          {
+            ...item("a", "First", false, 1),
+            previous: { content: "First", checked: false, order: 0 },
+          },
+          {
+            ...item("b", "Second", false, 0),
+            previous: { content: "Second", checked: false, order: 1 },
+          },
+        ],
+        deleted: [],
+      })
+    ).toEqual([{ action: "REORDERED" }]);
+  });
+
+  it("should not treat order shifts caused by deletions as a reorder", () => {
+    expect(
+      buildChecklistActivities({
+        created: [],
+        updated: [
+          {
+            ...item("b", "Second", false, 0),
+            previous: { content: "Second", checked: false, order: 1 },
+          },
+        ],
+        deleted: [item("a", "First")],
+      })
+    ).toEqual([{ action: "DELETED", checklistItemId: "a", metadata: { content: "First" } }]);
+  });
+});
+
+describe("buildNoteTextActivities", () => {
+  it("should record changed titles and text only", () => {
+    expect(
+      buildNoteTextActivities({ title: null, body: "Notes" }, { title: "Launch", body: "Notes" })
+    ).toEqual([{ action: "EDITED", metadata: { field: "title", from: null, to: "Launch" } }]);
+    expect(buildNoteTextActivities({ title: "Launch", body: null }, {})).toEqual([]);
+  });
+});
+
+describe("describeNoteActivity", () => {
+  it("should describe note and checklist item actions", () => {
+    expect(describeNoteActivity({ action: "CREATED", checklistItemId: null, metadata: null })).toBe(
+      "created the note"
+    );
+    expect(
+      describeNoteActivity({
+        action: "CHECKED",
+        checklistItemId: "a",
+        metadata: { content: "Ship" },
+      })
+    ).toBe('completed "Ship"');
+    expect(
+      describeNoteActivity({ action: "ARCHIVED", checklistItemId: null, metadata: null })
+    ).toBe("archived the note");
+  });
+
+  it("should describe edits to the note's title and text", () => {
+    expect(
+      describeNoteActivity({
+        action: "EDITED",
+        checklistItemId: null,
+        metadata: { field: "title", from: null, to: "Launch" },
+      })
+    ).toBe('renamed the note to "Launch"');
+    expect(
+      describeNoteActivity({
+        action: "EDITED",
+        checklistItemId: null,
+        metadata: { field: "body", from: "a", to: "b" },
+      })
+    ).toBe("edited the note's text");
+  });
+
+  it("should describe moves between boards", () => {
+    expect(
+      describeNoteActivity({
+        action: "MOVED",
+        checklistItemId: null,
+        metadata: { fromBoard: "Sprint 1", toBoard: "Sprint 2" },
+      })
+    ).toBe('moved the note from "Sprint 1" to "Sprint 2"');
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  API_TOKEN_PREFIX,
+  applyTokenScope,
+  generateApiToken,
+  getApiTokenPrefix,
+  hashApiToken,
+  isApiTokenScope,
+  parseBearerToken,
+} from "../api-tokens";
+
+const readToken = { id: "token-1", scopes: ["READ" as const], boardIds: [] };
+const writeToken = { id: "token-2", scopes: ["READ" as const, "WRITE" as const], boardIds: [] };
+
+describe("generateApiToken", () => {
+  it("should generate unique prefixed tokens", () => {
+    const first = generateApiToken();
+    const second = generateApiToken();
+
+    expect(first.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(getApiTokenPrefix(first)).toBe(first.slice(0, API_TOKEN_PREFIX.length + 6));
+  });
+
+  it("should hash tokens deterministically without exposing them", () => {
+    const token = generateApiToken();
+
+    expect(hashApiToken(token)).toBe(hashApiToken(token));
+    expect(hashApiToken(token)).not.toContain(token);
+    expect(hashApiToken(token)).toHaveLength(64);
+  });
+});
+
+describe("parseBearerToken", () => {
+  it("should extract gumboard tokens from the authorization header", () => {
+    expect(parseBearerToken("Bearer gum_abc123")).toBe("gum_abc123");
+    expect(parseBearerToken("bearer   gum_abc123")).toBe("gum_abc123");
+  });
+
+  it("should ignore missing, malformed and foreign tokens", () => {
+    expect(parseBearerToken(null)).toBeNull();
+    expect(parseBearerToken("gum_abc123")).toBeNull();
+    expect(parseBearerToken("Basic gum_abc123")).toBeNull();
+    expect(parseBearerToken("Bearer some-cron-secret")).toBeNull();
+  });
+});
+
+describe("isApiTokenScope", () => {
+  it("should accept only known scopes", () => {
+    expect(isApiTokenScope("READ")).toBe(true);
+    expect(isApiTokenScope("WRITE")).toBe(true);
+    expect(isApiTokenScope("ADMIN")).toBe(false);
+    expect(isApiTokenScope(undefined)).toBe(false);
+  });
+});
+
+describe("applyTokenScope", () => {
+  it("should leave session roles untouched", () => {
+    expect(applyTokenScope("OWNER", "board-1", undefined)).toBe("OWNER");
+    expect(applyTokenScope(null, "board-1", undefined)).toBeNull();
+  });
+
+  it("should cap read-only tokens at viewer", () => {
+    expect(applyTokenScope("OWNER", "board-1", readToken)).toBe("VIEWER");
+    expect(applyTokenScope("EDITOR", "board-1", writeToken)).toBe("EDITOR");
+  });
+
+  it("should hide boards the token is not limited to", () => {
+    const limited = { ...writeToken, boardIds: ["board-1"] };
+
+    expect(applyTokenScope("EDITOR", "board-1", limited)).toBe("EDITOR");
+    expect(applyTokenScope("EDITOR", "board-2", limited)).toBeNull();
+  });
+
+  it("should never grant access the user does not have", () => {
+    expect(applyTokenScope(null, "board-1", writeToken)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { applyBoardEvent } from "../board-events";
+import type { Note } from "@/components/note";
+
+const makeNote = (overrides: Partial<Note> = {}): Note => ({
+  id: "note-1",
+  color: "#fef3c7",
+  archivedAt: null,
+  createdAt: "2025-08-01T00:00:00.000Z",
+  updatedAt: "2025-08-01T00:00:00.000Z",
+  boardId: "board-1",
+  user: { id: "user-1", name: "Ada", email: "ada@example.com" },
+  checklistItems: [{ id: "item-1", content: "First", checked: false, order: 0 }],
+  ...overrides,
+});
+
+describe("applyBoardEvent", () => {
+  it("should append created notes and ignore other boards", () => {
+    const note = makeNote();
+    expect(
+      applyBoardEvent([], { type: "note.created", boardId: "board-1", note }, "board-1")
+    ).toEqual([note]);
+    expect(
+      applyBoardEvent([], { type: "note.created", boardId: "board-2", note }, "board-1")
+    ).toEqual([]);
+  });
+
+  it("should not duplicate a note that is already shown", () => {
+    const note = makeNote();
+    const result = applyBoardEvent(
+      [note],
+      { type: "note.created", boardId: "board-1", note: { ...note, color: "#dbeafe" } },
+      "board-1"
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0].color).toBe("#dbeafe");
+  });
+
+  it("should move archived notes between the board and the archive view", () => {
+    const note = makeNote();
+    const archived = { ...note, archivedAt: "2025-08-02T00:00:00.000Z" };
+    const event = { type: "note.archived" as const, boardId: "board-1", note: archived };
+
+    expect(applyBoardEvent([note], event, "board-1")).toEqual([]);
+    expect(applyBoardEvent([], event, "archive")).toEqual([archived]);
+    expect(applyBoardEvent([note], event, "all-notes")).toEqual([]);
+  });
+
+  it("should remove deleted notes", () => {
+    const note = makeNote();
+    expect(
+      applyBoardEvent(
+        [note],
+        { type: "note.deleted", boardId: "board-1", noteId: note.id },
+        "all-notes"
+      )
+    ).toEqual([]);
+  });
+
+  it("should keep deleted notes in the trash until they are restored or purged", () => {
+    const note = makeNote({ deletedAt: "2025-08-02T00:00:00.000Z" });
+    const restored = { ...note, deletedAt: null };
+
+    expect(
+      applyBoardEvent(
+        [note],
+        { type: "note.deleted", boardId: "board-1", noteId: note.id },
+        "trash"
+      )
+    ).toEqual([note]);
+    expect(
+      applyBoardEvent(
+        [note],
+        { type: "note.restored", boardId: "board-1", note: restored },
+        "trash"
+      )
+    ).toEqual([]);
+    expect(
+      applyBoardEvent([], { type: "note.restored", boardId: "board-1", note: restored }, "board-1")
+    ).toEqual([restored]);
+    expect(
+      applyBoardEvent([note], { type: "note.purged", boardId: "board-1", noteId: note.id }, "trash")
+    ).toEqual([]);
+  });
+
+  it("should move notes between boards", () => {
+    const note = makeNote();
+    const moved = { ...note, boardId: "board-2" };
+    const event = {
+      type: "note.moved" as const,
+      boardId: "board-2",
+      fromBoardId: "board-1",
+      note: moved,
+    };
+
+    expect(applyBoardEvent([note], event, "board-1")).toEqual([]);
+    expect(applyBoardEvent([], event, "board-2")).toEqual([moved]);
+    expect(applyBoardEvent([note], event, "all-notes")).toEqual([moved]);
+    expect(applyBoardEvent([note], event, "board-3")).toEqual([note]);
+  });
+
+  it("should merge checklist item events in order", () => {
+    const note = makeNote();
+    const created = applyBoardEvent(
+      [note],
+      {
+        type: "checklist.created",
+        boardId: "board-1",
+        noteId: note.id,
+        item: { id: "item-0", content: "Zeroth", checked: false, order: -1 },
+      },
+      "board-1"
+    );
+    expect(created[0].checklistItems?.map((i) => i.id)).toEqual(["item-0", "item-1"]);
+
+    const updated = applyBoardEvent(
+      created,
+      {
+        type: "checklist.updated",
+        boardId: "board-1",
+        noteId: note.id,
+        item: { id: "item-1", content: "First", checked: true, order: 0 },
+      },
+      "board-1"
+    );
+    expect(updated[0].checklistItems?.find((i) => i.id === "item-1")?.checked).toBe(true);
+
+    const deleted = applyBoardEvent(
+      updated,
+      { type: "checklist.deleted", boardId: "board-1", noteId: note.id, itemId: "item-0" },
+      "board-1"
+    );
+    expect(deleted[0].checklistItems?.map((i) => i.id)).toEqual(["item-1"]);
+  });
+});
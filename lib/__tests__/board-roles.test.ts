@@ -0,0 +1,51 @@
+import { canEditNote, hasBoardRole, isBoardRole, resolveBoardRole } from "../board-roles";
+
+const member = { id: "user-1", isAdmin: false, isGuest: false };
+const board = { createdBy: "user-2" };
+
+describe("resolveBoardRole", () => {
+  it("should make organization admins owners of every board", () => {
+    expect(resolveBoardRole({ ...member, isAdmin: true }, board, "VIEWER")).toBe("OWNER");
+  });
+
+  it("should prefer an explicit membership over the defaults", () => {
+    expect(resolveBoardRole(member, board, "VIEWER")).toBe("VIEWER");
+    expect(resolveBoardRole(member, { createdBy: member.id }, "COMMENTER")).toBe("COMMENTER");
+    expect(resolveBoardRole({ ...member, isGuest: true }, board, "EDITOR")).toBe("EDITOR");
+  });
+
+  it("should fall back to owner for the creator, editor for members and nothing for guests", () => {
+    expect(resolveBoardRole(member, { createdBy: member.id }, null)).toBe("OWNER");
+    expect(resolveBoardRole(member, board, null)).toBe("EDITOR");
+    expect(resolveBoardRole({ ...member, isGuest: true }, board, undefined)).toBeNull();
+  });
+});
+
+describe("hasBoardRole", () => {
+  it("should compare roles by privilege", () => {
+    expect(hasBoardRole("OWNER", "EDITOR")).toBe(true);
+    expect(hasBoardRole("EDITOR", "EDITOR")).toBe(true);
+    expect(hasBoardRole("COMMENTER", "EDITOR")).toBe(false);
+    expect(hasBoardRole("VIEWER", "VIEWER")).toBe(true);
+    expect(hasBoardRole(null, "VIEWER")).toBe(false);
+  });
+});
+
+describe("canEditNote", () => {
+  it("should let owners edit any note and editors only their own", () => {
+    expect(canEditNote("OWNER", "user-1", "user-2")).toBe(true);
+    expect(canEditNote("EDITOR", "user-1", "user-1")).toBe(true);
+    expect(canEditNote("EDITOR", "user-1", "user-2")).toBe(false);
+    expect(canEditNote("COMMENTER", "user-1", "user-1")).toBe(false);
+    expect(canEditNote("VIEWER", "user-1", "user-1")).toBe(false);
+    expect(canEditNote(null, "user-1", "user-1")).toBe(false);
+  });
+});
+
+describe("isBoardRole", () => {
+  it("should only accept known roles", () => {
+    expect(isBoardRole("EDITOR")).toBe(true);
+    expect(isBoardRole("editor")).toBe(false);
+    expect(isBoardRole(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { MAX_BULK_NOTES, parseBulkNoteAction } from "../bulk-actions";
+
+describe("parseBulkNoteAction", () => {
+  it("should read the action and its options", () => {
+    expect(parseBulkNoteAction({ noteIds: ["n1", "n2"], action: "archive" })).toEqual({
+      noteIds: ["n1", "n2"],
+      action: { type: "archive" },
+    });
+    expect(parseBulkNoteAction({ noteIds: ["n1"], action: "move", targetBoardId: "b2" })).toEqual({
+      noteIds: ["n1"],
+      action: { type: "move", targetBoardId: "b2" },
+    });
+    expect(parseBulkNoteAction({ noteIds: ["n1"], action: "color", color: "#DBEAFE" })).toEqual({
+      noteIds: ["n1"],
+      action: { type: "color", color: "#dbeafe" },
+    });
+  });
+
+  it("should reject invalid note lists", () => {
+    expect(parseBulkNoteAction({ noteIds: [], action: "delete" })).toHaveProperty("error");
+    expect(parseBulkNoteAction({ noteIds: ["n1", "n1"], action: "delete" })).toEqual({
+      error: "Duplicate note IDs found",
+    });
+    expect(
+      parseBulkNoteAction({
+        noteIds: Array.from({ length: MAX_BULK_NOTES + 1 }, (_, i) => `n${i}`),
+        action: "delete",
+      })
+    ).toHaveProperty("error");
+  });
+
+  it("should reject unknown actions and missing options", () => {
+    expect(parseBulkNoteAction({ noteIds: ["n1"], action: "pin" })).toHaveProperty("error");
+    expect(parseBulkNoteAction({ noteIds: ["n1"], action: "move" })).toEqual({
+      error: "targetBoardId is required",
+    });
+    expect(parseBulkNoteAction({ noteIds: ["n1"], action: "color", color: "#000000" })).toEqual({
+      error: "color must be one of the note colors",
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  getDescendantIds,
+  getItemDepths,
+  getItemsToCopy,
+  hasUncheckedAfterChecked,
+  indentChecklistItem,
+  mergeItemOrder,
+  moveChecklistItem,
+  moveItemId,
+  normalizeChecklistTree,
+  outdentChecklistItem,
+  removeChecklistItem,
+  setChecklistItemChecked,
+  syncParentCompletion,
+} from "../checklist";
+
+const item = (id: string, parentId: string | null = null, checked = false) => ({
+  id,
+  parentId,
+  checked,
+});
+const ids = (items: Array<{ id: string }>) => items.map((i) => i.id);
+const parents = (items: Array<{ id: string; parentId?: string | null }>) =>
+  Object.fromEntries(items.map((i) => [i.id, i.parentId ?? null]));
+
+describe("moveItemId", () => {
+  it("should move an item to the requested position", () => {
+    expect(moveItemId(["a", "b", "c"], "c", 0)).toEqual(["c", "a", "b"]);
+    expect(moveItemId(["a", "b", "c"], "a", 1)).toEqual(["b", "a", "c"]);
+  });
+
+  it("should clamp positions past the end of the list", () => {
+    expect(moveItemId(["a", "b", "c"], "a", 10)).toEqual(["b", "c", "a"]);
+  });
+});
+
+describe("mergeItemOrder", () => {
+  it("should put requested ids first and keep the rest in place", () => {
+    expect(mergeItemOrder(["a", "b", "c", "d"], ["c", "a"])).toEqual(["c", "a", "b", "d"]);
+  });
+
+  it("should return the requested order when every id is listed", () => {
+    expect(mergeItemOrder(["a", "b"], ["b", "a"])).toEqual(["b", "a"]);
+  });
+});
+
+describe("getItemDepths and getDescendantIds", () => {
+  const items = [item("a"), item("b", "a"), item("c", "b"), item("d", "a"), item("e")];
+
+  it("should work out each item's depth", () => {
+    expect(Object.fromEntries(getItemDepths(items))).toEqual({ a: 0, b: 1, c: 2, d: 1, e: 0 });
+  });
+
+  it("should list sub-tasks at every level", () => {
+    expect(getDescendantIds(items, "a")).toEqual(["b", "c", "d"]);
+    expect(getDescendantIds(items, "b")).toEqual(["c"]);
+    expect(getDescendantIds(items, "e")).toEqual([]);
+  });
+});
+
+describe("normalizeChecklistTree", () => {
+  it("should keep valid parents", () => {
+    const items = [item("a"), item("b", "a"), item("c", "b"), item("d", "a")];
+    expect(parents(normalizeChecklistTree(items))).toEqual(parents(items));
+  });
+
+  it("should move items whose parent isn't above them up to the top level", () => {
+    expect(parents(normalizeChecklistTree([item("a", "c"), item("b"), item("c", "b")]))).toEqual({
+      a: null,
+      b: null,
+      c: "b",
+    });
+  });
+
+  it("should not nest deeper than the maximum depth", () => {
+    expect(
+      parents(normalizeChecklistTree([item("a"), item("b", "a"), item("c", "b"), item("d", "c")]))
+    ).toEqual({ a: null, b: "a", c: "b", d: "b" });
+  });
+});
+
+describe("parent completion", () => {
+  it("should check parents whose sub-tasks are all checked", () => {
+    const items = syncParentCompletion([
+      item("a"),
+      item("b", "a", true),
+      item("c", "b", true),
+      item("d", "a", false),
+    ]);
+    expect(items.map((i) => i.checked)).toEqual([false, true, true, false]);
+  });
+
+  it("should check sub-tasks with their parent and complete the parent's parent", () => {
+    const items = setChecklistItemChecked(
+      [item("a"), item("b", "a"), item("c", "b"), item("d", "a", true)],
+      "b",
+      true
+    );
+    expect(items.map((i) => i.checked)).toEqual([true, true, true, true]);
+  });
+
+  it("should reopen parents when a sub-task is unchecked", () => {
+    const items = setChecklistItemChecked(
+      [item("a", null, true), item("b", "a", true), item("c", "a", true)],
+      "c",
+      false
+    );
+    expect(items.map((i) => i.checked)).toEqual([false, true, false]);
+  });
+
+  it("should remove sub-tasks with their parent", () => {
+    const items = removeChecklistItem(
+      [item("a"), item("b", "a", true), item("c", "a"), item("d", "c")],
+      "c"
+    );
+    expect(items).toEqual([item("a", null, true), item("b", "a", true)]);
+  });
+});
+
+describe("indentChecklistItem and outdentChecklistItem", () => {
+  const items = [item("a"), item("b"), item("c", "b"), item("d")];
+
+  it("should make an item a sub-task of the sibling above it", () => {
+    expect(parents(indentChecklistItem(items, "b"))).toEqual({
+      a: null,
+      b: "a",
+      c: "b",
+      d: null,
+    });
+    expect(parents(indentChecklistItem(items, "d"))).toEqual({
+      a: null,
+      b: null,
+      c: "b",
+      d: "b",
+    });
+  });
+
+  it("should leave items without a sibling above or at the maximum depth alone", () => {
+    expect(indentChecklistItem(items, "a")).toBe(items);
+    expect(indentChecklistItem(items, "c")).toBe(items);
+    const deep = [item("a"), item("b", "a"), item("c"), item("d", "c"), item("e", "d")];
+    expect(indentChecklistItem(deep, "c")).toBe(deep);
+  });
+
+  it("should move an item up a level and adopt its later siblings", () => {
+    const nested = [item("a"), item("b", "a"), item("c", "a"), item("d", "a")];
+    expect(parents(outdentChecklistItem(nested, "c"))).toEqual({
+      a: null,
+      b: "a",
+      c: null,
+      d: "c",
+    });
+    expect(outdentChecklistItem(nested, "a")).toBe(nested);
+  });
+});
+
+describe("moveChecklistItem", () => {
+  const items = [item("a"), item("b", "a"), item("c"), item("d", "c"), item("e")];
+
+  it("should move an item with its sub-tasks", () => {
+    expect(ids(moveChecklistItem(items, "c", "a"))).toEqual(["c", "d", "a", "b", "e"]);
+    expect(ids(moveChecklistItem(items, "a", "c"))).toEqual(["c", "d", "a", "b", "e"]);
+  });
+
+  it("should make the item a sibling of the one it is dropped on", () => {
+    const moved = moveChecklistItem(items, "e", "b");
+    expect(ids(moved)).toEqual(["a", "e", "b", "c", "d"]);
+    expect(moved[1].parentId).toBe("a");
+  });
+
+  it("should not move an item into its own sub-tasks", () => {
+    expect(moveChecklistItem(items, "a", "b")).toBe(items);
+  });
+});
+
+describe("hasUncheckedAfterChecked", () => {
+  it("should compare items with their siblings only", () => {
+    expect(
+      hasUncheckedAfterChecked([item("a"), item("b", "a", true), item("c", null, false)])
+    ).toBe(false);
+    expect(hasUncheckedAfterChecked([item("a", null, true), item("b"), item("c", "b")])).toBe(true);
+  });
+});
+
+describe("getItemsToCopy", () => {
+  const items = [item("a", null, true), item("b", "a", true), item("c"), item("d", "c", true)];
+
+  it("should copy every item as it is", () => {
+    const copied = getItemsToCopy(items);
+    expect(ids(copied)).toEqual(["a", "b", "c", "d"]);
+    expect(copied.map((i) => i.checked)).toEqual([true, true, false, true]);
+    expect(parents(copied)).toEqual({ a: null, b: "a", c: null, d: "c" });
+  });
+
+  it("should copy every item unchecked when resetting", () => {
+    const copied = getItemsToCopy(items, { resetChecked: true });
+    expect(ids(copied)).toEqual(["a", "b", "c", "d"]);
+    expect(copied.every((i) => !i.checked)).toBe(true);
+    expect(parents(copied)).toEqual({ a: null, b: "a", c: null, d: "c" });
+  });
+});
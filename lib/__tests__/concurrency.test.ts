@@ -0,0 +1,26 @@
+import { formatETag, parseIfMatch } from "../concurrency";
+
+describe("formatETag", () => {
+  it("should quote the version", () => {
+    expect(formatETag(3)).toBe('"3"');
+  });
+});
+
+describe("parseIfMatch", () => {
+  it("should return null when there is no precondition", () => {
+    expect(parseIfMatch(null)).toBeNull();
+    expect(parseIfMatch("")).toBeNull();
+    expect(parseIfMatch("*")).toBeNull();
+  });
+
+  it("should parse strong, weak and unquoted versions", () => {
+    expect(parseIfMatch('"7"')).toBe(7);
+    expect(parseIfMatch('W/"7"')).toBe(7);
+    expect(parseIfMatch("7")).toBe(7);
+  });
+
+  it("should return undefined for malformed headers", () => {
+    expect(parseIfMatch('"abc"')).toBeUndefined();
+    expect(parseIfMatch('"1", "2"')).toBeUndefined();
+  });
+});
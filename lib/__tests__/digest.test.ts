@@ -0,0 +1,127 @@
+import {
+  escapeHtml,
+  getDigestSince,
+  isDigestDue,
+  isDigestEmpty,
+  isDigestFrequency,
+  renderDigestEmail,
+  type OrganizationDigest,
+} from "../digest";
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date("2025-09-10T08:00:00Z");
+
+function emptyDigest(organizationName = "Acme"): OrganizationDigest {
+  return {
+    organizationName,
+    newNotes: { items: [], total: 0 },
+    completedItems: { items: [], total: 0 },
+    assignedItems: { items: [], total: 0 },
+  };
+}
+
+describe("isDigestFrequency", () => {
+  it("should accept known frequencies only", () => {
+    expect(isDigestFrequency("DAILY")).toBe(true);
+    expect(isDigestFrequency("NEVER")).toBe(true);
+    expect(isDigestFrequency("daily")).toBe(false);
+    expect(isDigestFrequency(undefined)).toBe(false);
+  });
+});
+
+describe("isDigestDue", () => {
+  it("should never be due for users who opted out", () => {
+    expect(isDigestDue("NEVER", null, now)).toBe(false);
+  });
+
+  it("should be due when no digest was sent yet", () => {
+    expect(isDigestDue("WEEKLY", null, now)).toBe(true);
+  });
+
+  it("should wait a full period with some tolerance for the hourly job", () => {
+    expect(isDigestDue("DAILY", new Date(now.getTime() - 24 * HOUR), now)).toBe(true);
+    expect(isDigestDue("DAILY", new Date(now.getTime() - 24 * HOUR + 60 * 1000), now)).toBe(true);
+    expect(isDigestDue("DAILY", new Date(now.getTime() - 20 * HOUR), now)).toBe(false);
+    expect(isDigestDue("WEEKLY", new Date(now.getTime() - 3 * 24 * HOUR), now)).toBe(false);
+  });
+});
+
+describe("getDigestSince", () => {
+  it("should start at the previous digest", () => {
+    const lastSentAt = new Date(now.getTime() - 23 * HOUR);
+    expect(getDigestSince("DAILY", lastSentAt, now)).toEqual(lastSentAt);
+  });
+
+  it("should cover at most one period", () => {
+    expect(getDigestSince("DAILY", null, now)).toEqual(new Date(now.getTime() - 24 * HOUR));
+    expect(getDigestSince("WEEKLY", new Date("2025-01-01T00:00:00Z"), now)).toEqual(
+      new Date(now.getTime() - 7 * 24 * HOUR)
+    );
+  });
+});
+
+describe("isDigestEmpty", () => {
+  it("should be empty when no organization has activity", () => {
+    expect(isDigestEmpty([])).toBe(true);
+    expect(isDigestEmpty([emptyDigest(), emptyDigest("Other")])).toBe(true);
+  });
+
+  it("should not be empty with any activity", () => {
+    const digest = emptyDigest();
+    digest.assignedItems = { items: [], total: 1 };
+    expect(isDigestEmpty([emptyDigest(), digest])).toBe(false);
+  });
+});
+
+describe("escapeHtml", () => {
+  it("should escape markup characters", () => {
+    expect(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; &#39;Jerry&#39;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("renderDigestEmail", () => {
+  const options = {
+    userName: "Ada",
+    frequency: "DAILY" as const,
+    boardsUrl: "https://gumboard.test/dashboard",
+    settingsUrl: "https://gumboard.test/settings",
+    unsubscribeUrl: "https://gumboard.test/api/digest/unsubscribe?token=abc",
+    now,
+  };
+
+  it("should list activity per organization and skip quiet ones", () => {
+    const digest = emptyDigest();
+    digest.newNotes = {
+      items: [{ content: "Plan <launch>", boardName: "Roadmap", authorName: "Grace" }],
+      total: 12,
+    };
+    digest.assignedItems = {
+      items: [
+        { content: "Write docs", boardName: "Roadmap", dueDate: new Date("2025-09-09T12:00:00Z") },
+      ],
+      total: 1,
+    };
+
+    const email = renderDigestEmail({
+      ...options,
+      organizations: [digest, emptyDigest("Quiet Org")],
+    });
+
+    expect(email.subject).toBe("Your daily Gumboard digest");
+    expect(email.html).toContain("Plan &lt;launch&gt; (Roadmap, by Grace)");
+    expect(email.html).toContain("and 11 more");
+    expect(email.html).not.toContain("Quiet Org");
+    expect(email.text).toContain("- Write docs (Roadmap, overdue since Sep 9)");
+    expect(email.text).not.toContain("Completed items");
+  });
+
+  it("should include the unsubscribe link", () => {
+    const email = renderDigestEmail({ ...options, organizations: [emptyDigest()] });
+    expect(email.html).toContain(
+      'href="https://gumboard.test/api/digest/unsubscribe?token=abc">Unsubscribe</a>'
+    );
+    expect(email.text).toContain(`Unsubscribe: ${options.unsubscribeUrl}`);
+  });
+});
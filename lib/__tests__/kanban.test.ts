@@ -0,0 +1,98 @@
+import {
+  MAX_BOARD_COLUMNS,
+  MAX_COLUMN_NAME_LENGTH,
+  groupNotesByColumn,
+  isBoardLayout,
+  moveNoteToColumn,
+  parseBoardColumns,
+} from "../kanban";
+
+describe("isBoardLayout", () => {
+  it("should accept the known layouts", () => {
+    expect(isBoardLayout("MASONRY")).toBe(true);
+    expect(isBoardLayout("KANBAN")).toBe(true);
+    expect(isBoardLayout("kanban")).toBe(false);
+  });
+});
+
+describe("parseBoardColumns", () => {
+  it("should leave missing columns undefined", () => {
+    expect(parseBoardColumns(undefined)).toEqual({});
+  });
+
+  it("should clean up names and keep ids of existing columns", () => {
+    expect(parseBoardColumns([{ id: "c1", name: "  In   review " }, { name: "Done" }])).toEqual({
+      columns: [{ id: "c1", name: "In review" }, { name: "Done" }],
+    });
+  });
+
+  it("should reject invalid columns", () => {
+    expect(parseBoardColumns([])).toEqual({ error: "columns must be a non-empty array" });
+    expect(parseBoardColumns([{ name: " " }])).toEqual({ error: "Each column needs a name" });
+    expect(parseBoardColumns([{ name: "a".repeat(MAX_COLUMN_NAME_LENGTH + 1) }])).toEqual({
+      error: `Column names must be at most ${MAX_COLUMN_NAME_LENGTH} characters`,
+    });
+    expect(
+      parseBoardColumns(Array.from({ length: MAX_BOARD_COLUMNS + 1 }, () => ({ name: "Todo" })))
+    ).toHaveProperty("error");
+    expect(
+      parseBoardColumns([
+        { id: "c1", name: "Todo" },
+        { id: "c1", name: "Done" },
+      ])
+    ).toEqual({ error: "Duplicate column IDs found" });
+  });
+});
+
+describe("groupNotesByColumn", () => {
+  const columns = [
+    { id: "todo", name: "Todo", order: 0 },
+    { id: "done", name: "Done", order: 1 },
+  ];
+
+  it("should order notes by position, then age", () => {
+    const notes = [
+      { id: "n1", columnId: "done", columnOrder: 1, createdAt: "2025-01-01" },
+      { id: "n2", columnId: "done", columnOrder: 0, createdAt: "2025-01-02" },
+      { id: "n3", columnId: "todo", columnOrder: 0, createdAt: "2025-01-03" },
+      { id: "n4", columnId: "todo", columnOrder: 0, createdAt: "2025-01-01" },
+    ];
+
+    expect(
+      groupNotesByColumn(notes, columns).map((group) => group.notes.map((note) => note.id))
+    ).toEqual([
+      ["n4", "n3"],
+      ["n2", "n1"],
+    ]);
+  });
+
+  it("should put notes without a known column in the first column", () => {
+    const notes = [
+      { id: "n1", columnId: null, createdAt: "2025-01-01" },
+      { id: "n2", columnId: "removed", createdAt: "2025-01-02" },
+    ];
+
+    expect(groupNotesByColumn(notes, columns)[0].notes.map((note) => note.id)).toEqual([
+      "n1",
+      "n2",
+    ]);
+    expect(groupNotesByColumn(notes, [])).toEqual([]);
+  });
+});
+
+describe("moveNoteToColumn", () => {
+  const columnNoteIds = { todo: ["a", "b", "c"], done: ["d"] };
+
+  it("should reorder notes within a column", () => {
+    expect(moveNoteToColumn(columnNoteIds, "a", "todo", 2).todo).toEqual(["b", "c", "a"]);
+    expect(moveNoteToColumn(columnNoteIds, "c", "todo", 0).todo).toEqual(["c", "a", "b"]);
+  });
+
+  it("should move notes between columns", () => {
+    expect(moveNoteToColumn(columnNoteIds, "b", "done", 0)).toEqual({
+      todo: ["a", "c"],
+      done: ["b", "d"],
+    });
+    expect(moveNoteToColumn(columnNoteIds, "b", "done", 10).done).toEqual(["d", "b"]);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  LABEL_COLORS,
+  MAX_LABEL_NAME_LENGTH,
+  filterNotesByLabels,
+  getLabelTextColor,
+  parseLabelIds,
+  parseLabelInput,
+} from "../labels";
+
+describe("parseLabelInput", () => {
+  it("should require a name and default the color", () => {
+    expect(parseLabelInput({ name: "  Needs   review " })).toEqual({
+      label: { name: "Needs review", color: LABEL_COLORS[0] },
+    });
+    expect(parseLabelInput({ color: "#3b82f6" })).toEqual({ error: "Label name is required" });
+  });
+
+  it("should only read given fields of partial updates", () => {
+    expect(parseLabelInput({ color: "#3B82F6" }, { partial: true })).toEqual({
+      label: { color: "#3b82f6" },
+    });
+    expect(parseLabelInput({}, { partial: true })).toEqual({ label: {} });
+  });
+
+  it("should reject invalid values", () => {
+    expect(parseLabelInput({ name: "a".repeat(MAX_LABEL_NAME_LENGTH + 1) })).toEqual({
+      error: `Label name must be at most ${MAX_LABEL_NAME_LENGTH} characters`,
+    });
+    expect(parseLabelInput({ name: "Bug", color: "red" })).toEqual({
+      error: "color must be a hex color like #3b82f6",
+    });
+  });
+});
+
+describe("parseLabelIds", () => {
+  it("should leave missing ids undefined and dedupe the rest", () => {
+    expect(parseLabelIds(undefined)).toEqual({});
+    expect(parseLabelIds(["l1", "l2", "l1"])).toEqual({ labelIds: ["l1", "l2"] });
+  });
+
+  it("should reject anything but an array of ids", () => {
+    expect(parseLabelIds("l1")).toHaveProperty("error");
+    expect(parseLabelIds(["l1", ""])).toHaveProperty("error");
+  });
+});
+
+describe("filterNotesByLabels", () => {
+  const notes = [
+    { id: "n1", labels: [{ id: "bug" }] },
+    { id: "n2", labels: [{ id: "design" }, { id: "bug" }] },
+    { id: "n3", labels: [] },
+    { id: "n4" },
+  ];
+
+  it("should keep every note without selected labels", () => {
+    expect(filterNotesByLabels(notes, [])).toBe(notes);
+  });
+
+  it("should keep notes with any selected label", () => {
+    expect(filterNotesByLabels(notes, ["design"]).map((n) => n.id)).toEqual(["n2"]);
+    expect(filterNotesByLabels(notes, ["bug", "design"]).map((n) => n.id)).toEqual(["n1", "n2"]);
+  });
+});
+
+describe("getLabelTextColor", () => {
+  it("should pick readable text for light and dark labels", () => {
+    expect(getLabelTextColor("#eab308")).toBe("#18181b");
+    expect(getLabelTextColor("#3b82f6")).toBe("#ffffff");
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  hasInlineFormatting,
+  parseInlineMarkdown,
+  sanitizeChecklistContent,
+  sanitizeUrl,
+  toSlackMarkdown,
+} from "../markdown";
+
+describe("sanitizeUrl", () => {
+  it("should allow web and mail links only", () => {
+    expect(sanitizeUrl("https://example.com/a?b=c")).toBe("https://example.com/a?b=c");
+    expect(sanitizeUrl("mailto:ada@example.com")).toBe("mailto:ada@example.com");
+    expect(sanitizeUrl("javascript:alert(1)")).toBeNull();
+    expect(sanitizeUrl(" javascript:alert(1)")).toBeNull();
+    expect(sanitizeUrl("data:text/html,<script>")).toBeNull();
+    expect(sanitizeUrl("/relative")).toBeNull();
+  });
+
+  it("should encode characters that delimit Slack links", () => {
+    expect(sanitizeUrl("https://example.com/a|b<c>")).toBe("https://example.com/a%7Cb%3Cc%3E");
+  });
+});
+
+describe("parseInlineMarkdown", () => {
+  it("should keep plain text as a single node", () => {
+    const nodes = parseInlineMarkdown("Buy milk, 2 * 3 = 6");
+    expect(nodes).toEqual([{ type: "text", text: "Buy milk, 2 * 3 = 6" }]);
+    expect(hasInlineFormatting(nodes)).toBe(false);
+  });
+
+  it("should parse bold, italics and code", () => {
+    expect(parseInlineMarkdown("**Ship** the *new* `build`")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "Ship" }] },
+      { type: "text", text: " the " },
+      { type: "emphasis", children: [{ type: "text", text: "new" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "build" },
+    ]);
+    expect(parseInlineMarkdown("__Ship__ _now_")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "Ship" }] },
+      { type: "text", text: " " },
+      { type: "emphasis", children: [{ type: "text", text: "now" }] },
+    ]);
+  });
+
+  it("should nest emphasis in bold", () => {
+    expect(parseInlineMarkdown("**very *important***")).toEqual([
+      {
+        type: "strong",
+        children: [
+          { type: "text", text: "very " },
+          { type: "emphasis", children: [{ type: "text", text: "important" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("should leave snake_case and unmatched markers alone", () => {
+    expect(parseInlineMarkdown("rename user_id_field")).toEqual([
+      { type: "text", text: "rename user_id_field" },
+    ]);
+    expect(parseInlineMarkdown("* not a list *")).toEqual([
+      { type: "text", text: "* not a list *" },
+    ]);
+    expect(parseInlineMarkdown("`unclosed")).toEqual([{ type: "text", text: "`unclosed" }]);
+  });
+
+  it("should not format inside code", () => {
+    expect(parseInlineMarkdown("`**raw**`")).toEqual([{ type: "code", text: "**raw**" }]);
+  });
+
+  it("should parse links with safe URLs only", () => {
+    expect(parseInlineMarkdown("[docs](https://example.com/docs)")).toEqual([
+      {
+        type: "link",
+        href: "https://example.com/docs",
+        children: [{ type: "text", text: "docs" }],
+      },
+    ]);
+    expect(parseInlineMarkdown("[click](javascript:alert(1))")).toEqual([
+      { type: "text", text: "[click](javascript:alert(1))" },
+    ]);
+  });
+
+  it("should auto-link URLs without trailing punctuation", () => {
+    expect(parseInlineMarkdown("See https://example.com/a_b_c.")).toEqual([
+      { type: "text", text: "See " },
+      {
+        type: "link",
+        href: "https://example.com/a_b_c",
+        children: [{ type: "text", text: "https://example.com/a_b_c" }],
+      },
+      { type: "text", text: "." },
+    ]);
+    expect(parseInlineMarkdown("(www.example.com)")).toEqual([
+      { type: "text", text: "(" },
+      {
+        type: "link",
+        href: "https://www.example.com",
+        children: [{ type: "text", text: "www.example.com" }],
+      },
+      { type: "text", text: ")" },
+    ]);
+  });
+
+  it("should keep mentions as mention nodes", () => {
+    expect(parseInlineMarkdown("**Ask <@ada_1>**")).toEqual([
+      {
+        type: "strong",
+        children: [
+          { type: "text", text: "Ask " },
+          { type: "mention", userId: "ada_1" },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("toSlackMarkdown", () => {
+  it("should convert formatting to Slack markup", () => {
+    expect(toSlackMarkdown("**Ship** *it* `now` [docs](https://example.com)")).toBe(
+      "*Ship* _it_ `now` <https://example.com|docs>"
+    );
+  });
+
+  it("should keep bare URLs and mentions and escape the rest", () => {
+    expect(toSlackMarkdown("a < b & https://example.com <@U024BE7LH>")).toBe(
+      "a &lt; b &amp; <https://example.com> <@U024BE7LH>"
+    );
+  });
+
+  it("should not let link targets inject Slack markup", () => {
+    expect(toSlackMarkdown("[x](https://a.com/x><!channel>)")).toBe(
+      "<https://a.com/x%3E%3C!channel%3E|x>"
+    );
+    expect(toSlackMarkdown("see https://a.com/x|y")).toBe("see <https://a.com/x%7Cy>");
+  });
+});
+
+describe("sanitizeChecklistContent", () => {
+  it("should keep angle brackets as typed", () => {
+    expect(sanitizeChecklistContent("if a<b and c>d")).toBe("if a<b and c>d");
+    expect(sanitizeChecklistContent("Hi <@ada>, use <div> here")).toBe("Hi <@ada>, use <div> here");
+  });
+
+  it("should replace unsafe links with their label", () => {
+    expect(
+      sanitizeChecklistContent("[click](javascript:alert%281%29) [ok](https://example.com)")
+    ).toBe("click [ok](https://example.com)");
+    expect(sanitizeChecklistContent("[click](javascript:void)")).toBe("click");
+  });
+
+  it("should drop control characters but keep line breaks", () => {
+    expect(sanitizeChecklistContent("a\u0000b\nc\td")).toBe("ab\nc\td");
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  extractMentionIds,
+  filterMentionCandidates,
+  findMentionQuery,
+  fromEditableText,
+  getAddedMentionIds,
+  getChecklistMentions,
+  insertMention,
+  replaceMentions,
+  splitMentions,
+  toEditableText,
+} from "../mentions";
+
+const members = [
+  { id: "ada", name: "Ada", email: "ada@example.com" },
+  { id: "lovelace", name: "Ada Lovelace", email: "lovelace@example.com" },
+  { id: "grace", name: null, email: "grace@example.com" },
+];
+
+describe("extractMentionIds", () => {
+  it("should return each mentioned user once", () => {
+    expect(extractMentionIds("<@ada> and <@grace>, then <@ada> again")).toEqual(["ada", "grace"]);
+    expect(extractMentionIds("email me at ada@example.com")).toEqual([]);
+  });
+});
+
+describe("getAddedMentionIds", () => {
+  it("should ignore people who were already mentioned", () => {
+    expect(getAddedMentionIds("<@ada> <@grace>", "<@ada>")).toEqual(["grace"]);
+    expect(getAddedMentionIds("<@ada>")).toEqual(["ada"]);
+  });
+});
+
+describe("splitMentions", () => {
+  it("should split content into text and mentions", () => {
+    expect(splitMentions("Ask <@ada> today")).toEqual([
+      { type: "text", text: "Ask " },
+      { type: "mention", userId: "ada" },
+      { type: "text", text: " today" },
+    ]);
+    expect(splitMentions("<@ada>")).toEqual([{ type: "mention", userId: "ada" }]);
+  });
+});
+
+describe("replaceMentions", () => {
+  it("should use the current name and fall back for former members", () => {
+    expect(replaceMentions("<@lovelace>, <@grace> and <@gone>", members)).toBe(
+      "@Ada Lovelace, @grace@example.com and @former member"
+    );
+  });
+});
+
+describe("editable text", () => {
+  it("should round trip mentions through their names", () => {
+    const content = "Ask <@lovelace> and <@ada>, cc <@gone>";
+    const text = toEditableText(content, members);
+    expect(text).toBe("Ask @Ada Lovelace and @Ada, cc <@gone>");
+    expect(fromEditableText(text, members)).toBe(content);
+  });
+
+  it("should only match whole names at a word boundary", () => {
+    expect(fromEditableText("@Adam and me@Ada", members)).toBe("@Adam and me@Ada");
+    expect(fromEditableText("(@Ada)", members)).toBe("(<@ada>)");
+  });
+
+  it("should match names with special characters literally", () => {
+    expect(fromEditableText("@grace@example.com", members)).toBe("<@grace>");
+    expect(fromEditableText("@grace@exampleXcom", members)).toBe("@grace@exampleXcom");
+  });
+});
+
+describe("findMentionQuery", () => {
+  it("should find the @query before the caret", () => {
+    expect(findMentionQuery("Ask @Ad", 7)).toEqual({ start: 4, query: "Ad" });
+    expect(findMentionQuery("@", 1)).toEqual({ start: 0, query: "" });
+  });
+
+  it("should ignore emails and finished words", () => {
+    expect(findMentionQuery("ada@exa", 7)).toBeNull();
+    expect(findMentionQuery("Ask @Ada now", 12)).toBeNull();
+  });
+});
+
+describe("filterMentionCandidates", () => {
+  it("should match the start of any name part or the email", () => {
+    expect(filterMentionCandidates(members, "love").map((m) => m.id)).toEqual(["lovelace"]);
+    expect(filterMentionCandidates(members, "gr").map((m) => m.id)).toEqual(["grace"]);
+    expect(filterMentionCandidates(members, "ADA").map((m) => m.id)).toEqual(["ada", "lovelace"]);
+    expect(filterMentionCandidates(members, "", 2)).toHaveLength(2);
+  });
+});
+
+describe("insertMention", () => {
+  it("should replace the query and move the caret after the mention", () => {
+    expect(insertMention("Ask @lo today", 4, 7, members[1])).toEqual({
+      text: "Ask @Ada Lovelace  today",
+      caret: 18,
+    });
+  });
+});
+
+describe("getChecklistMentions", () => {
+  it("should only report new mentions", () => {
+    expect(
+      getChecklistMentions({
+        created: [{ id: "1", content: "Hi <@ada>" }],
+        updated: [
+          { id: "2", content: "<@ada> <@grace>", previous: { content: "<@ada>" } },
+          { id: "3", content: "<@ada>", previous: { content: "<@ada> <@grace>" } },
+        ],
+      })
+    ).toEqual([
+      { itemId: "1", content: "Hi <@ada>", userIds: ["ada"] },
+      { itemId: "2", content: "<@ada> <@grace>", userIds: ["grace"] },
+    ]);
+  });
+});
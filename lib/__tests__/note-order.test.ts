@@ -0,0 +1,66 @@
+import {
+  NOTE_POSITION_GAP,
+  getNoteMove,
+  getPositionBetween,
+  sortNotesByPosition,
+  spreadPositions,
+} from "../note-order";
+
+describe("getPositionBetween", () => {
+  it("should leave a gap at the ends of the board", () => {
+    expect(getPositionBetween(null, null)).toBe(0);
+    expect(getPositionBetween(null, 1024)).toBe(1024 - NOTE_POSITION_GAP);
+    expect(getPositionBetween(1024, null)).toBe(1024 + NOTE_POSITION_GAP);
+  });
+
+  it("should split the space between two notes", () => {
+    expect(getPositionBetween(1024, 2048)).toBe(1536);
+  });
+
+  it("should give up when the neighbours are too close", () => {
+    let after = 2048;
+    let splits = 0;
+    while (getPositionBetween(1024, after) !== null) {
+      after = getPositionBetween(1024, after)!;
+      splits++;
+    }
+    expect(splits).toBeGreaterThan(30);
+    expect(getPositionBetween(5, 5)).toBeNull();
+  });
+});
+
+describe("spreadPositions", () => {
+  it("should space positions evenly", () => {
+    expect(spreadPositions(3)).toEqual([1024, 2048, 3072]);
+  });
+});
+
+describe("sortNotesByPosition", () => {
+  it("should put notes without a position last", () => {
+    const notes = [{ id: "a" }, { id: "b", position: 2 }, { id: "c", position: 1 }];
+    expect(sortNotesByPosition(notes).map((note) => note.id)).toEqual(["c", "b", "a"]);
+  });
+});
+
+describe("getNoteMove", () => {
+  const noteIds = ["a", "b", "c", "d"];
+
+  it("should move a note down to the target's place", () => {
+    expect(getNoteMove(noteIds, "a", "c")).toEqual({
+      noteIds: ["b", "c", "a", "d"],
+      afterNoteId: "c",
+    });
+  });
+
+  it("should move a note up to the top", () => {
+    expect(getNoteMove(noteIds, "c", "a")).toEqual({
+      noteIds: ["c", "a", "b", "d"],
+      afterNoteId: null,
+    });
+  });
+
+  it("should ignore drops that don't move the note", () => {
+    expect(getNoteMove(noteIds, "a", "a")).toBeNull();
+    expect(getNoteMove(noteIds, "a", "x")).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { MAX_NOTE_TITLE_LENGTH, getNoteSummary, parseNoteText } from "../note-text";
+
+describe("parseNoteText", () => {
+  it("should leave missing fields undefined", () => {
+    expect(parseNoteText({})).toEqual({ text: {} });
+  });
+
+  it("should keep titles on one line and clear blank text", () => {
+    expect(parseNoteText({ title: "  Launch\n plan ", body: "  " })).toEqual({
+      text: { title: "Launch plan", body: null },
+    });
+    expect(parseNoteText({ title: null, body: "First\n\nSecond\n" })).toEqual({
+      text: { title: null, body: "First\n\nSecond" },
+    });
+  });
+
+  it("should keep angle brackets in the text", () => {
+    expect(parseNoteText({ body: "if a<b and c>d" })).toEqual({ text: { body: "if a<b and c>d" } });
+  });
+
+  it("should reject invalid values", () => {
+    expect(parseNoteText({ title: 1 })).toEqual({ error: "title must be a string or null" });
+    expect(parseNoteText({ body: [] })).toEqual({ error: "body must be a string or null" });
+    expect(parseNoteText({ title: "a".repeat(MAX_NOTE_TITLE_LENGTH + 1) })).toEqual({
+      error: `title must be at most ${MAX_NOTE_TITLE_LENGTH} characters`,
+    });
+  });
+});
+
+describe("getNoteSummary", () => {
+  it("should prefer the title, then the text, then the first item", () => {
+    expect(getNoteSummary({ title: "Launch", body: "Text" })).toBe("Launch");
+    expect(getNoteSummary({ body: "\n  First line \nSecond" })).toBe("First line");
+    expect(getNoteSummary({ body: null, checklistItems: [{ content: "Ship" }] })).toBe("Ship");
+    expect(getNoteSummary({})).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  buildChecklistNotifications,
+  describeNotification,
+  formatNotificationMessage,
+  type Notification,
+} from "../notification-events";
+
+const base = { noteAuthorId: "author", created: [], updated: [], deleted: [] };
+
+describe("buildChecklistNotifications", () => {
+  it("should not notify authors about their own changes", () => {
+    expect(
+      buildChecklistNotifications({
+        ...base,
+        actorId: "author",
+        created: [{ id: "1", content: "Buy milk" }],
+        updated: [
+          {
+            id: "2",
+            content: "Done",
+            checked: true,
+            previous: { content: "Done", checked: false },
+          },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("should tell the author when someone else edits their note", () => {
+    expect(
+      buildChecklistNotifications({
+        ...base,
+        actorId: "admin",
+        updated: [
+          { id: "1", content: "New", checked: false, previous: { content: "Old", checked: false } },
+        ],
+        deleted: [{ id: "2", content: "Gone" }],
+      })
+    ).toEqual([{ userId: "author", type: "NOTE_EDITED" }]);
+  });
+
+  it("should tell the author when someone else completes an item", () => {
+    expect(
+      buildChecklistNotifications({
+        ...base,
+        actorId: "teammate",
+        updated: [
+          {
+            id: "1",
+            content: "Ship",
+            checked: true,
+            previous: { content: "Ship", checked: false },
+          },
+          {
+            id: "2",
+            content: "Test",
+            checked: false,
+            previous: { content: "Test", checked: true },
+          },
+        ],
+      })
+    ).toEqual([
+      {
+        userId: "author",
+        type: "ITEM_COMPLETED",
+        checklistItemId: "1",
+        metadata: { content: "Ship" },
+      },
+    ]);
+  });
+
+  it("should tell new assignees about their items", () => {
+    expect(
+      buildChecklistNotifications({
+        ...base,
+        actorId: "author",
+        created: [{ id: "1", content: "Review", assigneeId: "reviewer" }],
+        updated: [
+          {
+            id: "2",
+            content: "Deploy",
+            checked: false,
+            assigneeId: "ops",
+            previous: { content: "Deploy", checked: false, assigneeId: null },
+          },
+          {
+            id: "3",
+            content: "Still mine",
+            checked: false,
+            assigneeId: "ops",
+            previous: { content: "Still mine", checked: false, assigneeId: "ops" },
+          },
+          {
+            id: "4",
+            content: "Self assigned",
+            checked: false,
+            assigneeId: "author",
+            previous: { content: "Self assigned", checked: false, assigneeId: null },
+          },
+        ],
+      })
+    ).toEqual([
+      {
+        userId: "reviewer",
+        type: "ITEM_ASSIGNED",
+        checklistItemId: "1",
+        metadata: { content: "Review" },
+      },
+      {
+        userId: "ops",
+        type: "ITEM_ASSIGNED",
+        checklistItemId: "2",
+        metadata: { content: "Deploy" },
+      },
+    ]);
+  });
+
+  it("should tell members when someone else newly mentions them", () => {
+    expect(
+      buildChecklistNotifications({
+        ...base,
+        actorId: "author",
+        created: [{ id: "1", content: "Ask <@reviewer> and <@author>" }],
+        updated: [
+          {
+            id: "2",
+            content: "Ping <@ops> and <@reviewer>",
+            checked: false,
+            previous: { content: "Ping <@ops>", checked: false },
+          },
+        ],
+      })
+    ).toEqual([
+      {
+        userId: "reviewer",
+        type: "MENTIONED",
+        checklistItemId: "1",
+        metadata: { content: "Ask <@reviewer> and <@author>" },
+      },
+      {
+        userId: "reviewer",
+        type: "MENTIONED",
+        checklistItemId: "2",
+        metadata: { content: "Ping <@ops> and <@reviewer>" },
+      },
+    ]);
+  });
+});
+
+describe("formatNotificationMessage", () => {
+  it("should describe each notification type", () => {
+    expect(formatNotificationMessage("NOTE_EDITED", "Ada")).toBe("Ada edited your note");
+    expect(formatNotificationMessage("ITEM_COMPLETED", "Ada", "Ship")).toBe(
+      'Ada completed "Ship" on your note'
+    );
+    expect(formatNotificationMessage("ITEM_ASSIGNED", "Ada", "Ship")).toBe(
+      'Ada assigned "Ship" to you'
+    );
+    expect(formatNotificationMessage("MENTIONED", "Ada")).toBe("Ada mentioned you in an item");
+    expect(formatNotificationMessage("ITEM_DUE_SOON", "Someone", "Ship")).toBe(
+      '"Ship" is due soon'
+    );
+    expect(formatNotificationMessage("ITEM_OVERDUE", "Someone")).toBe(
+      "An item assigned to you is overdue"
+    );
+  });
+});
+
+describe("describeNotification", () => {
+  it("should fall back to the actor's email and then to someone", () => {
+    const notification: Notification = {
+      id: "n1",
+      type: "NOTE_EDITED",
+      readAt: null,
+      createdAt: "2025-09-01T00:00:00.000Z",
+      checklistItemId: null,
+      metadata: null,
+      actor: { id: "u1", name: null, email: "ada@example.com", image: null },
+      note: null,
+    };
+    expect(describeNotification(notification)).toBe("ada@example.com edited your note");
+    expect(describeNotification({ ...notification, actor: null })).toBe("Someone edited your note");
+  });
+
+  it("should show mentions in the item by name", () => {
+    const notification: Notification = {
+      id: "n2",
+      type: "MENTIONED",
+      readAt: null,
+      createdAt: "2025-09-01T00:00:00.000Z",
+      checklistItemId: "item",
+      metadata: { content: "Ask <@u2>" },
+      actor: { id: "u1", name: "Ada", email: "ada@example.com", image: null },
+      note: null,
+    };
+    expect(
+      describeNotification(notification, [{ id: "u2", name: "Grace", email: "grace@example.com" }])
+    ).toBe('Ada mentioned you in "Ask @Grace"');
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  cursorWhere,
+  decodeCursor,
+  encodeCursor,
+  parsePageParams,
+  toPage,
+} from "../pagination";
+
+const at = new Date("2025-01-01T10:00:00.000Z");
+
+describe("encodeCursor / decodeCursor", () => {
+  it("should round-trip a cursor", () => {
+    expect(decodeCursor(encodeCursor({ at, id: "note-1" }))).toEqual({ at, id: "note-1" });
+    expect(decodeCursor(encodeCursor({ at: 1.5, id: "note-1" }))).toEqual({
+      at: 1.5,
+      id: "note-1",
+    });
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from('["nope","id"]').toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from('{"id":"x"}').toString("base64url"))).toBeNull();
+  });
+});
+
+describe("parsePageParams", () => {
+  it("should default and cap the page size", () => {
+    expect(parsePageParams(new URLSearchParams())).toEqual({
+      limit: DEFAULT_PAGE_SIZE,
+      cursor: null,
+    });
+    expect(parsePageParams(new URLSearchParams("limit=1000"))).toMatchObject({
+      limit: MAX_PAGE_SIZE,
+    });
+  });
+
+  it("should decode the cursor", () => {
+    const cursor = encodeCursor({ at, id: "note-1" });
+
+    expect(parsePageParams(new URLSearchParams({ cursor, limit: "10" }))).toEqual({
+      limit: 10,
+      cursor: { at, id: "note-1" },
+    });
+  });
+
+  it("should reject invalid parameters", () => {
+    expect(parsePageParams(new URLSearchParams("limit=0"))).toHaveProperty("error");
+    expect(parsePageParams(new URLSearchParams("limit=abc"))).toHaveProperty("error");
+    expect(parsePageParams(new URLSearchParams("cursor=bogus"))).toEqual({
+      error: "Invalid cursor",
+    });
+  });
+
+  it("should only accept cursors of the page's ordering", () => {
+    const timestampCursor = encodeCursor({ at, id: "note-1" });
+    const positionCursor = encodeCursor({ at: 3, id: "note-1" });
+
+    expect(
+      parsePageParams(new URLSearchParams({ cursor: positionCursor }), "position")
+    ).toMatchObject({ cursor: { at: 3, id: "note-1" } });
+    expect(parsePageParams(new URLSearchParams({ cursor: timestampCursor }), "position")).toEqual({
+      error: "Invalid cursor",
+    });
+    expect(parsePageParams(new URLSearchParams({ cursor: positionCursor }))).toEqual({
+      error: "Invalid cursor",
+    });
+  });
+});
+
+describe("cursorWhere", () => {
+  it("should select rows after the cursor", () => {
+    expect(cursorWhere("createdAt", null)).toEqual({});
+    expect(cursorWhere("createdAt", { at, id: "note-1" })).toEqual({
+      OR: [{ createdAt: { lt: at } }, { createdAt: at, id: { lt: "note-1" } }],
+    });
+  });
+
+  it("should select rows after the cursor in ascending order", () => {
+    expect(cursorWhere("position", { at: 2, id: "note-1" }, "asc")).toEqual({
+      OR: [{ position: { gt: 2 } }, { position: 2, id: { gt: "note-1" } }],
+    });
+  });
+});
+
+describe("toPage", () => {
+  const rows = [
+    { id: "c", createdAt: new Date("2025-01-03") },
+    { id: "b", createdAt: new Date("2025-01-02") },
+    { id: "a", createdAt: new Date("2025-01-01") },
+  ];
+
+  it("should return a cursor pointing at the last row when more rows exist", () => {
+    const page = toPage(rows, 2, (row) => row.createdAt);
+
+    expect(page.items.map((row) => row.id)).toEqual(["c", "b"]);
+    expect(decodeCursor(page.nextCursor!)).toEqual({ at: rows[1].createdAt, id: "b" });
+  });
+
+  it("should end pagination on the last page", () => {
+    expect(toPage(rows, 3, (row) => row.createdAt).nextCursor).toBeNull();
+  });
+});
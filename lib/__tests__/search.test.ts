@@ -0,0 +1,98 @@
+import {
+  MAX_SEARCH_LIMIT,
+  SEARCH_HIGHLIGHT_END as END,
+  SEARCH_HIGHLIGHT_START as START,
+  buildSearchQuery,
+  hasSearchMatch,
+  parseSearchFilters,
+  splitSearchHighlight,
+} from "../search";
+
+describe("buildSearchQuery", () => {
+  it("should prefix-match every word", () => {
+    expect(buildSearchQuery("Meet notes")).toBe("meet:* & notes:*");
+    expect(buildSearchQuery("café 你好")).toBe("café:* & 你好:*");
+  });
+
+  it("should strip tsquery syntax and duplicates", () => {
+    expect(buildSearchQuery("fix & (bug) | !bug:*")).toBe("fix:* & bug:*");
+  });
+
+  it("should return null without searchable words", () => {
+    expect(buildSearchQuery("")).toBeNull();
+    expect(buildSearchQuery("  !!! ")).toBeNull();
+  });
+});
+
+describe("splitSearchHighlight", () => {
+  it("should split matched and unmatched text", () => {
+    expect(splitSearchHighlight(`Plan the ${START}meeting${END} agenda`)).toEqual([
+      { text: "Plan the ", match: false },
+      { text: "meeting", match: true },
+      { text: " agenda", match: false },
+    ]);
+  });
+
+  it("should handle text without matches or with an unterminated match", () => {
+    expect(splitSearchHighlight("No match")).toEqual([{ text: "No match", match: false }]);
+    expect(splitSearchHighlight(`${START}open`)).toEqual([{ text: "open", match: true }]);
+  });
+
+  it("should detect highlights with matches", () => {
+    expect(hasSearchMatch(`a ${START}b${END}`)).toBe(true);
+    expect(hasSearchMatch("a b")).toBe(false);
+    expect(hasSearchMatch(null)).toBe(false);
+  });
+});
+
+describe("parseSearchFilters", () => {
+  const parse = (query: string) => parseSearchFilters(new URLSearchParams(query));
+
+  it("should apply defaults", () => {
+    expect(parse("q=meeting")).toEqual({
+      filters: {
+        query: "meeting",
+        boardId: undefined,
+        authorId: undefined,
+        startDate: undefined,
+        endDate: undefined,
+        checked: undefined,
+        archived: false,
+        limit: 20,
+        offset: 0,
+      },
+    });
+  });
+
+  it("should parse filters and cap the page size", () => {
+    const result = parse(
+      "q=meeting&boardId=b1&authorId=u1&startDate=2025-01-01&checked=true&archived=all&limit=500&offset=40"
+    );
+
+    expect(result).toMatchObject({
+      filters: {
+        boardId: "b1",
+        authorId: "u1",
+        startDate: new Date("2025-01-01"),
+        checked: true,
+        archived: undefined,
+        limit: MAX_SEARCH_LIMIT,
+        offset: 40,
+      },
+    });
+  });
+
+  it("should collect label filters", () => {
+    expect(parse("q=a&labelId=l1&labelId=l2")).toMatchObject({
+      filters: { labelIds: ["l1", "l2"] },
+    });
+  });
+
+  it("should reject invalid input", () => {
+    expect(parse("q=!!!")).toEqual({ error: "Search query is required" });
+    expect(parse("q=a&startDate=nope")).toEqual({ error: "Invalid date range" });
+    expect(parse("q=a&checked=yes")).toHaveProperty("error");
+    expect(parse("q=a&archived=maybe")).toHaveProperty("error");
+    expect(parse("q=a&offset=-1")).toEqual({ error: "Invalid pagination" });
+  });
+});
@@ -1,4 +1,15 @@
-import { hasValidContent } from "../slack";
+import {
+  MAX_SLACK_ATTEMPTS,
+  formatBulkActionForSlack,
+  formatMentionsForSlack,
+  formatNoteForSlack,
+  formatNoteStatusForSlack,
+  formatTodoForSlack,
+  getSlackRetryDelay,
+  hasValidContent,
+  isSlackNotificationEnabled,
+  isSlackUserId,
+} from "../slack";
 
 describe("hasValidContent", () => {
   it("should return false for null and undefined", () => {
@@ -50,3 +61,125 @@ describe("hasValidContent", () => {
     expect(hasValidContent("... loading ...")).toBe(true);
   });
 });
+
+describe("isSlackNotificationEnabled", () => {
+  it("should skip test boards and boards with updates turned off", () => {
+    expect(isSlackNotificationEnabled("Roadmap")).toBe(true);
+    expect(isSlackNotificationEnabled("Roadmap", false)).toBe(false);
+    expect(isSlackNotificationEnabled("Test board")).toBe(false);
+  });
+});
+
+describe("getSlackRetryDelay", () => {
+  it("should back off exponentially", () => {
+    expect(getSlackRetryDelay(1)).toBe(30 * 1000);
+    expect(getSlackRetryDelay(2)).toBe(60 * 1000);
+    expect(getSlackRetryDelay(4)).toBe(4 * 60 * 1000);
+  });
+
+  it("should give up after the last attempt", () => {
+    expect(getSlackRetryDelay(MAX_SLACK_ATTEMPTS)).toBeNull();
+  });
+});
+
+describe("formatNoteForSlack", () => {
+  it("should describe the note by its title, text or first item", () => {
+    expect(
+      formatNoteForSlack(
+        { title: "Launch", body: "Details", checklistItems: [{ content: "Ship" }] },
+        "Roadmap",
+        "Ada"
+      )
+    ).toBe(":heavy_plus_sign: Launch by Ada in Roadmap");
+    expect(formatNoteForSlack({ body: "\nPlan the launch\nmore" }, "Roadmap", "Ada")).toBe(
+      ":heavy_plus_sign: Plan the launch by Ada in Roadmap"
+    );
+    expect(formatNoteForSlack({ checklistItems: [{ content: "Ship" }] }, "Roadmap", "Ada")).toBe(
+      ":heavy_plus_sign: Ship by Ada in Roadmap"
+    );
+    expect(formatNoteForSlack({}, "Roadmap", "Ada")).toBe(
+      ":heavy_plus_sign: New note by Ada in Roadmap"
+    );
+  });
+});
+
+describe("formatNoteStatusForSlack", () => {
+  it("should mark completed notes with a check mark", () => {
+    expect(formatNoteStatusForSlack("Ship it", true, "Roadmap", "Ada")).toBe(
+      ":white_check_mark: Ship it by Ada in Roadmap"
+    );
+    expect(formatNoteStatusForSlack("Ship it", false, "Roadmap", "Ada")).toBe(
+      ":heavy_plus_sign: Ship it by Ada in Roadmap"
+    );
+  });
+});
+
+describe("formatTodoForSlack", () => {
+  it("should keep the item's markdown in Slack markup", () => {
+    expect(
+      formatTodoForSlack("**Fix** [bug](https://example.com/1)", "Roadmap", "Ada", "added")
+    ).toBe(":heavy_plus_sign: *Fix* <https://example.com/1|bug> by Ada in Roadmap");
+    expect(formatTodoForSlack("Done", "Roadmap", "Ada", "completed")).toBe(
+      ":white_check_mark: Done by Ada in Roadmap"
+    );
+  });
+});
+
+describe("formatBulkActionForSlack", () => {
+  it("should sum up the notes the action touched", () => {
+    expect(formatBulkActionForSlack({ type: "archive" }, { notes: 3 }, ["Roadmap"], "Ada")).toBe(
+      ":white_check_mark: Archived 3 notes by Ada in Roadmap"
+    );
+    expect(
+      formatBulkActionForSlack(
+        { type: "move", targetBoardId: "b2" },
+        { notes: 1 },
+        ["Roadmap"],
+        "Ada",
+        "Backlog"
+      )
+    ).toBe(":arrow_right: Moved 1 note to Backlog by Ada in Roadmap");
+    expect(
+      formatBulkActionForSlack({ type: "checkAll" }, { notes: 2, items: 5 }, ["Roadmap"], "Ada")
+    ).toBe(":white_check_mark: Completed 5 items on 2 notes by Ada in Roadmap");
+  });
+
+  it("should count the boards when notes came from several", () => {
+    expect(
+      formatBulkActionForSlack({ type: "delete" }, { notes: 4 }, ["Roadmap", "Backlog"], "Ada")
+    ).toBe(":wastebasket: Deleted 4 notes by Ada in 2 boards");
+  });
+});
+
+describe("isSlackUserId", () => {
+  it("should accept Slack member IDs only", () => {
+    expect(isSlackUserId("U024BE7LH")).toBe(true);
+    expect(isSlackUserId("W012A3CDE")).toBe(true);
+    expect(isSlackUserId("u024be7lh")).toBe(false);
+    expect(isSlackUserId("@ada")).toBe(false);
+    expect(isSlackUserId(null)).toBe(false);
+  });
+});
+
+describe("formatMentionsForSlack", () => {
+  const members = [
+    { id: "ada", name: "Ada Lovelace", email: "ada@example.com", slackUserId: "U024BE7LH" },
+    { id: "grace", name: null, email: "grace@example.com", slackUserId: null },
+  ];
+
+  it("should show mentions by name", () => {
+    expect(formatMentionsForSlack("Ask <@ada> and <@grace>", members)).toBe(
+      "Ask @Ada Lovelace and @grace@example.com"
+    );
+  });
+
+  it("should only ping the given members with a Slack member ID", () => {
+    expect(formatMentionsForSlack("Ask <@ada> and <@grace>", members, ["ada", "grace"])).toBe(
+      "Ask <@U024BE7LH> and @grace@example.com"
+    );
+  });
+
+  it("should not reveal who former members were", () => {
+    expect(formatMentionsForSlack("Ask <@gone>", members, ["gone"])).toBe("Ask @former member");
+  });
+});
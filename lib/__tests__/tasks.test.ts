@@ -0,0 +1,119 @@
+import {
+  filterNotesByTasks,
+  isOverdue,
+  parseTaskDetails,
+  toDateInputValue,
+  toDueDate,
+} from "../tasks";
+
+describe("parseTaskDetails", () => {
+  it("should leave missing fields undefined", () => {
+    expect(parseTaskDetails({})).toEqual({ details: {} });
+  });
+
+  it("should accept null to clear the assignee and due date", () => {
+    expect(parseTaskDetails({ assigneeId: null, dueDate: null })).toEqual({
+      details: { assigneeId: null, dueDate: null },
+    });
+  });
+
+  it("should parse an assignee and due date", () => {
+    expect(parseTaskDetails({ assigneeId: "user-1", dueDate: "2025-09-01T21:59:59.999Z" })).toEqual(
+      {
+        details: { assigneeId: "user-1", dueDate: new Date("2025-09-01T21:59:59.999Z") },
+      }
+    );
+  });
+
+  it("should reject invalid values", () => {
+    expect(parseTaskDetails({ assigneeId: 42 })).toHaveProperty("error");
+    expect(parseTaskDetails({ assigneeId: "" })).toHaveProperty("error");
+    expect(parseTaskDetails({ dueDate: "tomorrow" })).toHaveProperty("error");
+    expect(parseTaskDetails({ dueDate: 1756763999999 })).toHaveProperty("error");
+  });
+});
+
+describe("toDueDate", () => {
+  it("should set the due date to the end of the local day", () => {
+    const dueDate = new Date(toDueDate("2025-09-01")!);
+    expect(dueDate.getFullYear()).toBe(2025);
+    expect(dueDate.getMonth()).toBe(8);
+    expect(dueDate.getDate()).toBe(1);
+    expect(dueDate.getHours()).toBe(23);
+    expect(dueDate.getMinutes()).toBe(59);
+  });
+
+  it("should return null for an empty or malformed value", () => {
+    expect(toDueDate("")).toBeNull();
+    expect(toDueDate("2025-09")).toBeNull();
+  });
+
+  it("should round-trip through toDateInputValue", () => {
+    expect(toDateInputValue(toDueDate("2025-12-31"))).toBe("2025-12-31");
+    expect(toDateInputValue(null)).toBe("");
+  });
+});
+
+describe("isOverdue", () => {
+  const now = new Date("2025-09-02T12:00:00Z");
+
+  it("should flag open items past their due date", () => {
+    expect(isOverdue({ checked: false, dueDate: "2025-09-01T23:59:59Z" }, now)).toBe(true);
+  });
+
+  it("should ignore done items, future due dates and items without one", () => {
+    expect(isOverdue({ checked: true, dueDate: "2025-09-01T23:59:59Z" }, now)).toBe(false);
+    expect(isOverdue({ checked: false, dueDate: "2025-09-03T00:00:00Z" }, now)).toBe(false);
+    expect(isOverdue({ checked: false, dueDate: null }, now)).toBe(false);
+  });
+});
+
+describe("filterNotesByTasks", () => {
+  const now = new Date("2025-09-02T12:00:00Z");
+  const notes = [
+    {
+      id: "mine-overdue",
+      checklistItems: [{ checked: false, assigneeId: "me", dueDate: "2025-09-01T00:00:00Z" }],
+    },
+    {
+      id: "mine-upcoming",
+      checklistItems: [{ checked: false, assigneeId: "me", dueDate: "2025-09-05T00:00:00Z" }],
+    },
+    {
+      id: "theirs-overdue",
+      checklistItems: [{ checked: false, assigneeId: "them", dueDate: "2025-09-01T00:00:00Z" }],
+    },
+    { id: "unassigned", checklistItems: [{ checked: false }] },
+  ];
+
+  it("should return every note without filters", () => {
+    expect(filterNotesByTasks(notes, {}, now)).toBe(notes);
+  });
+
+  it("should keep notes with items assigned to the user", () => {
+    expect(filterNotesByTasks(notes, { assigneeId: "me" }, now).map((n) => n.id)).toEqual([
+      "mine-overdue",
+      "mine-upcoming",
+    ]);
+  });
+
+  it("should keep notes with overdue items", () => {
+    expect(filterNotesByTasks(notes, { overdueOnly: true }, now).map((n) => n.id)).toEqual([
+      "mine-overdue",
+      "theirs-overdue",
+    ]);
+  });
+
+  it("should require a single item to match both filters", () => {
+    const mixed = [
+      {
+        id: "split",
+        checklistItems: [
+          { checked: false, assigneeId: "me", dueDate: "2025-09-05T00:00:00Z" },
+          { checked: false, assigneeId: "them", dueDate: "2025-09-01T00:00:00Z" },
+        ],
+      },
+    ];
+    expect(filterNotesByTasks(mixed, { assigneeId: "me", overdueOnly: true }, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  getWebhookRetryDelay,
+  isPrivateAddress,
+  isValidWebhookUrl,
+  isWebhookEvent,
+  webhookMatchesEvent,
+} from "../webhook-events";
+import { generateWebhookSecret, signWebhookPayload } from "../webhook-signature";
+import { createHmac } from "crypto";
+
+describe("webhookMatchesEvent", () => {
+  it("should match every event when no filter is set", () => {
+    expect(webhookMatchesEvent([], "note.created")).toBe(true);
+    expect(webhookMatchesEvent([], "board.deleted")).toBe(true);
+  });
+
+  it("should only match subscribed events", () => {
+    const events = ["note.created", "checklist.completed"];
+
+    expect(webhookMatchesEvent(events, "checklist.completed")).toBe(true);
+    expect(webhookMatchesEvent(events, "checklist.updated")).toBe(false);
+  });
+});
+
+describe("isWebhookEvent", () => {
+  it("should accept only known events", () => {
+    expect(isWebhookEvent("board.deleted")).toBe(true);
+    expect(isWebhookEvent("board.exploded")).toBe(false);
+    expect(isWebhookEvent(42)).toBe(false);
+  });
+});
+
+describe("getWebhookRetryDelay", () => {
+  it("should back off exponentially", () => {
+    expect(getWebhookRetryDelay(1)).toBe(60 * 1000);
+    expect(getWebhookRetryDelay(2)).toBe(2 * 60 * 1000);
+    expect(getWebhookRetryDelay(3)).toBe(4 * 60 * 1000);
+  });
+
+  it("should give up after the last attempt", () => {
+    expect(getWebhookRetryDelay(MAX_WEBHOOK_ATTEMPTS - 1)).not.toBeNull();
+    expect(getWebhookRetryDelay(MAX_WEBHOOK_ATTEMPTS)).toBeNull();
+  });
+});
+
+describe("isValidWebhookUrl", () => {
+  it("should accept https URLs on public hosts", () => {
+    expect(isValidWebhookUrl("https://example.com/hooks")).toBe(true);
+    expect(isValidWebhookUrl("https://93.184.216.34/hooks")).toBe(true);
+  });
+
+  it("should reject plain http and other values", () => {
+    expect(isValidWebhookUrl("http://example.com/hooks")).toBe(false);
+    expect(isValidWebhookUrl("ftp://example.com")).toBe(false);
+    expect(isValidWebhookUrl("not a url")).toBe(false);
+    expect(isValidWebhookUrl(undefined)).toBe(false);
+  });
+
+  it("should reject loopback, private and link-local hosts", () => {
+    expect(isValidWebhookUrl("https://localhost:4000/hooks")).toBe(false);
+    expect(isValidWebhookUrl("https://app.localhost/hooks")).toBe(false);
+    expect(isValidWebhookUrl("https://127.0.0.1/hooks")).toBe(false);
+    expect(isValidWebhookUrl("https://2130706433/hooks")).toBe(false);
+    expect(isValidWebhookUrl("https://10.0.0.5/hooks")).toBe(false);
+    expect(isValidWebhookUrl("https://169.254.169.254/latest/meta-data")).toBe(false);
+    expect(isValidWebhookUrl("https://[::1]/hooks")).toBe(false);
+    expect(isValidWebhookUrl("https://[::ffff:192.168.1.1]/hooks")).toBe(false);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("should flag private IPv4 ranges", () => {
+    for (const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "100.64.0.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.0.1",
+      "224.0.0.1",
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it("should flag private IPv6 ranges", () => {
+    for (const address of ["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "ff02::1"]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it("should check the IPv4 address inside mapped IPv6 addresses", () => {
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isPrivateAddress("64:ff9b::10.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:93.184.216.34")).toBe(false);
+  });
+
+  it("should allow public addresses", () => {
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("172.32.0.1")).toBe(false);
+    expect(isPrivateAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(false);
+  });
+
+  it("should treat values that aren't IP addresses as private", () => {
+    expect(isPrivateAddress("example.com")).toBe(true);
+    expect(isPrivateAddress("1:2:3")).toBe(true);
+    expect(isPrivateAddress("256.0.0.1")).toBe(true);
+  });
+});
+
+describe("signWebhookPayload", () => {
+  it("should sign the timestamp and body with the secret", () => {
+    const body = JSON.stringify({ event: "note.created" });
+    const expected = createHmac("sha256", "secret").update(`1700000000.${body}`).digest("hex");
+
+    expect(signWebhookPayload("secret", 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it("should change when the timestamp or secret changes", () => {
+    const signature = signWebhookPayload("secret", 1700000000, "{}");
+
+    expect(signWebhookPayload("secret", 1700000001, "{}")).not.toBe(signature);
+    expect(signWebhookPayload("other", 1700000000, "{}")).not.toBe(signature);
+  });
+
+  it("should generate unique secrets", () => {
+    expect(generateWebhookSecret()).toMatch(/^whsec_/);
+    expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+  });
+});
@@ -0,0 +1,201 @@
+import type { NoteActivityAction, Prisma } from "@prisma/client";
+import { replaceMentions, type MentionMember } from "./mentions";
+
+export interface NoteActivityEntry {
+  action: NoteActivityAction;
+  checklistItemId?: string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+type ChecklistItemSnapshot = {
+  id: string;
+  content: string;
+  checked: boolean;
+  order: number;
+  parentId?: string | null;
+};
+
+export interface ChecklistChanges {
+  created: ChecklistItemSnapshot[];
+  updated: Array<
+    ChecklistItemSnapshot & {
+      previous: { content: string; checked: boolean; order: number; parentId?: string | null };
+    }
+  >;
+  deleted: ChecklistItemSnapshot[];
+}
+
+interface NoteTextSnapshot {
+  title?: string | null;
+  body?: string | null;
+}
+
+// Edits to the note's own title and text are EDITED entries without a checklist item
+export function buildNoteTextActivities(
+  previous: NoteTextSnapshot,
+  next: NoteTextSnapshot
+): NoteActivityEntry[] {
+  const entries: NoteActivityEntry[] = [];
+  for (const field of ["title", "body"] as const) {
+    const from = previous[field] ?? null;
+    const to = next[field];
+    if (to !== undefined && to !== from) {
+      entries.push({ action: "EDITED", metadata: { field, from, to } });
+    }
+  }
+  return entries;
+}
+
+// Turn a checklist diff into activity entries. Order-only changes, including moving items in or
+// out of sub-tasks, collapse into one REORDERED entry.
+export function buildChecklistActivities(changes: ChecklistChanges): NoteActivityEntry[] {
+  const entries: NoteActivityEntry[] = [];
+
+  for (const item of changes.created) {
+    entries.push({
+      action: "CREATED",
+      checklistItemId: item.id,
+      metadata: { content: item.content },
+    });
+  }
+
+  let reordered = false;
+  for (const item of changes.updated) {
+    if (item.previous.content !== item.content) {
+      entries.push({
+        action: "EDITED",
+        checklistItemId: item.id,
+        metadata: { from: item.previous.content, to: item.content },
+      });
+    }
+    if (item.previous.checked !== item.checked) {
+      entries.push({
+        action: item.checked ? "CHECKED" : "UNCHECKED",
+        checklistItemId: item.id,
+        metadata: { content: item.content },
+      });
+    }
+    if (
+      item.previous.order !== item.order ||
+      (item.previous.parentId !== undefined && item.previous.parentId !== item.parentId)
+    ) {
+      reordered = true;
+    }
+  }
+
+  for (const item of changes.deleted) {
+    entries.push({
+      action: "DELETED",
+      checklistItemId: item.id,
+      metadata: { content: item.content },
+    });
+  }
+
+  // Creating or deleting items shifts the order of the others; only record deliberate moves
+  if (reordered && changes.created.length === 0 && changes.deleted.length === 0) {
+    entries.push({ action: "REORDERED" });
+  }
+
+  return entries;
+}
+
+export async function recordNoteActivity(
+  client: Prisma.TransactionClient,
+  note: { id: string; boardId: string },
+  userId: string,
+  entries: NoteActivityEntry[]
+) {
+  if (entries.length === 0) {
+    return;
+  }
+
+  await client.noteActivity.createMany({
+    data: entries.map((entry) => ({
+      action: entry.action,
+      noteId: note.id,
+      boardId: note.boardId,
+      userId,
+      checklistItemId: entry.checklistItemId ?? null,
+      metadata: entry.metadata,
+    })),
+  });
+}
+
+export const noteActivitySelect = {
+  id: true,
+  action: true,
+  noteId: true,
+  boardId: true,
+  checklistItemId: true,
+  metadata: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true, image: true } },
+} as const;
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 50;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+export function parseActivityLimit(value: string | null): number {
+  const limit = value ? parseInt(value, 10) : DEFAULT_ACTIVITY_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1) {
+    return DEFAULT_ACTIVITY_PAGE_SIZE;
+  }
+  return Math.min(limit, MAX_ACTIVITY_PAGE_SIZE);
+}
+
+export interface NoteActivity {
+  id: string;
+  action: NoteActivityAction;
+  checklistItemId: string | null;
+  metadata: {
+    content?: string;
+    field?: "title" | "body";
+    from?: string | null;
+    to?: string | null;
+    fromBoard?: string;
+    toBoard?: string;
+  } | null;
+  createdAt: string;
+  user: { id: string; name: string | null; email: string; image?: string | null } | null;
+}
+
+// Human readable summary of an activity entry, without the actor. Pass the organization's
+// members to show mentions in item content by name.
+export function describeNoteActivity(
+  activity: Pick<NoteActivity, "action" | "checklistItemId" | "metadata">,
+  members: MentionMember[] = []
+) {
+  const mentions = (content?: string | null) => content && replaceMentions(content, members);
+  const content = mentions(activity.metadata?.content);
+
+  switch (activity.action) {
+    case "CREATED":
+      return activity.checklistItemId ? `added "${content}"` : "created the note";
+    case "EDITED":
+      if (activity.metadata?.field === "title") {
+        return activity.metadata.to
+          ? `renamed the note to "${activity.metadata.to}"`
+          : "removed the note's title";
+      }
+      if (activity.metadata?.field === "body") {
+        return "edited the note's text";
+      }
+      return `changed "${mentions(activity.metadata?.from)}" to "${mentions(activity.metadata?.to)}"`;
+    case "CHECKED":
+      return `completed "${content}"`;
+    case "UNCHECKED":
+      return `reopened "${content}"`;
+    case "REORDERED":
+      return "reordered items";
+    case "ARCHIVED":
+      return "archived the note";
+    case "RESTORED":
+      return "restored the note";
+    case "DELETED":
+      return activity.checklistItemId ? `removed "${content}"` : "deleted the note";
+    case "MOVED":
+      return `moved the note from "${activity.metadata?.fromBoard}" to "${activity.metadata?.toBoard}"`;
+    default:
+      return "updated the note";
+  }
+}
@@ -0,0 +1,36 @@
+import "server-only";
+import type { Session } from "next-auth";
+import { auth } from "@/auth";
+import { db } from "./db";
+import { hashApiToken, parseBearerToken } from "./api-tokens";
+
+// Resolve the caller from a personal API token when the request carries one, otherwise from
+// the NextAuth session cookie. Token sessions are pinned to the token's organization.
+export async function getRequestSession(request: Request): Promise<Session | null> {
+  const token = parseBearerToken(request.headers.get("authorization"));
+  if (!token) {
+    return auth();
+  }
+
+  const apiToken = await db.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: { user: { select: { id: true, name: true, email: true, image: true } } },
+  });
+
+  if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+    return null;
+  }
+
+  await db.apiToken.update({
+    where: { id: apiToken.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return {
+    user: apiToken.user,
+    // Token sessions only live for the current request
+    expires: new Date().toISOString(),
+    activeOrganizationId: apiToken.organizationId,
+    apiToken: { id: apiToken.id, scopes: apiToken.scopes, boardIds: apiToken.boardIds },
+  };
+}
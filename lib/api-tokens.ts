@@ -0,0 +1,76 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiTokenScope, BoardRole, Prisma } from "@prisma/client";
+
+export type { ApiTokenScope };
+
+export const API_TOKEN_PREFIX = "gum_";
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ["READ", "WRITE"];
+
+// What a bearer token may do, always within its owner's own permissions
+export interface ApiTokenAccess {
+  id: string;
+  scopes: ApiTokenScope[];
+  boardIds: string[];
+}
+
+// Everything about a token except its hash, safe to return to its owner
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  boardIds: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && API_TOKEN_SCOPES.includes(value as ApiTokenScope);
+}
+
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+// Tokens are stored hashed, so a database leak does not expose usable credentials
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function getApiTokenPrefix(token: string): string {
+  return token.slice(0, API_TOKEN_PREFIX.length + 6);
+}
+
+// Extract a Gumboard token from an `Authorization: Bearer gum_...` header
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+  return match[1];
+}
+
+export function tokenCanWrite(token: ApiTokenAccess | undefined): boolean {
+  return !token || token.scopes.includes("WRITE");
+}
+
+export function tokenCanAccessBoard(token: ApiTokenAccess | undefined, boardId: string): boolean {
+  return !token || token.boardIds.length === 0 || token.boardIds.includes(boardId);
+}
+
+// Narrow a board role to what the token allows: boards outside the token are hidden and
+// read-only tokens can never do more than view
+export function applyTokenScope(
+  role: BoardRole | null,
+  boardId: string,
+  token: ApiTokenAccess | undefined
+): BoardRole | null {
+  if (!role || !token) {
+    return role;
+  }
+  if (!tokenCanAccessBoard(token, boardId)) {
+    return null;
+  }
+  return tokenCanWrite(token) ? role : "VIEWER";
+}
@@ -0,0 +1,56 @@
+import "server-only";
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { resolveBoardRole, type BoardRole } from "./board-roles";
+import type { ActiveMember } from "./organization";
+import { applyTokenScope } from "./api-tokens";
+
+// Resolve the user's role on a board; null means the user cannot see the board at all
+export async function getBoardRole(
+  user: ActiveMember,
+  board: { id: string; organizationId: string; createdBy: string }
+): Promise<BoardRole | null> {
+  if (board.organizationId !== user.organizationId) {
+    return null;
+  }
+
+  if (user.isAdmin) {
+    return applyTokenScope("OWNER", board.id, user.apiToken);
+  }
+
+  const membership = await db.boardMember.findUnique({
+    where: { boardId_userId: { boardId: board.id, userId: user.id } },
+    select: { role: true },
+  });
+
+  return applyTokenScope(resolveBoardRole(user, board, membership?.role), board.id, user.apiToken);
+}
+
+// Filter for the boards of the user's active organization they are allowed to see
+export function accessibleBoardsWhere(user: ActiveMember): Prisma.BoardWhereInput {
+  const boardIds = user.apiToken?.boardIds ?? [];
+
+  return {
+    organizationId: user.organizationId,
+    ...(boardIds.length > 0 && { id: { in: boardIds } }),
+    ...(user.isGuest &&
+      !user.isAdmin && {
+        OR: [{ members: { some: { userId: user.id } } }, { createdBy: user.id }],
+      }),
+  };
+}
+
+// Include the user's own membership so the board role can be resolved per board in lists
+export function boardMembershipSelect(userId: string) {
+  return {
+    where: { userId },
+    select: { role: true },
+  } satisfies Prisma.Board$membersArgs;
+}
+
+export const boardMemberSelect = {
+  id: true,
+  role: true,
+  userId: true,
+  user: { select: { id: true, name: true, email: true, image: true } },
+} satisfies Prisma.BoardMemberSelect;
@@ -0,0 +1,89 @@
+import "server-only";
+import type { Prisma } from "@prisma/client";
+import { nanoid } from "nanoid";
+import { getItemsToCopy } from "./checklist";
+
+// Boards can hold many notes, so copies are inserted in batches with their ids chosen up front
+// instead of one query per row, and the transaction gets more time than Prisma's default
+export const BOARD_COPY_TRANSACTION_OPTIONS = { maxWait: 10 * 1000, timeout: 60 * 1000 };
+
+// Copy a board's Kanban columns and live notes into a new board. The copies belong to the user
+// making them, so they can edit every note of the board they just created.
+export async function copyBoardContent(
+  client: Prisma.TransactionClient,
+  sourceBoardId: string,
+  targetBoardId: string,
+  userId: string,
+  { resetChecked = false } = {}
+) {
+  const columns = await client.boardColumn.findMany({
+    where: { boardId: sourceBoardId },
+    orderBy: { order: "asc" },
+  });
+  const columnIds = new Map(columns.map((column) => [column.id, nanoid()]));
+  await client.boardColumn.createMany({
+    data: columns.map((column) => ({
+      id: columnIds.get(column.id)!,
+      boardId: targetBoardId,
+      name: column.name,
+      order: column.order,
+    })),
+  });
+
+  const notes = await client.note.findMany({
+    where: { boardId: sourceBoardId, deletedAt: null, archivedAt: null },
+    include: {
+      checklistItems: { orderBy: { order: "asc" } },
+      labels: { select: { id: true } },
+    },
+    orderBy: [{ position: "asc" }, { createdAt: "desc" }],
+  });
+  const copies = notes.map((note) => ({ id: nanoid(), note }));
+
+  await client.note.createMany({
+    data: copies.map(({ id, note }) => ({
+      id,
+      color: note.color,
+      title: note.title,
+      body: note.body,
+      boardId: targetBoardId,
+      position: note.position,
+      columnId: note.columnId ? (columnIds.get(note.columnId) ?? null) : null,
+      columnOrder: note.columnOrder,
+      createdBy: userId,
+    })),
+  });
+
+  // createMany can't connect relations, so labels are added to each labelled note
+  for (const { id, note } of copies) {
+    if (note.labels.length > 0) {
+      await client.note.update({ where: { id }, data: { labels: { connect: note.labels } } });
+    }
+  }
+
+  await client.checklistItem.createMany({
+    data: copies.flatMap(({ id, note }) => {
+      const items = getItemsToCopy(note.checklistItems, { resetChecked });
+      const itemIds = new Map(items.map((item) => [item.id, nanoid()]));
+      return items.map((item, order) => ({
+        id: itemIds.get(item.id)!,
+        noteId: id,
+        content: item.content,
+        checked: item.checked,
+        order,
+        assigneeId: item.assigneeId,
+        dueDate: item.dueDate,
+        parentId: item.parentId ? (itemIds.get(item.parentId) ?? null) : null,
+      }));
+    }),
+  });
+
+  await client.noteActivity.createMany({
+    data: copies.map(({ id }) => ({
+      action: "CREATED" as const,
+      noteId: id,
+      boardId: targetBoardId,
+      userId,
+    })),
+  });
+}
@@ -0,0 +1,103 @@
+import type { Note } from "@/components/note";
+import type { ChecklistItem } from "@/components/checklist-item";
+
+export type BoardEvent =
+  | {
+      type: "note.created" | "note.updated" | "note.archived" | "note.unarchived" | "note.restored";
+      boardId: string;
+      note: Note;
+    }
+  | { type: "note.deleted" | "note.purged"; boardId: string; noteId: string }
+  // A note that left `fromBoardId` for `boardId`
+  | { type: "note.moved"; boardId: string; fromBoardId: string; note: Note }
+  | {
+      type: "checklist.created" | "checklist.updated";
+      boardId: string;
+      noteId: string;
+      item: ChecklistItem;
+    }
+  | { type: "checklist.deleted"; boardId: string; noteId: string; itemId: string };
+
+// Pseudo-boards that aggregate notes from every board in the organization
+export const ORGANIZATION_WIDE_BOARDS = ["all-notes", "archive", "trash", "my-tasks"];
+
+export function isOrganizationWideBoard(boardId: string) {
+  return ORGANIZATION_WIDE_BOARDS.includes(boardId);
+}
+
+function upsertNote(notes: Note[], note: Note): Note[] {
+  const index = notes.findIndex((n) => n.id === note.id);
+  if (index === -1) {
+    return [...notes, note];
+  }
+  const next = [...notes];
+  next[index] = { ...notes[index], ...note };
+  return next;
+}
+
+function updateChecklistItems(
+  notes: Note[],
+  noteId: string,
+  update: (items: ChecklistItem[]) => ChecklistItem[]
+): Note[] {
+  if (!notes.some((n) => n.id === noteId)) {
+    return notes;
+  }
+  return notes.map((n) =>
+    n.id === noteId
+      ? {
+          ...n,
+          checklistItems: update(n.checklistItems ?? []).sort((a, b) => a.order - b.order),
+        }
+      : n
+  );
+}
+
+// Show a live note in the view if it belongs there, otherwise drop it
+function placeNote(notes: Note[], note: Note, boardId: string): Note[] {
+  // Live notes never belong in the trash; it only hears about removals
+  if (boardId === "trash") {
+    return notes.filter((n) => n.id !== note.id);
+  }
+  const isArchived = Boolean(note.archivedAt);
+  const belongsToView = boardId === "archive" ? isArchived : !isArchived;
+  return belongsToView ? upsertNote(notes, note) : notes.filter((n) => n.id !== note.id);
+}
+
+// Merge a streamed board event into the notes currently shown for `boardId`
+export function applyBoardEvent(notes: Note[], event: BoardEvent, boardId: string): Note[] {
+  if (event.type === "note.moved" && event.fromBoardId === boardId) {
+    return notes.filter((n) => n.id !== event.note.id);
+  }
+  if (!isOrganizationWideBoard(boardId) && event.boardId !== boardId) {
+    return notes;
+  }
+
+  switch (event.type) {
+    case "note.created":
+    case "note.updated":
+    case "note.archived":
+    case "note.unarchived":
+    case "note.restored":
+    case "note.moved":
+      return placeNote(notes, event.note, boardId);
+    case "note.deleted":
+      // Deletion events carry no note payload, so the trash view picks them up on reload
+      return boardId === "trash" ? notes : notes.filter((n) => n.id !== event.noteId);
+    case "note.purged":
+      return notes.filter((n) => n.id !== event.noteId);
+    case "checklist.created":
+    case "checklist.updated":
+      return updateChecklistItems(notes, event.noteId, (items) =>
+        items.some((i) => i.id === event.item.id)
+          ? items.map((i) => (i.id === event.item.id ? event.item : i))
+          : [...items, event.item]
+      );
+    case "checklist.deleted":
+      return updateChecklistItems(notes, event.noteId, (items) =>
+        items.filter((i) => i.id !== event.itemId)
+      );
+    default:
+      return notes;
+  }
+}
@@ -0,0 +1,57 @@
+import type { BoardRole } from "@prisma/client";
+
+export type { BoardRole };
+
+// Ordered from least to most privileged
+export const BOARD_ROLES: BoardRole[] = ["VIEWER", "COMMENTER", "EDITOR", "OWNER"];
+
+export const BOARD_ROLE_LABELS: Record<BoardRole, string> = {
+  OWNER: "Owner",
+  EDITOR: "Editor",
+  COMMENTER: "Commenter",
+  VIEWER: "Viewer",
+};
+
+export function isBoardRole(value: unknown): value is BoardRole {
+  return typeof value === "string" && BOARD_ROLES.includes(value as BoardRole);
+}
+
+// Organization admins own every board. Otherwise an explicit membership wins, then the
+// board creator is its owner, and regular members fall back to editor while guests get
+// no access at all.
+export function resolveBoardRole(
+  user: { id: string; isAdmin: boolean; isGuest: boolean },
+  board: { createdBy: string },
+  membershipRole: BoardRole | null | undefined
+): BoardRole | null {
+  if (user.isAdmin) {
+    return "OWNER";
+  }
+  if (membershipRole) {
+    return membershipRole;
+  }
+  if (board.createdBy === user.id) {
+    return "OWNER";
+  }
+  return user.isGuest ? null : "EDITOR";
+}
+
+export function hasBoardRole(role: BoardRole | null | undefined, required: BoardRole): boolean {
+  if (!role) {
+    return false;
+  }
+  return BOARD_ROLES.indexOf(role) >= BOARD_ROLES.indexOf(required);
+}
+
+// Owners can edit every note on the board, editors only their own. Commenters and
+// viewers are read-only until notes support comments.
+export function canEditNote(
+  role: BoardRole | null | undefined,
+  userId: string | undefined,
+  authorId: string
+): boolean {
+  if (role === "OWNER") {
+    return true;
+  }
+  return role === "EDITOR" && userId === authorId;
+}
@@ -0,0 +1,67 @@
+// Pure helpers for actions applied to many notes at once
+import { NOTE_COLORS } from "./constants";
+
+export const MAX_BULK_NOTES = 100;
+
+// A batch takes several queries per note, more than fit in Prisma's default transaction time
+export const BULK_ACTION_TRANSACTION_OPTIONS = { maxWait: 10 * 1000, timeout: 60 * 1000 };
+
+export type BulkNoteAction =
+  | { type: "archive" | "unarchive" | "delete" | "checkAll" }
+  | { type: "move"; targetBoardId: string }
+  | { type: "color"; color: string };
+
+export const BULK_ACTION_TYPES = [
+  "archive",
+  "unarchive",
+  "delete",
+  "move",
+  "color",
+  "checkAll",
+] as const;
+
+function isBulkActionType(value: unknown): value is BulkNoteAction["type"] {
+  return BULK_ACTION_TYPES.includes(value as BulkNoteAction["type"]);
+}
+
+// Read the notes and the action to apply to them from a bulk request body
+export function parseBulkNoteAction(body: {
+  noteIds?: unknown;
+  action?: unknown;
+  targetBoardId?: unknown;
+  color?: unknown;
+}): { noteIds: string[]; action: BulkNoteAction } | { error: string } {
+  const { noteIds, action } = body;
+
+  if (
+    !Array.isArray(noteIds) ||
+    noteIds.length === 0 ||
+    noteIds.some((id) => typeof id !== "string")
+  ) {
+    return { error: "noteIds must be a non-empty array of strings" };
+  }
+  if (noteIds.length > MAX_BULK_NOTES) {
+    return { error: `At most ${MAX_BULK_NOTES} notes can be changed at once` };
+  }
+  if (new Set(noteIds).size !== noteIds.length) {
+    return { error: "Duplicate note IDs found" };
+  }
+  if (!isBulkActionType(action)) {
+    return { error: `action must be one of ${BULK_ACTION_TYPES.join(", ")}` };
+  }
+
+  if (action === "move") {
+    if (typeof body.targetBoardId !== "string") {
+      return { error: "targetBoardId is required" };
+    }
+    return { noteIds, action: { type: action, targetBoardId: body.targetBoardId } };
+  }
+  if (action === "color") {
+    const color = typeof body.color === "string" ? body.color.toLowerCase() : undefined;
+    if (!color || !(NOTE_COLORS as readonly string[]).includes(color)) {
+      return { error: "color must be one of the note colors" };
+    }
+    return { noteIds, action: { type: action, color } };
+  }
+  return { noteIds, action: { type: action } };
+}
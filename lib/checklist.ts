@@ -0,0 +1,239 @@
+// Pure helpers for ordering checklist items
+
+// Move `id` to `position` within `ids`, clamping the position to the list bounds
+export function moveItemId(ids: string[], id: string, position: number): string[] {
+  const remaining = ids.filter((existingId) => existingId !== id);
+  const index = Math.max(0, Math.min(position, remaining.length));
+  return [...remaining.slice(0, index), id, ...remaining.slice(index)];
+}
+
+// Apply a requested order: listed ids come first, unlisted ids keep their relative order after them
+export function mergeItemOrder(existingIds: string[], requestedIds: string[]): string[] {
+  const requested = new Set(requestedIds);
+  return [...requestedIds, ...existingIds.filter((id) => !requested.has(id))];
+}
+
+// Sub-tasks: items point at their parent with parentId and stay in one flat list ordered so
+// every item comes right after its parent's earlier sub-tasks (a pre-order walk of the tree).
+
+// Deepest level below top-level items, so checklists have at most three levels
+export const MAX_CHECKLIST_DEPTH = 2;
+
+interface ChecklistTreeItem {
+  id: string;
+  parentId?: string | null;
+  checked: boolean;
+}
+
+// Depth of each item in an ordered list, 0 for top-level items
+export function getItemDepths(items: Array<{ id: string; parentId?: string | null }>) {
+  const depths = new Map<string, number>();
+  for (const item of items) {
+    const parentDepth = item.parentId ? depths.get(item.parentId) : undefined;
+    depths.set(item.id, parentDepth === undefined ? 0 : parentDepth + 1);
+  }
+  return depths;
+}
+
+// Ids of an item's sub-tasks at any level, in order
+export function getDescendantIds(
+  items: Array<{ id: string; parentId?: string | null }>,
+  id: string
+): string[] {
+  const depths = getItemDepths(items);
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return [];
+  }
+
+  const depth = depths.get(id)!;
+  const descendants: string[] = [];
+  for (const item of items.slice(index + 1)) {
+    if (depths.get(item.id)! <= depth) {
+      break;
+    }
+    descendants.push(item.id);
+  }
+  return descendants;
+}
+
+// Repair parent ids so the ordered list is a valid tree: an item's parent has to be the
+// previous item or one of its ancestors, and nothing nests deeper than MAX_CHECKLIST_DEPTH.
+// Items that can't keep their parent move up to the deepest level that fits.
+export function normalizeChecklistTree<T extends { id: string; parentId?: string | null }>(
+  items: T[]
+): Array<T & { parentId: string | null }> {
+  const ancestors: string[] = [];
+  return items.map((item) => {
+    const parentIndex = item.parentId ? ancestors.indexOf(item.parentId) : -1;
+    const depth = Math.min(parentIndex + 1, MAX_CHECKLIST_DEPTH);
+    const parentId = depth > 0 ? ancestors[depth - 1] : null;
+    ancestors.splice(depth, ancestors.length, item.id);
+    return { ...item, parentId };
+  });
+}
+
+// Parents are done exactly when all their sub-tasks are, checked bottom-up
+export function syncParentCompletion<T extends ChecklistTreeItem>(items: T[]): T[] {
+  const checked = new Map(items.map((item) => [item.id, item.checked]));
+  const childIds = new Map<string, string[]>();
+  for (const item of items) {
+    if (item.parentId) {
+      childIds.set(item.parentId, [...(childIds.get(item.parentId) ?? []), item.id]);
+    }
+  }
+
+  for (const item of [...items].reverse()) {
+    const children = childIds.get(item.id);
+    if (children) {
+      checked.set(
+        item.id,
+        children.every((id) => checked.get(id))
+      );
+    }
+  }
+
+  return items.map((item) =>
+    checked.get(item.id) === item.checked ? item : { ...item, checked: checked.get(item.id)! }
+  );
+}
+
+// Check or uncheck an item together with its sub-tasks, then update its parents
+export function setChecklistItemChecked<T extends ChecklistTreeItem>(
+  items: T[],
+  id: string,
+  checked: boolean
+): T[] {
+  const affected = new Set([id, ...getDescendantIds(items, id)]);
+  return syncParentCompletion(
+    items.map((item) => (affected.has(item.id) ? { ...item, checked } : item))
+  );
+}
+
+// Remove an item with its sub-tasks
+export function removeChecklistItem<T extends ChecklistTreeItem>(items: T[], id: string): T[] {
+  const removed = new Set([id, ...getDescendantIds(items, id)]);
+  return syncParentCompletion(items.filter((item) => !removed.has(item.id)));
+}
+
+// Make an item a sub-task of the sibling above it, taking its own sub-tasks along
+export function indentChecklistItem<T extends ChecklistTreeItem>(items: T[], id: string): T[] {
+  const depths = getItemDepths(items);
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return items;
+  }
+
+  const depth = depths.get(id)!;
+  const sibling = items
+    .slice(0, index)
+    .reverse()
+    .find((item) => depths.get(item.id)! <= depth);
+  if (!sibling || depths.get(sibling.id) !== depth) {
+    return items;
+  }
+
+  const subtreeDepth = Math.max(
+    depth,
+    ...getDescendantIds(items, id).map((descendantId) => depths.get(descendantId)!)
+  );
+  if (subtreeDepth + 1 > MAX_CHECKLIST_DEPTH) {
+    return items;
+  }
+
+  return syncParentCompletion(
+    items.map((item) => (item.id === id ? { ...item, parentId: sibling.id } : item))
+  );
+}
+
+// Move an item up a level. Later sub-tasks of the same parent become its sub-tasks so the
+// list keeps its order.
+export function outdentChecklistItem<T extends ChecklistTreeItem>(items: T[], id: string): T[] {
+  const item = items.find((i) => i.id === id);
+  const parent = item?.parentId ? items.find((i) => i.id === item.parentId) : undefined;
+  if (!item || !parent) {
+    return items;
+  }
+
+  const index = items.indexOf(item);
+  const laterSiblings = new Set(
+    items
+      .slice(index + 1)
+      .filter((i) => i.parentId === parent.id)
+      .map((i) => i.id)
+  );
+
+  return syncParentCompletion(
+    items.map((i) => {
+      if (i.id === id) {
+        return { ...i, parentId: parent.parentId ?? null };
+      }
+      return laterSiblings.has(i.id) ? { ...i, parentId: id } : i;
+    })
+  );
+}
+
+// Drag an item with its sub-tasks onto another item. It becomes a sibling of that item, placed
+// before it when moving up and after its sub-tasks when moving down. Moves into its own
+// sub-tasks or past the maximum depth leave the list unchanged.
+export function moveChecklistItem<T extends ChecklistTreeItem>(
+  items: T[],
+  activeId: string,
+  overId: string
+): T[] {
+  const from = items.findIndex((item) => item.id === activeId);
+  const to = items.findIndex((item) => item.id === overId);
+  const block = new Set([activeId, ...getDescendantIds(items, activeId)]);
+  if (from === -1 || to === -1 || block.has(overId)) {
+    return items;
+  }
+
+  const depths = getItemDepths(items);
+  const over = items[to];
+  const blockDepth =
+    Math.max(...Array.from(block, (id) => depths.get(id)!)) - depths.get(activeId)!;
+  if (depths.get(overId)! + blockDepth > MAX_CHECKLIST_DEPTH) {
+    return items;
+  }
+
+  const moved = items
+    .filter((item) => block.has(item.id))
+    .map((item) => (item.id === activeId ? { ...item, parentId: over.parentId ?? null } : item));
+  const rest = items.filter((item) => !block.has(item.id));
+  const overIndex = rest.indexOf(over);
+  const insertAt = to < from ? overIndex : overIndex + 1 + getDescendantIds(items, overId).length;
+
+  return syncParentCompletion([...rest.slice(0, insertAt), ...moved, ...rest.slice(insertAt)]);
+}
+
+// Unchecked items can't come after checked ones among the sub-tasks of the same parent
+export function hasUncheckedAfterChecked(items: ChecklistTreeItem[]): boolean {
+  const seenChecked = new Set<string | null>();
+  return items.some((item) => {
+    const parentId = item.parentId ?? null;
+    if (item.checked) {
+      seenChecked.add(parentId);
+      return false;
+    }
+    return seenChecked.has(parentId);
+  });
+}
+
+// Items whose checked state differs after a change, like parents completed by their last sub-task
+export function getCompletionChanges<T extends { id: string; checked: boolean }>(
+  before: T[],
+  after: T[]
+): T[] {
+  const previous = new Map(before.map((item) => [item.id, item.checked]));
+  return after.filter((item) => previous.has(item.id) && previous.get(item.id) !== item.checked);
+}
+
+// Items carried over when a board is copied: every item, unchecked when `resetChecked` is set
+export function getItemsToCopy<T extends ChecklistTreeItem>(
+  items: T[],
+  { resetChecked = false } = {}
+): Array<T & { parentId: string | null }> {
+  return normalizeChecklistTree(
+    resetChecked ? items.map((item) => ({ ...item, checked: false })) : items
+  );
+}
@@ -0,0 +1,25 @@
+// Helpers for If-Match style preconditions on versioned resources
+
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Returns the version required by an If-Match header, null when there is no precondition
+// (header absent or "*") and undefined when the header is malformed
+export function parseIfMatch(header: string | null): number | null | undefined {
+  if (!header) {
+    return null;
+  }
+
+  const value = header.trim();
+  if (value === "*") {
+    return null;
+  }
+
+  const match = value.match(/^(?:W\/)?"?(\d+)"?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return parseInt(match[1], 10);
+}
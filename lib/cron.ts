@@ -0,0 +1,10 @@
+import "server-only";
+import { env } from "./env";
+
+// Scheduled job routes are called by the platform scheduler with `Authorization: Bearer $CRON_SECRET`
+export function isAuthorizedCronRequest(request: Request): boolean {
+  if (!env.CRON_SECRET) {
+    return false;
+  }
+  return request.headers.get("authorization") === `Bearer ${env.CRON_SECRET}`;
+}
@@ -0,0 +1,259 @@
+import "server-only";
+import { Resend } from "resend";
+import { db } from "./db";
+import { env } from "./env";
+import { accessibleBoardsWhere } from "./board-access";
+import { toActiveMember } from "./organization";
+import { extractMentionIds, replaceMentions } from "./mentions";
+import { getNoteSummary } from "./note-text";
+import {
+  DIGEST_SECTION_LIMIT,
+  getDigestDueBefore,
+  getDigestSince,
+  isDigestEmpty,
+  renderDigestEmail,
+  type OrganizationDigest,
+} from "./digest";
+
+const resend = new Resend(env.AUTH_RESEND_KEY);
+
+function displayName(user: { name: string | null; email: string } | null): string {
+  return user?.name || user?.email || "Someone";
+}
+
+function getActivityContent(metadata: unknown): string {
+  const content = (metadata as { content?: unknown } | null)?.content;
+  return typeof content === "string" ? content : "";
+}
+
+// Summarize new notes, completed items and open assignments on the boards the user can see
+export async function collectDigest(
+  userId: string,
+  since: Date,
+  now: Date
+): Promise<OrganizationDigest[]> {
+  const memberships = await db.organizationMember.findMany({
+    where: { userId },
+    select: { organizationId: true, role: true, organization: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return Promise.all(
+    memberships.map(async (membership) => {
+      const board = accessibleBoardsWhere(toActiveMember(userId, membership));
+      const period = { gte: since, lt: now };
+
+      const newNotesWhere = {
+        deletedAt: null,
+        createdAt: period,
+        createdBy: { not: userId },
+        board,
+      };
+      const completedWhere = {
+        action: "CHECKED" as const,
+        createdAt: period,
+        note: { deletedAt: null, board },
+      };
+      const assignedWhere = {
+        assigneeId: userId,
+        checked: false,
+        note: { deletedAt: null, archivedAt: null, board },
+      };
+
+      const [notes, notesTotal, completed, completedTotal, assigned, assignedTotal] =
+        await Promise.all([
+          db.note.findMany({
+            where: newNotesWhere,
+            select: {
+              user: { select: { name: true, email: true } },
+              board: { select: { name: true } },
+              title: true,
+              body: true,
+              checklistItems: { select: { content: true }, orderBy: { order: "asc" }, take: 1 },
+            },
+            orderBy: { createdAt: "desc" },
+            take: DIGEST_SECTION_LIMIT,
+          }),
+          db.note.count({ where: newNotesWhere }),
+          db.noteActivity.findMany({
+            where: completedWhere,
+            select: {
+              metadata: true,
+              user: { select: { name: true, email: true } },
+              board: { select: { name: true } },
+            },
+            orderBy: { createdAt: "desc" },
+            take: DIGEST_SECTION_LIMIT,
+          }),
+          db.noteActivity.count({ where: completedWhere }),
+          db.checklistItem.findMany({
+            where: assignedWhere,
+            select: {
+              content: true,
+              dueDate: true,
+              note: { select: { board: { select: { name: true } } } },
+            },
+            // Items without a due date come last
+            orderBy: [{ dueDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+            take: DIGEST_SECTION_LIMIT,
+          }),
+          db.checklistItem.count({ where: assignedWhere }),
+        ]);
+
+      const mentionedIds = extractMentionIds(
+        [
+          ...notes.map((note) => getNoteSummary(note) ?? ""),
+          ...completed.map((activity) => getActivityContent(activity.metadata)),
+          ...assigned.map((item) => item.content),
+        ].join("\n")
+      );
+      const mentionedMembers =
+        mentionedIds.length > 0
+          ? await db.organizationMember.findMany({
+              where: { organizationId: membership.organizationId, userId: { in: mentionedIds } },
+              select: { user: { select: { id: true, name: true, email: true } } },
+            })
+          : [];
+      const mentioned = mentionedMembers.map(({ user }) => user);
+      // Show mentions with the members' current names
+      const withNames = (content: string) => replaceMentions(content, mentioned);
+
+      return {
+        organizationName: membership.organization.name,
+        newNotes: {
+          items: notes.map((note) => ({
+            content: withNames(getNoteSummary(note) ?? ""),
+            boardName: note.board.name,
+            authorName: displayName(note.user),
+          })),
+          total: notesTotal,
+        },
+        completedItems: {
+          items: completed.map((activity) => ({
+            content: withNames(getActivityContent(activity.metadata)),
+            boardName: activity.board.name,
+            completedBy: displayName(activity.user),
+          })),
+          total: completedTotal,
+        },
+        assignedItems: {
+          items: assigned.map((item) => ({
+            content: withNames(item.content),
+            boardName: item.note.board.name,
+            dueDate: item.dueDate,
+          })),
+          total: assignedTotal,
+        },
+      };
+    })
+  );
+}
+
+// Send one user's digest if it is due. The send time is claimed first so overlapping runs of
+// the digest job cannot send it twice, and released again when Resend rejects the email.
+export async function sendDigest(userId: string, baseUrl: string, now = new Date()) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      name: true,
+      email: true,
+      digestFrequency: true,
+      digestUnsubscribeToken: true,
+      lastDigestSentAt: true,
+    },
+  });
+  const dueBefore = user ? getDigestDueBefore(user.digestFrequency, now) : null;
+  if (!user || !dueBefore) {
+    return false;
+  }
+
+  const claimed = await db.user.updateMany({
+    where: {
+      id: userId,
+      lastDigestSentAt: user.lastDigestSentAt,
+      OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lte: dueBefore } }],
+    },
+    data: { lastDigestSentAt: now },
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  const since = getDigestSince(user.digestFrequency, user.lastDigestSentAt, now);
+  const organizations = await collectDigest(userId, since, now);
+  // Nothing happened, skip this period without sending anything
+  if (isDigestEmpty(organizations)) {
+    return false;
+  }
+
+  const unsubscribeUrl = `${baseUrl}/api/digest/unsubscribe?token=${encodeURIComponent(user.digestUnsubscribeToken)}`;
+  const email = renderDigestEmail({
+    userName: user.name || user.email,
+    frequency: user.digestFrequency,
+    organizations,
+    boardsUrl: `${baseUrl}/dashboard`,
+    settingsUrl: `${baseUrl}/settings`,
+    unsubscribeUrl,
+    now,
+  });
+
+  const { error } = await resend.emails.send({
+    from: env.EMAIL_FROM,
+    to: user.email,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+  if (error) {
+    await db.user.updateMany({
+      where: { id: userId, lastDigestSentAt: now },
+      data: { lastDigestSentAt: user.lastDigestSentAt },
+    });
+    throw new Error(`Failed to send digest: ${error.message}`);
+  }
+
+  return true;
+}
+
+// Send the digests that are due, longest waiting first
+export async function sendDueDigests(baseUrl: string, now = new Date(), limit = 100) {
+  const dailyDueBefore = getDigestDueBefore("DAILY", now)!;
+  const weeklyDueBefore = getDigestDueBefore("WEEKLY", now)!;
+
+  const users = await db.user.findMany({
+    where: {
+      OR: [
+        {
+          digestFrequency: "DAILY",
+          OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lte: dailyDueBefore } }],
+        },
+        {
+          digestFrequency: "WEEKLY",
+          OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lte: weeklyDueBefore } }],
+        },
+      ],
+      memberships: { some: {} },
+    },
+    select: { id: true },
+    orderBy: { lastDigestSentAt: { sort: "asc", nulls: "first" } },
+    take: limit,
+  });
+
+  let sent = 0;
+  for (const user of users) {
+    try {
+      if (await sendDigest(user.id, baseUrl, now)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error("Error sending digest:", error);
+    }
+  }
+
+  return { processed: users.length, sent };
+}
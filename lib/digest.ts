@@ -0,0 +1,223 @@
+import type { DigestFrequency } from "@prisma/client";
+
+export type { DigestFrequency };
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ["NEVER", "DAILY", "WEEKLY"];
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  NEVER: "Never",
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+};
+
+// Entries listed per section, the rest is summarized as a count
+export const DIGEST_SECTION_LIMIT = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DIGEST_PERIODS_MS: Record<Exclude<DigestFrequency, "NEVER">, number> = {
+  DAILY: 24 * HOUR_MS,
+  WEEKLY: 7 * 24 * HOUR_MS,
+};
+// The digest job runs hourly, so allow it to run a little early instead of slipping an hour
+// later every period
+const SCHEDULE_TOLERANCE_MS = HOUR_MS / 2;
+
+export interface DigestNote {
+  content: string;
+  boardName: string;
+  authorName: string;
+}
+
+export interface DigestCompletedItem {
+  content: string;
+  boardName: string;
+  completedBy: string;
+}
+
+export interface DigestAssignedItem {
+  content: string;
+  boardName: string;
+  dueDate: Date | null;
+}
+
+export interface DigestSection<T> {
+  items: T[];
+  total: number;
+}
+
+export interface OrganizationDigest {
+  organizationName: string;
+  newNotes: DigestSection<DigestNote>;
+  completedItems: DigestSection<DigestCompletedItem>;
+  assignedItems: DigestSection<DigestAssignedItem>;
+}
+
+export interface DigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function isDigestFrequency(value: unknown): value is DigestFrequency {
+  return typeof value === "string" && DIGEST_FREQUENCIES.includes(value as DigestFrequency);
+}
+
+export function getDigestPeriod(frequency: DigestFrequency): number | null {
+  return frequency === "NEVER" ? null : DIGEST_PERIODS_MS[frequency];
+}
+
+// Earliest time the last digest may have been sent for the next one to be due now
+export function getDigestDueBefore(frequency: DigestFrequency, now: Date): Date | null {
+  const period = getDigestPeriod(frequency);
+  return period === null ? null : new Date(now.getTime() - period + SCHEDULE_TOLERANCE_MS);
+}
+
+export function isDigestDue(
+  frequency: DigestFrequency,
+  lastSentAt: Date | null,
+  now: Date = new Date()
+): boolean {
+  const dueBefore = getDigestDueBefore(frequency, now);
+  return dueBefore !== null && (!lastSentAt || lastSentAt <= dueBefore);
+}
+
+// A digest covers the time since the previous one, but never more than one period
+export function getDigestSince(
+  frequency: DigestFrequency,
+  lastSentAt: Date | null,
+  now: Date = new Date()
+): Date {
+  const period = getDigestPeriod(frequency) ?? DIGEST_PERIODS_MS.WEEKLY;
+  const periodStart = new Date(now.getTime() - period);
+  return lastSentAt && lastSentAt > periodStart ? lastSentAt : periodStart;
+}
+
+export function isDigestEmpty(organizations: OrganizationDigest[]): boolean {
+  return organizations.every(
+    (org) =>
+      org.newNotes.total === 0 && org.completedItems.total === 0 && org.assignedItems.total === 0
+  );
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDueDate(dueDate: Date, now: Date): string {
+  const formatted = dueDate.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  return dueDate < now ? `overdue since ${formatted}` : `due ${formatted}`;
+}
+
+interface RenderedSection {
+  title: string;
+  lines: string[];
+  more: number;
+}
+
+function renderSections(org: OrganizationDigest, now: Date): RenderedSection[] {
+  const sections: RenderedSection[] = [
+    {
+      title: "Assigned to you",
+      lines: org.assignedItems.items.map(
+        (item) =>
+          `${item.content} (${item.boardName}${item.dueDate ? `, ${formatDueDate(item.dueDate, now)}` : ""})`
+      ),
+      more: org.assignedItems.total - org.assignedItems.items.length,
+    },
+    {
+      title: "New notes",
+      lines: org.newNotes.items.map(
+        (note) => `${note.content || "Untitled note"} (${note.boardName}, by ${note.authorName})`
+      ),
+      more: org.newNotes.total - org.newNotes.items.length,
+    },
+    {
+      title: "Completed items",
+      lines: org.completedItems.items.map(
+        (item) => `${item.content} (${item.boardName}, by ${item.completedBy})`
+      ),
+      more: org.completedItems.total - org.completedItems.items.length,
+    },
+  ];
+  return sections.filter((section) => section.lines.length > 0);
+}
+
+export function renderDigestEmail(options: {
+  userName: string;
+  frequency: DigestFrequency;
+  organizations: OrganizationDigest[];
+  boardsUrl: string;
+  settingsUrl: string;
+  unsubscribeUrl: string;
+  now?: Date;
+}): DigestEmail {
+  const now = options.now ?? new Date();
+  const period = options.frequency === "DAILY" ? "daily" : "weekly";
+  const organizations = options.organizations.filter((org) => !isDigestEmpty([org]));
+
+  const htmlOrganizations = organizations
+    .map((org) => {
+      const sections = renderSections(org, now)
+        .map(
+          (section) => `
+            <h3 style="margin: 16px 0 8px; font-size: 15px;">${escapeHtml(section.title)}</h3>
+            <ul style="margin: 0; padding-left: 20px;">
+              ${section.lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}
+              ${section.more > 0 ? `<li style="color: #666;">and ${section.more} more</li>` : ""}
+            </ul>`
+        )
+        .join("");
+      return `
+          <h2 style="margin: 24px 0 0; font-size: 18px;">${escapeHtml(org.organizationName)}</h2>
+          ${sections}`;
+    })
+    .join("");
+
+  const textOrganizations = organizations
+    .map((org) =>
+      [
+        org.organizationName,
+        ...renderSections(org, now).map((section) =>
+          [
+            `\n${section.title}`,
+            ...section.lines.map((line) => `- ${line}`),
+            ...(section.more > 0 ? [`- and ${section.more} more`] : []),
+          ].join("\n")
+        ),
+      ].join("\n")
+    )
+    .join("\n\n");
+
+  return {
+    subject: `Your ${period} Gumboard digest`,
+    html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <p>Hi ${escapeHtml(options.userName)}, here is what happened on your boards.</p>
+          ${htmlOrganizations}
+          <p style="margin-top: 24px;">
+            <a href="${escapeHtml(options.boardsUrl)}"
+               style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+              Open Gumboard
+            </a>
+          </p>
+          <p style="margin-top: 20px; color: #666; font-size: 12px;">
+            You receive this ${period} digest because of your
+            <a href="${escapeHtml(options.settingsUrl)}">email settings</a>.
+            <a href="${escapeHtml(options.unsubscribeUrl)}">Unsubscribe</a>
+          </p>
+        </div>
+      `,
+    text: [
+      `Hi ${options.userName}, here is what happened on your boards.`,
+      textOrganizations,
+      `Open Gumboard: ${options.boardsUrl}`,
+      `Change your email settings: ${options.settingsUrl}`,
+      `Unsubscribe: ${options.unsubscribeUrl}`,
+    ].join("\n\n"),
+  };
+}
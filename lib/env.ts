@@ -19,6 +19,10 @@ const schema = z.object({
   // NextAuth
   AUTH_URL: z.string().optional(),
   AUTH_SECRET: z.string(),
+
+  // Scheduled jobs
+  CRON_SECRET: z.string().optional(),
+  TRASH_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
 });
 
 export const env = schema.parse(process.env);
@@ -0,0 +1,121 @@
+import type { BoardLayout } from "@prisma/client";
+
+export type { BoardLayout };
+
+// Boards either pack their notes into a masonry grid or show them in named Kanban columns
+export const BOARD_LAYOUTS: BoardLayout[] = ["MASONRY", "KANBAN"];
+
+// Columns a board starts with when it switches to the Kanban layout
+export const DEFAULT_KANBAN_COLUMNS = ["Todo", "Doing", "Done"];
+
+export const MAX_COLUMN_NAME_LENGTH = 50;
+export const MAX_BOARD_COLUMNS = 12;
+
+export interface BoardColumn {
+  id: string;
+  name: string;
+  order: number;
+}
+
+export interface ColumnInput {
+  id?: string;
+  name: string;
+}
+
+export function isBoardLayout(value: unknown): value is BoardLayout {
+  return typeof value === "string" && BOARD_LAYOUTS.includes(value as BoardLayout);
+}
+
+// Read a board's columns from a request body, in display order. Columns with an id are kept
+// and renamed, the others are created. Missing columns stay undefined so updates leave them
+// untouched.
+export function parseBoardColumns(value: unknown): { columns?: ColumnInput[] } | { error: string } {
+  if (value === undefined) {
+    return {};
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "columns must be a non-empty array" };
+  }
+  if (value.length > MAX_BOARD_COLUMNS) {
+    return { error: `Boards can have at most ${MAX_BOARD_COLUMNS} columns` };
+  }
+
+  const columns: ColumnInput[] = [];
+  for (const column of value) {
+    if (
+      !column ||
+      typeof column.name !== "string" ||
+      (column.id !== undefined && typeof column.id !== "string")
+    ) {
+      return { error: "Each column needs a name" };
+    }
+    const name = column.name.replace(/\s+/g, " ").trim();
+    if (!name) {
+      return { error: "Each column needs a name" };
+    }
+    if (name.length > MAX_COLUMN_NAME_LENGTH) {
+      return { error: `Column names must be at most ${MAX_COLUMN_NAME_LENGTH} characters` };
+    }
+    columns.push(column.id ? { id: column.id, name } : { name });
+  }
+
+  const ids = columns.flatMap((column) => (column.id ? [column.id] : []));
+  if (new Set(ids).size !== ids.length) {
+    return { error: "Duplicate column IDs found" };
+  }
+
+  return { columns };
+}
+
+interface ColumnNote {
+  id: string;
+  columnId?: string | null;
+  columnOrder?: number;
+  createdAt: string | Date;
+}
+
+// Split notes into the board's columns, each ordered by position and then age. Notes without a
+// column, or whose column was removed, go to the first column.
+export function groupNotesByColumn<T extends ColumnNote>(
+  notes: T[],
+  columns: BoardColumn[]
+): Array<{ column: BoardColumn; notes: T[] }> {
+  if (columns.length === 0) {
+    return [];
+  }
+
+  const groups = new Map<string, T[]>(columns.map((column) => [column.id, []]));
+  for (const note of notes) {
+    const group = (note.columnId && groups.get(note.columnId)) || groups.get(columns[0].id)!;
+    group.push(note);
+  }
+
+  return columns.map((column) => ({
+    column,
+    notes: groups
+      .get(column.id)!
+      .sort(
+        (a, b) =>
+          (a.columnOrder ?? 0) - (b.columnOrder ?? 0) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      ),
+  }));
+}
+
+// Move a note to `index` of a column, returning the ids of every column in their new order
+export function moveNoteToColumn(
+  columnNoteIds: Record<string, string[]>,
+  noteId: string,
+  columnId: string,
+  index: number
+): Record<string, string[]> {
+  const next: Record<string, string[]> = {};
+  for (const [id, noteIds] of Object.entries(columnNoteIds)) {
+    next[id] = noteIds.filter((n) => n !== noteId);
+  }
+
+  const target = next[columnId] ?? [];
+  const position = Math.max(0, Math.min(index, target.length));
+  next[columnId] = [...target.slice(0, position), noteId, ...target.slice(position)];
+  return next;
+}
@@ -0,0 +1,104 @@
+// Pure helpers for organization-wide note labels
+import { z } from "zod";
+
+export const LABEL_COLORS = [
+  "#ef4444", // red
+  "#f97316", // orange
+  "#eab308", // yellow
+  "#22c55e", // green
+  "#14b8a6", // teal
+  "#3b82f6", // blue
+  "#8b5cf6", // violet
+  "#ec4899", // pink
+  "#6b7280", // gray
+] as const;
+
+export const MAX_LABEL_NAME_LENGTH = 32;
+
+export interface Label {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const labelSelect = { id: true, name: true, color: true };
+
+// How notes load their labels
+export const noteLabelsInclude = { select: labelSelect, orderBy: { name: "asc" as const } };
+
+export function isLabelColor(value: unknown): value is string {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+const labelNameSchema = z.preprocess(
+  (value) => (typeof value === "string" ? value.replace(/\s+/g, " ").trim() : ""),
+  z
+    .string()
+    .min(1, "Label name is required")
+    .max(MAX_LABEL_NAME_LENGTH, `Label name must be at most ${MAX_LABEL_NAME_LENGTH} characters`)
+);
+
+const COLOR_ERROR = "color must be a hex color like #3b82f6";
+const labelColorSchema = z
+  .string({ invalid_type_error: COLOR_ERROR })
+  .refine(isLabelColor, COLOR_ERROR)
+  .transform((color) => color.toLowerCase());
+
+// Creating a label needs a name, the color defaults to the first of LABEL_COLORS
+const labelSchema = z.object({
+  name: labelNameSchema,
+  color: labelColorSchema.default(LABEL_COLORS[0]),
+});
+
+// Updates only change the fields they include
+const labelUpdateSchema = z.object({
+  name: labelNameSchema.optional(),
+  color: labelColorSchema.optional(),
+});
+
+// Read a label's name and color from a request body
+export function parseLabelInput(
+  body: unknown
+): { label: z.infer<typeof labelSchema> } | { error: string };
+export function parseLabelInput(
+  body: unknown,
+  options: { partial: true }
+): { label: z.infer<typeof labelUpdateSchema> } | { error: string };
+export function parseLabelInput(
+  body: unknown,
+  { partial = false } = {}
+): { label: z.infer<typeof labelUpdateSchema> } | { error: string } {
+  const result = (partial ? labelUpdateSchema : labelSchema).safeParse(body);
+  return result.success ? { label: result.data } : { error: result.error.issues[0].message };
+}
+
+// Label ids of a request body, undefined when missing so updates leave labels untouched
+export function parseLabelIds(value: unknown): { labelIds?: string[] } | { error: string } {
+  if (value === undefined) {
+    return {};
+  }
+  if (!Array.isArray(value) || !value.every((id) => typeof id === "string" && id)) {
+    return { error: "labelIds must be an array of label ids" };
+  }
+  return { labelIds: Array.from(new Set(value)) };
+}
+
+// Keep notes with at least one of the selected labels
+export function filterNotesByLabels<T extends { labels?: Array<{ id: string }> }>(
+  notes: T[],
+  labelIds: string[]
+): T[] {
+  if (labelIds.length === 0) {
+    return notes;
+  }
+
+  const selected = new Set(labelIds);
+  return notes.filter((note) => (note.labels ?? []).some((label) => selected.has(label.id)));
+}
+
+// Light labels get dark text and dark labels white text
+export function getLabelTextColor(color: string): string {
+  const [r, g, b] = [1, 3, 5].map((start) => parseInt(color.slice(start, start + 2), 16));
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? "#18181b" : "#ffffff";
+}
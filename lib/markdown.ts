@@ -0,0 +1,231 @@
+import { MENTION_PATTERN } from "./mentions";
+
+// Checklist content supports a small, safe subset of inline markdown: **bold**, *italics*,
+// `code`, [links](https://...) and bare URLs. It is parsed into nodes and rendered as React
+// elements, never as HTML.
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "emphasis"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "mention"; userId: string };
+
+const SAFE_URL_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+const MENTION_AT = new RegExp(MENTION_PATTERN.source, "y");
+const LINK_AT = /\[([^\]\n]+)\]\(([^()\s]+)\)/y;
+const URL_AT = /(?:https?:\/\/|www\.)[^\s<>]+/iy;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+// Punctuation that ends a sentence rather than the URL before it
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+// Characters that would end a link early in Slack's <url|label> syntax
+function encodeLinkDelimiters(value: string): string {
+  return value.replace(/[<>|]/g, (char) => encodeURIComponent(char));
+}
+
+// Only web and mail links are allowed, anything else such as javascript: is dropped
+export function sanitizeUrl(value: string): string | null {
+  if (!/^(https?:\/\/|mailto:)/i.test(value)) {
+    return null;
+  }
+  try {
+    return SAFE_URL_PROTOCOLS.includes(new URL(value).protocol)
+      ? encodeLinkDelimiters(value)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && WORD_CHAR.test(char);
+}
+
+// Find the closing delimiter of an emphasis run. The content can't be empty or start or end
+// with whitespace, and underscores only count at word boundaries so snake_case stays as is.
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+  const contentStart = start + delimiter.length;
+  if (contentStart >= text.length || /\s/.test(text[contentStart])) {
+    return -1;
+  }
+  if (delimiter[0] === "_" && isWordChar(text[start - 1])) {
+    return -1;
+  }
+
+  let index = text.indexOf(delimiter, contentStart);
+  while (index !== -1) {
+    const tooShort = index === contentStart;
+    const precededBySpace = /\s/.test(text[index - 1]);
+    // A single * or _ must not be half of a double one
+    const partOfLonger = delimiter.length === 1 && text[index + 1] === delimiter;
+    const wordFollows = delimiter[0] === "_" && isWordChar(text[index + delimiter.length]);
+    if (!tooShort && !precededBySpace && !partOfLonger && !wordFollows) {
+      // In a run like "***" the last markers close, so "**very *important***" nests
+      while (text[index + delimiter.length] === delimiter[0]) {
+        index++;
+      }
+      return index;
+    }
+    index = text.indexOf(delimiter, partOfLonger ? index + 2 : index + 1);
+  }
+  return -1;
+}
+
+// Links can't be nested, URLs in a link label are shown as text
+function unlink(nodes: InlineNode[]): InlineNode[] {
+  return nodes.flatMap((node) => (node.type === "link" ? unlink(node.children) : [node]));
+}
+
+export function parseInlineMarkdown(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", text: buffer });
+      buffer = "";
+    }
+  };
+  const push = (node: InlineNode, end: number) => {
+    flush();
+    nodes.push(node);
+    index = end;
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === "`") {
+      const end = text.indexOf("`", index + 1);
+      if (end > index + 1) {
+        push({ type: "code", text: text.slice(index + 1, end) }, end + 1);
+        continue;
+      }
+    }
+
+    if (char === "<") {
+      const mention = matchAt(MENTION_AT, text, index);
+      if (mention) {
+        push({ type: "mention", userId: mention[1] }, index + mention[0].length);
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const link = matchAt(LINK_AT, text, index);
+      const href = link && sanitizeUrl(link[2]);
+      if (link && href) {
+        push(
+          { type: "link", href, children: unlink(parseInlineMarkdown(link[1])) },
+          index + link[0].length
+        );
+        continue;
+      }
+    }
+
+    if (/[hw]/i.test(char) && !isWordChar(text[index - 1])) {
+      const url = matchAt(URL_AT, text, index);
+      if (url) {
+        const raw = url[0].replace(URL_TRAILING_PUNCTUATION, "");
+        const href = sanitizeUrl(/^www\./i.test(raw) ? `https://${raw}` : raw);
+        if (href && raw.length > "www.".length) {
+          push({ type: "link", href, children: [{ type: "text", text: raw }] }, index + raw.length);
+          continue;
+        }
+      }
+    }
+
+    if (char === "*" || char === "_") {
+      const delimiter = text[index + 1] === char ? char + char : char;
+      const end = findClosingDelimiter(text, index, delimiter);
+      if (end !== -1) {
+        const children = parseInlineMarkdown(text.slice(index + delimiter.length, end));
+        push(
+          delimiter.length === 2 ? { type: "strong", children } : { type: "emphasis", children },
+          end + delimiter.length
+        );
+        continue;
+      }
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// Whether the content needs more than plain text to show
+export function hasInlineFormatting(nodes: InlineNode[]): boolean {
+  return nodes.some((node) => node.type !== "text");
+}
+
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function toPlainText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.text;
+        case "mention":
+          return `<@${node.userId}>`;
+        default:
+          return toPlainText(node.children);
+      }
+    })
+    .join("");
+}
+
+// Slack uses its own markup: *bold*, _italics_ and <url|label> links. Mention tokens are kept
+// so they can still be resolved for Slack afterwards.
+export function toSlackMarkdown(text: string): string {
+  const render = (nodes: InlineNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return escapeSlackText(node.text);
+          case "strong":
+            return `*${render(node.children)}*`;
+          case "emphasis":
+            return `_${render(node.children)}_`;
+          case "code":
+            return `\`${escapeSlackText(node.text)}\``;
+          case "link": {
+            const label = encodeLinkDelimiters(toPlainText(node.children));
+            return label === node.href || `https://${label}` === node.href
+              ? `<${node.href}>`
+              : `<${node.href}|${escapeSlackText(label)}>`;
+          }
+          case "mention":
+            return `<@${node.userId}>`;
+        }
+      })
+      .join("");
+
+  return render(parseInlineMarkdown(text));
+}
+
+// Clean up checklist content before it is stored: drop control characters and turn links to
+// anything but web or mail addresses into their plain label. Content is always rendered as
+// text, so angle brackets are kept as the user typed them.
+export function sanitizeChecklistContent(content: string): string {
+  return content
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, "")
+    .replace(/\[([^\]\n]+)\]\(([^()\s]*)\)/g, (link, label: string, href: string) =>
+      sanitizeUrl(href) ? link : label
+    );
+}
@@ -0,0 +1,160 @@
+// Mentions are stored in checklist content as <@userId> tokens and resolved to the member's
+// current name when shown, so renaming someone never breaks existing mentions.
+export const MENTION_PATTERN = /<@([A-Za-z0-9_-]+)>/g;
+
+// Mentions start at a word boundary and run to the end of the member's name
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+export const FORMER_MEMBER_LABEL = "former member";
+
+export const MAX_MENTION_SUGGESTIONS = 5;
+
+export interface MentionMember {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export type MentionSegment = { type: "text"; text: string } | { type: "mention"; userId: string };
+
+export function formatMention(userId: string): string {
+  return `<@${userId}>`;
+}
+
+export function getMentionLabel(member: MentionMember): string {
+  return member.name || member.email;
+}
+
+export function extractMentionIds(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(MENTION_PATTERN), (match) => match[1])));
+}
+
+// People mentioned in the new content who weren't mentioned before the edit
+export function getAddedMentionIds(content: string, previousContent = ""): string[] {
+  const previous = new Set(extractMentionIds(previousContent));
+  return extractMentionIds(content).filter((userId) => !previous.has(userId));
+}
+
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: "text", text: content.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: "mention", userId: match[1] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ type: "text", text: content.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+// Plain text version of the content with mentions shown as @name
+export function replaceMentions(content: string, members: MentionMember[]): string {
+  return content.replace(MENTION_PATTERN, (_, userId: string) => {
+    const member = members.find((m) => m.id === userId);
+    return `@${member ? getMentionLabel(member) : FORMER_MEMBER_LABEL}`;
+  });
+}
+
+// The editor shows mentions as @name. Mentions of people who are no longer members keep
+// their token so editing the item doesn't drop them.
+export function toEditableText(content: string, members: MentionMember[]): string {
+  return content.replace(MENTION_PATTERN, (token, userId: string) => {
+    const member = members.find((m) => m.id === userId);
+    return member ? `@${getMentionLabel(member)}` : token;
+  });
+}
+
+// Turn @name back into mention tokens, preferring the longest name so "@Ada Lovelace" isn't
+// read as a mention of "Ada"
+export function fromEditableText(text: string, members: MentionMember[]): string {
+  const ids = new Map<string, string>();
+  for (const member of members) {
+    const label = getMentionLabel(member);
+    if (label && !ids.has(label)) {
+      ids.set(label, member.id);
+    }
+  }
+  if (ids.size === 0) {
+    return text;
+  }
+
+  const labels = Array.from(ids.keys())
+    .sort((a, b) => b.length - a.length)
+    .map((label) => label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])@(${labels.join("|")})(?!${WORD_CHAR})`, "gu");
+
+  return text.replace(
+    pattern,
+    (_, prefix: string, label: string) => `${prefix}${formatMention(ids.get(label)!)}`
+  );
+}
+
+// The @query being typed right before the caret, if any
+export function findMentionQuery(
+  text: string,
+  caret: number
+): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+  return { start: match.index + match[1].length, query: match[2] };
+}
+
+export function filterMentionCandidates<T extends MentionMember>(
+  members: T[],
+  query: string,
+  limit = MAX_MENTION_SUGGESTIONS
+): T[] {
+  const normalized = query.toLowerCase();
+  return members
+    .filter(
+      (member) =>
+        member.name
+          ?.toLowerCase()
+          .split(/\s+/)
+          .some((part) => part.startsWith(normalized)) ||
+        member.email.toLowerCase().startsWith(normalized)
+    )
+    .slice(0, limit);
+}
+
+// Replace the @query that starts at `start` with the member's mention
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  member: MentionMember
+): { text: string; caret: number } {
+  const mention = `@${getMentionLabel(member)} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+}
+
+export interface ChecklistMention {
+  itemId: string;
+  content: string;
+  userIds: string[];
+}
+
+// New mentions in created and edited checklist items, the mention events others are told about
+export function getChecklistMentions(changes: {
+  created: Array<{ id: string; content: string }>;
+  updated: Array<{ id: string; content: string; previous: { content: string } }>;
+}): ChecklistMention[] {
+  return [
+    ...changes.created.map((item) => ({ item, previousContent: "" })),
+    ...changes.updated.map((item) => ({ item, previousContent: item.previous.content })),
+  ].flatMap(({ item, previousContent }) => {
+    const userIds = getAddedMentionIds(item.content, previousContent);
+    return userIds.length > 0 ? [{ itemId: item.id, content: item.content, userIds }] : [];
+  });
+}
@@ -0,0 +1,63 @@
+import "server-only";
+import type { Session } from "next-auth";
+import { db } from "./db";
+import { getBoardRole } from "./board-access";
+import { canEditNote } from "./board-roles";
+import { getActiveMember } from "./organization";
+import { noteLabelsInclude } from "./labels";
+
+export const noteInclude = {
+  user: { select: { id: true, name: true, email: true, image: true } },
+  board: { select: { id: true, name: true, sendSlackUpdates: true } },
+  checklistItems: { orderBy: { order: "asc" as const } },
+  labels: noteLabelsInclude,
+};
+
+// Load a note for editing with the same organization and board role checks as the note routes
+export async function getEditableNote(session: Session, boardId: string, noteId: string) {
+  const member = await getActiveMember(session);
+
+  if (!member) {
+    return { error: "No organization found", status: 403 } as const;
+  }
+
+  const user = await db.user.findUnique({ where: { id: member.id } });
+  const organization = await db.organization.findUnique({
+    where: { id: member.organizationId },
+    select: {
+      id: true,
+      name: true,
+      slackWebhookUrl: true,
+    },
+  });
+
+  if (!user || !organization) {
+    return { error: "No organization found", status: 403 } as const;
+  }
+
+  const note = await db.note.findUnique({
+    where: { id: noteId },
+    include: {
+      board: true,
+      checklistItems: { orderBy: { order: "asc" } },
+    },
+  });
+
+  if (!note || note.deletedAt) {
+    return { error: "Note not found", status: 404 } as const;
+  }
+
+  if (note.board.organizationId !== member.organizationId || note.boardId !== boardId) {
+    return { error: "Access denied", status: 403 } as const;
+  }
+
+  const role = await getBoardRole(member, note.board);
+  if (!canEditNote(role, member.id, note.createdBy)) {
+    return {
+      error: "Only the note author or board owner can edit this note",
+      status: 403,
+    } as const;
+  }
+
+  return { user: { ...user, organization }, note };
+}
@@ -0,0 +1,60 @@
+import type { Prisma } from "@prisma/client";
+
+// Notes are ordered on a board by a fractional index: a note dropped between two others gets a
+// position halfway between theirs, so a move only updates the moved note. New notes go on top.
+
+export const NOTE_POSITION_GAP = 1024;
+
+// Position between two neighbours, either of which can be missing at the ends of the board.
+// Null when the positions are too close to split and the board needs to be spread out again.
+export function getPositionBetween(before: number | null, after: number | null): number | null {
+  if (before === null) {
+    return after === null ? 0 : after - NOTE_POSITION_GAP;
+  }
+  if (after === null) {
+    return before + NOTE_POSITION_GAP;
+  }
+  const position = (before + after) / 2;
+  return position > before && position < after ? position : null;
+}
+
+// Evenly spaced positions for a board's notes in their current order
+export function spreadPositions(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => (index + 1) * NOTE_POSITION_GAP);
+}
+
+// Board order, notes without a position keep their order after the positioned ones
+export function sortNotesByPosition<T extends { position?: number }>(notes: T[]): T[] {
+  return [...notes].sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity) || 0);
+}
+
+// Where a dragged note lands when dropped on another note: it takes the target's place and the
+// note before it in the new order is its neighbour, null when it becomes the first note
+export function getNoteMove(
+  noteIds: string[],
+  activeId: string,
+  overId: string
+): { noteIds: string[]; afterNoteId: string | null } | null {
+  const from = noteIds.indexOf(activeId);
+  const to = noteIds.indexOf(overId);
+  if (from === -1 || to === -1 || from === to) {
+    return null;
+  }
+
+  const next = [...noteIds];
+  next.splice(from, 1);
+  next.splice(to, 0, activeId);
+  return { noteIds: next, afterNoteId: to > 0 ? next[to - 1] : null };
+}
+
+// Position of a new note, above every other note of the board
+export async function getNewNotePosition(
+  client: Prisma.TransactionClient,
+  boardId: string
+): Promise<number> {
+  const first = await client.note.aggregate({
+    where: { boardId },
+    _min: { position: true },
+  });
+  return getPositionBetween(null, first._min.position) ?? 0;
+}
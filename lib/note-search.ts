@@ -0,0 +1,127 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { accessibleBoardsWhere } from "./board-access";
+import type { ActiveMember } from "./organization";
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  buildSearchQuery,
+  type NoteSearchFilters,
+} from "./search";
+import { noteLabelsInclude } from "./labels";
+
+const HEADLINE_OPTIONS = [
+  `StartSel=${SEARCH_HIGHLIGHT_START}`,
+  `StopSel=${SEARCH_HIGHLIGHT_END}`,
+  "MaxFragments=2",
+  "MaxWords=20",
+  "MinWords=5",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
+interface SearchRow {
+  id: string;
+  rank: number;
+  highlight: string | null;
+  total: bigint;
+}
+
+// Rank the user's accessible notes against the query with Postgres full-text search and
+// return them with a highlighted snippet of the matching title, text or checklist content
+export async function searchNotes(user: ActiveMember, filters: NoteSearchFilters) {
+  const tsquery = buildSearchQuery(filters.query);
+  const boards = await db.board.findMany({
+    where: {
+      ...accessibleBoardsWhere(user),
+      ...(filters.boardId && { id: filters.boardId }),
+    },
+    select: { id: true },
+  });
+
+  if (!tsquery || boards.length === 0) {
+    return { notes: [], total: 0, nextOffset: null };
+  }
+
+  const conditions = [
+    Prisma.sql`n."searchVector" @@ query`,
+    Prisma.sql`n."deletedAt" IS NULL`,
+    Prisma.sql`n."boardId" = ANY(${boards.map((board) => board.id)})`,
+  ];
+  if (filters.archived === true) conditions.push(Prisma.sql`n."archivedAt" IS NOT NULL`);
+  if (filters.archived === false) conditions.push(Prisma.sql`n."archivedAt" IS NULL`);
+  if (filters.authorId) conditions.push(Prisma.sql`n."createdBy" = ${filters.authorId}`);
+  if (filters.labelIds?.length) {
+    // "_LabelToNote" is the join table behind Note.labels, A is the label and B the note
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "_LabelToNote" nl WHERE nl."B" = n."id" AND nl."A" = ANY(${filters.labelIds}))`
+    );
+  }
+  if (filters.startDate) conditions.push(Prisma.sql`n."createdAt" >= ${filters.startDate}`);
+  if (filters.endDate) conditions.push(Prisma.sql`n."createdAt" <= ${filters.endDate}`);
+  if (filters.checked === true) {
+    conditions.push(Prisma.sql`items.item_count > 0 AND items.all_checked`);
+  }
+  if (filters.checked === false) {
+    conditions.push(Prisma.sql`NOT coalesce(items.all_checked, true)`);
+  }
+
+  const rows = await db.$queryRaw<SearchRow[]>`
+    SELECT
+      n."id",
+      ts_rank(n."searchVector", query)::float8 AS rank,
+      ts_headline(
+        'simple',
+        concat_ws(' · ', n."title", n."body", items.content),
+        query,
+        ${HEADLINE_OPTIONS}
+      ) AS highlight,
+      count(*) OVER () AS total
+    FROM "notes" n
+    CROSS JOIN to_tsquery('simple', ${tsquery}) query
+    CROSS JOIN LATERAL (
+      SELECT
+        string_agg(ci."content", ' · ' ORDER BY ci."order") AS content,
+        bool_and(ci."checked") AS all_checked,
+        count(*) AS item_count
+      FROM "checklist_items" ci
+      WHERE ci."noteId" = n."id"
+    ) items
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY rank DESC, n."createdAt" DESC
+    LIMIT ${filters.limit} OFFSET ${filters.offset}
+  `;
+
+  const total = rows.length > 0 ? Number(rows[0].total) : 0;
+  const notes = await db.note.findMany({
+    where: { id: { in: rows.map((row) => row.id) } },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          image: true,
+        },
+      },
+      board: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      checklistItems: { orderBy: { order: "asc" } },
+      labels: noteLabelsInclude,
+    },
+  });
+  const notesById = new Map(notes.map((note) => [note.id, note]));
+
+  return {
+    notes: rows.flatMap((row) => {
+      const note = notesById.get(row.id);
+      return note ? [{ ...note, searchRank: row.rank, searchHighlight: row.highlight }] : [];
+    }),
+    total,
+    nextOffset: filters.offset + rows.length < total ? filters.offset + rows.length : null,
+  };
+}
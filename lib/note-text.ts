@@ -0,0 +1,59 @@
+import { sanitizeChecklistContent } from "./markdown";
+
+// Pure helpers for a note's optional title and free-form body text
+
+export const MAX_NOTE_TITLE_LENGTH = 200;
+export const MAX_NOTE_BODY_LENGTH = 10000;
+
+export interface NoteText {
+  title?: string | null;
+  body?: string | null;
+}
+
+// Read the optional title and body of a note from a request body. Missing fields stay
+// undefined so updates leave them untouched, null or blank text clears them.
+export function parseNoteText(body: {
+  title?: unknown;
+  body?: unknown;
+}): { text: NoteText } | { error: string } {
+  const text: NoteText = {};
+
+  if (body.title !== undefined) {
+    if (body.title !== null && typeof body.title !== "string") {
+      return { error: "title must be a string or null" };
+    }
+    // Titles are a single line
+    const title = body.title && sanitizeChecklistContent(body.title).replace(/\s+/g, " ").trim();
+    if (title && title.length > MAX_NOTE_TITLE_LENGTH) {
+      return { error: `title must be at most ${MAX_NOTE_TITLE_LENGTH} characters` };
+    }
+    text.title = title || null;
+  }
+
+  if (body.body !== undefined) {
+    if (body.body !== null && typeof body.body !== "string") {
+      return { error: "body must be a string or null" };
+    }
+    const value = body.body && sanitizeChecklistContent(body.body).trimEnd();
+    if (value && value.length > MAX_NOTE_BODY_LENGTH) {
+      return { error: `body must be at most ${MAX_NOTE_BODY_LENGTH} characters` };
+    }
+    text.body = value?.trim() ? value : null;
+  }
+
+  return { text };
+}
+
+// Short text standing for the note in messages: its title, the first line of its body or its
+// first checklist item
+export function getNoteSummary(note: {
+  title?: string | null;
+  body?: string | null;
+  checklistItems?: Array<{ content: string }>;
+}): string | null {
+  const firstBodyLine = note.body
+    ?.split("\n")
+    .map((line) => line.trim())
+    .find(Boolean);
+  return note.title || firstBodyLine || note.checklistItems?.[0]?.content || null;
+}
@@ -0,0 +1,93 @@
+import "server-only";
+import type { Prisma } from "@prisma/client";
+import { recordNoteActivity } from "./activity";
+import { noteInclude } from "./note-access";
+import { getNewNotePosition } from "./note-order";
+
+type TransferredNote = Prisma.NoteGetPayload<{
+  include: { board: true; checklistItems: true; labels: { select: { id: true } } };
+}>;
+
+export const transferNoteInclude = {
+  board: true,
+  checklistItems: { orderBy: { order: "asc" as const } },
+  labels: { select: { id: true } },
+};
+
+// Move a note to another board of the organization. The note keeps its id, so its checklist
+// items, Slack message references and history all come along; the history moves to the new
+// board's activity feed.
+export async function moveNoteToBoard(
+  client: Prisma.TransactionClient,
+  note: TransferredNote,
+  targetBoard: { id: string; name: string },
+  userId: string
+) {
+  const position = await getNewNotePosition(client, targetBoard.id);
+
+  await client.noteActivity.updateMany({
+    where: { noteId: note.id },
+    data: { boardId: targetBoard.id },
+  });
+  await recordNoteActivity(client, { id: note.id, boardId: targetBoard.id }, userId, [
+    { action: "MOVED", metadata: { fromBoard: note.board.name, toBoard: targetBoard.name } },
+  ]);
+
+  // Kanban columns belong to the old board, so the note starts in the new board's first column
+  return client.note.update({
+    where: { id: note.id },
+    data: {
+      boardId: targetBoard.id,
+      columnId: null,
+      columnOrder: 0,
+      position,
+    },
+    include: noteInclude,
+  });
+}
+
+// Copy a note with its labels and checklist, including sub-tasks, assignees and due dates. The
+// copy is a new note, so it starts its own history and isn't linked to the original's Slack
+// messages.
+export async function copyNoteToBoard(
+  client: Prisma.TransactionClient,
+  note: TransferredNote,
+  targetBoardId: string,
+  userId: string
+) {
+  const sameBoard = note.boardId === targetBoardId;
+
+  const copy = await client.note.create({
+    data: {
+      color: note.color,
+      title: note.title,
+      body: note.body,
+      labels: { connect: note.labels.map(({ id }) => ({ id })) },
+      boardId: targetBoardId,
+      position: await getNewNotePosition(client, targetBoardId),
+      ...(sameBoard && { columnId: note.columnId, columnOrder: note.columnOrder }),
+      createdBy: userId,
+    },
+  });
+
+  // Items are created in order so sub-tasks can point at their parent's new id
+  const itemIds = new Map<string, string>();
+  for (const item of note.checklistItems) {
+    const created = await client.checklistItem.create({
+      data: {
+        noteId: copy.id,
+        content: item.content,
+        checked: item.checked,
+        order: item.order,
+        assigneeId: item.assigneeId,
+        dueDate: item.dueDate,
+        parentId: item.parentId ? (itemIds.get(item.parentId) ?? null) : null,
+      },
+    });
+    itemIds.set(item.id, created.id);
+  }
+
+  await recordNoteActivity(client, copy, userId, [{ action: "CREATED" }]);
+
+  return client.note.findUniqueOrThrow({ where: { id: copy.id }, include: noteInclude });
+}
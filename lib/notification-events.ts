@@ -0,0 +1,145 @@
+import type { NotificationType, Prisma } from "@prisma/client";
+import { getChecklistMentions, replaceMentions, type MentionMember } from "./mentions";
+
+export type { NotificationType };
+
+export interface NotificationEntry {
+  userId: string;
+  type: NotificationType;
+  checklistItemId?: string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+interface ChecklistItemChange {
+  id: string;
+  content: string;
+  checked?: boolean;
+  assigneeId?: string | null;
+}
+
+export interface ChecklistNotificationInput {
+  noteAuthorId: string;
+  actorId: string;
+  created: ChecklistItemChange[];
+  updated: Array<
+    ChecklistItemChange & {
+      checked: boolean;
+      previous: { content: string; checked: boolean; assigneeId?: string | null };
+    }
+  >;
+  deleted: ChecklistItemChange[];
+  // Whether the note's title or text changed as well
+  noteTextEdited?: boolean;
+}
+
+// Work out who hears about a checklist change. Authors are told when someone else edits or
+// completes items on their note, assignees when someone else gives them an item and members
+// when someone else mentions them.
+export function buildChecklistNotifications(
+  input: ChecklistNotificationInput
+): NotificationEntry[] {
+  const entries: NotificationEntry[] = [];
+  const { noteAuthorId, actorId } = input;
+  const notifyAuthor = noteAuthorId !== actorId;
+
+  const edited =
+    input.noteTextEdited ||
+    input.created.length > 0 ||
+    input.deleted.length > 0 ||
+    input.updated.some((item) => item.content !== item.previous.content);
+  if (notifyAuthor && edited) {
+    entries.push({ userId: noteAuthorId, type: "NOTE_EDITED" });
+  }
+
+  for (const item of input.updated) {
+    if (notifyAuthor && item.checked && !item.previous.checked) {
+      entries.push({
+        userId: noteAuthorId,
+        type: "ITEM_COMPLETED",
+        checklistItemId: item.id,
+        metadata: { content: item.content },
+      });
+    }
+  }
+
+  const assignments = [
+    ...input.created.map((item) => ({ item, previousAssigneeId: null })),
+    ...input.updated.map((item) => ({ item, previousAssigneeId: item.previous.assigneeId })),
+  ];
+  for (const { item, previousAssigneeId } of assignments) {
+    if (item.assigneeId && item.assigneeId !== previousAssigneeId && item.assigneeId !== actorId) {
+      entries.push({
+        userId: item.assigneeId,
+        type: "ITEM_ASSIGNED",
+        checklistItemId: item.id,
+        metadata: { content: item.content },
+      });
+    }
+  }
+
+  for (const mention of getChecklistMentions(input)) {
+    for (const userId of mention.userIds) {
+      if (userId !== actorId) {
+        entries.push({
+          userId,
+          type: "MENTIONED",
+          checklistItemId: mention.itemId,
+          metadata: { content: mention.content },
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+export function formatNotificationMessage(
+  type: NotificationType,
+  actorName: string,
+  content?: string | null
+): string {
+  const item = content ? `"${content}"` : "an item";
+  switch (type) {
+    case "NOTE_EDITED":
+      return `${actorName} edited your note`;
+    case "ITEM_COMPLETED":
+      return `${actorName} completed ${item} on your note`;
+    case "ITEM_ASSIGNED":
+      return `${actorName} assigned ${item} to you`;
+    case "MENTIONED":
+      return `${actorName} mentioned you in ${item}`;
+    // Reminders come from the scheduler rather than from another member
+    case "ITEM_DUE_SOON":
+      return content ? `"${content}" is due soon` : "An item assigned to you is due soon";
+    case "ITEM_OVERDUE":
+      return content ? `"${content}" is overdue` : "An item assigned to you is overdue";
+    default:
+      return `${actorName} updated your note`;
+  }
+}
+
+// Notification as returned by the notifications API
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  readAt: string | null;
+  createdAt: string;
+  checklistItemId: string | null;
+  metadata: { content?: string } | null;
+  actor: { id: string; name: string | null; email: string; image: string | null } | null;
+  note: { id: string; boardId: string; board: { name: string } } | null;
+}
+
+// Pass the organization's members to show mentions in the item by name
+export function describeNotification(
+  notification: Notification,
+  members: MentionMember[] = []
+): string {
+  const actorName = notification.actor?.name || notification.actor?.email || "Someone";
+  const content = notification.metadata?.content;
+  return formatNotificationMessage(
+    notification.type,
+    actorName,
+    content && replaceMentions(content, members)
+  );
+}
@@ -0,0 +1,55 @@
+import "server-only";
+import type { Prisma } from "@prisma/client";
+import type { NotificationEntry } from "./notification-events";
+
+export const notificationInclude = {
+  actor: { select: { id: true, name: true, email: true, image: true } },
+  note: { select: { id: true, boardId: true, board: { select: { name: true } } } },
+} satisfies Prisma.NotificationInclude;
+
+// Store notifications for a note change. Nobody is notified about their own changes, and
+// repeated edits by the same person only show up once until the recipient reads them.
+export async function createNotifications(
+  client: Prisma.TransactionClient,
+  context: { organizationId: string; noteId: string; actorId: string },
+  entries: NotificationEntry[]
+) {
+  const recipients = entries.filter((entry) => entry.userId !== context.actorId);
+  if (recipients.length === 0) {
+    return;
+  }
+
+  const editedUserIds = recipients
+    .filter((entry) => entry.type === "NOTE_EDITED")
+    .map((entry) => entry.userId);
+  const unreadEdits =
+    editedUserIds.length > 0
+      ? await client.notification.findMany({
+          where: {
+            type: "NOTE_EDITED",
+            noteId: context.noteId,
+            actorId: context.actorId,
+            userId: { in: editedUserIds },
+            readAt: null,
+          },
+          select: { userId: true },
+        })
+      : [];
+  const alreadyNotified = new Set(unreadEdits.map((notification) => notification.userId));
+
+  const data = recipients
+    .filter((entry) => entry.type !== "NOTE_EDITED" || !alreadyNotified.has(entry.userId))
+    .map((entry) => ({
+      type: entry.type,
+      userId: entry.userId,
+      actorId: context.actorId,
+      organizationId: context.organizationId,
+      noteId: context.noteId,
+      checklistItemId: entry.checklistItemId,
+      metadata: entry.metadata,
+    }));
+
+  if (data.length > 0) {
+    await client.notification.createMany({ data });
+  }
+}
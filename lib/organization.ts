@@ -0,0 +1,127 @@
+import "server-only";
+import type { Session } from "next-auth";
+import type { OrganizationRole, Prisma } from "@prisma/client";
+import { cookies } from "next/headers";
+import { db } from "./db";
+import { tokenCanWrite, type ApiTokenAccess } from "./api-tokens";
+
+export type { OrganizationRole };
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ["GUEST", "MEMBER", "ADMIN"];
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === "string" && ORGANIZATION_ROLES.includes(value as OrganizationRole);
+}
+
+// The signed-in user as a member of the organization they are currently working in
+export interface ActiveMember {
+  id: string;
+  organizationId: string;
+  role: OrganizationRole;
+  isAdmin: boolean;
+  isGuest: boolean;
+  apiToken?: ApiTokenAccess;
+}
+
+const SESSION_COOKIE_NAMES = ["__Secure-authjs.session-token", "authjs.session-token"];
+
+// Read-only API tokens never carry admin rights, even when their owner is an admin
+export function toActiveMember(
+  userId: string,
+  membership: { organizationId: string; role: OrganizationRole },
+  apiToken?: ApiTokenAccess
+): ActiveMember {
+  return {
+    id: userId,
+    organizationId: membership.organizationId,
+    role: membership.role,
+    isAdmin: membership.role === "ADMIN" && tokenCanWrite(apiToken),
+    isGuest: membership.role === "GUEST",
+    ...(apiToken && { apiToken }),
+  };
+}
+
+// Resolve the session's active organization, falling back to the user's oldest membership
+// when none was selected yet or the user has since left the selected organization
+export async function getActiveMember(session: Session | null): Promise<ActiveMember | null> {
+  const userId = session?.user?.id;
+  if (!userId) {
+    return null;
+  }
+
+  const memberships = await db.organizationMember.findMany({
+    where: { userId },
+    select: { organizationId: true, role: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const selected = memberships.find((m) => m.organizationId === session.activeOrganizationId);
+  // API tokens belong to a single organization and must not fall back to another one
+  const membership = session.apiToken ? selected : (selected ?? memberships[0]);
+
+  return membership ? toActiveMember(userId, membership, session.apiToken) : null;
+}
+
+export const organizationMemberSelect = {
+  role: true,
+  user: { select: { id: true, name: true, email: true, image: true } },
+} satisfies Prisma.OrganizationMemberSelect;
+
+// Flatten memberships into the user-shaped member list the settings UI works with
+export function toMemberList(
+  members: Prisma.OrganizationMemberGetPayload<{ select: typeof organizationMemberSelect }>[]
+) {
+  return members.map(({ role, user }) => ({
+    ...user,
+    role,
+    isAdmin: role === "ADMIN",
+    isGuest: role === "GUEST",
+  }));
+}
+
+// Store the active organization on the current database session
+export async function setActiveOrganization(organizationId: string) {
+  const cookieStore = await cookies();
+  const sessionToken = SESSION_COOKIE_NAMES.map((name) => cookieStore.get(name)?.value).find(
+    Boolean
+  );
+
+  if (!sessionToken) {
+    return;
+  }
+
+  await db.session.updateMany({
+    where: { sessionToken },
+    data: { activeOrganizationId: organizationId },
+  });
+}
+
+// Whether every given user belongs to the organization, e.g. before assigning work to them
+export async function areOrganizationMembers(
+  organizationId: string,
+  userIds: string[]
+): Promise<boolean> {
+  const uniqueIds = Array.from(new Set(userIds));
+  if (uniqueIds.length === 0) {
+    return true;
+  }
+
+  const count = await db.organizationMember.count({
+    where: { organizationId, userId: { in: uniqueIds } },
+  });
+  return count === uniqueIds.length;
+}
+
+// Whether every given label belongs to the organization, before attaching them to a note
+export async function areOrganizationLabels(
+  organizationId: string,
+  labelIds: string[]
+): Promise<boolean> {
+  const uniqueIds = Array.from(new Set(labelIds));
+  if (uniqueIds.length === 0) {
+    return true;
+  }
+
+  const count = await db.label.count({ where: { organizationId, id: { in: uniqueIds } } });
+  return count === uniqueIds.length;
+}
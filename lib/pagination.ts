@@ -0,0 +1,118 @@
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// Pages are ordered by a timestamp, newest first, or by a numeric position, lowest first
+export type CursorKey = Date | number;
+export type CursorDirection = "asc" | "desc";
+
+// Position of the last row on a page. Pages are ordered by a key and then by id, so rows
+// sharing a key are never skipped or repeated.
+export interface PageCursor<K extends CursorKey = Date> {
+  at: K;
+  id: string;
+}
+
+export interface PageParams<K extends CursorKey = Date> {
+  limit: number;
+  cursor: PageCursor<K> | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// Cursors are opaque to clients, so their format can change without breaking the API
+export function encodeCursor(cursor: PageCursor<CursorKey>): string {
+  const at = cursor.at instanceof Date ? cursor.at.toISOString() : cursor.at;
+  return Buffer.from(JSON.stringify([at, cursor.id])).toString("base64url");
+}
+
+// Timestamps are stored as strings and positions as numbers
+export function decodeCursor(value: string): PageCursor<CursorKey> | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded) || decoded.length !== 2) {
+      return null;
+    }
+    const [at, id] = decoded;
+    if (typeof id !== "string" || !id) {
+      return null;
+    }
+    if (typeof at === "number") {
+      return Number.isFinite(at) ? { at, id } : null;
+    }
+    if (typeof at !== "string") {
+      return null;
+    }
+    const date = new Date(at);
+    return isNaN(date.getTime()) ? null : { at: date, id };
+  } catch {
+    return null;
+  }
+}
+
+export function parsePageParams(params: URLSearchParams): PageParams | { error: string };
+export function parsePageParams(
+  params: URLSearchParams,
+  key: "position"
+): PageParams<number> | { error: string };
+export function parsePageParams(
+  params: URLSearchParams,
+  key: "timestamp" | "position" = "timestamp"
+): PageParams<CursorKey> | { error: string } {
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: "limit must be a positive integer" };
+  }
+
+  const cursorParam = params.get("cursor");
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && (!cursor || (typeof cursor.at === "number") !== (key === "position"))) {
+    return { error: "Invalid cursor" };
+  }
+
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), cursor };
+}
+
+// Prisma filter for the rows after `cursor` when ordering by `field` and id in `direction`
+export function cursorWhere<F extends string, K extends CursorKey>(
+  field: F,
+  cursor: PageCursor<K> | null,
+  direction: CursorDirection = "desc"
+) {
+  if (!cursor) {
+    return {};
+  }
+  const after = direction === "desc" ? "lt" : "gt";
+  return {
+    OR: [
+      { [field]: { [after]: cursor.at } } as Record<F, { lt?: K; gt?: K }>,
+      { [field]: cursor.at, id: { [after]: cursor.id } } as Record<F, K> & {
+        id: { lt?: string; gt?: string };
+      },
+    ],
+  };
+}
+
+export function cursorOrderBy<F extends string>(field: F, direction: CursorDirection = "desc") {
+  return [{ [field]: direction } as Record<F, CursorDirection>, { id: direction }];
+}
+
+// Queries fetch one row more than the page size to know whether another page exists
+export function toPage<T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  getKey: (row: T) => CursorKey | null
+): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const lastAt = last ? getKey(last) : null;
+
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && lastAt !== null ? encodeCursor({ at: lastAt, id: last.id }) : null,
+  };
+}
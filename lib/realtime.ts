@@ -0,0 +1,156 @@
+import "server-only";
+import { db } from "./db";
+import type { BoardEvent } from "./board-events";
+import { queueWebhookEvent } from "./webhooks";
+
+// Server-side shape of a board event: notes and items come straight from Prisma,
+// so dates are still Date objects until the event is serialized.
+export type BoardEventInput = {
+  type: BoardEvent["type"];
+  boardId: string;
+  [key: string]: unknown;
+};
+
+export interface SerializedBoardEvent {
+  id: number;
+  boardId: string;
+  // Board a moved note left, whose viewers need to drop it
+  fromBoardId: string | null;
+  data: string;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const EVENT_BATCH_SIZE = 100;
+// Clients that were away longer than this reload the board instead of catching up
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Board events are stored for every server instance to stream to its clients and forwarded to
+// the organization's webhooks
+export async function publishBoardEvent(organizationId: string, event: BoardEventInput) {
+  await db.boardEvent.create({
+    data: {
+      organizationId,
+      boardId: event.boardId,
+      fromBoardId: typeof event.fromBoardId === "string" ? event.fromBoardId : null,
+      data: JSON.stringify(event),
+    },
+  });
+
+  const { type, ...data } = event;
+  await queueWebhookEvent(organizationId, type, data);
+}
+
+// Id of the organization's newest event, new subscribers start streaming after it
+export async function getLatestBoardEventId(organizationId: string): Promise<number> {
+  const latest = await db.boardEvent.findFirst({
+    where: { organizationId },
+    orderBy: { id: "desc" },
+    select: { id: true },
+  });
+  return latest?.id ?? 0;
+}
+
+// Whether events after `afterId` were pruned, so a client resuming from it missed some
+export async function hasMissedBoardEvents(
+  organizationId: string,
+  afterId: number
+): Promise<boolean> {
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { boardEventsPrunedThrough: true },
+  });
+  return (organization?.boardEventsPrunedThrough ?? 0) > afterId;
+}
+
+interface BoardEventSubscriber {
+  // Id of the last event passed to the listener
+  cursor: number;
+  listener: (event: SerializedBoardEvent) => void;
+}
+
+interface OrganizationEventFeed {
+  subscribers: Set<BoardEventSubscriber>;
+  timeout?: ReturnType<typeof setTimeout>;
+}
+
+// One feed per organization polls for every stream this instance serves, so the database load
+// doesn't grow with the number of open boards
+const feeds = new Map<string, OrganizationEventFeed>();
+
+async function pollFeed(organizationId: string, feed: OrganizationEventFeed) {
+  try {
+    const after = Math.min(...Array.from(feed.subscribers, (s) => s.cursor));
+    const events = await db.boardEvent.findMany({
+      where: { organizationId, id: { gt: after } },
+      orderBy: { id: "asc" },
+      take: EVENT_BATCH_SIZE,
+      select: { id: true, boardId: true, fromBoardId: true, data: true },
+    });
+    for (const event of events) {
+      for (const subscriber of Array.from(feed.subscribers)) {
+        // Listeners can unsubscribe while events are passed out
+        if (feed.subscribers.has(subscriber) && event.id > subscriber.cursor) {
+          subscriber.cursor = event.id;
+          subscriber.listener(event);
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Error polling board events:", error);
+  }
+  if (feed.subscribers.size > 0) {
+    feed.timeout = setTimeout(() => pollFeed(organizationId, feed), POLL_INTERVAL_MS);
+  }
+}
+
+function startFeed(organizationId: string): OrganizationEventFeed {
+  const feed: OrganizationEventFeed = { subscribers: new Set() };
+  feed.timeout = setTimeout(() => pollFeed(organizationId, feed), 0);
+  feeds.set(organizationId, feed);
+  return feed;
+}
+
+// Pass the organization's events after `afterId` to `listener` in order
+export function subscribeToBoardEvents(
+  organizationId: string,
+  afterId: number,
+  listener: (event: SerializedBoardEvent) => void
+): () => void {
+  const subscriber: BoardEventSubscriber = { cursor: afterId, listener };
+  const feed = feeds.get(organizationId) ?? startFeed(organizationId);
+  feed.subscribers.add(subscriber);
+
+  return () => {
+    feed.subscribers.delete(subscriber);
+    if (feed.subscribers.size === 0) {
+      clearTimeout(feed.timeout);
+      if (feeds.get(organizationId) === feed) {
+        feeds.delete(organizationId);
+      }
+    }
+  };
+}
+
+// Remove old events, remembering per organization the newest one removed so resuming clients
+// can tell whether they missed any
+export async function pruneBoardEvents(now = new Date()): Promise<number> {
+  const pruned = await db.boardEvent.groupBy({
+    by: ["organizationId"],
+    where: { createdAt: { lt: new Date(now.getTime() - EVENT_RETENTION_MS) } },
+    _max: { id: true },
+  });
+
+  let count = 0;
+  for (const { organizationId, _max } of pruned) {
+    const prunedThrough = _max.id ?? 0;
+    const [deleted] = await db.$transaction([
+      db.boardEvent.deleteMany({ where: { organizationId, id: { lte: prunedThrough } } }),
+      db.organization.update({
+        where: { id: organizationId },
+        data: { boardEventsPrunedThrough: prunedThrough },
+      }),
+    ]);
+    count += deleted.count;
+  }
+  return count;
+}
@@ -0,0 +1,144 @@
+// Matched terms in search highlights are wrapped in these control characters so that the
+// client can mark them up without rendering note content as HTML
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface NoteSearchFilters {
+  query: string;
+  boardId?: string;
+  authorId?: string;
+  // Notes with at least one of these labels
+  labelIds?: string[];
+  startDate?: Date;
+  endDate?: Date;
+  // true: every checklist item is done, false: at least one item is still open
+  checked?: boolean;
+  // true: only archived notes, false: only active notes, undefined: both
+  archived?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Turn free text into a prefix-matching tsquery ("meet no" -> "meet:* & no:*"). Only letters
+// and digits are kept so user input can never produce tsquery syntax errors.
+export function buildSearchQuery(term: string): string | null {
+  const words = term.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) {
+    return null;
+  }
+  return Array.from(new Set(words))
+    .map((word) => `${word}:*`)
+    .join(" & ");
+}
+
+export function splitSearchHighlight(highlight: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = highlight;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+
+    const end = rest.indexOf(SEARCH_HIGHLIGHT_END, start);
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), match: false });
+    }
+    if (end === -1) {
+      segments.push({ text: rest.slice(start + 1), match: true });
+      break;
+    }
+    segments.push({ text: rest.slice(start + 1, end), match: true });
+    rest = rest.slice(end + 1);
+  }
+
+  return segments.filter((segment) => segment.text.length > 0);
+}
+
+export function hasSearchMatch(highlight: string | null | undefined): boolean {
+  return !!highlight && highlight.includes(SEARCH_HIGHLIGHT_START);
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseBoolean(value: string | null): boolean | undefined | null {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
+
+function parseNonNegativeInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export function parseSearchFilters(
+  params: URLSearchParams
+): { filters: NoteSearchFilters } | { error: string } {
+  const query = params.get("q")?.trim() ?? "";
+  if (!buildSearchQuery(query)) {
+    return { error: "Search query is required" };
+  }
+
+  const startDate = parseDate(params.get("startDate"));
+  const endDate = parseDate(params.get("endDate"));
+  if (startDate === null || endDate === null) {
+    return { error: "Invalid date range" };
+  }
+
+  const checked = parseBoolean(params.get("checked"));
+  if (checked === null) {
+    return { error: "checked must be true or false" };
+  }
+
+  const archivedParam = params.get("archived");
+  const archived = archivedParam === "all" ? undefined : parseBoolean(archivedParam || "false");
+  if (archived === null) {
+    return { error: "archived must be true, false or all" };
+  }
+
+  const limit = parseNonNegativeInt(params.get("limit"), DEFAULT_SEARCH_LIMIT);
+  const offset = parseNonNegativeInt(params.get("offset"), 0);
+  if (limit === null || limit === 0 || offset === null) {
+    return { error: "Invalid pagination" };
+  }
+
+  const labelIds = params.getAll("labelId").filter(Boolean);
+
+  return {
+    filters: {
+      query,
+      boardId: params.get("boardId") || undefined,
+      authorId: params.get("authorId") || undefined,
+      labelIds: labelIds.length > 0 ? labelIds : undefined,
+      startDate,
+      endDate,
+      checked,
+      archived,
+      limit: Math.min(limit, MAX_SEARCH_LIMIT),
+      offset,
+    },
+  };
+}
@@ -0,0 +1,277 @@
+import "server-only";
+import { db } from "./db";
+import {
+  SLACK_DEBOUNCE_MS,
+  buildSlackMessage,
+  formatMentionForSlack,
+  formatMentionsForSlack,
+  formatNoteForSlack,
+  formatNoteStatusForSlack,
+  formatTodoForSlack,
+  getSlackRetryDelay,
+  getSlackThrottleKey,
+  isSlackNotificationEnabled,
+  type SlackMentionMember,
+} from "./slack";
+import { extractMentionIds, type ChecklistMention } from "./mentions";
+import { getNoteSummary } from "./note-text";
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// A message being sent is pushed back by this much so the retry job cannot send it twice
+const DELIVERY_LEASE_MS = 60 * 1000;
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Debounce notifications per user and board. The last notification time lives in the
+// database so the debounce holds across restarts and server instances.
+export async function shouldSendNotification(
+  userId: string,
+  boardId: string,
+  boardName: string,
+  sendSlackUpdates: boolean = true
+): Promise<boolean> {
+  if (!isSlackNotificationEnabled(boardName, sendSlackUpdates)) {
+    return false;
+  }
+
+  const key = getSlackThrottleKey(userId, boardId);
+  const now = new Date();
+
+  const { count: refreshed } = await db.slackNotificationThrottle.updateMany({
+    where: { key, lastNotifiedAt: { lte: new Date(now.getTime() - SLACK_DEBOUNCE_MS) } },
+    data: { lastNotifiedAt: now },
+  });
+  if (refreshed > 0) {
+    return true;
+  }
+
+  const { count: created } = await db.slackNotificationThrottle.createMany({
+    data: [{ key, lastNotifiedAt: now }],
+    skipDuplicates: true,
+  });
+  return created > 0;
+}
+
+// Store the message in the outbox and try to send it right away. Messages that fail are
+// retried by the Slack outbox cron job, so callers never see delivery errors.
+export async function enqueueSlackMessage(
+  organizationId: string,
+  text: string,
+  options: { noteId?: string } = {}
+): Promise<void> {
+  const now = new Date();
+  const message = await db.slackOutboxMessage.create({
+    data: { organizationId, text, noteId: options.noteId, nextAttemptAt: now },
+    select: { id: true },
+  });
+
+  try {
+    await deliverSlackMessage(message.id, now);
+  } catch (error) {
+    console.error("Error delivering Slack message:", error);
+  }
+}
+
+async function getSlackMentionMembers(
+  organizationId: string,
+  content: string
+): Promise<SlackMentionMember[]> {
+  const userIds = extractMentionIds(content);
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const members = await db.organizationMember.findMany({
+    where: { organizationId, userId: { in: userIds } },
+    select: { slackUserId: true, user: { select: { id: true, name: true, email: true } } },
+  });
+  return members.map(({ slackUserId, user }) => ({ ...user, slackUserId }));
+}
+
+// Show mentions in checklist content with the members' current names
+export async function resolveSlackMentions(
+  organizationId: string,
+  content: string,
+  notifyUserIds: string[] = []
+): Promise<string> {
+  const members = await getSlackMentionMembers(organizationId, content);
+  return formatMentionsForSlack(content, members, notifyUserIds);
+}
+
+// Like the other messages, mentions are resolved before the note is put into Slack markup
+export async function sendNoteNotification(
+  organizationId: string,
+  note: {
+    id: string;
+    title?: string | null;
+    body?: string | null;
+    checklistItems?: Array<{ content: string }>;
+  },
+  boardName: string,
+  userName: string
+): Promise<void> {
+  const summary = getNoteSummary(note);
+  const content = summary ? await resolveSlackMentions(organizationId, summary) : null;
+  await enqueueSlackMessage(
+    organizationId,
+    // The resolved summary is all the formatter shows of the note
+    formatNoteForSlack({ title: content }, boardName, userName),
+    { noteId: note.id }
+  );
+}
+
+export async function sendTodoNotification(
+  organizationId: string,
+  todoContent: string,
+  boardName: string,
+  userName: string,
+  action: "added" | "completed"
+): Promise<void> {
+  const content = await resolveSlackMentions(organizationId, todoContent);
+  await enqueueSlackMessage(
+    organizationId,
+    formatTodoForSlack(content, boardName, userName, action)
+  );
+}
+
+export async function updateSlackMessage(
+  organizationId: string,
+  originalText: string,
+  completed: boolean,
+  boardName: string,
+  userName: string
+): Promise<void> {
+  const content = await resolveSlackMentions(organizationId, originalText);
+  await enqueueSlackMessage(
+    organizationId,
+    formatNoteStatusForSlack(content, completed, boardName, userName)
+  );
+}
+
+// Mentions skip the debounce so nobody misses one. Members who set their Slack member ID
+// get pinged, self-mentions are not sent.
+export async function sendMentionNotifications(
+  organizationId: string,
+  mentions: ChecklistMention[],
+  actorId: string,
+  boardName: string,
+  sendSlackUpdates: boolean,
+  userName: string
+): Promise<void> {
+  if (!isSlackNotificationEnabled(boardName, sendSlackUpdates)) {
+    return;
+  }
+
+  for (const mention of mentions) {
+    const userIds = mention.userIds.filter((userId) => userId !== actorId);
+    if (userIds.length === 0) {
+      continue;
+    }
+    const content = await resolveSlackMentions(organizationId, mention.content, userIds);
+    await enqueueSlackMessage(organizationId, formatMentionForSlack(content, boardName, userName));
+  }
+}
+
+export async function deliverSlackMessage(messageId: string, now = new Date()): Promise<void> {
+  const claimed = await db.slackOutboxMessage.updateMany({
+    where: { id: messageId, status: "PENDING", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+  });
+
+  if (claimed.count === 0) {
+    return;
+  }
+
+  const message = await db.slackOutboxMessage.findUniqueOrThrow({
+    where: { id: messageId },
+    include: { organization: { select: { slackWebhookUrl: true } } },
+  });
+
+  const webhookUrl = message.organization.slackWebhookUrl;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!webhookUrl) {
+    error = "Slack webhook URL is not configured";
+  } else {
+    try {
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(buildSlackMessage(message.text)),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Slack responded with ${response.status} ${response.statusText}`.trim();
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : "Unknown error";
+    }
+  }
+
+  const attempts = message.attempts + 1;
+  // A missing webhook URL won't fix itself, so give up right away
+  const retryDelay = error && webhookUrl ? getSlackRetryDelay(attempts) : null;
+
+  await db.slackOutboxMessage.update({
+    where: { id: message.id },
+    data: {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      error,
+      status: !error ? "SENT" : retryDelay === null ? "FAILED" : "PENDING",
+      sentAt: !error ? now : null,
+      nextAttemptAt: retryDelay === null ? null : new Date(Date.now() + retryDelay),
+    },
+  });
+
+  if (!error && message.noteId) {
+    await db.note.updateMany({
+      where: { id: message.noteId },
+      data: { slackMessageId: message.id },
+    });
+  }
+}
+
+// Put a failed message back in the queue and try to send it again
+export async function retrySlackMessage(messageId: string): Promise<void> {
+  const now = new Date();
+  await db.slackOutboxMessage.update({
+    where: { id: messageId },
+    data: { status: "PENDING", attempts: 0, error: null, nextAttemptAt: now },
+  });
+  await deliverSlackMessage(messageId, now);
+}
+
+// Retry messages whose backoff has elapsed, oldest first
+export async function processDueSlackMessages(now = new Date(), limit = 50): Promise<number> {
+  const due = await db.slackOutboxMessage.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  for (const message of due) {
+    await deliverSlackMessage(message.id, now);
+  }
+
+  return due.length;
+}
+
+// Drop sent messages and stale debounce entries, failed messages stay until an admin dismisses them
+export async function pruneSlackOutbox(now = new Date()): Promise<number> {
+  const [sent] = await db.$transaction([
+    db.slackOutboxMessage.deleteMany({
+      where: { status: "SENT", sentAt: { lt: new Date(now.getTime() - SENT_RETENTION_MS) } },
+    }),
+    db.slackNotificationThrottle.deleteMany({
+      where: { lastNotifiedAt: { lt: new Date(now.getTime() - SLACK_DEBOUNCE_MS) } },
+    }),
+  ]);
+  return sent.count;
+}
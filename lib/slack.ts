@@ -1,4 +1,14 @@
-interface SlackMessage {
+import { toSlackMarkdown } from "./markdown";
+import { getNoteSummary } from "./note-text";
+import type { BulkNoteAction } from "./bulk-actions";
+import {
+  getMentionLabel,
+  splitMentions,
+  FORMER_MEMBER_LABEL,
+  type MentionMember,
+} from "./mentions";
+
+export interface SlackMessage {
   text: string;
   username?: string;
   icon_emoji?: string;
@@ -21,105 +31,97 @@ export function hasValidContent(content: string | null | undefined): boolean {
   return hasSubstantiveContent;
 }
 
-const notificationDebounce = new Map<string, number>();
-const DEBOUNCE_DURATION = 1000;
+export const SLACK_DEBOUNCE_MS = 1000;
+export const MAX_SLACK_ATTEMPTS = 5;
 
-export function shouldSendNotification(
-  userId: string,
-  boardId: string,
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+
+// Test boards and boards with Slack updates turned off never notify
+export function isSlackNotificationEnabled(
   boardName: string,
   sendSlackUpdates: boolean = true
 ): boolean {
-  if (boardName.startsWith("Test")) {
-    return false;
-  }
+  return !boardName.startsWith("Test") && sendSlackUpdates;
+}
 
-  if (!sendSlackUpdates) {
-    return false;
+// Notifications are debounced per user and board
+export function getSlackThrottleKey(userId: string, boardId: string): string {
+  return `${userId}-${boardId}`;
+}
+
+// Exponential backoff after the given number of failed attempts: 30s, 1, 2 and 4 minutes.
+// Returns null once the message should give up.
+export function getSlackRetryDelay(attempts: number): number | null {
+  if (attempts >= MAX_SLACK_ATTEMPTS) {
+    return null;
   }
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
 
-  const key = `${userId}-${boardId}`;
-  const now = Date.now();
-  const lastNotification = notificationDebounce.get(key);
+// Members resolved for a Slack message, with their Slack member ID when they set one
+export interface SlackMentionMember extends MentionMember {
+  slackUserId: string | null;
+}
 
-  if (lastNotification && now - lastNotification < DEBOUNCE_DURATION) {
-    return false;
-  }
+// Slack member IDs look like U024BE7LH, W for Enterprise Grid users
+export function isSlackUserId(value: unknown): value is string {
+  return typeof value === "string" && /^[UW][A-Z0-9]{2,}$/.test(value);
+}
 
-  notificationDebounce.set(key, now);
-  return true;
+// Show mentions by name, pinging the given users in Slack when their member ID is known
+export function formatMentionsForSlack(
+  content: string,
+  members: SlackMentionMember[],
+  notifyUserIds: string[] = []
+): string {
+  return splitMentions(content)
+    .map((segment) => {
+      if (segment.type === "text") {
+        return segment.text;
+      }
+      const member = members.find((m) => m.id === segment.userId);
+      if (!member) {
+        return `@${FORMER_MEMBER_LABEL}`;
+      }
+      return member.slackUserId && notifyUserIds.includes(member.id)
+        ? `<@${member.slackUserId}>`
+        : `@${getMentionLabel(member)}`;
+    })
+    .join("");
 }
 
-export async function sendSlackMessage(
-  webhookUrl: string,
-  message: SlackMessage
-): Promise<string | null> {
-  try {
-    const response = await fetch(webhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(message),
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to send Slack message: ${response.status} ${response.statusText}`);
-      return null;
-    }
-
-    return Date.now().toString();
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error(`Error sending Slack message: ${errorMessage}`);
-    return null;
-  }
+export function buildSlackMessage(text: string): SlackMessage {
+  return {
+    text,
+    username: "Gumboard",
+    icon_emoji: ":clipboard:",
+  };
 }
 
-export async function updateSlackMessage(
-  webhookUrl: string,
-  originalText: string,
-  completed: boolean,
+export function formatNoteForSlack(
+  note: {
+    title?: string | null;
+    body?: string | null;
+    checklistItems?: Array<{ content: string }>;
+  },
   boardName: string,
   userName: string
-): Promise<void> {
-  try {
-    const updatedText = completed
-      ? `:white_check_mark: ${originalText} by ${userName} in ${boardName}`
-      : `:heavy_plus_sign: ${originalText} by ${userName} in ${boardName}`;
-
-    const response = await fetch(webhookUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        text: updatedText,
-        username: "Gumboard",
-        icon_emoji: ":clipboard:",
-      }),
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to update Slack message: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error(`Error updating Slack message: ${errorMessage}`);
-  }
+): string {
+  const summary = getNoteSummary(note);
+  const content = summary ? toSlackMarkdown(summary) : "New note";
+  return `:heavy_plus_sign: ${content} by ${userName} in ${boardName}`;
 }
 
-export function formatNoteForSlack(
-  note: { checklistItems?: Array<{ content: string }> },
+export function formatNoteStatusForSlack(
+  originalText: string,
+  completed: boolean,
   boardName: string,
   userName: string
 ): string {
-  // Get content from first checklist item
-  const content =
-    note.checklistItems && note.checklistItems.length > 0
-      ? note.checklistItems[0].content
-      : "New note";
-  return `:heavy_plus_sign: ${content} by ${userName} in ${boardName}`;
+  const text = toSlackMarkdown(originalText);
+  return completed
+    ? `:white_check_mark: ${text} by ${userName} in ${boardName}`
+    : `:heavy_plus_sign: ${text} by ${userName} in ${boardName}`;
 }
 
 export function formatTodoForSlack(
@@ -128,23 +130,49 @@ export function formatTodoForSlack(
   userName: string,
   action: "added" | "completed"
 ): string {
+  // Keep the item's formatting in Slack's own markup
+  const content = toSlackMarkdown(todoContent);
   if (action === "completed") {
-    return `:white_check_mark: ${todoContent} by ${userName} in ${boardName}`;
+    return `:white_check_mark: ${content} by ${userName} in ${boardName}`;
   }
-  return `:heavy_plus_sign: ${todoContent} by ${userName} in ${boardName}`;
+  return `:heavy_plus_sign: ${content} by ${userName} in ${boardName}`;
 }
 
-export async function sendTodoNotification(
-  webhookUrl: string,
-  todoContent: string,
-  boardName: string,
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// One message for a whole bulk action instead of one per note
+export function formatBulkActionForSlack(
+  action: BulkNoteAction,
+  counts: { notes: number; items?: number },
+  boardNames: string[],
   userName: string,
-  action: "added" | "completed"
-): Promise<string | null> {
-  const message = formatTodoForSlack(todoContent, boardName, userName, action);
-  return await sendSlackMessage(webhookUrl, {
-    text: message,
-    username: "Gumboard",
-    icon_emoji: ":clipboard:",
-  });
+  targetBoardName?: string
+): string {
+  const notes = pluralize(counts.notes, "note");
+  const boards = boardNames.length === 1 ? boardNames[0] : pluralize(boardNames.length, "board");
+  const suffix = `by ${userName} in ${boards}`;
+  switch (action.type) {
+    case "archive":
+      return `:white_check_mark: Archived ${notes} ${suffix}`;
+    case "unarchive":
+      return `:heavy_plus_sign: Restored ${notes} from the archive ${suffix}`;
+    case "delete":
+      return `:wastebasket: Deleted ${notes} ${suffix}`;
+    case "move":
+      return `:arrow_right: Moved ${notes} to ${targetBoardName} ${suffix}`;
+    case "color":
+      return `:art: Recolored ${notes} ${suffix}`;
+    case "checkAll":
+      return `:white_check_mark: Completed ${pluralize(counts.items ?? 0, "item")} on ${notes} ${suffix}`;
+  }
+}
+
+export function formatMentionForSlack(
+  content: string,
+  boardName: string,
+  userName: string
+): string {
+  return `:speech_balloon: ${toSlackMarkdown(content)} by ${userName} in ${boardName}`;
 }
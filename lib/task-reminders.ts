@@ -0,0 +1,86 @@
+import "server-only";
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+
+// Assignees are reminded about unchecked items due within a day, and once more when an item
+// becomes overdue. The job runs hourly, so items that were overdue for longer than a day when
+// reminders started are left alone instead of all being announced at once.
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+const REMINDER_BATCH_SIZE = 200;
+
+type ReminderType = "ITEM_DUE_SOON" | "ITEM_OVERDUE";
+
+// Items not reminded about yet for their current due date
+function notRemindedWhere(type: ReminderType): Prisma.ChecklistItemWhereInput {
+  const dueDate = db.checklistItem.fields.dueDate;
+  return type === "ITEM_DUE_SOON"
+    ? { OR: [{ dueSoonRemindedFor: null }, { NOT: { dueSoonRemindedFor: { equals: dueDate } } }] }
+    : { OR: [{ overdueRemindedFor: null }, { NOT: { overdueRemindedFor: { equals: dueDate } } }] };
+}
+
+async function sendReminders(type: ReminderType, dueDate: Prisma.DateTimeNullableFilter) {
+  const items = await db.checklistItem.findMany({
+    where: {
+      checked: false,
+      assigneeId: { not: null },
+      dueDate,
+      note: { deletedAt: null, archivedAt: null },
+      ...notRemindedWhere(type),
+    },
+    select: {
+      id: true,
+      content: true,
+      dueDate: true,
+      assigneeId: true,
+      noteId: true,
+      note: { select: { board: { select: { organizationId: true } } } },
+    },
+    orderBy: { dueDate: "asc" },
+    take: REMINDER_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  for (const item of items) {
+    // Claiming the item first keeps overlapping runs from reminding twice
+    const reminded = await db.$transaction(async (tx) => {
+      const claimed = await tx.checklistItem.updateMany({
+        where: { id: item.id, ...notRemindedWhere(type) },
+        data:
+          type === "ITEM_DUE_SOON"
+            ? { dueSoonRemindedFor: item.dueDate }
+            : { overdueRemindedFor: item.dueDate },
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.notification.create({
+        data: {
+          type,
+          userId: item.assigneeId!,
+          organizationId: item.note.board.organizationId,
+          noteId: item.noteId,
+          checklistItemId: item.id,
+          metadata: { content: item.content },
+        },
+      });
+      return true;
+    });
+    if (reminded) {
+      sent++;
+    }
+  }
+  return sent;
+}
+
+export async function sendTaskReminders(now = new Date()) {
+  const dueSoon = await sendReminders("ITEM_DUE_SOON", {
+    gt: now,
+    lte: new Date(now.getTime() + REMINDER_WINDOW_MS),
+  });
+  const overdue = await sendReminders("ITEM_OVERDUE", {
+    gt: new Date(now.getTime() - REMINDER_WINDOW_MS),
+    lte: now,
+  });
+  return { dueSoon, overdue };
+}
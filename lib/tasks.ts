@@ -0,0 +1,86 @@
+// Pure helpers for checklist item assignees and due dates
+
+export interface TaskDetails {
+  assigneeId?: string | null;
+  dueDate?: Date | null;
+}
+
+interface TaskItem {
+  checked: boolean;
+  assigneeId?: string | null;
+  dueDate?: string | Date | null;
+}
+
+export interface TaskFilters {
+  assigneeId?: string | null;
+  overdueOnly?: boolean;
+}
+
+// Read the optional assignee and due date of a checklist item from a request body. Missing
+// fields stay undefined so updates leave them untouched, null clears them.
+export function parseTaskDetails(body: {
+  assigneeId?: unknown;
+  dueDate?: unknown;
+}): { details: TaskDetails } | { error: string } {
+  const { assigneeId, dueDate } = body;
+  const details: TaskDetails = {};
+
+  if (assigneeId !== undefined) {
+    if (assigneeId !== null && (typeof assigneeId !== "string" || !assigneeId)) {
+      return { error: "assigneeId must be a user id or null" };
+    }
+    details.assigneeId = assigneeId;
+  }
+
+  if (dueDate !== undefined) {
+    const date = typeof dueDate === "string" ? new Date(dueDate) : null;
+    if (dueDate !== null && (!date || isNaN(date.getTime()))) {
+      return { error: "dueDate must be a date or null" };
+    }
+    details.dueDate = date;
+  }
+
+  return { details };
+}
+
+// Tasks are due at the end of the chosen day in the user's timezone
+export function toDueDate(dateInputValue: string): string | null {
+  const [year, month, day] = dateInputValue.split("-").map(Number);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day, 23, 59, 59, 999).toISOString();
+}
+
+// Format a due date for <input type="date">, which expects a local YYYY-MM-DD
+export function toDateInputValue(dueDate: string | Date | null | undefined): string {
+  if (!dueDate) {
+    return "";
+  }
+  const date = new Date(dueDate);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isOverdue(item: TaskItem, now: Date = new Date()): boolean {
+  return !item.checked && !!item.dueDate && new Date(item.dueDate) < now;
+}
+
+// Keep notes with at least one checklist item matching every filter
+export function filterNotesByTasks<T extends { checklistItems?: TaskItem[] }>(
+  notes: T[],
+  filters: TaskFilters,
+  now: Date = new Date()
+): T[] {
+  if (!filters.assigneeId && !filters.overdueOnly) {
+    return notes;
+  }
+
+  return notes.filter((note) =>
+    (note.checklistItems ?? []).some(
+      (item) =>
+        (!filters.assigneeId || item.assigneeId === filters.assigneeId) &&
+        (!filters.overdueOnly || isOverdue(item, now))
+    )
+  );
+}
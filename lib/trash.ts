@@ -0,0 +1,15 @@
+import "server-only";
+import { db } from "./db";
+import { env } from "./env";
+
+export function getTrashRetentionCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - env.TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Permanently delete notes that have been in the trash longer than the retention period
+export async function purgeExpiredNotes(now: Date = new Date()): Promise<number> {
+  const { count } = await db.note.deleteMany({
+    where: { deletedAt: { lt: getTrashRetentionCutoff(now) } },
+  });
+  return count;
+}
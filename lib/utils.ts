@@ -1,4 +1,5 @@
 import { Note } from "@/components/note";
+import { hasSearchMatch } from "@/lib/search";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -72,6 +73,7 @@ export function calculateNoteHeight(
   const actualNotePadding = notePadding || config.notePadding;
 
   const headerHeight = 60;
+  const searchHighlightHeight = hasSearchMatch(note.searchHighlight) ? 40 : 0;
   const paddingHeight = actualNotePadding * 2;
   const minContentHeight = 60;
 
@@ -79,14 +81,43 @@ export function calculateNoteHeight(
   const itemSpacing = 4;
   const checklistItemsCount = note.checklistItems?.length || 0;
   const addingItemHeight = addingChecklistItem === note.id ? 32 : 0;
+  // Items with an assignee or due date show them in a row of badges below the content
+  const itemDetailsHeight = 20;
+  const itemsWithDetailsCount =
+    note.checklistItems?.filter((item) => item.assigneeId || item.dueDate).length || 0;
 
   const checklistHeight =
     checklistItemsCount * itemHeight +
+    itemsWithDetailsCount * itemDetailsHeight +
     (checklistItemsCount > 0 ? (checklistItemsCount - 1) * itemSpacing : 0) +
     addingItemHeight;
   const totalChecklistHeight = Math.max(minContentHeight, checklistHeight);
 
-  return headerHeight + paddingHeight + totalChecklistHeight;
+  // The title takes a line of its own, the body wraps at roughly the note's width
+  const titleHeight = note.title ? 28 : 0;
+  const bodyLineHeight = 20;
+  const charWidth = 7;
+  const charsPerLine = Math.max(
+    20,
+    Math.floor(((noteWidth || config.noteWidth) - actualNotePadding * 2) / charWidth)
+  );
+  const bodyLines = note.body
+    ? note.body
+        .split("\n")
+        .reduce((lines, line) => lines + Math.max(1, Math.ceil(line.length / charsPerLine)), 0)
+    : 0;
+  const bodyHeight = bodyLines > 0 ? bodyLines * bodyLineHeight + 8 : 0;
+  const labelsHeight = note.labels && note.labels.length > 0 ? 24 : 0;
+
+  return (
+    headerHeight +
+    searchHighlightHeight +
+    paddingHeight +
+    titleHeight +
+    bodyHeight +
+    labelsHeight +
+    totalChecklistHeight
+  );
 }
 
 // Helper function to calculate bin-packed layout for desktop
@@ -205,7 +236,12 @@ export function filterAndSortNotes(
       const authorName = (note.user.name || note.user.email).toLowerCase();
       const checklistContent =
         note.checklistItems?.map((item) => item.content.toLowerCase()).join(" ") || "";
-      return authorName.includes(search) || checklistContent.includes(search);
+      const noteText = [note.title, note.body].filter(Boolean).join(" ").toLowerCase();
+      return (
+        authorName.includes(search) ||
+        noteText.includes(search) ||
+        checklistContent.includes(search)
+      );
     });
   }
 
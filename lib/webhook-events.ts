@@ -0,0 +1,136 @@
+export const WEBHOOK_EVENTS = [
+  "board.created",
+  "board.updated",
+  "board.deleted",
+  "note.created",
+  "note.updated",
+  "note.archived",
+  "note.unarchived",
+  "note.deleted",
+  "note.restored",
+  "note.purged",
+  "note.moved",
+  "checklist.created",
+  "checklist.updated",
+  "checklist.completed",
+  "checklist.deleted",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+// A webhook without an event filter receives every event
+export function webhookMatchesEvent(events: string[], event: WebhookEvent): boolean {
+  return events.length === 0 || events.includes(event);
+}
+
+// Exponential backoff after the given number of failed attempts: 1, 2, 4, 8, 16 minutes.
+// Returns null once the delivery should give up.
+export function getWebhookRetryDelay(attempts: number): number | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    return null;
+  }
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.map(Number);
+}
+
+// The eight 16-bit groups of an IPv6 address, including ones ending in an embedded IPv4 address
+function parseIPv6(address: string): number[] | null {
+  let value = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const embedded = value.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIPv4(embedded[1]);
+    if (!ipv4) {
+      return null;
+    }
+    value = `${value.slice(0, -embedded[1].length)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = value.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  const groups = [...head, ...Array<string>(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+// Whether an IP address is loopback, private, link-local or otherwise not on the public
+// internet. Anything that isn't an IP address is treated as private.
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) {
+    return isPrivateIPv4(ipv4);
+  }
+
+  const ipv6 = parseIPv6(address);
+  if (!ipv6) {
+    return true;
+  }
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the IPv4 address
+  const mapped = ipv6.slice(0, 5).every((group) => group === 0) && ipv6[5] === 0xffff;
+  const nat64 = ipv6[0] === 0x64 && ipv6[1] === 0xff9b && ipv6.slice(2, 6).every((g) => g === 0);
+  if (mapped || nat64) {
+    return isPrivateIPv4([ipv6[6] >> 8, ipv6[6] & 0xff, ipv6[7] >> 8, ipv6[7] & 0xff]);
+  }
+  return (
+    ipv6.slice(0, 7).every((group) => group === 0) || // Unspecified and loopback
+    (ipv6[0] & 0xfe00) === 0xfc00 || // Unique local
+    (ipv6[0] & 0xffc0) === 0xfe80 || // Link-local
+    (ipv6[0] & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+// Webhooks are sent from the server, so they must use https and can't point at the server's
+// own network. Hostnames are resolved and checked again before every delivery.
+export function isValidWebhookUrl(value: unknown): value is string {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    const hostname = url.hostname.toLowerCase();
+    if (url.protocol !== "https:" || hostname === "localhost" || hostname.endsWith(".localhost")) {
+      return false;
+    }
+    const isIPAddress = parseIPv4(hostname) !== null || hostname.startsWith("[");
+    return !isIPAddress || !isPrivateAddress(hostname);
+  } catch {
+    return false;
+  }
+}
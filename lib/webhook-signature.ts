@@ -0,0 +1,11 @@
+import { createHmac, randomBytes } from "crypto";
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+// Receivers recompute this over `${timestamp}.${body}` to verify the
+// `X-Gumboard-Signature: sha256=<hex>` header and reject replayed payloads
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
@@ -0,0 +1,157 @@
+import "server-only";
+import { lookup } from "dns/promises";
+import { after } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import {
+  getWebhookRetryDelay,
+  isPrivateAddress,
+  webhookMatchesEvent,
+  type WebhookEvent,
+} from "./webhook-events";
+import { signWebhookPayload } from "./webhook-signature";
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// A delivery being sent is pushed back by this much so the retry job cannot send it twice
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+// Queue a delivery for every active webhook of the organization subscribed to `event`. The
+// deliveries are stored before the request responds, so no event is lost when the function
+// stops afterwards; they are sent once the response is done, and failed ones are retried by the
+// webhook cron job. Webhook failures never fail the request.
+export async function queueWebhookEvent(
+  organizationId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+) {
+  try {
+    const webhooks = await db.webhook.findMany({
+      where: { organizationId, isActive: true },
+      select: { id: true, events: true },
+    });
+    const subscribed = webhooks.filter((webhook) => webhookMatchesEvent(webhook.events, event));
+
+    if (subscribed.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    // Round-trip through JSON so Prisma dates are stored the way they will be sent
+    const payload = JSON.parse(
+      JSON.stringify({ event, organizationId, createdAt: now, data })
+    ) as Prisma.InputJsonObject;
+
+    const deliveries = await db.$transaction(
+      subscribed.map((webhook) =>
+        db.webhookDelivery.create({
+          data: { webhookId: webhook.id, event, payload, nextAttemptAt: now },
+          select: { id: true },
+        })
+      )
+    );
+
+    after(async () => {
+      try {
+        await Promise.all(deliveries.map((delivery) => attemptWebhookDelivery(delivery.id, now)));
+      } catch (error) {
+        console.error("Error sending webhook deliveries:", error);
+      }
+    });
+  } catch (error) {
+    console.error("Error queueing webhook event:", error);
+  }
+}
+
+// Whether every address the URL's host resolves to is on the public internet. Checked right
+// before sending, since a hostname can point somewhere else than when the webhook was saved.
+export async function resolvesToPublicAddress(url: string): Promise<boolean> {
+  try {
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+export async function attemptWebhookDelivery(deliveryId: string, now = new Date()) {
+  const claimed = await db.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: "PENDING", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+  });
+
+  if (claimed.count === 0) {
+    return;
+  }
+
+  const delivery = await db.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { webhook: { select: { url: true, secret: true } } },
+  });
+
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Prisma.JsonObject) });
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    if (!(await resolvesToPublicAddress(delivery.webhook.url))) {
+      throw new Error("Webhook URL does not resolve to a public address");
+    }
+
+    // Redirects aren't followed, so an endpoint can't send the request on to a private address
+    const response = await fetch(delivery.webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Gumboard-Webhooks",
+        "X-Gumboard-Event": delivery.event,
+        "X-Gumboard-Delivery": delivery.id,
+        "X-Gumboard-Timestamp": String(timestamp),
+        "X-Gumboard-Signature": signWebhookPayload(delivery.webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : "Delivery failed";
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retryDelay = error ? getWebhookRetryDelay(attempts) : null;
+
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      error,
+      status: !error ? "SUCCEEDED" : retryDelay === null ? "FAILED" : "PENDING",
+      nextAttemptAt: retryDelay === null ? null : new Date(Date.now() + retryDelay),
+    },
+  });
+}
+
+// Retry deliveries whose backoff has elapsed, oldest first
+export async function processDueWebhookDeliveries(now = new Date(), limit = 50) {
+  const due = await db.webhookDelivery.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  for (const delivery of due) {
+    await attemptWebhookDelivery(delivery.id, now);
+  }
+
+  return due.length;
+}
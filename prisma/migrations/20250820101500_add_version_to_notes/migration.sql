@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "notes" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
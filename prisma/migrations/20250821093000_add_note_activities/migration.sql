@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "NoteActivityAction" AS ENUM ('CREATED', 'EDITED', 'CHECKED', 'UNCHECKED', 'REORDERED', 'ARCHIVED', 'RESTORED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "note_activities" (
+    "id" TEXT NOT NULL,
+    "action" "NoteActivityAction" NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "userId" TEXT,
+    "checklistItemId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "note_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_note_activity_note_created" ON "note_activities"("noteId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "idx_note_activity_board_created" ON "note_activities"("boardId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "note_activities" ADD CONSTRAINT "note_activities_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "note_activities" ADD CONSTRAINT "note_activities_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "note_activities" ADD CONSTRAINT "note_activities_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BoardRole" AS ENUM ('OWNER', 'EDITOR', 'COMMENTER', 'VIEWER');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "isGuest" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "board_members" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "BoardRole" NOT NULL DEFAULT 'EDITOR',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "board_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "board_members_boardId_userId_key" ON "board_members"("boardId", "userId");
+
+-- CreateIndex
+CREATE INDEX "board_members_userId_idx" ON "board_members"("userId");
+
+-- AddForeignKey
+ALTER TABLE "board_members" ADD CONSTRAINT "board_members_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "board_members" ADD CONSTRAINT "board_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Make existing board creators owners of their boards
+INSERT INTO "board_members" ("id", "boardId", "userId", "role", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::TEXT, b."id", b."createdBy", 'OWNER', b."createdAt", CURRENT_TIMESTAMP
+FROM "boards" b
+JOIN "users" u ON u."id" = b."createdBy";
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('ADMIN', 'MEMBER', 'GUEST');
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'MEMBER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "organization_members"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "idx_org_member_user" ON "organization_members"("userId");
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each user's single organization into a membership, keeping their role
+INSERT INTO "organization_members" ("id", "organizationId", "userId", "role", "createdAt", "updatedAt")
+SELECT
+  gen_random_uuid()::TEXT,
+  u."organizationId",
+  u."id",
+  CASE
+    WHEN u."isAdmin" THEN 'ADMIN'::"OrganizationRole"
+    WHEN u."isGuest" THEN 'GUEST'::"OrganizationRole"
+    ELSE 'MEMBER'::"OrganizationRole"
+  END,
+  u."createdAt",
+  CURRENT_TIMESTAMP
+FROM "users" u
+WHERE u."organizationId" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "activeOrganizationId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_activeOrganizationId_fkey" FOREIGN KEY ("activeOrganizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- DropForeignKey
+ALTER TABLE "users" DROP CONSTRAINT "users_organizationId_fkey";
+
+-- DropIndex
+DROP INDEX "idx_user_org";
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "organizationId",
+DROP COLUMN "isAdmin",
+DROP COLUMN "isGuest";
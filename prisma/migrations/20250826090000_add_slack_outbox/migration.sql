@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "SlackMessageStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "slack_outbox_messages" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "noteId" TEXT,
+    "text" TEXT NOT NULL,
+    "status" "SlackMessageStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "lastAttemptAt" TIMESTAMP(3),
+    "responseStatus" INTEGER,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slack_outbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "slack_notification_throttles" (
+    "key" TEXT NOT NULL,
+    "lastNotifiedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "slack_notification_throttles_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "slack_outbox_messages_status_nextAttemptAt_idx" ON "slack_outbox_messages"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "slack_outbox_messages_organizationId_status_createdAt_idx" ON "slack_outbox_messages"("organizationId", "status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "slack_outbox_messages" ADD CONSTRAINT "slack_outbox_messages_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "slack_outbox_messages" ADD CONSTRAINT "slack_outbox_messages_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE "notes" ADD COLUMN "searchVector" tsvector;
+
+-- A note's search document: checklist content ranks highest, then the author, then the board name
+CREATE OR REPLACE FUNCTION note_search_vector(note_id TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(ci."content", ' ' ORDER BY ci."order")
+      FROM "checklist_items" ci
+      WHERE ci."noteId" = n."id"
+    ), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(u."name", '') || ' ' || coalesce(u."email", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(b."name", '')), 'C')
+  FROM "notes" n
+  JOIN "users" u ON u."id" = n."createdBy"
+  JOIN "boards" b ON b."id" = n."boardId"
+  WHERE n."id" = note_id
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION notes_refresh_search_vector() RETURNS trigger AS $$
+BEGIN
+  UPDATE "notes" SET "searchVector" = note_search_vector(NEW."id") WHERE "id" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION checklist_items_refresh_search_vector() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE "notes" SET "searchVector" = note_search_vector(OLD."noteId") WHERE "id" = OLD."noteId";
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW."noteId" <> OLD."noteId") THEN
+    UPDATE "notes" SET "searchVector" = note_search_vector(NEW."noteId") WHERE "id" = NEW."noteId";
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION boards_refresh_search_vector() RETURNS trigger AS $$
+BEGIN
+  UPDATE "notes" SET "searchVector" = note_search_vector("id") WHERE "boardId" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION users_refresh_search_vector() RETURNS trigger AS $$
+BEGIN
+  UPDATE "notes" SET "searchVector" = note_search_vector("id") WHERE "createdBy" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "notes_search_vector"
+AFTER INSERT OR UPDATE OF "boardId", "createdBy" ON "notes"
+FOR EACH ROW EXECUTE FUNCTION notes_refresh_search_vector();
+
+CREATE TRIGGER "checklist_items_search_vector"
+AFTER INSERT OR UPDATE OF "content", "noteId" OR DELETE ON "checklist_items"
+FOR EACH ROW EXECUTE FUNCTION checklist_items_refresh_search_vector();
+
+CREATE TRIGGER "boards_search_vector"
+AFTER UPDATE OF "name" ON "boards"
+FOR EACH ROW EXECUTE FUNCTION boards_refresh_search_vector();
+
+CREATE TRIGGER "users_search_vector"
+AFTER UPDATE OF "name", "email" ON "users"
+FOR EACH ROW EXECUTE FUNCTION users_refresh_search_vector();
+
+-- Backfill existing notes
+UPDATE "notes" SET "searchVector" = note_search_vector("id");
+
+-- CreateIndex
+CREATE INDEX "notes_searchVector_idx" ON "notes" USING GIN ("searchVector");
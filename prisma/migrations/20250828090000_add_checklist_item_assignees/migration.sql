@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "checklist_items" ADD COLUMN "assigneeId" TEXT,
+ADD COLUMN "dueDate" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "checklist_items_assigneeId_checked_idx" ON "checklist_items"("assigneeId", "checked");
+
+-- CreateIndex
+CREATE INDEX "checklist_items_dueDate_idx" ON "checklist_items"("dueDate");
+
+-- AddForeignKey
+ALTER TABLE "checklist_items" ADD CONSTRAINT "checklist_items_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('NEVER', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "digestFrequency" "DigestFrequency" NOT NULL DEFAULT 'NEVER',
+ADD COLUMN "digestUnsubscribeToken" TEXT,
+ADD COLUMN "lastDigestSentAt" TIMESTAMP(3);
+
+-- Give existing users an unsubscribe token
+UPDATE "users" SET "digestUnsubscribeToken" = gen_random_uuid()::TEXT;
+ALTER TABLE "users" ALTER COLUMN "digestUnsubscribeToken" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_digestUnsubscribeToken_key" ON "users"("digestUnsubscribeToken");
+
+-- CreateIndex
+CREATE INDEX "users_digestFrequency_lastDigestSentAt_idx" ON "users"("digestFrequency", "lastDigestSentAt");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('NOTE_EDITED', 'ITEM_COMPLETED', 'ITEM_ASSIGNED', 'MENTIONED');
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "userId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "organizationId" TEXT NOT NULL,
+    "noteId" TEXT,
+    "checklistItemId" TEXT,
+    "metadata" JSONB,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_organizationId_createdAt_idx" ON "notifications"("userId", "organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_organizationId_readAt_idx" ON "notifications"("userId", "organizationId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "checklist_items" ADD COLUMN "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "checklist_items_parentId_idx" ON "checklist_items"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "checklist_items" ADD CONSTRAINT "checklist_items_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "checklist_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "notes" ADD COLUMN "title" TEXT,
+ADD COLUMN "body" TEXT;
+
+-- The title ranks highest in a note's search document, its text and checklist come next
+CREATE OR REPLACE FUNCTION note_search_vector(note_id TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(n."title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(n."body", '') || ' ' || coalesce((
+      SELECT string_agg(ci."content", ' ' ORDER BY ci."order")
+      FROM "checklist_items" ci
+      WHERE ci."noteId" = n."id"
+    ), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(u."name", '') || ' ' || coalesce(u."email", '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(b."name", '')), 'D')
+  FROM "notes" n
+  JOIN "users" u ON u."id" = n."createdBy"
+  JOIN "boards" b ON b."id" = n."boardId"
+  WHERE n."id" = note_id
+$$ LANGUAGE sql STABLE;
+
+DROP TRIGGER "notes_search_vector" ON "notes";
+
+CREATE TRIGGER "notes_search_vector"
+AFTER INSERT OR UPDATE OF "boardId", "createdBy", "title", "body" ON "notes"
+FOR EACH ROW EXECUTE FUNCTION notes_refresh_search_vector();
+
+-- Refresh existing notes with the new weights
+UPDATE "notes" SET "searchVector" = note_search_vector("id");
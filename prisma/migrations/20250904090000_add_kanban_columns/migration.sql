@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "BoardLayout" AS ENUM ('MASONRY', 'KANBAN');
+
+-- AlterTable
+ALTER TABLE "boards" ADD COLUMN "layout" "BoardLayout" NOT NULL DEFAULT 'MASONRY';
+
+-- AlterTable
+ALTER TABLE "notes" ADD COLUMN "columnId" TEXT,
+ADD COLUMN "columnOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "board_columns" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "boardId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "board_columns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "board_columns_boardId_order_idx" ON "board_columns"("boardId", "order");
+
+-- CreateIndex
+CREATE INDEX "notes_columnId_columnOrder_idx" ON "notes"("columnId", "columnOrder");
+
+-- AddForeignKey
+ALTER TABLE "board_columns" ADD CONSTRAINT "board_columns_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notes" ADD CONSTRAINT "notes_columnId_fkey" FOREIGN KEY ("columnId") REFERENCES "board_columns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
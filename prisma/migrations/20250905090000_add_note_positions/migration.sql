@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "notes" ADD COLUMN "position" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Keep the current newest-first order of every board
+UPDATE "notes" AS n
+SET "position" = ranked."rank" * 1024
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "boardId" ORDER BY "createdAt" DESC) AS "rank"
+  FROM "notes"
+) AS ranked
+WHERE n."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "notes_boardId_position_idx" ON "notes"("boardId", "position");
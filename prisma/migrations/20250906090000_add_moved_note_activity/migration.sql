@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "NoteActivityAction" ADD VALUE 'MOVED';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "boards" ADD COLUMN "isTemplate" BOOLEAN NOT NULL DEFAULT false;
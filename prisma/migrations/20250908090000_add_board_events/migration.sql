@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "board_events" (
+    "id" SERIAL NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "fromBoardId" TEXT,
+    "data" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "board_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "board_events_organizationId_id_idx" ON "board_events"("organizationId", "id");
+
+-- CreateIndex
+CREATE INDEX "board_events_createdAt_idx" ON "board_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "board_events" ADD CONSTRAINT "board_events_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
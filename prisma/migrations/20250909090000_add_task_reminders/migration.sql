@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ITEM_DUE_SOON';
+ALTER TYPE "NotificationType" ADD VALUE 'ITEM_OVERDUE';
+
+-- AlterTable
+ALTER TABLE "checklist_items" ADD COLUMN "dueSoonRemindedFor" TIMESTAMP(3),
+ADD COLUMN "overdueRemindedFor" TIMESTAMP(3);
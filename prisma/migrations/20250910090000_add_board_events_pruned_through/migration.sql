@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "boardEventsPrunedThrough" INTEGER NOT NULL DEFAULT 0;
@@ -157,7 +157,8 @@ test.describe("Add Task Button", () => {
     const addItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/${note.id}`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "POST" &&
         resp.ok()
     );
 
@@ -0,0 +1,209 @@
+import type { APIRequestContext, Page } from "@playwright/test";
+import { test, expect } from "../fixtures/test-helpers";
+
+// Create a token through the settings API, which only accepts the session cookie
+async function createToken(
+  page: Page,
+  options: { scopes: string[]; boardIds?: string[] }
+): Promise<{ id: string; headers: Record<string, string> }> {
+  const response = await page.request.post("/api/user/api-tokens", {
+    data: { name: "E2E token", ...options },
+  });
+  expect(response.status()).toBe(201);
+  const { apiToken, token } = await response.json();
+  return { id: apiToken.id, headers: { Authorization: `Bearer ${token}` } };
+}
+
+async function getNoteIds(
+  request: APIRequestContext,
+  url: string,
+  headers: Record<string, string>
+) {
+  const response = await request.get(url, { headers });
+  expect(response.status()).toBe(200);
+  const { notes } = await response.json();
+  return notes.map((note: { id: string }) => note.id);
+}
+
+test.describe("API tokens", () => {
+  test("should reject writes with a read-only token", async ({
+    authenticatedPage,
+    request,
+    testContext,
+    testPrisma,
+  }) => {
+    const board = await testPrisma.board.create({
+      data: {
+        name: testContext.getBoardName("Read Board"),
+        createdBy: testContext.userId,
+        organizationId: testContext.organizationId,
+      },
+    });
+    const note = await testPrisma.note.create({
+      data: { color: "#fef3c7", boardId: board.id, createdBy: testContext.userId },
+    });
+    const { headers } = await createToken(authenticatedPage, { scopes: ["READ"] });
+
+    expect(await getNoteIds(request, `/api/boards/${board.id}/notes`, headers)).toEqual([note.id]);
+
+    const created = await request.post(`/api/boards/${board.id}/notes`, {
+      headers,
+      data: { checklistItems: [{ content: testContext.prefix("Token task") }] },
+    });
+    expect(created.status()).toBe(403);
+
+    const edited = await request.put(`/api/boards/${board.id}/notes/${note.id}`, {
+      headers,
+      data: { color: "#dbeafe" },
+    });
+    expect(edited.status()).toBe(403);
+
+    const renamed = await request.put(`/api/boards/${board.id}`, {
+      headers,
+      data: { name: testContext.getBoardName("Renamed Board") },
+    });
+    expect(renamed.status()).toBe(403);
+
+    const createdBoard = await request.post("/api/boards", {
+      headers,
+      data: { name: testContext.getBoardName("Token Board") },
+    });
+    expect(createdBoard.status()).toBe(403);
+
+    const deleted = await request.delete(`/api/boards/${board.id}/notes/${note.id}`, {
+      headers,
+    });
+    expect(deleted.status()).toBe(403);
+
+    expect(await testPrisma.note.count({ where: { boardId: board.id, deletedAt: null } })).toBe(1);
+    expect(
+      await testPrisma.board.count({ where: { organizationId: testContext.organizationId } })
+    ).toBe(1);
+  });
+
+  test("should limit a token to its boards, including the trash", async ({
+    authenticatedPage,
+    request,
+    testContext,
+    testPrisma,
+  }) => {
+    // Admins can purge the trash, so only the token's board scope stands in the way
+    await testPrisma.organizationMember.update({
+      where: {
+        organizationId_userId: {
+          organizationId: testContext.organizationId,
+          userId: testContext.userId,
+        },
+      },
+      data: { role: "ADMIN" },
+    });
+
+    const [allowedBoard, otherBoard] = await Promise.all(
+      ["Allowed Board", "Other Board"].map((name) =>
+        testPrisma.board.create({
+          data: {
+            name: testContext.getBoardName(name),
+            createdBy: testContext.userId,
+            organizationId: testContext.organizationId,
+          },
+        })
+      )
+    );
+    const [allowedTrashed, otherTrashed] = await Promise.all(
+      [allowedBoard, otherBoard].map((board) =>
+        testPrisma.note.create({
+          data: {
+            color: "#fef3c7",
+            boardId: board.id,
+            createdBy: testContext.userId,
+            deletedAt: new Date(),
+          },
+        })
+      )
+    );
+    const { headers } = await createToken(authenticatedPage, {
+      scopes: ["READ", "WRITE"],
+      boardIds: [allowedBoard.id],
+    });
+
+    const boardsResponse = await request.get("/api/boards", { headers });
+    expect(boardsResponse.status()).toBe(200);
+    const { boards } = await boardsResponse.json();
+    expect(boards.map((board: { id: string }) => board.id)).toEqual([allowedBoard.id]);
+
+    const otherNotes = await request.get(`/api/boards/${otherBoard.id}/notes`, { headers });
+    expect(otherNotes.status()).toBe(403);
+
+    const createdOnAllowed = await request.post(`/api/boards/${allowedBoard.id}/notes`, {
+      headers,
+      data: { checklistItems: [{ content: testContext.prefix("Allowed task") }] },
+    });
+    expect(createdOnAllowed.status()).toBe(201);
+
+    const createdOnOther = await request.post(`/api/boards/${otherBoard.id}/notes`, {
+      headers,
+      data: { checklistItems: [{ content: testContext.prefix("Blocked task") }] },
+    });
+    expect(createdOnOther.status()).toBe(403);
+
+    expect(await getNoteIds(request, "/api/boards/trash/notes", headers)).toEqual([
+      allowedTrashed.id,
+    ]);
+
+    const purgedOther = await request.delete(`/api/boards/trash/notes/${otherTrashed.id}`, {
+      headers,
+    });
+    expect(purgedOther.status()).toBe(403);
+    expect(await testPrisma.note.findUnique({ where: { id: otherTrashed.id } })).not.toBeNull();
+
+    const restoredOther = await request.post(`/api/boards/trash/notes/${otherTrashed.id}/restore`, {
+      headers,
+    });
+    expect(restoredOther.status()).toBe(403);
+
+    const purgedAllowed = await request.delete(`/api/boards/trash/notes/${allowedTrashed.id}`, {
+      headers,
+    });
+    expect(purgedAllowed.status()).toBe(200);
+    expect(await testPrisma.note.findUnique({ where: { id: allowedTrashed.id } })).toBeNull();
+  });
+
+  test("should reject revoked and expired tokens", async ({
+    authenticatedPage,
+    request,
+    testContext,
+    testPrisma,
+  }) => {
+    const board = await testPrisma.board.create({
+      data: {
+        name: testContext.getBoardName("Token Board"),
+        createdBy: testContext.userId,
+        organizationId: testContext.organizationId,
+      },
+    });
+
+    const revoked = await createToken(authenticatedPage, { scopes: ["READ"] });
+    expect(await getNoteIds(request, `/api/boards/${board.id}/notes`, revoked.headers)).toEqual([]);
+
+    const revokeResponse = await authenticatedPage.request.delete(
+      `/api/user/api-tokens/${revoked.id}`
+    );
+    expect(revokeResponse.ok()).toBeTruthy();
+
+    const afterRevoke = await request.get(`/api/boards/${board.id}/notes`, {
+      headers: revoked.headers,
+    });
+    expect(afterRevoke.status()).toBe(401);
+
+    const expired = await createToken(authenticatedPage, { scopes: ["READ"] });
+    await testPrisma.apiToken.update({
+      where: { id: expired.id },
+      data: { expiresAt: new Date(Date.now() - 60 * 1000) },
+    });
+
+    const afterExpiry = await request.get(`/api/boards/${board.id}/notes`, {
+      headers: expired.headers,
+    });
+    expect(afterExpiry.status()).toBe(401);
+  });
+});
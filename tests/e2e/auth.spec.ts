@@ -87,7 +87,7 @@ test.describe("Authentication Flow", () => {
         email: testContext.userEmail,
         name: "Google User",
         image: "https://example.com/avatar.jpg",
-        organizationId: testContext.organizationId,
+        memberships: { create: { organizationId: testContext.organizationId } },
       },
     });
 
@@ -120,7 +120,7 @@ test.describe("Authentication Flow", () => {
         email: testContext.userEmail,
         name: "GitHub User",
         image: "https://avatars.githubusercontent.com/u/123?v=4",
-        organizationId: testContext.organizationId,
+        memberships: { create: { organizationId: testContext.organizationId } },
       },
     });
 
@@ -0,0 +1,177 @@
+import type { BoardRole, PrismaClient } from "@prisma/client";
+import { test, expect, type TestContext } from "../fixtures/test-helpers";
+
+// A board created by another member of the organization, with the test user added in `role`
+// and a note written by the board's creator
+async function createBoardWithRole(
+  testContext: TestContext,
+  testPrisma: PrismaClient,
+  role: BoardRole
+) {
+  const creator = await testPrisma.user.create({
+    data: {
+      id: testContext.prefix("usr_creator"),
+      email: `creator-${testContext.testId}@example.com`,
+      name: "Board Creator",
+      memberships: { create: { organizationId: testContext.organizationId } },
+    },
+  });
+
+  const board = await testPrisma.board.create({
+    data: {
+      name: testContext.getBoardName("Role Board"),
+      createdBy: creator.id,
+      organizationId: testContext.organizationId,
+      members: {
+        create: [
+          { userId: creator.id, role: "OWNER" },
+          { userId: testContext.userId, role },
+        ],
+      },
+    },
+  });
+
+  const creatorNote = await testPrisma.note.create({
+    data: {
+      color: "#fef3c7",
+      boardId: board.id,
+      createdBy: creator.id,
+      checklistItems: {
+        create: [{ content: testContext.prefix("Creator task"), order: 0 }],
+      },
+    },
+  });
+
+  return { creator, board, creatorNote };
+}
+
+test.describe("Board roles", () => {
+  test("should let owners manage the board and every note", async ({
+    authenticatedPage,
+    testContext,
+    testPrisma,
+  }) => {
+    const { creator, board, creatorNote } = await createBoardWithRole(
+      testContext,
+      testPrisma,
+      "OWNER"
+    );
+    const api = authenticatedPage.request;
+
+    const boardResponse = await api.get(`/api/boards/${board.id}`);
+    expect(boardResponse.status()).toBe(200);
+    expect((await boardResponse.json()).board.role).toBe("OWNER");
+
+    const renamed = await api.put(`/api/boards/${board.id}`, {
+      data: { name: testContext.getBoardName("Renamed Board") },
+    });
+    expect(renamed.status()).toBe(200);
+
+    const editedNote = await api.put(`/api/boards/${board.id}/notes/${creatorNote.id}`, {
+      data: { color: "#dbeafe" },
+    });
+    expect(editedNote.status()).toBe(200);
+
+    const addedMember = await api.post(`/api/boards/${board.id}/members`, {
+      data: { userId: creator.id, role: "VIEWER" },
+    });
+    expect(addedMember.ok()).toBeTruthy();
+
+    const deleted = await api.delete(`/api/boards/${board.id}`);
+    expect(deleted.status()).toBe(200);
+    expect(await testPrisma.board.findUnique({ where: { id: board.id } })).toBeNull();
+  });
+
+  test("should let editors add and edit their own notes only", async ({
+    authenticatedPage,
+    testContext,
+    testPrisma,
+  }) => {
+    const { creator, board, creatorNote } = await createBoardWithRole(
+      testContext,
+      testPrisma,
+      "EDITOR"
+    );
+    const api = authenticatedPage.request;
+
+    const created = await api.post(`/api/boards/${board.id}/notes`, {
+      data: { checklistItems: [{ content: testContext.prefix("Editor task") }] },
+    });
+    expect(created.status()).toBe(201);
+    const { note } = await created.json();
+
+    const editedOwnNote = await api.put(`/api/boards/${board.id}/notes/${note.id}`, {
+      data: { color: "#dbeafe" },
+    });
+    expect(editedOwnNote.status()).toBe(200);
+
+    const editedOtherNote = await api.put(`/api/boards/${board.id}/notes/${creatorNote.id}`, {
+      data: { color: "#dbeafe" },
+    });
+    expect(editedOtherNote.status()).toBe(403);
+
+    const deletedOtherNote = await api.delete(`/api/boards/${board.id}/notes/${creatorNote.id}`);
+    expect(deletedOtherNote.status()).toBe(403);
+
+    const renamed = await api.put(`/api/boards/${board.id}`, {
+      data: { name: testContext.getBoardName("Renamed Board") },
+    });
+    expect(renamed.status()).toBe(403);
+
+    const addedMember = await api.post(`/api/boards/${board.id}/members`, {
+      data: { userId: creator.id, role: "VIEWER" },
+    });
+    expect(addedMember.status()).toBe(403);
+
+    const deleted = await api.delete(`/api/boards/${board.id}`);
+    expect(deleted.status()).toBe(403);
+
+    const unchangedNote = await testPrisma.note.findUniqueOrThrow({
+      where: { id: creatorNote.id },
+    });
+    expect(unchangedNote.color).toBe("#fef3c7");
+    expect(unchangedNote.deletedAt).toBeNull();
+  });
+
+  for (const role of ["COMMENTER", "VIEWER"] as const) {
+    test(`should keep the board read-only for ${role.toLowerCase()}s`, async ({
+      authenticatedPage,
+      testContext,
+      testPrisma,
+    }) => {
+      const { board, creatorNote } = await createBoardWithRole(testContext, testPrisma, role);
+      const api = authenticatedPage.request;
+
+      const boardResponse = await api.get(`/api/boards/${board.id}`);
+      expect(boardResponse.status()).toBe(200);
+      expect((await boardResponse.json()).board.role).toBe(role);
+
+      const notesResponse = await api.get(`/api/boards/${board.id}/notes`);
+      expect(notesResponse.status()).toBe(200);
+      const { notes } = await notesResponse.json();
+      expect(notes.map((n: { id: string }) => n.id)).toEqual([creatorNote.id]);
+
+      const created = await api.post(`/api/boards/${board.id}/notes`, {
+        data: { checklistItems: [{ content: testContext.prefix("Blocked task") }] },
+      });
+      expect(created.status()).toBe(403);
+
+      const editedNote = await api.put(`/api/boards/${board.id}/notes/${creatorNote.id}`, {
+        data: { color: "#dbeafe" },
+      });
+      expect(editedNote.status()).toBe(403);
+
+      const renamed = await api.put(`/api/boards/${board.id}`, {
+        data: { name: testContext.getBoardName("Renamed Board") },
+      });
+      expect(renamed.status()).toBe(403);
+
+      const deleted = await api.delete(`/api/boards/${board.id}`);
+      expect(deleted.status()).toBe(403);
+
+      expect(await testPrisma.note.count({ where: { boardId: board.id, deletedAt: null } })).toBe(
+        1
+      );
+    });
+  }
+});
@@ -0,0 +1,160 @@
+import type { PrismaClient } from "@prisma/client";
+import { test, expect, type TestContext } from "../fixtures/test-helpers";
+
+async function createNote(testContext: TestContext, testPrisma: PrismaClient) {
+  const board = await testPrisma.board.create({
+    data: {
+      name: testContext.getBoardName("Checklist Board"),
+      createdBy: testContext.userId,
+      organizationId: testContext.organizationId,
+    },
+  });
+  const note = await testPrisma.note.create({
+    data: {
+      color: "#fef3c7",
+      boardId: board.id,
+      createdBy: testContext.userId,
+      checklistItems: {
+        create: [
+          { id: testContext.prefix("item-a"), content: testContext.prefix("Item A"), order: 0 },
+          { id: testContext.prefix("item-b"), content: testContext.prefix("Item B"), order: 1 },
+        ],
+      },
+    },
+  });
+  return { board, note, url: `/api/boards/${board.id}/notes/${note.id}/checklist-items` };
+}
+
+test.describe("Checklist item routes", () => {
+  test("should add, update and delete single items and bump the note version", async ({
+    authenticatedPage,
+    testContext,
+    testPrisma,
+  }) => {
+    const { note, url } = await createNote(testContext, testPrisma);
+    const api = authenticatedPage.request;
+    const itemA = testContext.prefix("item-a");
+
+    const created = await api.post(url, { data: { content: testContext.prefix("Item C") } });
+    expect(created.status()).toBe(201);
+    expect(created.headers()["etag"]).toBe('"2"');
+    const { item, note: createdNote } = await created.json();
+    expect(item.order).toBe(2);
+    expect(createdNote.version).toBe(2);
+    expect(createdNote.checklistItems).toHaveLength(3);
+
+    const toggled = await api.patch(`${url}/${itemA}`, { data: { checked: true } });
+    expect(toggled.status()).toBe(200);
+    expect(toggled.headers()["etag"]).toBe('"3"');
+    expect((await toggled.json()).item.checked).toBe(true);
+
+    const edited = await api.patch(`${url}/${itemA}`, {
+      data: { content: testContext.prefix("Item A edited") },
+    });
+    expect(edited.status()).toBe(200);
+
+    const deleted = await api.delete(`${url}/${item.id}`);
+    expect(deleted.status()).toBe(200);
+    expect((await deleted.json()).note.version).toBe(5);
+
+    const stored = await testPrisma.note.findUniqueOrThrow({
+      where: { id: note.id },
+      include: { checklistItems: { orderBy: { order: "asc" } } },
+    });
+    expect(stored.version).toBe(5);
+    expect(stored.checklistItems.map((i) => [i.content, i.checked])).toEqual([
+      [testContext.prefix("Item A edited"), true],
+      [testContext.prefix("Item B"), false],
+    ]);
+  });
+
+  test("should reorder items and move them under another parent", async ({
+    authenticatedPage,
+    testContext,
+    testPrisma,
+  }) => {
+    const { note, url } = await createNote(testContext, testPrisma);
+    const itemA = testContext.prefix("item-a");
+    const itemB = testContext.prefix("item-b");
+
+    const reordered = await authenticatedPage.request.put(`${url}/reorder`, {
+      data: { itemIds: [itemB, itemA] },
+    });
+    expect(reordered.status()).toBe(200);
+
+    const indented = await authenticatedPage.request.put(`${url}/reorder`, {
+      data: { itemIds: [itemB, itemA], parentIds: { [itemA]: itemB } },
+    });
+    expect(indented.status()).toBe(200);
+
+    const items = await testPrisma.checklistItem.findMany({
+      where: { noteId: note.id },
+      orderBy: { order: "asc" },
+    });
+    expect(items.map((i) => [i.id, i.parentId])).toEqual([
+      [itemB, null],
+      [itemA, itemB],
+    ]);
+  });
+
+  test("should return 404 for items and notes that don't exist", async ({
+    authenticatedPage,
+    testContext,
+    testPrisma,
+  }) => {
+    const { board, url } = await createNote(testContext, testPrisma);
+    const api = authenticatedPage.request;
+
+    const patched = await api.patch(`${url}/missing-item`, { data: { checked: true } });
+    expect(patched.status()).toBe(404);
+
+    const deleted = await api.delete(`${url}/missing-item`);
+    expect(deleted.status()).toBe(404);
+
+    const missingNote = await api.post(
+      `/api/boards/${board.id}/notes/missing-note/checklist-items`,
+      {
+        data: { content: testContext.prefix("Item C") },
+      }
+    );
+    expect(missingNote.status()).toBe(404);
+  });
+
+  test("should reject requests without a session or edit rights", async ({
+    authenticatedPage,
+    request,
+    testContext,
+    testPrisma,
+  }) => {
+    const { board, note, url } = await createNote(testContext, testPrisma);
+    const itemA = testContext.prefix("item-a");
+
+    const unauthenticated = [
+      await request.post(url, { data: { content: testContext.prefix("Item C") } }),
+      await request.patch(`${url}/${itemA}`, { data: { checked: true } }),
+      await request.delete(`${url}/${itemA}`),
+      await request.put(`${url}/reorder`, { data: { itemIds: [itemA] } }),
+    ];
+    expect(unauthenticated.map((response) => response.status())).toEqual([401, 401, 401, 401]);
+
+    // Viewers can read the board but not change its notes
+    await testPrisma.boardMember.create({
+      data: { boardId: board.id, userId: testContext.userId, role: "VIEWER" },
+    });
+    const api = authenticatedPage.request;
+    const forbidden = [
+      await api.post(url, { data: { content: testContext.prefix("Item C") } }),
+      await api.patch(`${url}/${itemA}`, { data: { checked: true } }),
+      await api.delete(`${url}/${itemA}`),
+      await api.put(`${url}/reorder`, { data: { itemIds: [itemA] } }),
+    ];
+    expect(forbidden.map((response) => response.status())).toEqual([403, 403, 403, 403]);
+
+    const stored = await testPrisma.note.findUniqueOrThrow({
+      where: { id: note.id },
+      include: { checklistItems: true },
+    });
+    expect(stored.version).toBe(1);
+    expect(stored.checklistItems).toHaveLength(2);
+  });
+});
@@ -101,7 +101,8 @@ test.describe("Home Page", () => {
     const toggleResponse1 = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await uncheckedCheckbox.click();
@@ -120,7 +121,8 @@ test.describe("Home Page", () => {
     const toggleResponse2 = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await uncheckedCheckbox.click();
@@ -142,7 +144,8 @@ test.describe("Home Page", () => {
     const addItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "POST" &&
         resp.ok()
     );
     await expect(newItemInput).toBeVisible();
@@ -167,7 +170,8 @@ test.describe("Home Page", () => {
     const editResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await editInput.fill(updatedFinanceText);
@@ -188,7 +192,8 @@ test.describe("Home Page", () => {
     const deleteItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "DELETE" &&
         resp.ok()
     );
     await authenticatedPage
@@ -241,7 +246,8 @@ test.describe("Home Page", () => {
     const addSplitItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "POST" &&
         resp.ok()
     );
     await expect(splitNewItemInput).toBeVisible();
@@ -265,7 +271,8 @@ test.describe("Home Page", () => {
     const splitResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
 
@@ -304,6 +311,7 @@ test.describe("Home Page", () => {
     const reorderResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${demoBoard.id}/notes/`) &&
+        resp.url().includes("/checklist-items/reorder") &&
         resp.request().method() === "PUT" &&
         resp.ok()
     );
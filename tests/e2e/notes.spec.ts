@@ -106,7 +106,8 @@ test.describe("Note Management", () => {
     const saveEditResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await editInput.fill(editedContent);
@@ -169,7 +170,8 @@ test.describe("Note Management", () => {
     const toggleResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await checkbox.click();
@@ -188,7 +190,8 @@ test.describe("Note Management", () => {
     const addItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "POST" &&
         resp.ok(),
       { timeout: 15000 }
     );
@@ -214,7 +217,8 @@ test.describe("Note Management", () => {
     const editResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await editInput.fill(editedContent);
@@ -231,7 +235,8 @@ test.describe("Note Management", () => {
     const deleteResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "DELETE" &&
         resp.ok()
     );
     await authenticatedPage
@@ -278,7 +283,8 @@ test.describe("Note Management", () => {
     const addFirstItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "POST" &&
         resp.ok()
     );
     await initialInput.fill(firstItemContent);
@@ -383,7 +389,8 @@ test.describe("Note Management", () => {
     const toggleResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "PATCH" &&
         resp.ok()
     );
     await checkbox.click();
@@ -438,7 +445,8 @@ test.describe("Note Management", () => {
     const deleteItemResponse = authenticatedPage.waitForResponse(
       (resp) =>
         resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-        resp.request().method() === "PUT" &&
+        resp.url().includes("/checklist-items") &&
+        resp.request().method() === "DELETE" &&
         resp.ok()
     );
     await authenticatedPage.getByRole("button", { name: "Delete item", exact: true }).click();
@@ -525,6 +533,7 @@ test.describe("Note Management", () => {
       const reorderResponse = authenticatedPage.waitForResponse(
         (resp) =>
           resp.url().includes(`/api/boards/${board.id}/notes/`) &&
+          resp.url().includes("/checklist-items/reorder") &&
           resp.request().method() === "PUT" &&
           resp.ok()
       );
@@ -819,7 +828,8 @@ test.describe("Note Management", () => {
       const addItemResponse = authenticatedPage.waitForResponse(
         (resp) =>
           resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-          resp.request().method() === "PUT" &&
+          resp.url().includes("/checklist-items") &&
+          resp.request().method() === "POST" &&
           resp.ok(),
         { timeout: 15000 }
       );
@@ -885,7 +895,8 @@ test.describe("Note Management", () => {
       const addItemResponse = authenticatedPage.waitForResponse(
         (resp) =>
           resp.url().includes(`/api/boards/${board.id}/notes/`) &&
-          resp.request().method() === "PUT" &&
+          resp.url().includes("/checklist-items") &&
+          resp.request().method() === "POST" &&
           resp.ok(),
         { timeout: 15000 }
       );
@@ -1005,7 +1016,7 @@ test.describe("Note Management", () => {
           id: otherUserId,
           email: `other-${testContext.testId}@example.com`,
           name: "Other User",
-          organizationId: testContext.organizationId,
+          memberships: { create: { organizationId: testContext.organizationId } },
         },
       });
 
@@ -1268,7 +1279,7 @@ test.describe("Note Management", () => {
         id: testContext.prefix("other-user"),
         email: testContext.prefix("other@example.com"),
         name: testContext.prefix("Other User"),
-        organizationId: testContext.organizationId,
+        memberships: { create: { organizationId: testContext.organizationId } },
       },
     });
 
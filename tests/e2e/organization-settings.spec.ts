@@ -3,9 +3,14 @@ import { test, expect } from "../fixtures/test-helpers";
 test.describe("Organization Settings", () => {
   test.beforeEach(async ({ testPrisma, testContext }) => {
     // Make the test user an admin
-    await testPrisma.user.update({
-      where: { id: testContext.userId },
-      data: { isAdmin: true },
+    await testPrisma.organizationMember.update({
+      where: {
+        organizationId_userId: {
+          organizationId: testContext.organizationId,
+          userId: testContext.userId,
+        },
+      },
+      data: { role: "ADMIN" },
     });
   });
 
@@ -151,9 +156,14 @@ test.describe("Organization Settings", () => {
     testPrisma,
   }) => {
     // Make the test user NOT an admin
-    await testPrisma.user.update({
-      where: { id: testContext.userId },
-      data: { isAdmin: false },
+    await testPrisma.organizationMember.update({
+      where: {
+        organizationId_userId: {
+          organizationId: testContext.organizationId,
+          userId: testContext.userId,
+        },
+      },
+      data: { role: "MEMBER" },
     });
 
     // Update organization to have an existing name
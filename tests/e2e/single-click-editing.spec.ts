@@ -119,7 +119,7 @@ test.describe("Single-Click Note Editing", () => {
       data: {
         email: testContext.prefix("different@example.com"),
         name: "Different User",
-        organizationId: differentOrg.id,
+        memberships: { create: { organizationId: differentOrg.id } },
       },
     });
 
@@ -56,7 +56,9 @@ export class TestContext {
           id: this.userId,
           email: this.userEmail,
           name: `Test User ${this.testId}`,
-          organizationId: this.organizationId,
+          memberships: {
+            create: { organizationId: this.organizationId },
+          },
         },
       });
 
@@ -110,7 +112,7 @@ export class TestContext {
 
           await tx.user.deleteMany({
             where: {
-              organizationId: this.organizationId,
+              memberships: { some: { organizationId: this.organizationId } },
             },
           });
 